@@ -2,39 +2,72 @@
 // approval-buttons · index.ts (v5.0.0)
 // Plugin entry point — orchestration only, all logic lives in lib/
 //
-// Adds inline keyboard/button approval messages to Telegram and Slack.
+// Adds inline keyboard/button approval messages to Telegram, Slack and Discord,
+// plus any channel another plugin registers via registerApprovalAdapter().
 // When a user taps a button, OpenClaw processes the /approve command
 // automatically via the channel's callback mechanism.
 // ─────────────────────────────────────────────────────────────────────────────
 
-import type { PluginConfig } from "./types.js";
+import type { ChannelAdapter, PluginConfig } from "./types.js";
 
 // ── Modules ─────────────────────────────────────────────────────────────────
 
 import { TelegramApi } from "./lib/telegram-api.js";
 import { SlackApi } from "./lib/slack-api.js";
+import { DiscordApi } from "./lib/discord-api.js";
+import { TelegramAdapter } from "./lib/telegram-adapter.js";
+import { SlackAdapter } from "./lib/slack-adapter.js";
+import { DiscordAdapter } from "./lib/discord-adapter.js";
+import { sharedAdapterRegistry } from "./lib/channel-adapter.js";
 import { ApprovalStore } from "./lib/approval-store.js";
-import { parseApprovalText, detectApprovalResult } from "./lib/approval-parser.js";
+import { ApprovalCoordinator } from "./lib/approval-coordinator.js";
+import { ApproverPolicy } from "./lib/approver-policy.js";
+import { GatewayDecisionDispatcher, gatewayCallFrom } from "./lib/decision-dispatcher.js";
+import { JsonFilePersistence, pendingFilePath } from "./lib/approval-persistence.js";
+import { AuditLog, auditFilePath } from "./lib/audit-log.js";
+import { SlackInteractivityHandler } from "./lib/slack-interactivity.js";
+import { TelegramUpdateReceiver } from "./lib/telegram-updates.js";
+import { AllowGrants, grantsFilePath } from "./lib/allow-grants.js";
+import { DeliveryOutbox, outboxFilePath } from "./lib/delivery-outbox.js";
+import { GatewayExecAllowlist } from "./lib/exec-allowlist.js";
+import { ApprovalDigests } from "./lib/approval-digest.js";
+import { EscalationScheduler } from "./lib/approval-escalation.js";
+import { CountdownScheduler } from "./lib/approval-countdown.js";
 import {
-  formatApprovalRequest,
-  formatApprovalResolved,
-  formatApprovalExpired,
-  buildApprovalKeyboard,
   formatHealthCheck,
+  formatAuditLog,
+  formatGrantList,
+  buildGrantKeyboard,
+  formatRevokeResult,
 } from "./lib/message-formatter.js";
-import {
-  formatSlackApprovalRequest,
-  formatSlackApprovalResolved,
-  formatSlackApprovalExpired,
-  slackFallbackText,
-} from "./lib/slack-formatter.js";
 import {
   resolveConfig,
   runHealthCheck,
   logStartupDiagnostics,
   runStartupChecks,
+  validatePolicy,
 } from "./lib/diagnostics.js";
 
+// ── Public surface for other plugins ────────────────────────────────────────
+
+export type {
+  ApprovalAction,
+  ApprovalInfo,
+  ChannelAdapter,
+  ChannelProbe,
+  MessageRef,
+} from "./types.js";
+
+/**
+ * Register an additional approval channel at runtime.
+ *
+ * Approvals that OpenClaw sends on `adapter.id` are then intercepted and
+ * routed through the adapter. Returns a function that unregisters it.
+ */
+export function registerApprovalAdapter(adapter: ChannelAdapter<any>): () => void {
+  return sharedAdapterRegistry().register(adapter);
+}
+
 // ── Constants ───────────────────────────────────────────────────────────────
 
 const PLUGIN_VERSION = "5.0.0";
@@ -51,6 +84,7 @@ function register(api: any): void {
   const pluginCfg: PluginConfig = api.pluginConfig ?? {};
   const telegramCfg = api.config?.channels?.telegram ?? {};
   const slackCfg = api.config?.channels?.slack ?? {};
+  const discordCfg = api.config?.channels?.discord ?? {};
 
   const config = resolveConfig(
     {
@@ -62,68 +96,162 @@ function register(api: any): void {
       slackChannelConfig: {
         token: slackCfg.token,
         botToken: slackCfg.botToken,
+        signingSecret: slackCfg.signingSecret,
         allowFrom: slackCfg.allowFrom,
       },
+      discordChannelConfig: {
+        token: discordCfg.token || discordCfg.botToken,
+        allowFrom: discordCfg.dm?.allowFrom ?? discordCfg.allowFrom,
+      },
+      runtimeStateDir: api.runtime?.state?.resolveStateDir?.(),
       env: {
         TELEGRAM_BOT_TOKEN: process.env.TELEGRAM_BOT_TOKEN,
         TELEGRAM_CHAT_ID: process.env.TELEGRAM_CHAT_ID,
         SLACK_BOT_TOKEN: process.env.SLACK_BOT_TOKEN,
         SLACK_CHANNEL_ID: process.env.SLACK_CHANNEL_ID,
+        SLACK_SIGNING_SECRET: process.env.SLACK_SIGNING_SECRET,
+        DISCORD_BOT_TOKEN: process.env.DISCORD_BOT_TOKEN,
+        DISCORD_CHANNEL_ID: process.env.DISCORD_CHANNEL_ID,
+        OPENCLAW_STATE_DIR: process.env.OPENCLAW_STATE_DIR,
       },
     },
     log,
   );
 
-  if (!config) {
-    log.warn(`[${TAG}] v${PLUGIN_VERSION} loaded (DISABLED — no channels configured)`);
-    return;
+  logStartupDiagnostics(config, log);
+
+  // ─── 2. Register built-in channel adapters ───────────────────────────
+
+  const adapters = sharedAdapterRegistry();
+  const apiLog = config.verbose ? log : undefined;
+
+  // Auto-decisions and direct decisions (reasoned denies, edits, endpoints) need the gateway RPC
+  const gatewayCall = gatewayCallFrom(api);
+  const dispatcher = gatewayCall ? new GatewayDecisionDispatcher(gatewayCall, log) : null;
+  const servesHttp = typeof api.registerHttpRoute === "function";
+
+  const tg = config.telegram ? new TelegramApi(config.telegram.botToken, apiLog) : null;
+  if (config.telegram && tg) {
+    adapters.register(new TelegramAdapter(tg, config.telegram.chatIds, dispatcher !== null));
   }
 
-  logStartupDiagnostics(config, log);
+  if (config.slack) {
+    const slack = new SlackApi(config.slack.botToken, apiLog);
+    // The reason and edit modals are opened and submitted through the interactivity endpoint
+    const prompts = dispatcher !== null && servesHttp && !!config.slack.signingSecret;
+    adapters.register(new SlackAdapter(slack, config.slack.channelIds, prompts));
+  }
 
-  // ─── 2. Initialize API clients ────────────────────────────────────────
+  if (config.discord) {
+    const discord = new DiscordApi(config.discord.botToken, apiLog);
+    adapters.register(new DiscordAdapter(discord, config.discord));
+  }
 
-  const tg = config.telegram
-    ? new TelegramApi(config.telegram.botToken, config.verbose ? log : undefined)
-    : null;
+  // ─── 3. Initialize store with expiry handler ──────────────────────────
+
+  const persistence = config.persist
+    ? new JsonFilePersistence(pendingFilePath(config.stateDir), log)
+    : undefined;
 
-  const slack = config.slack
-    ? new SlackApi(config.slack.botToken, config.verbose ? log : undefined)
+  const audit = config.audit
+    ? new AuditLog(auditFilePath(config.stateDir), config.audit.maxBytes, config.audit.maxFiles, log)
     : null;
 
-  // ─── 3. Initialize store with expiry handler ──────────────────────────
+  // Resolve / expire / escalate edits that fail are retried (and survive restarts with persist)
+  const outbox = new DeliveryOutbox(
+    adapters,
+    config.persist ? outboxFilePath(config.stateDir) : undefined,
+    log,
+  );
 
   const store = new ApprovalStore(
     config.staleMins * 60_000,
     config.verbose ? log : undefined,
-    // onExpired: edit the message to show "expired"
+    // onExpired: edit every copy of the message to show "expired" (the outbox retries failed edits)
     (entry) => {
-      if (entry.channel === "telegram" && tg && config.telegram) {
-        tg.editMessageText(
-          config.telegram.chatId,
-          entry.messageId,
-          formatApprovalExpired(entry.info),
-        ).catch(() => {});
-      } else if (entry.channel === "slack" && slack && config.slack) {
-        slack.updateMessage(
-          config.slack.channelId,
-          entry.slackTs,
-          "Exec Approval Expired",
-          formatSlackApprovalExpired(entry.info),
-        ).catch(() => {});
-      }
+      coordinator.markExpired(entry).catch(() => {});
+    },
+    persistence,
+  );
+
+  // Without the gateway RPC every approval asks
+  const policy = validatePolicy(config, log);
+  if (policy.size > 0 && !dispatcher) {
+    log.warn(`[${TAG}] this OpenClaw build exposes no gateway call — policy rules will ask instead`);
+  }
+
+  // Binary grants live in OpenClaw's exec allowlist; revoking them edits it over the gateway
+  const grants = new AllowGrants(
+    grantsFilePath(config.stateDir),
+    log,
+    gatewayCall ? new GatewayExecAllowlist(gatewayCall, log) : null,
+    // onExpired: announce that a timed grant lapsed
+    (grant) => {
+      coordinator.grantExpired(grant).catch(() => {});
     },
   );
 
-  // ─── 4. Register background service (cleanup timer) ──────────────────
+  // Digest decisions are submitted by the plugin, so batching needs the gateway call
+  const digests = config.batchWindowMs > 0 ? new ApprovalDigests(config.batchWindowMs) : null;
+  if (digests && !dispatcher) {
+    log.warn(`[${TAG}] batchWindowSecs needs the gateway call to submit decisions — batching is off`);
+  }
+
+  const approvers = new ApproverPolicy(config.approvers, config.alwaysApprovers);
+  const coordinator = new ApprovalCoordinator(adapters, store, log, {
+    audit,
+    approvers,
+    quorum: config.quorum,
+    policy,
+    dispatcher,
+    grants,
+    digests,
+    outbox,
+  });
+
+  // Shows the time left on pending requests
+  const countdown = config.liveCountdown ? new CountdownScheduler(store, coordinator, log) : null;
+
+  // Reminders / escalation for approvals nobody answers
+  const escalation = config.escalation
+    ? new EscalationScheduler(config.escalation, store, coordinator, log)
+    : null;
+
+  // Optional: receive Telegram button presses without OpenClaw relaying them
+  const tgUpdates = config.telegram?.updates ?? null;
+  const tgChats = [...(config.telegram?.chatIds ?? []), ...(config.escalation?.targets.telegram ?? [])];
+  const tgReceiver = tg && tgUpdates ? new TelegramUpdateReceiver(tg, coordinator, tgChats, log) : null;
+  let tgWebhookServed = false; // set once the webhook route is registered (step 11)
+  if (tgReceiver && !dispatcher) {
+    log.warn(`[${TAG}] telegramUpdates needs the gateway call to submit decisions — presses will fail`);
+  }
+
+  // ─── 4. Register background service (expiry timers) ──────────────────
 
   api.registerService({
     id: `${TAG}-cleanup`,
     start: () => {
+      // Rehydrates persisted approvals and expires the ones that went stale
       store.start();
-      runStartupChecks(tg, slack, log).catch(() => {});
+      grants.start();
+      outbox.start();
+      countdown?.start();
+      escalation?.start();
+      runStartupChecks(adapters.list(), log).catch(() => {});
+      if (tgUpdates?.mode === "webhook" && tgWebhookServed) {
+        tgReceiver?.registerWebhook(tgUpdates.url, tgUpdates.secret).catch(() => {});
+      } else if (tgUpdates?.mode === "polling") {
+        tgReceiver?.start();
+      }
+    },
+    stop: async () => {
+      store.stop();
+      grants.stop();
+      outbox.stop();
+      countdown?.stop();
+      escalation?.stop();
+      await tgReceiver?.stop();
     },
-    stop: () => store.stop(),
   });
 
   // ─── 5. Register /approvalstatus command ─────────────────────────────
@@ -134,12 +262,51 @@ function register(api: any): void {
     acceptsArgs: false,
     requireAuth: true,
     handler: async () => {
-      const health = await runHealthCheck(config, tg, slack, store, startedAt);
+      const health = await runHealthCheck(
+        adapters.list(),
+        store,
+        coordinator.parseStats,
+        startedAt,
+        outbox.stats,
+      );
       return { text: formatHealthCheck(health) };
     },
   });
 
-  // ─── 6. Register message_sending hook ────────────────────────────────
+  // ─── 6. Register /approvalaudit command ───────────────────────────────
+
+  api.registerCommand({
+    name: "approvalaudit",
+    description: "Show the last N approval decisions (default 10)",
+    acceptsArgs: true,
+    requireAuth: true,
+    handler: async (ctx: { args?: string }) => {
+      if (!audit) return { text: "Approval audit log is disabled (audit: false)." };
+      const requested = parseInt(ctx?.args?.trim() ?? "", 10);
+      const count = Number.isFinite(requested) && requested > 0 ? Math.min(requested, 50) : 10;
+      return { text: formatAuditLog(audit.tail(count)) };
+    },
+  });
+
+  // ─── 7. Register /approvalrules command ───────────────────────────────
+
+  api.registerCommand({
+    name: "approvalrules",
+    description: "List Always and timed grants made through the plugin, or revoke one (revoke <id>)",
+    acceptsArgs: true,
+    requireAuth: true,
+    handler: async (ctx: { args?: string }) => {
+      const [sub, id] = ctx?.args?.trim().split(/\s+/) ?? [];
+      if (sub?.toLowerCase() === "revoke" && id) {
+        return { text: formatRevokeResult(await grants.revoke(id)) };
+      }
+      const list = grants.list();
+      if (list.length === 0) return { text: formatGrantList(list) };
+      return { text: formatGrantList(list), channelData: { telegram: { buttons: buildGrantKeyboard(list) } } };
+    },
+  });
+
+  // ─── 8. Register message_sending hook ────────────────────────────────
 
   api.on(
     "message_sending",
@@ -147,119 +314,51 @@ function register(api: any): void {
       event: { to: string; content: string; metadata?: Record<string, unknown> },
       ctx: { channelId: string; accountId?: string },
     ) => {
-      // ── Telegram ──────────────────────────────────────────────────
-      if (ctx.channelId === "telegram" && tg && config.telegram) {
-        return handleTelegram(event, config.telegram.chatId, tg, store, log);
-      }
-
-      // ── Slack ─────────────────────────────────────────────────────
-      if (ctx.channelId === "slack" && slack && config.slack) {
-        return handleSlack(event, config.slack.channelId, slack, store, log);
-      }
+      return coordinator.handleOutgoing(event.content, ctx.channelId, event.metadata);
     },
   );
 
-  // ─── Done ─────────────────────────────────────────────────────────────
-
-  const channels = [config.telegram && "Telegram", config.slack && "Slack"]
-    .filter(Boolean)
-    .join(" + ");
-  log.info(`[${TAG}] v${PLUGIN_VERSION} loaded ✓ (${channels})`);
-}
-
-// ─── Channel handlers ───────────────────────────────────────────────────────
-
-async function handleTelegram(
-  event: { content: string },
-  chatId: string,
-  tg: TelegramApi,
-  store: ApprovalStore,
-  log: any,
-): Promise<{ cancel: true } | void> {
-  // Check for approval resolution
-  const resolution = detectApprovalResult(event.content, store.entries());
-  if (resolution) {
-    const entry = store.resolve(resolution.id);
-    if (entry && entry.channel === "telegram") {
-      log.info(`[${TAG}] telegram resolved ${resolution.id.slice(0, 8)}… → ${resolution.action}`);
-      await tg.editMessageText(
-        chatId,
-        entry.messageId,
-        formatApprovalResolved(entry.info, resolution.action),
-      );
-    }
-    return;
-  }
-
-  // Check for new approval request
-  const info = parseApprovalText(event.content);
-  if (!info) return;
-
-  if (store.has(info.id)) return { cancel: true };
-
-  log.info(`[${TAG}] telegram intercepting ${info.id.slice(0, 8)}…`);
+  // ─── 9. Register message_received hook (button presses) ──────────────
 
-  const messageId = await tg.sendMessage(
-    chatId,
-    formatApprovalRequest(info),
-    buildApprovalKeyboard(info.id),
+  api.on(
+    "message_received",
+    async (
+      event: { from?: string; content: string; metadata?: Record<string, unknown> },
+      ctx: { channelId: string; accountId?: string },
+    ) => {
+      return coordinator.handleIncoming(event.content, ctx.channelId, event.metadata, event.from);
+    },
   );
 
-  if (messageId === null) {
-    log.warn(`[${TAG}] telegram send failed for ${info.id.slice(0, 8)}… — falling back`);
-    return;
-  }
-
-  store.add(info.id, "telegram", { messageId }, info);
-  log.info(`[${TAG}] telegram sent buttons for ${info.id.slice(0, 8)}… (msg=${messageId})`);
-  return { cancel: true };
-}
+  // ─── 10. Register Slack interactivity endpoint (optional) ─────────────
 
-async function handleSlack(
-  event: { content: string },
-  channelId: string,
-  slackApi: SlackApi,
-  store: ApprovalStore,
-  log: any,
-): Promise<{ cancel: true } | void> {
-  // Check for approval resolution
-  const resolution = detectApprovalResult(event.content, store.entries());
-  if (resolution) {
-    const entry = store.resolve(resolution.id);
-    if (entry && entry.channel === "slack") {
-      log.info(`[${TAG}] slack resolved ${resolution.id.slice(0, 8)}… → ${resolution.action}`);
-      await slackApi.updateMessage(
-        channelId,
-        entry.slackTs,
-        `Exec ${resolution.action}`,
-        formatSlackApprovalResolved(entry.info, resolution.action),
-      );
+  if (config.slack?.signingSecret) {
+    const handler = new SlackInteractivityHandler(config.slack.signingSecret, coordinator, log);
+    if (!servesHttp) {
+      log.warn(`[${TAG}] this OpenClaw build cannot serve plugin HTTP routes — Slack interactivity disabled`);
+    } else {
+      api.registerHttpRoute({ path: config.slack.interactivityPath, handler: handler.handleHttp });
+      if (!dispatcher) {
+        log.warn(`[${TAG}] Slack interactivity needs the gateway call to submit decisions — presses will fail`);
+      }
     }
-    return;
   }
 
-  // Check for new approval request
-  const info = parseApprovalText(event.content);
-  if (!info) return;
-
-  if (store.has(info.id)) return { cancel: true };
-
-  log.info(`[${TAG}] slack intercepting ${info.id.slice(0, 8)}…`);
+  // ─── 11. Register Telegram webhook (optional) ────────────────────────
 
-  const ts = await slackApi.postMessage(
-    channelId,
-    slackFallbackText(info),
-    formatSlackApprovalRequest(info),
-  );
-
-  if (ts === null) {
-    log.warn(`[${TAG}] slack send failed for ${info.id.slice(0, 8)}… — falling back`);
-    return;
+  if (tgReceiver && tgUpdates?.mode === "webhook") {
+    if (!servesHttp) {
+      log.warn(`[${TAG}] this OpenClaw build cannot serve plugin HTTP routes — use telegramUpdates: "polling"`);
+    } else {
+      api.registerHttpRoute({ path: tgUpdates.path, handler: tgReceiver.webhookHandler(tgUpdates.secret) });
+      tgWebhookServed = true;
+    }
   }
 
-  store.add(info.id, "slack", { slackTs: ts }, info);
-  log.info(`[${TAG}] slack sent buttons for ${info.id.slice(0, 8)}… (ts=${ts})`);
-  return { cancel: true };
+  // ─── Done ─────────────────────────────────────────────────────────────
+
+  const channels = adapters.list().map((a) => a.label).join(" + ");
+  log.info(`[${TAG}] v${PLUGIN_VERSION} loaded ✓ (${channels || "no channels yet"})`);
 }
 
 // ─── Plugin export ──────────────────────────────────────────────────────────
@@ -268,7 +367,7 @@ export default {
   id: "approval-buttons",
   name: "Approval Buttons",
   description:
-    "Adds inline buttons to exec approval messages in Telegram and Slack. " +
+    "Adds inline buttons to exec approval messages in Telegram, Slack and Discord. " +
     "Tap to approve/deny without typing commands.",
   version: PLUGIN_VERSION,
   kind: "extension" as const,
@@ -0,0 +1,358 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/allow-grants.ts
+// Scoped 🔏 Always and ⏱ timed grants: scope options, matching and the grant registry
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { randomBytes } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type {
+  AllowGrant,
+  AlwaysScope,
+  ApprovalAction,
+  ApprovalInfo,
+  Logger,
+  ScopeOption,
+  TimedAction,
+} from "../types.js";
+import { plainCommandWords } from "./command-risk.js";
+import { pluginStatePath } from "./approval-persistence.js";
+import type { GatewayExecAllowlist } from "./exec-allowlist.js";
+
+const FILE_VERSION = 1;
+/** Commands are shortened to this many characters in previews */
+const PREVIEW_LIMIT = 60;
+/** cwd the parser falls back to when the approval text has none */
+const UNKNOWN_CWD = "unknown";
+
+/** How long each ⏱ button allows matching requests for */
+export const TIMED_GRANT_MS: Record<TimedAction, number> = {
+  "allow-15m": 15 * 60_000,
+  "allow-1h": 60 * 60_000,
+};
+
+export type RevokeResult =
+  | { ok: true; grant: AllowGrant; allowlistEntries?: number }
+  | { ok: false; reason: "unknown grant" | "gateway unavailable" | "allowlist update failed" };
+
+// ─── Scopes ─────────────────────────────────────────────────────────────────
+
+/**
+ * The scopes a 🔏 Always press can choose from, in picker order. Prefix
+ * and binary are only offered for commands that run one program directly
+ * (see plainCommandWords) — `git status; rm -rf ~` must not become
+ * "git …". The cwd scope needs a known working directory.
+ */
+export function scopeOptions(info: ApprovalInfo): ScopeOption[] {
+  const words = plainCommandWords(info.command);
+  const options: ScopeOption[] = [{ scope: "exact", preview: clip(info.command.trim()) }];
+  if (words && words.length > 1 && !words[1].startsWith("-")) {
+    options.push({ scope: "prefix", preview: `${words[0]} ${words[1]} …` });
+  }
+  if (words) options.push({ scope: "binary", preview: `${words[0]} …` });
+  if (info.cwd && info.cwd !== UNKNOWN_CWD) {
+    options.push({ scope: "cwd", preview: `${clip(info.command.trim())} in ${info.cwd}` });
+  }
+  return options;
+}
+
+/**
+ * Preview of a scope for this approval, or null when it is not offered.
+ */
+export function scopePreview(info: ApprovalInfo, scope: AlwaysScope): string | null {
+  return scopeOptions(info).find((o) => o.scope === scope)?.preview ?? null;
+}
+
+/**
+ * The scope a ⏱ timed grant covers: the command prefix where one is
+ * offered (`pytest tests/ …` keeps allowing reruns with other flags),
+ * otherwise the exact command.
+ */
+export function timedScope(info: ApprovalInfo): AlwaysScope {
+  return scopePreview(info, "prefix") ? "prefix" : "exact";
+}
+
+/** Whether an action is one of the ⏱ timed allows. */
+export function isTimedAction(action: ApprovalAction): action is TimedAction {
+  return action in TIMED_GRANT_MS;
+}
+
+/**
+ * Whether a grant covers an approval. Grants never cross agents.
+ */
+export function grantMatches(grant: AllowGrant, info: ApprovalInfo): boolean {
+  if (grant.agent !== info.agent) return false;
+  switch (grant.scope) {
+    case "exact":
+      return info.command.trim() === grant.command;
+    case "cwd":
+      return info.command.trim() === grant.command && info.cwd === grant.cwd;
+    case "prefix":
+    case "binary": {
+      const words = plainCommandWords(info.command);
+      return !!words && !!grant.words && grant.words.every((w, i) => words[i] === w);
+    }
+  }
+}
+
+/**
+ * One-line description of what a grant allows (for /approvalrules).
+ */
+export function describeGrant(grant: AllowGrant): string {
+  switch (grant.scope) {
+    case "prefix":
+    case "binary":
+      return `${grant.words?.join(" ") ?? grant.command} …`;
+    case "cwd":
+      return `${clip(grant.command)} in ${grant.cwd}`;
+    default:
+      return clip(grant.command);
+  }
+}
+
+// ─── Registry ───────────────────────────────────────────────────────────────
+
+/**
+ * Every allow-always and timed grant made through the plugin, kept in a
+ * JSON file in the plugin's state folder (in memory only without a path).
+ *
+ * Binary grants are OpenClaw's own allow-always: the gateway adds the
+ * program to the agent's exec allowlist, so revoking one edits that
+ * allowlist. Narrower grants are resolved as allow-once and enforced here
+ * — `match` finds the grant for a new approval, which the coordinator
+ * then allows automatically.
+ *
+ * Timed grants carry `expiresAt`. They stop matching once it passes;
+ * while started, each is also dropped by its own timer and reported
+ * through `onExpired`.
+ */
+export class AllowGrants {
+  private grants: AllowGrant[];
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private started = false;
+
+  constructor(
+    private readonly filePath?: string,
+    private readonly log?: Logger,
+    private readonly allowlist?: GatewayExecAllowlist | null,
+    private readonly onExpired?: (grant: AllowGrant) => void,
+  ) {
+    this.grants = filePath ? this.load(filePath) : [];
+  }
+
+  // ── Lifecycle ───────────────────────────────────────────────────────────
+
+  /**
+   * Start the expiry timers of timed grants. Grants that lapsed while the
+   * gateway was down expire right away.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    for (const grant of this.grants) this.schedule(grant);
+  }
+
+  /** Stop the expiry timers. */
+  stop(): void {
+    this.started = false;
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  // ── Grants ──────────────────────────────────────────────────────────────
+
+  get size(): number {
+    return this.list().length;
+  }
+
+  /** All live grants, oldest first. */
+  list(now = Date.now()): AllowGrant[] {
+    return this.grants.filter((g) => !lapsed(g, now));
+  }
+
+  /**
+   * Record a grant for an approval; pass `expiresAt` for a timed grant.
+   * An identical existing grant is returned instead of adding a
+   * duplicate — a permanent grant absorbs a timed one, and a timed one is
+   * extended to the later expiry.
+   */
+  add(info: ApprovalInfo, scope: AlwaysScope, grantedBy?: string, expiresAt?: number): AllowGrant {
+    const words = plainCommandWords(info.command);
+    const command = info.command.trim();
+    const lead =
+      scope === "prefix" && words && words.length > 1
+        ? words.slice(0, 2)
+        : scope === "binary"
+          ? [words?.[0] ?? command.split(/\s+/)[0]]
+          : undefined;
+
+    const grant: AllowGrant = {
+      id: randomBytes(4).toString("hex"),
+      scope: scope === "prefix" && !lead ? "exact" : scope,
+      agent: info.agent,
+      command: lead ? lead.join(" ") : command,
+      ...(lead ? { words: lead } : {}),
+      ...(scope === "cwd" ? { cwd: info.cwd } : {}),
+      approvalId: info.id,
+      ...(grantedBy ? { grantedBy } : {}),
+      grantedAt: Date.now(),
+      ...(expiresAt !== undefined ? { expiresAt } : {}),
+    };
+
+    const existing = this.grants.find(
+      (g) =>
+        g.scope === grant.scope &&
+        g.agent === grant.agent &&
+        g.command === grant.command &&
+        g.cwd === grant.cwd &&
+        !lapsed(g, grant.grantedAt),
+    );
+    if (existing) {
+      if (existing.expiresAt === undefined) return existing;
+      if (expiresAt === undefined) delete existing.expiresAt;
+      else existing.expiresAt = Math.max(existing.expiresAt, expiresAt);
+      this.save();
+      this.schedule(existing);
+      return existing;
+    }
+    this.grants.push(grant);
+    this.save();
+    this.schedule(grant);
+    return grant;
+  }
+
+  /**
+   * The plugin-enforced grant covering an approval, if any. Binary grants
+   * are left to OpenClaw's allowlist; lapsed timed grants no longer match.
+   */
+  match(info: ApprovalInfo, now = Date.now()): AllowGrant | undefined {
+    return this.grants.find((g) => g.scope !== "binary" && !lapsed(g, now) && grantMatches(g, info));
+  }
+
+  /**
+   * Revoke a grant by ID. Binary grants are first removed from OpenClaw's
+   * exec allowlist; if that fails the grant is kept so it can be retried.
+   */
+  async revoke(id: string): Promise<RevokeResult> {
+    const grant = this.grants.find((g) => g.id === id.trim().toLowerCase());
+    if (!grant) return { ok: false, reason: "unknown grant" };
+
+    let allowlistEntries: number | undefined;
+    if (grant.scope === "binary") {
+      if (!this.allowlist) return { ok: false, reason: "gateway unavailable" };
+      const removed = await this.allowlist.removeProgram(grant.agent, grant.words?.[0] ?? grant.command);
+      if (removed === null) return { ok: false, reason: "allowlist update failed" };
+      allowlistEntries = removed;
+    }
+
+    this.grants = this.grants.filter((g) => g !== grant);
+    this.unschedule(grant.id);
+    this.save();
+    this.log?.info(`[allow-grants] revoked ${grant.scope} grant ${grant.id} (${describeGrant(grant)})`);
+    return { ok: true, grant, ...(allowlistEntries !== undefined ? { allowlistEntries } : {}) };
+  }
+
+  // ── Internal ────────────────────────────────────────────────────────────
+
+  /** (Re)arm the expiry timer of a timed grant, once started. */
+  private schedule(grant: AllowGrant): void {
+    this.unschedule(grant.id);
+    if (!this.started || grant.expiresAt === undefined) return;
+    const timer = setTimeout(() => this.expire(grant.id), Math.max(grant.expiresAt - Date.now(), 0));
+    // Prevent the timer from keeping the process alive
+    if (typeof timer === "object" && "unref" in timer) timer.unref();
+    this.timers.set(grant.id, timer);
+  }
+
+  private unschedule(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(id);
+  }
+
+  private expire(id: string): void {
+    this.timers.delete(id);
+    const grant = this.grants.find((g) => g.id === id);
+    if (!grant) return;
+    this.grants = this.grants.filter((g) => g !== grant);
+    this.save();
+    this.log?.info(`[allow-grants] timed grant ${grant.id} expired (${describeGrant(grant)})`);
+    try {
+      this.onExpired?.(grant);
+    } catch {
+      // Non-critical — the grant is gone either way
+    }
+  }
+
+  private load(filePath: string): AllowGrant[] {
+    let raw: string;
+    try {
+      raw = readFileSync(filePath, "utf8");
+    } catch {
+      return []; // No grants yet
+    }
+    try {
+      const data = JSON.parse(raw) as { version?: number; grants?: unknown };
+      if (data.version !== FILE_VERSION || !Array.isArray(data.grants)) {
+        this.log?.warn(`[allow-grants] ignoring ${filePath}: unsupported format`);
+        return [];
+      }
+      return data.grants.filter(isAllowGrant);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log?.warn(`[allow-grants] ignoring ${filePath}: ${msg}`);
+      return [];
+    }
+  }
+
+  /** Atomic write (temp file + rename), like the pending-approvals snapshot. */
+  private save(): void {
+    if (!this.filePath) return;
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(tmpPath, JSON.stringify({ version: FILE_VERSION, grants: this.grants }, null, 2), {
+        encoding: "utf8",
+        mode: 0o600,
+      });
+      renameSync(tmpPath, this.filePath);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log?.error(`[allow-grants] save failed: ${msg}`);
+    }
+  }
+}
+
+/**
+ * Path of the grant registry inside the plugin's state folder.
+ */
+export function grantsFilePath(stateDir: string): string {
+  return pluginStatePath(stateDir, "grants.json");
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+const SCOPES: readonly AlwaysScope[] = ["exact", "prefix", "binary", "cwd"];
+
+function isAllowGrant(value: unknown): value is AllowGrant {
+  if (!value || typeof value !== "object") return false;
+  const g = value as Partial<AllowGrant>;
+  return (
+    typeof g.id === "string" &&
+    SCOPES.includes(g.scope as AlwaysScope) &&
+    typeof g.agent === "string" &&
+    typeof g.command === "string" &&
+    typeof g.grantedAt === "number" &&
+    (g.expiresAt === undefined || typeof g.expiresAt === "number") &&
+    (g.words === undefined || (Array.isArray(g.words) && g.words.every((w) => typeof w === "string")))
+  );
+}
+
+function lapsed(grant: AllowGrant, now: number): boolean {
+  return grant.expiresAt !== undefined && grant.expiresAt <= now;
+}
+
+function clip(command: string): string {
+  const line = command.replace(/\s*\n\s*/g, " ⏎ ");
+  return line.length > PREVIEW_LIMIT ? line.slice(0, PREVIEW_LIMIT - 1) + "…" : line;
+}
@@ -0,0 +1,1095 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/approval-coordinator.ts
+// Approval lifecycle across adapters: fan-out, first-responder-wins, expiry
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  AllowGrant,
+  ApprovalAction,
+  ApprovalDigest,
+  ApprovalInfo,
+  AlwaysScope,
+  ApprovalInput,
+  ChannelAdapter,
+  DecisionDetail,
+  DecisionDispatcher,
+  DigestAction,
+  EscalationStep,
+  Logger,
+  ParsedApproval,
+  ParseStats,
+  QuorumRule,
+  SentApproval,
+  SentMessage,
+  TimedAction,
+} from "../types.js";
+import type { AdapterRegistry } from "./channel-adapter.js";
+import type { ApprovalStore } from "./approval-store.js";
+import type { AuditLog } from "./audit-log.js";
+import { selectedItems, type ApprovalDigests } from "./approval-digest.js";
+import { DeliveryOutbox } from "./delivery-outbox.js";
+import {
+  detectApprovalResult,
+  parseApproval,
+  parseButtonPress,
+  parseDigestPress,
+  parseEditedCommand,
+  parseExpiresIn,
+  parseFullCommandPress,
+  parseInputPress,
+  parseScopePress,
+} from "./approval-parser.js";
+import {
+  ApproverPolicy,
+  requiredApprovals,
+  senderIdFrom,
+  senderNameFrom,
+} from "./approver-policy.js";
+import { PolicyEngine } from "./policy.js";
+import { allowsAlways } from "./command-risk.js";
+import {
+  isTimedAction,
+  scopeOptions,
+  scopePreview,
+  timedScope,
+  TIMED_GRANT_MS,
+  type AllowGrants,
+} from "./allow-grants.js";
+import {
+  formatAlwaysDisabledAlert,
+  formatAnonymousVoteAlert,
+  formatAutoDecisionNotice,
+  formatButtonToast,
+  formatDigestEmptyAlert,
+  formatDigestToast,
+  formatDigestToggleToast,
+  formatEditInstruction,
+  formatFullCommandToast,
+  formatGrantExpiredNotice,
+  formatInputPromptToast,
+  formatInputUnavailableAlert,
+  formatReminderNotice,
+  formatScopePickerToast,
+  formatScopeQuorumAlert,
+  formatStaleButtonAlert,
+  formatSubmitFailedAlert,
+  formatTimedDisabledAlert,
+  formatTimeLeft,
+  formatUnauthorizedAlert,
+  formatUnchangedEditAlert,
+  formatVoteToast,
+} from "./message-formatter.js";
+
+const TAG = "approval-buttons";
+
+/** How many auto-decided IDs to remember for de-duplicating hook calls */
+const AUTO_DECIDED_MEMORY = 256;
+/** How many full-command uploads to remember for de-duplicating presses */
+const ATTACHED_MEMORY = 256;
+/** How long a ❌ Deny with reason or ✏️ Edit prompt waits for the presser's reply */
+const INPUT_REPLY_TTL_MS = 5 * 60_000;
+/** Deny reasons are clipped to this many characters */
+const MAX_REASON_LENGTH = 500;
+/** Replies that are bot commands (`/status`, `/approve@bot …`), never taken as input */
+const RE_BOT_COMMAND = /^\/[a-z0-9_]+(@\w+)?(\s|$)/i;
+
+/**
+ * Optional collaborators of the coordinator.
+ */
+export interface CoordinatorOptions {
+  /** Audit log (omit when disabled) */
+  audit?: AuditLog | null;
+  /** Who may press which button (default: anyone) */
+  approvers?: ApproverPolicy;
+  /** Two-person rule for matching commands (default: off) */
+  quorum?: QuorumRule | null;
+  /** Auto-decision rules evaluated before buttons are sent (default: none) */
+  policy?: PolicyEngine;
+  /** Delivers auto-decisions; without one every approval asks */
+  dispatcher?: DecisionDispatcher | null;
+  /** Records allow-always grants and enforces scoped ones (omit to disable) */
+  grants?: AllowGrants | null;
+  /** Batches bursts of approvals into digest messages (omit to send each on its own) */
+  digests?: ApprovalDigests | null;
+  /** Retries resolve / expire / escalate edits that fail (default: in memory, not started) */
+  outbox?: DeliveryOutbox;
+}
+
+/**
+ * Drives every approval through its lifecycle, independent of channel:
+ *
+ * - A new approval is first checked against the policy; an allow/deny rule
+ *   decides it without a human and posts a short notice instead of buttons.
+ * - Otherwise the approval is fanned out to every target of every registered
+ *   adapter; the original plain-text message is cancelled.
+ * - The first decision wins: the entry leaves the store and every copy is
+ *   edited to show the decision and who made it. Later decisions for the
+ *   same ID are ignored.
+ * - Expired entries get every copy marked as expired. While pending,
+ *   copies show the time left before the gateway deadline (redrawn by
+ *   the countdown scheduler).
+ * - Button presses are acknowledged immediately; presses by non-approvers
+ *   or on approvals that are no longer pending get an alert and are dropped.
+ * - Commands matching the two-person rule need several distinct approvers:
+ *   earlier "allow" presses are collected as votes (shown as a progress
+ *   line on every copy) and only the press that completes the quorum is
+ *   forwarded. A single Deny is forwarded right away.
+ * - ❌ Deny with reason asks the presser why (adapter prompt); the reason
+ *   is submitted with the deny, shown on every copy and audited.
+ * - ✏️ Edit asks the presser for a modified command. The original is
+ *   denied with an instruction to run the edited one instead (which then
+ *   goes through approval like any other command); every copy shows the
+ *   diff.
+ * - 🔏 Always opens a scope picker where the adapter has one. A binary
+ *   scope is OpenClaw's own allow-always; narrower scopes are submitted as
+ *   allow-once and recorded as grants, and later approvals they cover are
+ *   auto-allowed like a policy allow rule.
+ * - ⏱ 15 min / 1 hour allow once and grant the command (or its prefix)
+ *   for that long; a notice is posted when the grant lapses.
+ * - With batching on, approvals from one agent and host that arrive in a
+ *   burst share one digest message on channels that can show it, with
+ *   Allow all / Deny all for the selected items and a toggle per item.
+ *   Each decision still resolves its own approval; the digest is redrawn
+ *   to show it.
+ * - The edits that close an approval's copies (decision, expiry, retired
+ *   escalation copies) go through the delivery outbox, which retries the
+ *   ones that fail until they land or the platform refuses them.
+ * - Approvals nobody answers can be chased (driven by the escalation
+ *   scheduler): a reminder replies to every copy, an escalation re-sends
+ *   the request with buttons to extra targets. Both are recorded on the
+ *   entry and listed on the resolved message.
+ */
+export class ApprovalCoordinator {
+  /** Approval IDs currently being fanned out (guards concurrent hooks) */
+  private readonly sending = new Set<string>();
+
+  private readonly audit: AuditLog | null;
+  private readonly approvers: ApproverPolicy;
+  private readonly quorum: QuorumRule | null;
+  private readonly policy: PolicyEngine;
+  private readonly dispatcher: DecisionDispatcher | null;
+  private readonly grants: AllowGrants | null;
+  private readonly digests: ApprovalDigests | null;
+  private readonly outbox: DeliveryOutbox;
+  /** Digests being decided in bulk — redrawn once at the end, not per item */
+  private readonly holding = new Set<string>();
+  /** Recently auto-decided IDs (the hook fires once per channel target) */
+  private readonly autoDecided = new Set<string>();
+  /** Approval ID → name of the approver whose press was forwarded to OpenClaw */
+  private readonly pressedBy = new Map<string, string>();
+  /** `<id>:<channel>` pairs whose full command was already uploaded */
+  private readonly attached = new Set<string>();
+  /** `<channel>:<userId>` → approval waiting for that user's reason or edit */
+  private readonly awaitingInput = new Map<
+    string,
+    { approvalId: string; input: ApprovalInput; expiresAt: number }
+  >();
+  private readonly parsing: ParseStats = { structured: 0, text: 0, defaulted: 0 };
+
+  constructor(
+    private readonly adapters: AdapterRegistry,
+    private readonly store: ApprovalStore,
+    private readonly log: Logger,
+    options: CoordinatorOptions = {},
+  ) {
+    this.audit = options.audit ?? null;
+    this.approvers = options.approvers ?? new ApproverPolicy();
+    this.quorum = options.quorum ?? null;
+    this.policy = options.policy ?? new PolicyEngine();
+    this.dispatcher = options.dispatcher ?? null;
+    this.grants = options.grants ?? null;
+    this.digests = options.digests ?? null;
+    this.outbox = options.outbox ?? new DeliveryOutbox(adapters, undefined, log);
+  }
+
+  /** How approvals were parsed since startup (for /approvalstatus). */
+  get parseStats(): ParseStats {
+    return this.parsing;
+  }
+
+  /**
+   * Handle an outgoing OpenClaw message on `channelId` (message_sending hook).
+   * Structured approval data in `metadata` is preferred over the text.
+   * Returns `{ cancel: true }` when the original message should be dropped.
+   */
+  async handleOutgoing(
+    content: string,
+    channelId: string,
+    metadata?: Record<string, unknown>,
+  ): Promise<{ cancel: true } | void> {
+    if (!this.adapters.get(channelId)) return;
+
+    // Check for new approval request first — the same request delivered on
+    // a second channel carries the pending ID and must not read as a decision
+    const parsed = parseApproval(content, metadata);
+    if (!parsed) {
+      const resolution = detectApprovalResult(content, this.store.entries());
+      if (resolution) {
+        // OpenClaw's confirmation does not name the presser; the forwarded press does
+        const decidedBy = resolution.decidedBy ?? this.pressedBy.get(resolution.id);
+        await this.resolve(resolution.id, resolution.action, decidedBy);
+      }
+      return;
+    }
+
+    const { info } = parsed;
+    if (this.store.has(info.id) || this.sending.has(info.id) || this.autoDecided.has(info.id)) {
+      return { cancel: true };
+    }
+    this.countParse(parsed);
+
+    // A defaulted expiry is a guess — leave those to the staleMins sweep
+    const expiresIn = parsed.defaulted.includes("expires") ? null : parseExpiresIn(info.expires);
+    const deadline = expiresIn === null ? undefined : Date.now() + expiresIn;
+
+    this.sending.add(info.id);
+    try {
+      if (await this.autoDecide(info)) return { cancel: true };
+      return await this.fanOut(info, channelId, deadline);
+    } finally {
+      this.sending.delete(info.id);
+    }
+  }
+
+  /**
+   * Handle an inbound message on `channelId` (message_received hook).
+   *
+   * Button presses arrive as synthetic `/approve <id> <action>` text. A
+   * press by an approver on a pending approval is answered with a toast
+   * and passed on to OpenClaw. Presses by anyone else, on approvals that
+   * are no longer pending, or that only add a vote towards a quorum get
+   * an alert/toast and `{ cancel: true }` so the command is not processed.
+   * 📄 Full command, ❌ Deny with reason and ✏️ Edit presses, replies to
+   * their prompts, and digest buttons are handled here and never
+   * forwarded.
+   * `from` is the event's sender; metadata may identify it more precisely.
+   */
+  async handleIncoming(
+    content: string,
+    channelId: string,
+    metadata: Record<string, unknown> = {},
+    from?: string,
+  ): Promise<{ cancel: true } | void> {
+    const adapter = this.adapters.get(channelId);
+    if (!adapter) return;
+    if (await this.handleInputReply(content, channelId, metadata, from)) return { cancel: true };
+
+    const digestPress = parseDigestPress(content);
+    if (digestPress) {
+      await this.decideDigest(adapter, digestPress, metadata, from);
+      return { cancel: true };
+    }
+    const fullCommandId = parseFullCommandPress(content);
+    if (fullCommandId) return this.sendFullCommand(adapter, fullCommandId, metadata);
+    const inputPress = parseInputPress(content);
+    if (inputPress) return this.promptInput(adapter, inputPress.id, inputPress.input, metadata, from);
+    const scopePress = parseScopePress(content);
+    if (scopePress) {
+      await this.grantScope(adapter, scopePress.id, scopePress.scope, metadata, from);
+      return { cancel: true };
+    }
+
+    const press = parseButtonPress(content);
+    if (!press) return;
+    if (isTimedAction(press.action)) {
+      await this.grantTimed(adapter, press.id, press.action, metadata, from);
+      return { cancel: true };
+    }
+    const short = press.id.slice(0, 8);
+    const senderId = senderIdFrom(from, metadata);
+
+    const entry = await this.pendingFor(adapter, press.id, press.action, metadata, senderId);
+    if (!entry) return { cancel: true };
+
+    // "Always" is not offered for high-risk commands — refuse it if pressed anyway
+    if (press.action === "allow-always" && !allowsAlways(entry.info.command)) {
+      this.log.warn(`[${TAG}] ${channelId} rejected allow-always on high-risk ${short}…`);
+      await this.acknowledge(adapter, metadata, formatAlwaysDisabledAlert(), true);
+      return { cancel: true };
+    }
+
+    const required = entry.info.requiredApprovals ?? 1;
+    if (press.action === "allow-always" && required <= 1 && (await this.promptScope(adapter, entry, metadata))) {
+      return { cancel: true };
+    }
+    if (press.action !== "deny" && required > 1) {
+      if (!senderId) {
+        await this.acknowledge(adapter, metadata, formatAnonymousVoteAlert(required), true);
+        return { cancel: true };
+      }
+      const before = entry.votes?.length ?? 0;
+      const name = senderNameFrom(from, metadata) ?? senderId;
+      const votes = this.store.addVote(press.id, { userId: senderId, name }) ?? [];
+      if (votes.length < required) {
+        const repeat = votes.length === before;
+        await this.acknowledge(adapter, metadata, formatVoteToast(votes.length, required, repeat), false);
+        if (!repeat) {
+          this.log.info(`[${TAG}] ${short}… approval ${votes.length}/${required} by ${name}`);
+          const shown = withTimeLeft(entry.info, entry.deadline);
+          await this.forEachCopy(entry.messages, (a, msg) =>
+            a.markProgress ? a.markProgress(msg.ref, shown, votes) : Promise.resolve(false),
+          );
+        }
+        return { cancel: true };
+      }
+    }
+
+    const presser = senderNameFrom(from, metadata);
+    if (presser) this.pressedBy.set(press.id, presser);
+    await this.acknowledge(adapter, metadata, formatButtonToast(press.action), false);
+  }
+
+  /**
+   * Handle a button press that reached the plugin directly instead of being
+   * relayed by OpenClaw (e.g. the Slack interactivity endpoint).
+   *
+   * Runs the same checks as handleIncoming; a press that would have been
+   * forwarded is submitted to the gateway here and every copy is resolved.
+   * `detail` accompanies a deny submitted from a reason or edit form.
+   * Returns true when the approval was decided.
+   */
+  async handleInteraction(
+    content: string,
+    channelId: string,
+    metadata: Record<string, unknown> = {},
+    from?: string,
+    detail: DecisionDetail = {},
+  ): Promise<boolean> {
+    const adapter = this.adapters.get(channelId);
+    const press = parseButtonPress(content);
+    if (!adapter) return false;
+    const digestPress = parseDigestPress(content);
+    if (digestPress) return this.decideDigest(adapter, digestPress, metadata, from);
+    const scopePress = parseScopePress(content);
+    if (scopePress) return this.grantScope(adapter, scopePress.id, scopePress.scope, metadata, from);
+    if (press && isTimedAction(press.action)) return this.grantTimed(adapter, press.id, press.action, metadata, from);
+
+    const edited = detail.editedCommand === undefined ? undefined : parseEditedCommand(detail.editedCommand);
+    if (press?.action === "deny" && edited !== undefined && this.isUnchangedEdit(press.id, edited)) {
+      await this.acknowledge(adapter, metadata, formatUnchangedEditAlert(), true);
+      return false;
+    }
+    if (await this.handleIncoming(content, channelId, metadata, from)) return false;
+    if (!press) return false;
+
+    if (press.action !== "deny") return this.submitDecision(adapter, press.id, press.action, metadata, from);
+    return this.submitDecision(adapter, press.id, "deny", metadata, from, denyDetail(detail.reason, edited));
+  }
+
+  /**
+   * Take a message as the input for a ❌ Deny with reason or ✏️ Edit prompt
+   * shown to its sender on this channel, and deny the approval with it.
+   * Bot commands, late replies and replies for approvals that are no
+   * longer pending are not taken. Returns true when the message was
+   * consumed.
+   */
+  async handleInputReply(
+    content: string,
+    channelId: string,
+    metadata: Record<string, unknown> = {},
+    from?: string,
+  ): Promise<boolean> {
+    const adapter = this.adapters.get(channelId);
+    const senderId = senderIdFrom(from, metadata);
+    const key = `${channelId}:${senderId}`;
+    const waiting = adapter && senderId ? this.awaitingInput.get(key) : undefined;
+    if (!adapter || !waiting) return false;
+    this.awaitingInput.delete(key);
+
+    const text = content.trim();
+    if (!text || RE_BOT_COMMAND.test(text)) return false;
+    if (waiting.expiresAt < Date.now() || !this.store.has(waiting.approvalId)) return false;
+
+    if (waiting.input === "reason") {
+      await this.submitDecision(adapter, waiting.approvalId, "deny", metadata, from, denyDetail(text));
+      return true;
+    }
+
+    const edited = parseEditedCommand(text);
+    if (this.isUnchangedEdit(waiting.approvalId, edited)) {
+      this.log.info(`[${TAG}] ${channelId} ignored unchanged edit for ${waiting.approvalId.slice(0, 8)}…`);
+      await this.acknowledge(adapter, metadata, formatUnchangedEditAlert(), true);
+      return true;
+    }
+    await this.submitDecision(adapter, waiting.approvalId, "deny", metadata, from, { editedCommand: edited });
+    return true;
+  }
+
+  /**
+   * Resolve a pending approval. Only the first call for an ID has any
+   * effect; returns the resolved entry, or undefined if it was not pending.
+   */
+  async resolve(
+    approvalId: string,
+    action: ApprovalAction,
+    decidedBy?: string,
+    detail?: DecisionDetail,
+  ): Promise<SentApproval | undefined> {
+    this.pressedBy.delete(approvalId);
+    const entry = this.store.resolve(approvalId);
+    if (!entry) return undefined;
+
+    // A quorum approval was decided by everyone who voted for it
+    if (action !== "deny" && entry.votes?.length) {
+      decidedBy = entry.votes.map((v) => v.name).join(", ");
+    }
+
+    this.audit?.record(entry, action, decidedBy, detail);
+    if (action === "allow-always") {
+      this.grants?.add(entry.info, detail?.scope ?? "binary", decidedBy);
+    } else if (isTimedAction(action)) {
+      const expiresAt = Date.now() + TIMED_GRANT_MS[action];
+      this.grants?.add(entry.info, detail?.scope ?? timedScope(entry.info), decidedBy, expiresAt);
+    }
+    const who = decidedBy ? ` by ${decidedBy}` : "";
+    const why = detail?.editedCommand !== undefined ? " (edited)" : detail?.reason ? " (with reason)" : "";
+    this.log.info(`[${TAG}] resolved ${approvalId.slice(0, 8)}… → ${action}${who}${why}`);
+
+    if (entry.escalations?.length) detail = { ...detail, escalations: entry.escalations };
+    const digest = this.digests?.settle(approvalId, action, decidedBy);
+    await this.outbox.send("resolve", ownCopies(entry, digest), entry.info, { action, decidedBy, detail });
+    if (digest) await this.refreshDigest(digest);
+    return entry;
+  }
+
+  /**
+   * Mark every copy of an expired entry (store onExpired callback).
+   */
+  async markExpired(entry: SentApproval): Promise<void> {
+    this.pressedBy.delete(entry.info.id);
+    this.audit?.record(entry, "expired");
+    const digest = this.digests?.settle(entry.info.id, "expired");
+    await this.outbox.send("expire", ownCopies(entry, digest), entry.info);
+    if (digest) await this.refreshDigest(digest);
+  }
+
+  /**
+   * Reply to every copy of a pending approval with a reminder (copies
+   * showing a digest are skipped). Returns false if it is not pending.
+   */
+  async remind(approvalId: string): Promise<boolean> {
+    const entry = this.store.get(approvalId);
+    if (!entry) return false;
+    const afterMs = Date.now() - entry.sentAt;
+    const text = formatReminderNotice(entry.info, afterMs);
+
+    const reached = new Set<string>();
+    await this.forEachCopy(
+      entry.messages.filter((m) => !m.digest),
+      async (adapter, msg) => {
+        if (!adapter.sendReminder || !(await adapter.sendReminder(msg.ref, text))) return false;
+        reached.add(adapter.id);
+        return true;
+      },
+    );
+    this.store.addEscalation(approvalId, { kind: "reminder", afterMs, channels: [...reached] });
+    this.log.info(`[${TAG}] reminded ${approvalId.slice(0, 8)}… (${[...reached].join(", ") || "no channel"})`);
+    return true;
+  }
+
+  /**
+   * Re-send a pending approval, with buttons, to the escalation targets
+   * of each channel (`targets` / `mentions` keyed by channel ID). The new
+   * copies are resolved and expired with the others. Returns false if it
+   * is not pending.
+   */
+  async escalate(
+    approvalId: string,
+    targets: Record<string, string[]>,
+    mentions: Record<string, string> = {},
+  ): Promise<boolean> {
+    const entry = this.store.get(approvalId);
+    if (!entry) return false;
+    const afterMs = Date.now() - entry.sentAt;
+    const short = approvalId.slice(0, 8);
+
+    const results = await Promise.all(
+      this.adapters.list().map(async (adapter) => {
+        const ids = targets[adapter.id];
+        if (!adapter.escalate || !ids?.length) return [];
+        try {
+          const shown = withTimeLeft(entry.info, entry.deadline);
+          const refs = await adapter.escalate(shown, ids, afterMs, mentions[adapter.id]);
+          return refs.map((ref): SentMessage => ({ channel: adapter.id, ref }));
+        } catch (err: unknown) {
+          const msg = err instanceof Error ? err.message : String(err);
+          this.log.warn(`[${TAG}] ${adapter.id} escalation threw for ${short}…: ${msg}`);
+          return [];
+        }
+      }),
+    );
+    const messages = results.flat();
+    const step: EscalationStep = {
+      kind: "escalation",
+      afterMs,
+      channels: [...new Set(messages.map((m) => m.channel))],
+    };
+
+    // Decided or expired while the escalation was being sent: retire the new copies
+    if (!this.store.addEscalation(approvalId, step, messages)) {
+      await this.outbox.send("escalate", messages, entry.info);
+      return false;
+    }
+    if (messages.length === 0) {
+      this.log.warn(`[${TAG}] escalation of ${short}… reached no target`);
+    } else {
+      this.log.info(`[${TAG}] escalated ${short}… (${messages.length} copies: ${step.channels.join(", ")})`);
+    }
+    return true;
+  }
+
+  /**
+   * Redraw every copy of a pending approval with the time it has left
+   * (copies showing a digest, and those on channels with an open scope
+   * picker, are skipped — redrawing would put the normal buttons back).
+   * At most `limit` copies are edited, starting after the first `skip`, so
+   * the countdown can spread an approval with many copies over several
+   * ticks. Returns how many copies were edited — 0 when it is not pending
+   * or has no deadline.
+   */
+  async refreshCountdown(approvalId: string, now = Date.now(), limit = Infinity, skip = 0): Promise<number> {
+    const entry = this.store.get(approvalId);
+    if (!entry || entry.deadline === undefined) return 0;
+    const shown = withTimeLeft(entry.info, entry.deadline, now);
+    const copies = entry.messages
+      .filter((m) => !m.digest && !entry.scopePicker?.includes(m.channel) && this.adapters.get(m.channel)?.markProgress)
+      .slice(skip, skip + limit);
+    await this.forEachCopy(copies, (adapter, msg) =>
+      adapter.markProgress ? adapter.markProgress(msg.ref, shown, entry.votes ?? []) : Promise.resolve(false),
+    );
+    return copies.length;
+  }
+
+  /**
+   * Announce on every channel that a ⏱ timed grant lapsed (grants
+   * onExpired callback).
+   */
+  async grantExpired(grant: AllowGrant): Promise<void> {
+    await this.notifyAll(formatGrantExpiredNotice(grant));
+  }
+
+  // ── Internal ──────────────────────────────────────────────────────────
+
+  private countParse(parsed: ParsedApproval): void {
+    if (parsed.source === "metadata") {
+      this.parsing.structured++;
+      return;
+    }
+    this.parsing.text++;
+    if (parsed.defaulted.length === 0) return;
+    this.parsing.defaulted++;
+    this.log.warn(
+      `[${TAG}] ${parsed.info.id.slice(0, 8)}… parsed from text (v${parsed.parserVersion}, ` +
+        `${parsed.confidence} confidence) — defaulted ${parsed.defaulted.join(", ")}; ` +
+        `the approval message format may have changed`,
+    );
+  }
+
+  /**
+   * Apply the policy to a new approval. Returns true when a rule decided it
+   * and the decision was delivered; false means "ask" (send buttons).
+   * High-risk and two-person commands are never allowed automatically.
+   */
+  private async autoDecide(info: ApprovalInfo): Promise<boolean> {
+    const guarded = !allowsAlways(info.command) || requiredApprovals(info.command, this.quorum) > 1;
+    let verdict = this.policy.evaluate(info);
+    if (!verdict.rule) {
+      // Grants apply where no rule decides
+      const grant = this.grants?.match(info);
+      if (grant && !guarded) {
+        verdict = { decision: "allow", rule: `${grant.expiresAt === undefined ? "always" : "timed"}:${grant.id}` };
+      }
+    }
+    if (verdict.decision === "ask" || !verdict.rule) return false;
+
+    const short = info.id.slice(0, 8);
+    if (verdict.decision === "allow" && guarded) {
+      this.log.info(`[${TAG}] rule "${verdict.rule}" matched ${short}… but the command needs its buttons — asking`);
+      return false;
+    }
+    const action: ApprovalAction = verdict.decision === "allow" ? "allow-once" : "deny";
+    if (!this.dispatcher) {
+      this.log.warn(`[${TAG}] rule "${verdict.rule}" matched ${short}… but auto-decisions are unavailable — asking`);
+      return false;
+    }
+    if (!(await this.dispatcher.dispatch(info.id, action))) {
+      this.log.warn(`[${TAG}] auto-${verdict.decision} of ${short}… failed — asking instead`);
+      return false;
+    }
+
+    this.autoDecided.add(info.id);
+    if (this.autoDecided.size > AUTO_DECIDED_MEMORY) {
+      this.autoDecided.delete(this.autoDecided.values().next().value!);
+    }
+    this.audit?.record({ messages: [], info, sentAt: Date.now() }, action, `rule:${verdict.rule}`);
+    this.log.info(`[${TAG}] auto-${verdict.decision} ${short}… by rule "${verdict.rule}"`);
+
+    await this.notifyAll(formatAutoDecisionNotice(info, action, verdict.rule));
+    return true;
+  }
+
+  /**
+   * Upload the complete command next to every copy on the channel where
+   * 📄 Full command was pressed — once per approval and channel.
+   */
+  private async sendFullCommand(
+    adapter: ChannelAdapter,
+    approvalId: string,
+    metadata: Record<string, unknown>,
+  ): Promise<{ cancel: true }> {
+    const entry = this.store.get(approvalId);
+    if (!entry) {
+      await this.acknowledge(adapter, metadata, formatStaleButtonAlert(approvalId), true);
+      return { cancel: true };
+    }
+
+    const key = `${approvalId}:${adapter.id}`;
+    if (this.attached.has(key)) {
+      await this.acknowledge(adapter, metadata, formatFullCommandToast("repeat"), false);
+      return { cancel: true };
+    }
+
+    const copies = entry.messages.filter((m) => m.channel === adapter.id);
+    const sent = await Promise.all(
+      copies.map((msg) =>
+        adapter.sendFullCommand
+          ? adapter.sendFullCommand(msg.ref, entry.info).catch(() => false)
+          : Promise.resolve(false),
+      ),
+    );
+    const ok = sent.some(Boolean);
+    if (ok) {
+      this.attached.add(key);
+      if (this.attached.size > ATTACHED_MEMORY) {
+        this.attached.delete(this.attached.values().next().value!);
+      }
+    } else {
+      this.log.warn(`[${TAG}] ${adapter.id} could not send the full command for ${approvalId.slice(0, 8)}…`);
+    }
+    await this.acknowledge(adapter, metadata, formatFullCommandToast(ok ? "sent" : "failed"), !ok);
+    return { cancel: true };
+  }
+
+  /**
+   * Ask the presser of ❌ Deny with reason why, or the presser of ✏️ Edit
+   * for the edited command. A "reply" prompt waits for their next message
+   * on the channel (handleInputReply); a "form" prompt comes back through
+   * handleInteraction. Needs the dispatcher, since the resulting deny is
+   * submitted by the plugin rather than OpenClaw. Both end in a deny, so
+   * both need the right to deny.
+   */
+  private async promptInput(
+    adapter: ChannelAdapter,
+    approvalId: string,
+    input: ApprovalInput,
+    metadata: Record<string, unknown>,
+    from?: string,
+  ): Promise<{ cancel: true }> {
+    const senderId = senderIdFrom(from, metadata);
+    const entry = await this.pendingFor(adapter, approvalId, "deny", metadata, senderId);
+    if (!entry) return { cancel: true };
+
+    const refs = entry.messages.filter((m) => m.channel === adapter.id).map((m) => m.ref);
+    const prompt =
+      this.dispatcher && senderId && adapter.promptInput
+        ? await adapter.promptInput(input, refs, entry.info, metadata).catch(() => null)
+        : null;
+
+    if (prompt === "reply") {
+      this.awaitingInput.set(`${adapter.id}:${senderId}`, {
+        approvalId,
+        input,
+        expiresAt: Date.now() + INPUT_REPLY_TTL_MS,
+      });
+      await this.acknowledge(adapter, metadata, formatInputPromptToast(input), false);
+    } else if (!prompt) {
+      this.log.warn(`[${TAG}] ${adapter.id} could not ask for ${input} input on ${approvalId.slice(0, 8)}…`);
+      await this.acknowledge(adapter, metadata, formatInputUnavailableAlert(input), true);
+    }
+    return { cancel: true };
+  }
+
+  /**
+   * Show the 🔏 Always scope picker on the channel the press came from.
+   * Needs grants and the dispatcher, since a scoped Always is submitted by
+   * the plugin. Returns false when no picker was shown, so the press
+   * allows always as it did before scopes existed.
+   */
+  private async promptScope(
+    adapter: ChannelAdapter,
+    entry: SentApproval,
+    metadata: Record<string, unknown>,
+  ): Promise<boolean> {
+    if (!this.grants || !this.dispatcher || !adapter.promptScope) return false;
+    const refs = entry.messages.filter((m) => m.channel === adapter.id).map((m) => m.ref);
+    const shown = await adapter
+      .promptScope(refs, withTimeLeft(entry.info, entry.deadline), scopeOptions(entry.info), metadata)
+      .catch(() => false);
+    if (shown) {
+      this.store.addScopePicker(entry.info.id, adapter.id);
+      await this.acknowledge(adapter, metadata, formatScopePickerToast(), false);
+    }
+    return shown;
+  }
+
+  /**
+   * Allow always with the scope picked in the 🔏 Always picker. Runs the
+   * same checks as the Always button itself, and is refused on two-person
+   * approvals, which never show the picker (a typed scope would otherwise
+   * decide them alone). Returns true when the approval was decided.
+   */
+  private async grantScope(
+    adapter: ChannelAdapter,
+    approvalId: string,
+    scope: AlwaysScope,
+    metadata: Record<string, unknown>,
+    from?: string,
+  ): Promise<boolean> {
+    const entry = await this.pendingFor(adapter, approvalId, "allow-always", metadata, senderIdFrom(from, metadata));
+    if (!entry) return false;
+    if (!allowsAlways(entry.info.command) || !scopePreview(entry.info, scope)) {
+      this.log.warn(`[${TAG}] ${adapter.id} rejected ${scope} scope on ${approvalId.slice(0, 8)}…`);
+      await this.acknowledge(adapter, metadata, formatAlwaysDisabledAlert(), true);
+      return false;
+    }
+    const required = entry.info.requiredApprovals ?? 1;
+    if (required > 1) {
+      this.log.warn(`[${TAG}] ${adapter.id} rejected ${scope} scope on two-person ${approvalId.slice(0, 8)}…`);
+      await this.acknowledge(adapter, metadata, formatScopeQuorumAlert(required), true);
+      return false;
+    }
+    await this.acknowledge(adapter, metadata, formatButtonToast("allow-always"), false);
+    return this.submitDecision(adapter, approvalId, "allow-always", metadata, from, { scope });
+  }
+
+  /**
+   * Allow once and grant requests like this one for a while (⏱ buttons).
+   * Not offered for high-risk commands or two-person approvals, where a
+   * grant would skip the checks they get. Returns true when the approval
+   * was decided.
+   */
+  private async grantTimed(
+    adapter: ChannelAdapter,
+    approvalId: string,
+    action: TimedAction,
+    metadata: Record<string, unknown>,
+    from?: string,
+  ): Promise<boolean> {
+    const entry = await this.pendingFor(adapter, approvalId, action, metadata, senderIdFrom(from, metadata));
+    if (!entry) return false;
+    if (!this.grants || !allowsAlways(entry.info.command) || (entry.info.requiredApprovals ?? 1) > 1) {
+      this.log.warn(`[${TAG}] ${adapter.id} rejected ${action} on ${approvalId.slice(0, 8)}…`);
+      await this.acknowledge(adapter, metadata, formatTimedDisabledAlert(), true);
+      return false;
+    }
+    await this.acknowledge(adapter, metadata, formatButtonToast(action), false);
+    return this.submitDecision(adapter, approvalId, action, metadata, from, { scope: timedScope(entry.info) });
+  }
+
+  /**
+   * Check that the presser may take `action` and that the approval is still
+   * pending. Returns the entry, or undefined after alerting the presser.
+   */
+  private async pendingFor(
+    adapter: ChannelAdapter,
+    approvalId: string,
+    action: ApprovalAction,
+    metadata: Record<string, unknown>,
+    senderId: string | undefined,
+  ): Promise<SentApproval | undefined> {
+    const short = approvalId.slice(0, 8);
+    const auth = this.approvers.authorize(adapter.id, senderId, action);
+    if (!auth.ok) {
+      this.log.warn(
+        `[${TAG}] ${adapter.id} rejected ${action} on ${short}… from ${senderId ?? "?"} (${auth.reason})`,
+      );
+      await this.acknowledge(adapter, metadata, formatUnauthorizedAlert(action), true);
+      return undefined;
+    }
+
+    const entry = this.store.get(approvalId);
+    if (!entry) {
+      this.log.info(`[${TAG}] ${adapter.id} dropped press on stale ${short}…`);
+      await this.acknowledge(adapter, metadata, formatStaleButtonAlert(approvalId), true);
+    }
+    return entry;
+  }
+
+  /**
+   * True when an edit leaves the pending approval's command as it was
+   * (or empty). Unknown approvals are left to the stale check.
+   */
+  private isUnchangedEdit(approvalId: string, edited: string): boolean {
+    const entry = this.store.get(approvalId);
+    return entry !== undefined && (!edited || edited === entry.info.command.trim());
+  }
+
+  /**
+   * Submit a decision the plugin received itself to the gateway and resolve
+   * every copy. An edited command is delivered as the deny reason, telling
+   * the agent what to run instead. Grants the plugin enforces (timed, or a
+   * scoped Always narrower than the binary) are delivered as allow-once.
+   * The presser is alerted when it could not be delivered.
+   */
+  private async submitDecision(
+    adapter: ChannelAdapter,
+    approvalId: string,
+    action: ApprovalAction,
+    metadata: Record<string, unknown>,
+    from?: string,
+    detail?: DecisionDetail,
+  ): Promise<boolean> {
+    const reason =
+      detail?.editedCommand !== undefined ? formatEditInstruction(detail.editedCommand) : detail?.reason;
+    const decision = gatewayDecision(action, detail);
+    if (!this.dispatcher || !(await this.dispatcher.dispatch(approvalId, decision, reason))) {
+      this.log.warn(`[${TAG}] ${adapter.id} could not submit ${action} for ${approvalId.slice(0, 8)}…`);
+      await this.acknowledge(adapter, metadata, formatSubmitFailedAlert(), true);
+      return false;
+    }
+    await this.resolve(approvalId, action, senderNameFrom(from, metadata), detail);
+    return true;
+  }
+
+  private async fanOut(
+    info: ApprovalInfo,
+    channelId: string,
+    deadline?: number,
+  ): Promise<{ cancel: true } | void> {
+    const short = info.id.slice(0, 8);
+    this.log.info(`[${TAG}] ${channelId} intercepting ${short}…`);
+
+    const required = requiredApprovals(info.command, this.quorum);
+    if (required > 1) info.requiredApprovals = required;
+
+    // Channels showing the digest get no message of their own
+    const digest = this.joinDigest(info);
+    const adapters = this.adapters.list().filter((a) => !digest || !a.renderDigest);
+    const results = await Promise.all(
+      adapters.map(async (adapter) => {
+        try {
+          const refs = await adapter.sendRequest(withTimeLeft(info, deadline));
+          return refs.map((ref): SentMessage => ({ channel: adapter.id, ref }));
+        } catch (err: unknown) {
+          const msg = err instanceof Error ? err.message : String(err);
+          this.log.warn(`[${TAG}] ${adapter.id} send threw for ${short}…: ${msg}`);
+          return [];
+        }
+      }),
+    );
+    const messages = [...(digest?.messages ?? []), ...results.flat()];
+
+    if (messages.length === 0) {
+      this.log.warn(`[${TAG}] send failed on every channel for ${short}… — falling back`);
+      return;
+    }
+
+    this.store.add(info.id, messages, info, deadline);
+    const where = messages.map((m) => m.channel).join(", ");
+    if (digest) {
+      this.log.info(`[${TAG}] added ${short}… to digest ${digest.id} (${messages.length} copies: ${where})`);
+      await this.refreshDigest(digest);
+    } else {
+      this.digests?.noteSingle(info);
+      this.log.info(`[${TAG}] sent buttons for ${short}… (${messages.length} copies: ${where})`);
+    }
+    return { cancel: true };
+  }
+
+  /**
+   * Add a new approval to the digest of its agent and host when another
+   * one arrived within the batch window, turning that one's message into
+   * the digest if it had none yet. Returns the digest, or null when the
+   * approval gets messages of its own. Needs the dispatcher, since the
+   * digest's decisions are submitted by the plugin; two-person approvals
+   * are never batched.
+   */
+  private joinDigest(info: ApprovalInfo): ApprovalDigest | null {
+    if (!this.digests || !this.dispatcher || (info.requiredApprovals ?? 1) > 1) return null;
+    const target = this.digests.target(info);
+    if (!target) return null;
+    if ("digest" in target) {
+      this.digests.add(target.digest, info);
+      return target.digest;
+    }
+
+    const first = this.store.get(target.approvalId);
+    if (!first || (first.info.requiredApprovals ?? 1) > 1) return null;
+    const copies = first.messages.filter((m) => this.adapters.get(m.channel)?.renderDigest);
+    if (copies.length === 0) return null;
+
+    const digest = this.digests.create(first.info, copies);
+    this.store.setMessages(first.info.id, [
+      ...digest.messages,
+      ...first.messages.filter((m) => !copies.includes(m)),
+    ]);
+    this.digests.add(digest, info);
+    this.log.info(`[${TAG}] started digest ${digest.id} for ${info.agent}@${info.host}`);
+    return digest;
+  }
+
+  /**
+   * Handle a digest button. A toggle adds an item to or removes it from
+   * the selection; Allow all / Deny all submit the decision for every
+   * selected pending item and resolve each like a single press, then
+   * redraw the digest once. Returns true when any approval was decided.
+   */
+  private async decideDigest(
+    adapter: ChannelAdapter,
+    press: { id: string; action: DigestAction; item?: number },
+    metadata: Record<string, unknown>,
+    from?: string,
+  ): Promise<boolean> {
+    const action: ApprovalAction = press.action === "deny-all" ? "deny" : "allow-once";
+    const senderId = senderIdFrom(from, metadata);
+    const auth = this.approvers.authorize(adapter.id, senderId, action);
+    if (!auth.ok) {
+      this.log.warn(
+        `[${TAG}] ${adapter.id} rejected ${press.action} on digest ${press.id} from ${senderId ?? "?"} (${auth.reason})`,
+      );
+      await this.acknowledge(adapter, metadata, formatUnauthorizedAlert(action), true);
+      return false;
+    }
+
+    const digest = this.digests?.get(press.id);
+    if (!digest || !this.digests || !this.dispatcher) {
+      this.log.info(`[${TAG}] ${adapter.id} dropped press on unknown digest ${press.id}`);
+      await this.acknowledge(adapter, metadata, formatStaleButtonAlert(press.id), true);
+      return false;
+    }
+
+    if (press.item !== undefined) {
+      const selected = this.digests.toggle(digest, press.item);
+      if (selected === null) {
+        const id = digest.items[press.item - 1]?.info.id ?? press.id;
+        await this.acknowledge(adapter, metadata, formatStaleButtonAlert(id), true);
+        return false;
+      }
+      await this.acknowledge(adapter, metadata, formatDigestToggleToast(press.item, selected), false);
+      await this.refreshDigest(digest);
+      return false;
+    }
+
+    const items = selectedItems(digest);
+    if (items.length === 0) {
+      await this.acknowledge(adapter, metadata, formatDigestEmptyAlert(), true);
+      return false;
+    }
+    await this.acknowledge(adapter, metadata, formatDigestToast(action, items.length), false);
+
+    const decidedBy = senderNameFrom(from, metadata);
+    let decided = 0;
+    this.holding.add(digest.id);
+    try {
+      for (const item of items) {
+        const short = item.info.id.slice(0, 8);
+        if (!this.store.has(item.info.id)) continue;
+        if (!(await this.dispatcher.dispatch(item.info.id, action))) {
+          this.log.warn(`[${TAG}] ${adapter.id} could not submit ${action} for ${short}… in digest ${digest.id}`);
+          continue;
+        }
+        await this.resolve(item.info.id, action, decidedBy);
+        decided++;
+      }
+    } finally {
+      this.holding.delete(digest.id);
+    }
+    await this.refreshDigest(digest);
+
+    this.log.info(`[${TAG}] digest ${digest.id}: ${action} ${decided}/${items.length}`);
+    if (decided < items.length) await this.acknowledge(adapter, metadata, formatSubmitFailedAlert(), true);
+    return decided > 0;
+  }
+
+  /**
+   * Redraw every message showing a digest (skipped while it is decided in
+   * bulk).
+   */
+  private async refreshDigest(digest: ApprovalDigest): Promise<void> {
+    if (this.holding.has(digest.id)) return;
+    await this.forEachCopy(digest.messages, (adapter, msg) =>
+      adapter.renderDigest ? adapter.renderDigest(msg.ref, digest) : Promise.resolve(false),
+    );
+  }
+
+  private async notifyAll(notice: string): Promise<void> {
+    await Promise.all(
+      this.adapters.list().map(async (adapter) => {
+        try {
+          await adapter.sendNotice?.(notice);
+        } catch {
+          // Non-critical — notices are informational
+        }
+      }),
+    );
+  }
+
+  private async acknowledge(
+    adapter: ChannelAdapter<any>,
+    metadata: Record<string, unknown>,
+    text: string,
+    alert: boolean,
+  ): Promise<void> {
+    try {
+      await adapter.acknowledge?.(metadata, text, alert);
+    } catch {
+      // Non-critical — the client just shows its own spinner/timeout
+    }
+  }
+
+  private async forEachCopy(
+    messages: SentMessage[],
+    edit: (adapter: ChannelAdapter<any>, msg: SentMessage) => Promise<boolean>,
+  ): Promise<void> {
+    await Promise.all(
+      messages.map(async (msg) => {
+        const adapter = this.adapters.get(msg.channel);
+        if (!adapter) return;
+        try {
+          await edit(adapter, msg);
+        } catch {
+          // Non-critical — the message just keeps its old content
+        }
+      }),
+    );
+  }
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+/**
+ * The decision OpenClaw gets for an action: grants the plugin enforces
+ * itself are submitted as allow-once.
+ */
+function gatewayDecision(action: ApprovalAction, detail?: DecisionDetail): ApprovalAction {
+  if (isTimedAction(action)) return "allow-once";
+  if (action === "allow-always" && detail?.scope && detail.scope !== "binary") return "allow-once";
+  return action;
+}
+
+/**
+ * The approval as shown while pending: `expires` counts down to the
+ * deadline, when there is one.
+ */
+function withTimeLeft(info: ApprovalInfo, deadline: number | undefined, now = Date.now()): ApprovalInfo {
+  return deadline === undefined ? info : { ...info, expires: formatTimeLeft(deadline - now) };
+}
+
+/**
+ * The copies of an approval that show it alone — those showing its
+ * digest are redrawn with the digest instead. Copies of a digest that is
+ * no longer known (e.g. after a restart) are edited like any other.
+ */
+function ownCopies(entry: SentApproval, digest: ApprovalDigest | undefined): SentMessage[] {
+  return digest ? entry.messages.filter((m) => m.digest !== digest.id) : entry.messages;
+}
+
+/**
+ * Detail for a deny: the edited command when there is one, otherwise the
+ * reason (trimmed and clipped). Undefined when there is neither.
+ */
+function denyDetail(reason: string | undefined, editedCommand?: string): DecisionDetail | undefined {
+  if (editedCommand !== undefined) return { editedCommand };
+  const trimmed = reason?.trim();
+  return trimmed ? { reason: trimmed.slice(0, MAX_REASON_LENGTH) } : undefined;
+}
@@ -0,0 +1,105 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/approval-countdown.ts
+// Live countdown: pending requests show the time they have left
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { Logger } from "../types.js";
+import type { ApprovalCoordinator } from "./approval-coordinator.js";
+import type { ApprovalStore } from "./approval-store.js";
+import { formatTimeLeft } from "./message-formatter.js";
+
+/** How often time-left labels are checked */
+const TICK_MS = 5_000;
+/**
+ * Most message edits per tick (≤ 48 a minute across all chats). Telegram
+ * allows about 20 edits a minute in a group and Slack's chat.update about
+ * 50; approvals closest to their deadline go first, the rest wait a tick.
+ */
+const MAX_EDITS_PER_TICK = 4;
+
+/**
+ * Redraws each copy of a pending request whenever the label of the time
+ * it has left before its gateway deadline (SentApproval.deadline) changes
+ * ("5m left" → "4m left"; every 15 seconds in the last two minutes),
+ * within an edit budget per tick. Expiry itself is the store's timers'.
+ */
+export class CountdownScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  /** Set while a tick is editing, so a slow tick is not overlapped */
+  private running = false;
+  /** Approval ID → time-left label its copies show */
+  private readonly shown = new Map<string, string>();
+  /** Approval ID → label being drawn and how many copies have it, when the budget ran out midway */
+  private readonly partial = new Map<string, { label: string; edited: number }>();
+
+  constructor(
+    private readonly store: ApprovalStore,
+    private readonly coordinator: Pick<ApprovalCoordinator, "refreshCountdown">,
+    private readonly log?: Logger,
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(() => {});
+    }, TICK_MS);
+    if (typeof this.timer === "object" && "unref" in this.timer) this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Redraw the copies whose label changed, most urgent first, stopping
+   * when the edit budget is spent — even halfway through an approval's
+   * copies. Returns the number of copies edited.
+   */
+  async tick(now = Date.now()): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+    try {
+      const pending = this.store.entries();
+      for (const id of this.shown.keys()) {
+        if (!pending.has(id)) this.shown.delete(id);
+      }
+      for (const id of this.partial.keys()) {
+        if (!pending.has(id)) this.partial.delete(id);
+      }
+
+      const due = [...pending.values()]
+        .filter((e) => e.deadline !== undefined)
+        .sort((a, b) => a.deadline! - b.deadline!);
+      let edits = 0;
+      for (const entry of due) {
+        const id = entry.info.id;
+        const label = formatTimeLeft(entry.deadline! - now);
+        // Copies show the label from when they were sent until first redrawn
+        const current = this.shown.get(id) ?? formatTimeLeft(entry.deadline! - entry.sentAt);
+        if (label === current) continue;
+        const budget = MAX_EDITS_PER_TICK - edits;
+        if (budget <= 0) {
+          this.log?.debug?.(`[approval-countdown] edit budget spent — ${id.slice(0, 8)}… waits a tick`);
+          break;
+        }
+        const partial = this.partial.get(id);
+        const skip = partial?.label === label ? partial.edited : 0;
+        const edited = await this.coordinator.refreshCountdown(id, now, budget, skip);
+        edits += edited;
+        if (edited < budget) {
+          this.shown.set(id, label);
+          this.partial.delete(id);
+        } else {
+          // Maybe more copies to go: carry on from here next tick
+          this.partial.set(id, { label, edited: skip + edited });
+        }
+      }
+      return edits;
+    } finally {
+      this.running = false;
+    }
+  }
+}
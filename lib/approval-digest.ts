@@ -0,0 +1,141 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/approval-digest.ts
+// Batching: approvals from one agent and host that arrive in a burst share a digest
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { randomBytes } from "node:crypto";
+import type { ApprovalDigest, ApprovalInfo, AuditOutcome, DigestItem, SentMessage } from "../types.js";
+import { analyzeCommand } from "./command-risk.js";
+
+/** Most approvals one digest lists; the next one gets a message of its own */
+export const MAX_DIGEST_ITEMS = 10;
+/** How many digests are remembered (buttons of older ones read as stale) */
+const DIGEST_MEMORY = 64;
+
+/** Where a new approval can go: an open digest, or next to an approval sent on its own. */
+export type DigestTarget = { digest: ApprovalDigest } | { approvalId: string };
+
+/**
+ * Tracks which approvals arrived close together and the digests built
+ * from them.
+ *
+ * Batching never holds an approval back: the first one from an agent and
+ * host is sent on its own. When another arrives from the same source
+ * within the window, the coordinator turns the first message into a
+ * digest listing both; later arrivals within the window (counted from
+ * the latest one) are added to it, up to MAX_DIGEST_ITEMS.
+ *
+ * State lives in memory only — after a restart, copies that showed a
+ * digest are edited per approval like any other message.
+ */
+export class ApprovalDigests {
+  private readonly digests = new Map<string, ApprovalDigest>();
+  /** `agent@host` → latest arrival: the digest it joined, or the approval sent on its own */
+  private readonly latest = new Map<string, { at: number; digestId?: string; approvalId?: string }>();
+
+  constructor(private readonly windowMs: number) {}
+
+  /**
+   * Where a new approval can be batched, or null when nothing from its
+   * agent and host arrived within the window (or that digest is full or
+   * fully decided).
+   */
+  target(info: ApprovalInfo, now = Date.now()): DigestTarget | null {
+    const last = this.latest.get(sourceKey(info));
+    if (!last || now - last.at > this.windowMs) return null;
+    if (last.approvalId) return { approvalId: last.approvalId };
+
+    const digest = last.digestId ? this.digests.get(last.digestId) : undefined;
+    if (!digest || digest.items.length >= MAX_DIGEST_ITEMS || pendingItems(digest).length === 0) return null;
+    return { digest };
+  }
+
+  /** Remember an approval that was sent on its own message. */
+  noteSingle(info: ApprovalInfo, now = Date.now()): void {
+    this.latest.set(sourceKey(info), { at: now, approvalId: info.id });
+  }
+
+  /**
+   * Start a digest with an approval that was sent on its own; `messages`
+   * are its copies that will show the digest from now on.
+   */
+  create(first: ApprovalInfo, messages: SentMessage[], now = Date.now()): ApprovalDigest {
+    const id = randomBytes(4).toString("hex");
+    const digest: ApprovalDigest = {
+      id,
+      agent: first.agent,
+      host: first.host,
+      items: [],
+      messages: messages.map((m) => ({ ...m, digest: id })),
+    };
+    this.digests.set(id, digest);
+    if (this.digests.size > DIGEST_MEMORY) {
+      this.digests.delete(this.digests.keys().next().value!);
+    }
+    this.add(digest, first, now);
+    return digest;
+  }
+
+  /**
+   * Add an approval to a digest. High-risk commands start unselected, so
+   * Allow all only covers them when the approver ticks them.
+   */
+  add(digest: ApprovalDigest, info: ApprovalInfo, now = Date.now()): void {
+    digest.items.push({
+      info,
+      status: "pending",
+      selected: analyzeCommand(info.command).level !== "high",
+    });
+    this.latest.set(sourceKey(info), { at: now, digestId: digest.id });
+  }
+
+  get(digestId: string): ApprovalDigest | undefined {
+    return this.digests.get(digestId.toLowerCase());
+  }
+
+  /**
+   * Record how an approval ended. Returns the digest listing it, or
+   * undefined when it is in none.
+   */
+  settle(approvalId: string, status: AuditOutcome, decidedBy?: string): ApprovalDigest | undefined {
+    for (const digest of this.digests.values()) {
+      const item = digest.items.find((i) => i.info.id === approvalId);
+      if (!item) continue;
+      if (item.status === "pending") {
+        item.status = status;
+        item.decidedBy = decidedBy;
+      }
+      return digest;
+    }
+    return undefined;
+  }
+
+  /**
+   * Flip whether item `n` (1-based) is selected. Returns its new state, or
+   * null when there is no such item or it was already decided.
+   */
+  toggle(digest: ApprovalDigest, n: number): boolean | null {
+    const item = digest.items[n - 1];
+    if (!item || item.status !== "pending") return null;
+    item.selected = !item.selected;
+    return item.selected;
+  }
+}
+
+// ─── Item selection ─────────────────────────────────────────────────────────
+
+/** Items still waiting for a decision. */
+export function pendingItems(digest: ApprovalDigest): DigestItem[] {
+  return digest.items.filter((i) => i.status === "pending");
+}
+
+/** Pending items Allow all / Deny all would decide. */
+export function selectedItems(digest: ApprovalDigest): DigestItem[] {
+  return digest.items.filter((i) => i.status === "pending" && i.selected);
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+function sourceKey(info: ApprovalInfo): string {
+  return `${info.agent}@${info.host}`;
+}
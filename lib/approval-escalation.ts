@@ -0,0 +1,89 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/approval-escalation.ts
+// Reminders and escalation for approvals nobody answers
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { EscalationConfig, EscalationStep, Logger, SentApproval } from "../types.js";
+import type { ApprovalCoordinator } from "./approval-coordinator.js";
+import type { ApprovalStore } from "./approval-store.js";
+
+/** How often pending approvals are checked for a due step */
+const TICK_MS = 5_000;
+
+/**
+ * Periodically walks the pending approvals and takes the steps that came
+ * due: a reminder once an approval is `remindAfterMs` old, an escalation
+ * once it is `escalateAfterMs` old. Each step is taken at most once per
+ * approval; it is recorded on the entry, so a restart does not repeat it.
+ *
+ * The steps themselves (messages, store updates) are the coordinator's.
+ */
+export class EscalationScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  /** Set while a tick is sending, so a slow tick is not overlapped */
+  private running = false;
+
+  constructor(
+    private readonly config: EscalationConfig,
+    private readonly store: ApprovalStore,
+    private readonly steps: Pick<ApprovalCoordinator, "remind" | "escalate">,
+    private readonly log?: Logger,
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(() => {});
+    }, TICK_MS);
+    if (typeof this.timer === "object" && "unref" in this.timer) this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Take every step that is due at `now`, one approval at a time.
+   * Returns the number of steps taken.
+   */
+  async tick(now = Date.now()): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+    let taken = 0;
+    try {
+      for (const [id, entry] of [...this.store.entries()]) {
+        const kind = dueStep(entry, this.config, now);
+        if (!kind) continue;
+        try {
+          const done = kind === "reminder"
+            ? await this.steps.remind(id)
+            : await this.steps.escalate(id, this.config.targets, this.config.mentions);
+          if (done) taken++;
+        } catch (err: unknown) {
+          const msg = err instanceof Error ? err.message : String(err);
+          this.log?.warn(`[approval-escalation] ${kind} failed for ${id.slice(0, 8)}…: ${msg}`);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+    return taken;
+  }
+}
+
+/**
+ * The step due for an approval at `now`, or null when none is. An
+ * approval already past both thresholds (e.g. after a restart) gets only
+ * the escalation; no reminder follows an escalation.
+ */
+export function dueStep(entry: SentApproval, config: EscalationConfig, now: number): EscalationStep["kind"] | null {
+  const age = now - entry.sentAt;
+  const taken = new Set((entry.escalations ?? []).map((s) => s.kind));
+  if (taken.has("escalation")) return null;
+  if (config.escalateAfterMs > 0 && age >= config.escalateAfterMs) return "escalation";
+  if (config.remindAfterMs > 0 && age >= config.remindAfterMs && !taken.has("reminder")) return "reminder";
+  return null;
+}
@@ -3,7 +3,36 @@
 // Parse OpenClaw's plain-text exec approval format into structured data
 // ─────────────────────────────────────────────────────────────────────────────
 
-import type { ApprovalAction, ApprovalInfo, ApprovalResolution, SentApproval } from "../types.js";
+import type {
+  AlwaysScope,
+  ApprovalAction,
+  ApprovalInfo,
+  ApprovalInput,
+  ApprovalResolution,
+  DigestAction,
+  ParseConfidence,
+  ParsedApproval,
+  SentApproval,
+} from "../types.js";
+
+/**
+ * Version of the text format parseApprovalText understands. Bump it when
+ * the regexes change so logs show which fallback parsed an approval.
+ */
+export const TEXT_PARSER_VERSION = 1;
+
+/** Fields OpenClaw's approval text always carries; defaulting them means format drift. */
+const CORE_FIELDS = ["command", "cwd", "host", "agent", "expires"] as const;
+
+const DEFAULTS = {
+  command: "unknown",
+  cwd: "unknown",
+  host: "gateway",
+  agent: "main",
+  security: "allowlist",
+  ask: "on-miss",
+  expires: "120s",
+} as const;
 
 // ─── Regex patterns (compiled once) ─────────────────────────────────────────
 
@@ -12,42 +41,86 @@ const RE_ID = /ID:\s*([a-f0-9-]+)/i;
 const RE_UUID = /([a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12})/i;
 const RE_SHORT_HEX = /\b([a-f0-9]{8,})\b/i;
 const RE_GATEWAY_DENIAL = /Exec denied.*approval-timeout/i;
-const RE_COMMAND_BLOCK = /Command:\s*`{0,3}\n?(.+?)\n?`{0,3}(?:\n|$)/is;
-const RE_COMMAND_INLINE = /Command:\s*(.+)/i;
+const RE_COMMAND_LABEL = /^[ \t]*Command:[ \t]*/im;
+const RE_FENCE_OPEN = /^\n?(`{3,}|~{3,})[^\n`]*\n/;
+const RE_HEREDOC = /<<-?[ \t]*(["']?)([\w.-]+)\1/g;
 const RE_CWD = /CWD:\s*(.+)/i;
 const RE_HOST = /Host:\s*(.+)/i;
 const RE_AGENT = /Agent:\s*(.+)/i;
 const RE_SECURITY = /Security:\s*(.+)/i;
 const RE_ASK = /Ask:\s*(.+)/i;
 const RE_EXPIRES = /Expires in:\s*(.+)/i;
+const RE_DURATION = /^(?:\d+(?:\.\d+)?\s*(?:ms|h|hours?|hrs?|m|mins?|minutes?|s|secs?|seconds?)\s*)+$/i;
+const RE_DURATION_PART = /(\d+(?:\.\d+)?)\s*(ms|h|hours?|hrs?|m|mins?|minutes?|s|secs?|seconds?)/gi;
+/** Milliseconds per duration unit, by its first letter */
+const UNIT_MS: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000 };
+const RE_BUTTON_PRESS = /^\/approve\s+([a-f0-9-]+)\s+(allow-once|allow-15m|allow-1h|allow-always|deny)\s*$/i;
+const RE_FULL_COMMAND_PRESS = /^\/approve\s+([a-f0-9-]+)\s+full-command\s*$/i;
+const RE_INPUT_PRESS = /^\/approve\s+([a-f0-9-]+)\s+(deny-reason|edit)\s*$/i;
+const RE_SCOPE_PRESS = /^\/approve\s+([a-f0-9-]+)\s+always-(exact|prefix|binary|cwd)\s*$/i;
+const RE_DIGEST_PRESS = /^\/approve\s+([a-f0-9]{8})\s+(allow-all|deny-all|toggle-([1-9]\d?))\s*$/i;
+const RE_FENCED_REPLY = /^(`{3,}|~{3,})[^\n`]*\n([\s\S]*?)\n?\1$/;
+const RE_INLINE_CODE_REPLY = /^`([^`\n]+)`$/;
+
+/**
+ * Parse an outgoing approval request, preferring structured data.
+ *
+ * When OpenClaw attaches the approval to the hook event
+ * (`metadata.execApproval` / `metadata.approval`) it is used as-is;
+ * otherwise the rendered text is parsed as a fallback. Returns null if
+ * neither looks like an approval request.
+ */
+export function parseApproval(
+  text: string,
+  metadata?: Record<string, unknown>,
+): ParsedApproval | null {
+  const structured = readMetadata(metadata);
+  if (structured) return { ...structured, source: "metadata", confidence: "high" };
+
+  const parsed = parseText(text);
+  if (!parsed) return null;
+  const { info, defaulted } = parsed;
+  const confidence: ParseConfidence =
+    defaulted.length === 0 ? "high" : defaulted.includes("command") ? "low" : "partial";
+  return { info, source: "text", parserVersion: TEXT_PARSER_VERSION, confidence, defaulted };
+}
+
+/**
+ * Read an approval request from structured hook metadata.
+ *
+ * Accepts the gateway's request record either flat or with the command
+ * details nested under `request` (`{ id, request: { command, cwd, … },
+ * expiresAtMs }`). Returns null unless both an ID and a command are present.
+ */
+export function parseApprovalMetadata(metadata?: Record<string, unknown>): ApprovalInfo | null {
+  return readMetadata(metadata)?.info ?? null;
+}
+
+/**
+ * Read an approval's `expires` ("120s", "2m", "1h 30m", "90 seconds") as
+ * milliseconds. Returns null when it is not a duration.
+ */
+export function parseExpiresIn(expires: string): number | null {
+  const text = expires.trim();
+  if (!RE_DURATION.test(text)) return null;
+  let ms = 0;
+  for (const [, amount, unit] of text.matchAll(RE_DURATION_PART)) {
+    const u = unit.toLowerCase();
+    ms += Number(amount) * (u === "ms" ? 1 : UNIT_MS[u[0]]);
+  }
+  return Math.round(ms);
+}
 
 /**
  * Parse OpenClaw's plain-text approval message into an ApprovalInfo object.
  *
  * Returns null if the text doesn't match the approval format.
  * This function is intentionally lenient — it extracts what it can and
- * falls back to sensible defaults for missing fields.
+ * falls back to sensible defaults for missing fields. Use parseApproval
+ * to learn which fields were defaulted.
  */
 export function parseApprovalText(text: string): ApprovalInfo | null {
-  if (!RE_APPROVAL_MARKER.test(text)) return null;
-
-  const id = text.match(RE_ID)?.[1]?.trim();
-  if (!id) return null;
-
-  // Try block format first (```command```), then inline
-  let command = text.match(RE_COMMAND_BLOCK)?.[1]?.trim();
-  if (!command) command = text.match(RE_COMMAND_INLINE)?.[1]?.trim() ?? "unknown";
-
-  return {
-    id,
-    command,
-    cwd: text.match(RE_CWD)?.[1]?.trim() ?? "unknown",
-    host: text.match(RE_HOST)?.[1]?.trim() ?? "gateway",
-    agent: text.match(RE_AGENT)?.[1]?.trim() ?? "main",
-    security: text.match(RE_SECURITY)?.[1]?.trim() ?? "allowlist",
-    ask: text.match(RE_ASK)?.[1]?.trim() ?? "on-miss",
-    expires: text.match(RE_EXPIRES)?.[1]?.trim() ?? "120s",
-  };
+  return parseText(text)?.info ?? null;
 }
 
 /**
@@ -58,7 +131,9 @@ export function parseApprovalText(text: string): ApprovalInfo | null {
  * 2. Fallback: extract short hex ID (8+ chars) → scan pending by prefix
  *
  * Also detects gateway-initiated denials (approval-timeout) so the
- * plugin can immediately clean up stale buttons in Telegram.
+ * plugin can immediately clean up stale buttons in Telegram; those are
+ * returned with decidedBy "gateway". The text is not searched for a
+ * presser's name — free text after "by" is as likely a command word.
  */
 export function detectApprovalResult(
   text: string,
@@ -71,7 +146,7 @@ export function detectApprovalResult(
   if (fullMatch) {
     const id = fullMatch[1];
     if (pending.has(id)) {
-      return { id, action: resolveAction(text) };
+      return buildResolution(id, text);
     }
   }
 
@@ -82,7 +157,7 @@ export function detectApprovalResult(
     const shortId = shortMatch[1];
     for (const [pendingId] of pending) {
       if (pendingId.startsWith(shortId)) {
-        return { id: pendingId, action: resolveAction(text) };
+        return buildResolution(pendingId, text);
       }
     }
   }
@@ -90,8 +165,213 @@ export function detectApprovalResult(
   return null;
 }
 
+/**
+ * Parse the `/approve <id> <action>` payload our buttons carry
+ * (Telegram callback_data, Slack button value, Discord custom_id).
+ *
+ * Returns null for anything else, including hand-typed commands with
+ * extra text.
+ */
+export function parseButtonPress(text: string): { id: string; action: ApprovalAction } | null {
+  const match = text.trim().match(RE_BUTTON_PRESS);
+  if (!match) return null;
+  return { id: match[1].toLowerCase(), action: match[2].toLowerCase() as ApprovalAction };
+}
+
+/**
+ * Parse the `/approve <id> full-command` payload of the 📄 Full command
+ * button. Returns the approval ID, or null for anything else.
+ */
+export function parseFullCommandPress(text: string): string | null {
+  return text.trim().match(RE_FULL_COMMAND_PRESS)?.[1]?.toLowerCase() ?? null;
+}
+
+/**
+ * Parse the payloads of the buttons that ask for text: `/approve <id>
+ * deny-reason` (❌ Deny with reason) and `/approve <id> edit` (✏️ Edit).
+ * Returns null for anything else.
+ */
+export function parseInputPress(text: string): { id: string; input: ApprovalInput } | null {
+  const match = text.trim().match(RE_INPUT_PRESS);
+  if (!match) return null;
+  return { id: match[1].toLowerCase(), input: match[2].toLowerCase() === "edit" ? "edit" : "reason" };
+}
+
+/**
+ * Parse the `/approve <id> always-<scope>` payload of the 🔏 Always scope
+ * picker. Returns null for anything else.
+ */
+export function parseScopePress(text: string): { id: string; scope: AlwaysScope } | null {
+  const match = text.trim().match(RE_SCOPE_PRESS);
+  if (!match) return null;
+  return { id: match[1].toLowerCase(), scope: match[2].toLowerCase() as AlwaysScope };
+}
+
+/**
+ * Parse the payloads of a digest's buttons: `/approve <digest-id>
+ * allow-all`, `deny-all` or `toggle-<n>`. `item` is set for toggles.
+ * Returns null for anything else.
+ */
+export function parseDigestPress(text: string): { id: string; action: DigestAction; item?: number } | null {
+  const match = text.trim().match(RE_DIGEST_PRESS);
+  if (!match) return null;
+  const press = { id: match[1].toLowerCase(), action: match[2].toLowerCase() as DigestAction };
+  return match[3] ? { ...press, item: Number(match[3]) } : press;
+}
+
+/**
+ * Take an edited command as typed by the approver: a reply wrapped in a
+ * code fence or an inline code span is unwrapped, then trimmed.
+ */
+export function parseEditedCommand(text: string): string {
+  const trimmed = text.trim();
+  const code = trimmed.match(RE_FENCED_REPLY)?.[2] ?? trimmed.match(RE_INLINE_CODE_REPLY)?.[1];
+  return (code ?? trimmed).trim();
+}
+
 // ─── Internal ───────────────────────────────────────────────────────────────
 
+function parseText(text: string): { info: ApprovalInfo; defaulted: (keyof ApprovalInfo)[] } | null {
+  if (!RE_APPROVAL_MARKER.test(text)) return null;
+
+  // Cut the command out first so script lines ("Host: …" in a heredoc)
+  // can't be mistaken for the fields around it
+  const extracted = extractCommand(text);
+  const rest = extracted ? text.slice(0, extracted.start) + text.slice(extracted.end) : text;
+
+  const id = rest.match(RE_ID)?.[1]?.trim();
+  if (!id) return null;
+
+  const found: Omit<ApprovalInfo, "id"> = {
+    command: extracted?.command.trim() ?? "",
+    cwd: rest.match(RE_CWD)?.[1]?.trim() ?? "",
+    host: rest.match(RE_HOST)?.[1]?.trim() ?? "",
+    agent: rest.match(RE_AGENT)?.[1]?.trim() ?? "",
+    security: rest.match(RE_SECURITY)?.[1]?.trim() ?? "",
+    ask: rest.match(RE_ASK)?.[1]?.trim() ?? "",
+    expires: rest.match(RE_EXPIRES)?.[1]?.trim() ?? "",
+  };
+
+  const info: ApprovalInfo = { id, ...found };
+  for (const key of Object.keys(DEFAULTS) as (keyof typeof DEFAULTS)[]) {
+    if (!info[key]) info[key] = DEFAULTS[key];
+  }
+  const defaulted = CORE_FIELDS.filter((key) => !found[key]);
+  return { info, defaulted };
+}
+
+/**
+ * Locate the command after the "Command:" label, returning it together
+ * with the span of text it occupied (label included).
+ *
+ * Understands, in order:
+ * 1. Fenced blocks — a run of 3+ backticks or tildes (optionally followed
+ *    by a language tag), closed by a line with a run of the same character
+ *    at least as long, so scripts containing ``` survive a ```` fence
+ * 2. Code spans — `cmd` or ``cmd with ` inside``, possibly spanning lines
+ * 3. Plain text to the end of the line, extended over any heredoc bodies
+ *    the line opens (`cat <<EOF … EOF`)
+ */
+function extractCommand(text: string): { command: string; start: number; end: number } | undefined {
+  const label = RE_COMMAND_LABEL.exec(text);
+  if (!label) return undefined;
+  const start = label.index;
+  const from = start + label[0].length;
+  const rest = text.slice(from);
+
+  const open = rest.match(RE_FENCE_OPEN);
+  if (open) {
+    const fence = open[1];
+    const close = new RegExp(`^[ \\t]*${fence[0]}{${fence.length},}[ \\t]*$`, "m");
+    const body = rest.slice(open[0].length);
+    const closing = close.exec(body);
+    if (closing) {
+      return {
+        command: body.slice(0, Math.max(0, closing.index - 1)),
+        start,
+        end: from + open[0].length + closing.index + closing[0].length,
+      };
+    }
+  }
+
+  const ticks = rest.match(/^`+/)?.[0];
+  if (ticks) {
+    const close = new RegExp(`(?<!\`)${ticks}(?!\`)`, "g");
+    close.lastIndex = ticks.length;
+    const closing = close.exec(rest);
+    if (closing) {
+      return {
+        command: rest.slice(ticks.length, closing.index),
+        start,
+        end: from + closing.index + ticks.length,
+      };
+    }
+  }
+
+  const lines = rest.split("\n");
+  let taken = 1;
+  for (const [, , terminator] of lines[0].matchAll(RE_HEREDOC)) {
+    const at = lines.findIndex((line, i) => i >= taken && line.trim() === terminator);
+    if (at === -1) break;
+    taken = at + 1;
+  }
+  const command = lines.slice(0, taken).join("\n");
+  return { command, start, end: from + command.length };
+}
+
+/**
+ * parseApprovalMetadata, plus whether the expiry was defaulted: the
+ * default is only a display value and must not become a deadline.
+ */
+function readMetadata(
+  metadata?: Record<string, unknown>,
+): { info: ApprovalInfo; defaulted: (keyof ApprovalInfo)[] } | null {
+  const raw = asRecord(metadata?.execApproval) ?? asRecord(metadata?.approval);
+  if (!raw) return null;
+  const request = asRecord(raw.request) ?? raw;
+
+  const id = asString(raw.id);
+  const command = asString(request.command);
+  if (!id || !command) return null;
+
+  const expires = expiresFrom(raw);
+  const info: ApprovalInfo = {
+    id,
+    command,
+    cwd: asString(request.cwd) ?? DEFAULTS.cwd,
+    host: asString(request.host) ?? DEFAULTS.host,
+    agent: asString(request.agentId) ?? asString(request.agent) ?? DEFAULTS.agent,
+    security: asString(request.security) ?? DEFAULTS.security,
+    ask: asString(request.ask) ?? DEFAULTS.ask,
+    expires: expires ?? DEFAULTS.expires,
+  };
+  return { info, defaulted: expires ? [] : ["expires"] };
+}
+
+function expiresFrom(raw: Record<string, unknown>): string | undefined {
+  const at = raw.expiresAtMs;
+  if (typeof at === "number") return `${Math.max(0, Math.round((at - Date.now()) / 1000))}s`;
+  const inMs = raw.expiresInMs ?? raw.timeoutMs;
+  if (typeof inMs === "number") return `${Math.round(inMs / 1000)}s`;
+  return asString(raw.expires);
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+function buildResolution(id: string, text: string): ApprovalResolution {
+  const resolution: ApprovalResolution = { id, action: resolveAction(text) };
+  if (RE_GATEWAY_DENIAL.test(text)) resolution.decidedBy = "gateway";
+  return resolution;
+}
+
 /**
  * Determine the approval action from message text.
  * Checks gateway denial first, then infers from keywords.
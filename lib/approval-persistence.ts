@@ -0,0 +1,120 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/approval-persistence.ts
+// Pluggable persistence backends for pending approvals (survive restarts)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { Logger, SentApproval } from "../types.js";
+
+const FILE_VERSION = 3;
+
+/**
+ * Backend used by ApprovalStore to persist pending approvals.
+ *
+ * Implementations must be synchronous and must never throw — a broken
+ * backend should degrade to in-memory behaviour, not block approvals.
+ */
+export interface ApprovalPersistence {
+  /** Load all previously saved entries (empty array when nothing is stored). */
+  load(): SentApproval[];
+  /** Replace the stored snapshot with the given entries. */
+  save(entries: SentApproval[]): void;
+}
+
+interface PersistedFile {
+  version: number;
+  savedAt: number;
+  entries: SentApproval[];
+}
+
+// ─── JSON file backend ──────────────────────────────────────────────────────
+
+/**
+ * Stores pending approvals as a single JSON snapshot.
+ *
+ * Writes are atomic: the snapshot is written to a temp file next to the
+ * target and renamed over it, so a crash mid-write never leaves a
+ * truncated file behind.
+ */
+export class JsonFilePersistence implements ApprovalPersistence {
+  constructor(
+    private readonly filePath: string,
+    private readonly log?: Logger,
+  ) {}
+
+  load(): SentApproval[] {
+    let raw: string;
+    try {
+      raw = readFileSync(this.filePath, "utf8");
+    } catch {
+      return []; // No snapshot yet
+    }
+
+    try {
+      const data = JSON.parse(raw) as Partial<PersistedFile>;
+      if (data.version !== FILE_VERSION || !Array.isArray(data.entries)) {
+        this.log?.warn(`[approval-persistence] ignoring ${this.filePath}: unsupported format`);
+        return [];
+      }
+      return data.entries.filter(isSentApproval);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log?.warn(`[approval-persistence] ignoring ${this.filePath}: ${msg}`);
+      return [];
+    }
+  }
+
+  save(entries: SentApproval[]): void {
+    const data: PersistedFile = { version: FILE_VERSION, savedAt: Date.now(), entries };
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(tmpPath, JSON.stringify(data), { encoding: "utf8", mode: 0o600 });
+      renameSync(tmpPath, this.filePath);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log?.error(`[approval-persistence] save failed: ${msg}`);
+    }
+  }
+}
+
+// ─── Paths ──────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve OpenClaw's state directory: explicit override, then
+ * OPENCLAW_STATE_DIR, then ~/.openclaw.
+ */
+export function resolveStateDir(override?: string, env: { OPENCLAW_STATE_DIR?: string } = {}): string {
+  return override || env.OPENCLAW_STATE_DIR || join(homedir(), ".openclaw");
+}
+
+/**
+ * Path of a file inside the plugin's own state folder.
+ */
+export function pluginStatePath(stateDir: string, fileName: string): string {
+  return join(stateDir, "plugins", "approval-buttons", fileName);
+}
+
+/**
+ * Path of the pending-approvals snapshot inside the plugin's state folder.
+ */
+export function pendingFilePath(stateDir: string): string {
+  return pluginStatePath(stateDir, "pending.json");
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+function isSentApproval(value: unknown): value is SentApproval {
+  if (!value || typeof value !== "object") return false;
+  const v = value as Partial<SentApproval>;
+  return (
+    Array.isArray(v.messages) &&
+    v.messages.every((m) => !!m && typeof m.channel === "string" && !!m.ref && typeof m.ref === "object") &&
+    typeof v.sentAt === "number" &&
+    !!v.info &&
+    typeof v.info.id === "string" &&
+    (v.votes === undefined || (Array.isArray(v.votes) && v.votes.every((x) => typeof x?.userId === "string")))
+  );
+}
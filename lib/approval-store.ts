@@ -1,75 +1,91 @@
 // ─────────────────────────────────────────────────────────────────────────────
 // telegram-approval-buttons · lib/approval-store.ts
-// In-memory store for pending approvals with TTL-based cleanup
+// Store for pending approvals with per-approval expiry and optional persistence
 // ─────────────────────────────────────────────────────────────────────────────
 
-import type { ApprovalChannel, ApprovalInfo, Logger, SentApproval } from "../types.js";
+import type { ApprovalChannel, ApprovalInfo, ApprovalVote, EscalationStep, Logger, SentApproval, SentMessage } from "../types.js";
+import type { ApprovalPersistence } from "./approval-persistence.js";
+
+/** Longest delay setTimeout accepts (about 24.8 days) */
+const MAX_TIMER_MS = 2 ** 31 - 1;
 
 /**
  * Manages the lifecycle of pending approval requests.
  *
  * Responsibilities:
- * - Track sent approval messages (approval ID → SentApproval)
- * - Auto-purge stale entries after configurable TTL
+ * - Track sent approval messages (approval ID → SentApproval, one or more copies)
+ * - Expire each entry on its own timer: at its gateway deadline, capped
+ *   at staleTtlMs after it was sent (the only limit when it has none)
  * - Provide stats for diagnostics
  *
- * All state is in-memory — approvals are ephemeral by nature
- * and don't survive gateway restarts (by design).
+ * State lives in memory. When a persistence backend is given, every
+ * mutation is written through to it and start() rehydrates the saved
+ * entries, so buttons sent before a gateway restart can still be resolved
+ * or marked expired afterwards.
  */
 export class ApprovalStore {
   private readonly pending = new Map<string, SentApproval>();
+  /** Approval ID → its expiry timer (armed once started) */
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
   private totalProcessed = 0;
-  private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+  private started = false;
+  private hydrated = false;
 
   constructor(
     private readonly staleTtlMs: number,
     private readonly log?: Logger,
     private readonly onExpired?: (entry: SentApproval) => void,
+    private readonly persistence?: ApprovalPersistence,
   ) { }
 
   // ── Lifecycle ─────────────────────────────────────────────────────────
 
   /**
-   * Start periodic stale-entry cleanup (runs every staleTtlMs / 2).
+   * Rehydrate persisted entries (first call only), expire the ones that ran
+   * out while the gateway was down, then arm an expiry timer per entry.
    */
   start(): void {
-    if (this.cleanupTimer) return;
-    const interval = Math.max(this.staleTtlMs / 2, 30_000);
-    this.cleanupTimer = setInterval(() => this.cleanStale(), interval);
-    // Prevent the timer from keeping the process alive
-    if (this.cleanupTimer && typeof this.cleanupTimer === "object" && "unref" in this.cleanupTimer) {
-      (this.cleanupTimer as NodeJS.Timeout).unref();
+    if (this.started) return;
+    if (!this.hydrated) {
+      this.hydrated = true;
+      this.hydrate();
+      this.cleanStale();
     }
+    this.started = true;
+    for (const [id, entry] of this.pending) this.schedule(id, entry);
   }
 
   /**
-   * Stop the cleanup timer.
+   * Stop the expiry timers.
    */
   stop(): void {
-    if (this.cleanupTimer) {
-      clearInterval(this.cleanupTimer);
-      this.cleanupTimer = null;
-    }
+    this.started = false;
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
   }
 
   // ── Core operations ───────────────────────────────────────────────────
 
   /**
-   * Track a newly sent approval message.
+   * Track a newly sent approval and every copy of its message. `deadline`
+   * is when the gateway expires it, when known; the entry is expired then
+   * (or after staleTtlMs, whichever comes first).
    */
   add(
     approvalId: string,
-    channel: ApprovalChannel,
-    ref: { messageId?: number; slackTs?: string },
+    messages: SentMessage[],
     info: ApprovalInfo,
+    deadline?: number,
   ): void {
-    this.pending.set(approvalId, {
-      channel,
-      messageId: ref.messageId ?? 0,
-      slackTs: ref.slackTs ?? "",
+    const entry: SentApproval = {
+      messages,
       info,
       sentAt: Date.now(),
-    });
+      ...(deadline !== undefined ? { deadline } : {}),
+    };
+    this.pending.set(approvalId, entry);
+    this.schedule(approvalId, entry);
+    this.persist();
   }
 
   /**
@@ -94,11 +110,68 @@ export class ApprovalStore {
     const entry = this.pending.get(approvalId);
     if (entry) {
       this.pending.delete(approvalId);
+      this.unschedule(approvalId);
       this.totalProcessed++;
+      this.persist();
     }
     return entry;
   }
 
+  /**
+   * Record an approver's vote on a pending approval (two-person rule).
+   * A user counts once, however often they press. Returns the votes so
+   * far, or undefined if the approval is not pending.
+   */
+  addVote(approvalId: string, vote: ApprovalVote): ApprovalVote[] | undefined {
+    const entry = this.pending.get(approvalId);
+    if (!entry) return undefined;
+    if (!entry.votes?.some((v) => v.userId === vote.userId)) {
+      entry.votes = [...(entry.votes ?? []), vote];
+      this.persist();
+    }
+    return entry.votes;
+  }
+
+  /**
+   * Replace the copies tracked for a pending approval (e.g. when its
+   * message starts showing a digest). Returns false if it is not pending.
+   */
+  setMessages(approvalId: string, messages: SentMessage[]): boolean {
+    const entry = this.pending.get(approvalId);
+    if (!entry) return false;
+    entry.messages = messages;
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Record a reminder or escalation for a pending approval, along with any
+   * copies it sent (escalated copies are resolved like the originals).
+   * Returns false if it is not pending.
+   */
+  addEscalation(approvalId: string, step: EscalationStep, messages: SentMessage[] = []): boolean {
+    const entry = this.pending.get(approvalId);
+    if (!entry) return false;
+    entry.escalations = [...(entry.escalations ?? []), step];
+    entry.messages = [...entry.messages, ...messages];
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Record that a 🔏 Always scope picker was opened on `channel` for a
+   * pending approval. Returns false if it is not pending.
+   */
+  addScopePicker(approvalId: string, channel: ApprovalChannel): boolean {
+    const entry = this.pending.get(approvalId);
+    if (!entry) return false;
+    if (!entry.scopePicker?.includes(channel)) {
+      entry.scopePicker = [...(entry.scopePicker ?? []), channel];
+      this.persist();
+    }
+    return true;
+  }
+
   /**
    * Get a read-only view of all pending approvals.
    */
@@ -119,32 +192,102 @@ export class ApprovalStore {
   // ── Cleanup ───────────────────────────────────────────────────────────
 
   /**
-   * Remove entries older than staleTtlMs.
-   * Calls onExpired callback for each removed entry (e.g., to edit the Telegram message).
+   * Remove every entry that is due to expire (deadline passed, or older
+   * than staleTtlMs) at once. The timers do this one entry at a time once
+   * started; this sweep covers entries restored from disk.
+   * Calls onExpired callback for each removed entry (e.g., to edit the channel message).
    */
-  cleanStale(): number {
-    const now = Date.now();
+  cleanStale(now = Date.now()): number {
     let removed = 0;
 
     for (const [id, entry] of this.pending) {
-      if (now - entry.sentAt > this.staleTtlMs) {
+      if (now >= this.expiresAt(entry)) {
         this.pending.delete(id);
+        this.unschedule(id);
         removed++;
         this.log?.debug?.(
           `[approval-store] purged stale: ${id.slice(0, 8)}… (age=${Math.floor((now - entry.sentAt) / 1000)}s)`,
         );
-        try {
-          this.onExpired?.(entry);
-        } catch {
-          // Non-critical — just log and continue
-        }
+        this.notifyExpired(entry);
       }
     }
 
     if (removed > 0) {
       this.log?.info(`[approval-store] cleaned ${removed} stale entries`);
+      this.persist();
     }
 
     return removed;
   }
+
+  /** When an entry expires: its deadline, capped at staleTtlMs after it was sent. */
+  private expiresAt(entry: SentApproval): number {
+    const cap = entry.sentAt + this.staleTtlMs;
+    return entry.deadline !== undefined ? Math.min(entry.deadline, cap) : cap;
+  }
+
+  /** (Re)arm the expiry timer of an entry, once started. */
+  private schedule(approvalId: string, entry: SentApproval): void {
+    this.unschedule(approvalId);
+    if (!this.started) return;
+    // Longer delays overflow setTimeout; the timer then re-arms itself
+    const delay = Math.min(Math.max(this.expiresAt(entry) - Date.now(), 0), MAX_TIMER_MS);
+    const timer = setTimeout(() => this.expire(approvalId), delay);
+    // Prevent the timer from keeping the process alive
+    if (typeof timer === "object" && "unref" in timer) timer.unref();
+    this.timers.set(approvalId, timer);
+  }
+
+  private unschedule(approvalId: string): void {
+    const timer = this.timers.get(approvalId);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(approvalId);
+  }
+
+  private expire(approvalId: string): void {
+    this.timers.delete(approvalId);
+    const entry = this.pending.get(approvalId);
+    if (!entry) return;
+    const now = Date.now();
+    if (now < this.expiresAt(entry)) {
+      this.schedule(approvalId, entry);
+      return;
+    }
+    this.pending.delete(approvalId);
+    this.persist();
+    const why = entry.deadline !== undefined && entry.deadline <= now ? "deadline" : "stale cap";
+    this.log?.info(`[approval-store] expired ${approvalId.slice(0, 8)}… (${why})`);
+    this.notifyExpired(entry);
+  }
+
+  private notifyExpired(entry: SentApproval): void {
+    try {
+      this.onExpired?.(entry);
+    } catch {
+      // Non-critical — just log and continue
+    }
+  }
+
+  // ── Persistence ───────────────────────────────────────────────────────
+
+  /**
+   * Load persisted entries into memory. Entries already tracked in memory
+   * win over their persisted copies.
+   */
+  private hydrate(): void {
+    if (!this.persistence) return;
+    let restored = 0;
+    for (const entry of this.persistence.load()) {
+      if (this.pending.has(entry.info.id)) continue;
+      this.pending.set(entry.info.id, entry);
+      restored++;
+    }
+    if (restored > 0) {
+      this.log?.info(`[approval-store] restored ${restored} pending entries`);
+    }
+  }
+
+  private persist(): void {
+    this.persistence?.save([...this.pending.values()]);
+  }
 }
@@ -0,0 +1,120 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/approver-policy.ts
+// Per-channel authorization: who may press which approval button
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { ApprovalAction, QuorumRule } from "../types.js";
+
+export type AuthorizationResult = { ok: true } | { ok: false; reason: string };
+
+/**
+ * Decides whether a sender may press an approval button on a channel.
+ *
+ * A channel without an `approvers` list is open to anyone who can see the
+ * buttons (the pre-authorization behaviour). `alwaysApprovers` narrows who
+ * may press "Always"; when it is not set for a channel, `approvers` applies.
+ * Once a channel has a list, presses without a known sender are rejected.
+ */
+export class ApproverPolicy {
+  constructor(
+    private readonly approvers: Record<string, string[]> = {},
+    private readonly alwaysApprovers: Record<string, string[]> = {},
+  ) {}
+
+  /** True when presses on this channel are checked against a list. */
+  isRestricted(channelId: string): boolean {
+    return channelId in this.approvers || channelId in this.alwaysApprovers;
+  }
+
+  authorize(
+    channelId: string,
+    senderId: string | undefined,
+    action: ApprovalAction,
+  ): AuthorizationResult {
+    const allowed =
+      action === "allow-always"
+        ? this.alwaysApprovers[channelId] ?? this.approvers[channelId]
+        : this.approvers[channelId];
+    if (!allowed) return { ok: true };
+    if (!senderId) return { ok: false, reason: "unknown sender" };
+    if (allowed.includes(senderId)) return { ok: true };
+    return {
+      ok: false,
+      reason: action === "allow-always" ? "not an always-approver" : "not an approver",
+    };
+  }
+}
+
+/**
+ * Extract the sender's user ID from an inbound message.
+ *
+ * Prefers explicit metadata (`senderId`, `userId`, `user.id`, `from.id`),
+ * then the event's `from`, stripping a `<channel>:` prefix such as
+ * "telegram:123456".
+ */
+export function senderIdFrom(
+  from: string | undefined,
+  metadata: Record<string, unknown> = {},
+): string | undefined {
+  const candidates = [
+    metadata.senderId,
+    metadata.userId,
+    nestedId(metadata.user),
+    nestedId(metadata.from),
+    from,
+  ];
+  for (const value of candidates) {
+    if ((typeof value === "string" && value.trim()) || typeof value === "number") {
+      return String(value).trim().replace(/^[a-z]+:/i, "");
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Display name for the sender of an inbound message: "@username" when
+ * the metadata carries one, else a plain name, else the user ID.
+ */
+export function senderNameFrom(
+  from: string | undefined,
+  metadata: Record<string, unknown> = {},
+): string | undefined {
+  const username = firstString(
+    metadata.senderUsername,
+    metadata.username,
+    nestedField(metadata.user, "username"),
+    nestedField(metadata.from, "username"),
+  );
+  if (username) return username.startsWith("@") ? username : `@${username}`;
+  const name = firstString(
+    metadata.senderName,
+    nestedField(metadata.user, "name"),
+    nestedField(metadata.from, "first_name"),
+  );
+  return name?.trim() ?? senderIdFrom(from, metadata);
+}
+
+// ─── Two-person rule ────────────────────────────────────────────────────────
+
+/**
+ * How many distinct approvers a command needs: the quorum size when it
+ * matches any configured pattern, otherwise 1.
+ */
+export function requiredApprovals(command: string, quorum: QuorumRule | null): number {
+  if (!quorum) return 1;
+  return quorum.patterns.some((re) => re.test(command)) ? quorum.size : 1;
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+function nestedId(value: unknown): unknown {
+  return nestedField(value, "id");
+}
+
+function firstString(...values: unknown[]): string | undefined {
+  return values.find((v): v is string => typeof v === "string" && v.trim() !== "");
+}
+
+function nestedField(value: unknown, key: string): unknown {
+  return value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+}
@@ -0,0 +1,125 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/audit-log.ts
+// Append-only JSONL audit trail of approval decisions with size-based rotation
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { appendFileSync, mkdirSync, readFileSync, renameSync, rmSync, statSync } from "node:fs";
+import { dirname } from "node:path";
+import type { AuditOutcome, AuditRecord, DecisionDetail, Logger, SentApproval } from "../types.js";
+import { pluginStatePath } from "./approval-persistence.js";
+
+/**
+ * Records every approval decision (or expiry) as one JSON line.
+ *
+ * When the active file would grow past maxBytes it is rotated:
+ * audit.jsonl → audit.jsonl.1 → … → audit.jsonl.<maxFiles>, dropping the
+ * oldest. Writes are synchronous and never throw — a failing audit log
+ * is reported but must not block approvals.
+ */
+export class AuditLog {
+  constructor(
+    private readonly filePath: string,
+    private readonly maxBytes: number,
+    private readonly maxFiles: number,
+    private readonly log?: Logger,
+  ) {}
+
+  /**
+   * Append a record for a resolved or expired approval.
+   */
+  record(
+    entry: SentApproval,
+    outcome: AuditOutcome,
+    decidedBy?: string,
+    detail: DecisionDetail = {},
+  ): AuditRecord {
+    const resolvedAt = Date.now();
+    const record: AuditRecord = {
+      ...entry.info,
+      channels: [...new Set(entry.messages.map((m) => m.channel))],
+      sentAt: entry.sentAt,
+      resolvedAt,
+      latencyMs: resolvedAt - entry.sentAt,
+      outcome,
+      ...(decidedBy ? { decidedBy } : {}),
+      ...(detail.reason ? { reason: detail.reason } : {}),
+      ...(detail.editedCommand ? { editedCommand: detail.editedCommand } : {}),
+      ...(detail.scope ? { scope: detail.scope } : {}),
+      ...(entry.escalations?.length ? { escalations: entry.escalations } : {}),
+    };
+
+    const line = JSON.stringify(record) + "\n";
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      this.rotateIfNeeded(Buffer.byteLength(line));
+      appendFileSync(this.filePath, line, { encoding: "utf8", mode: 0o600 });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log?.error(`[audit-log] write failed: ${msg}`);
+    }
+    return record;
+  }
+
+  /**
+   * Return the last `count` records, newest first.
+   * Reads rotated files as needed to fill the request.
+   */
+  tail(count: number): AuditRecord[] {
+    const result: AuditRecord[] = [];
+    for (let i = 0; i <= this.maxFiles && result.length < count; i++) {
+      const lines = readLines(i === 0 ? this.filePath : `${this.filePath}.${i}`);
+      for (let j = lines.length - 1; j >= 0 && result.length < count; j--) {
+        try {
+          result.push(JSON.parse(lines[j]) as AuditRecord);
+        } catch {
+          // Skip partially written / corrupt lines
+        }
+      }
+    }
+    return result;
+  }
+
+  // ── Rotation ──────────────────────────────────────────────────────────
+
+  private rotateIfNeeded(incomingBytes: number): void {
+    let size: number;
+    try {
+      size = statSync(this.filePath).size;
+    } catch {
+      return; // File doesn't exist yet
+    }
+    if (size === 0 || size + incomingBytes <= this.maxBytes) return;
+
+    rmSync(`${this.filePath}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      try {
+        renameSync(`${this.filePath}.${i}`, `${this.filePath}.${i + 1}`);
+      } catch {
+        // Gap in the rotation chain — nothing to shift
+      }
+    }
+    if (this.maxFiles >= 1) {
+      renameSync(this.filePath, `${this.filePath}.1`);
+    } else {
+      rmSync(this.filePath, { force: true });
+    }
+    this.log?.info(`[audit-log] rotated ${this.filePath}`);
+  }
+}
+
+/**
+ * Path of the active audit log inside the plugin's state folder.
+ */
+export function auditFilePath(stateDir: string): string {
+  return pluginStatePath(stateDir, "audit.jsonl");
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+function readLines(path: string): string[] {
+  try {
+    return readFileSync(path, "utf8").split("\n").filter((l) => l.trim() !== "");
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,54 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/channel-adapter.ts
+// Registry of channel adapters (built-in and third-party channels)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { ChannelAdapter, Logger } from "../types.js";
+
+// ─── Registry ───────────────────────────────────────────────────────────────
+
+/**
+ * Holds the adapters the plugin routes approvals through, keyed by channel ID.
+ */
+export class AdapterRegistry {
+  private readonly adapters = new Map<string, ChannelAdapter<any>>();
+
+  constructor(private readonly log?: Logger) {}
+
+  /**
+   * Register an adapter. A later registration for the same channel ID
+   * replaces the earlier one. Returns a function that unregisters it.
+   */
+  register(adapter: ChannelAdapter<any>): () => void {
+    if (!adapter?.id) throw new Error("ChannelAdapter.id is required");
+    if (this.adapters.has(adapter.id)) {
+      this.log?.warn(`[channel-adapter] replacing adapter for "${adapter.id}"`);
+    }
+    this.adapters.set(adapter.id, adapter);
+    return () => {
+      if (this.adapters.get(adapter.id) === adapter) this.adapters.delete(adapter.id);
+    };
+  }
+
+  get(channelId: string): ChannelAdapter<any> | undefined {
+    return this.adapters.get(channelId);
+  }
+
+  list(): ChannelAdapter<any>[] {
+    return [...this.adapters.values()];
+  }
+
+  get size(): number {
+    return this.adapters.size;
+  }
+}
+
+/**
+ * Process-wide registry shared by every copy of this module, so adapters
+ * registered by other plugins are seen even if the module is loaded twice.
+ */
+export function sharedAdapterRegistry(): AdapterRegistry {
+  const key = Symbol.for("openclaw.approval-buttons.adapters");
+  const holder = globalThis as unknown as Record<symbol, AdapterRegistry | undefined>;
+  return (holder[key] ??= new AdapterRegistry());
+}
@@ -0,0 +1,44 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/command-diff.ts
+// Line diff between an approval's command and the approver's edited version
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Above this many line pairs the LCS table gets too big; show a full replace instead. */
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Diff two commands line by line, unified-diff style without hunks:
+ * unchanged lines start with two spaces, removed lines with "- " and
+ * added lines with "+ ". Removals are listed before the additions that
+ * replace them.
+ */
+export function diffCommands(original: string, edited: string): string {
+  const a = original.split("\n");
+  const b = edited.split("\n");
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [...a.map((l) => `- ${l}`), ...b.map((l) => `+ ${l}`)].join("\n");
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i++]}`);
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  return lines.join("\n");
+}
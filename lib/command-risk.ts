@@ -0,0 +1,268 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/command-risk.ts
+// Static risk analysis of shell commands (sudo, pipes to shells, rm -r, …)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { CommandRisk, RiskLevel } from "../types.js";
+
+const RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+const PRIVILEGE_WRAPPERS = new Set(["sudo", "doas", "su", "pkexec"]);
+/** Wrapper options that consume the following word (`sudo -u root …`) */
+const VALUE_FLAGS = new Set(["-u", "-g", "-h", "-p", "-C", "-D", "-r", "-t", "-U", "-n"]);
+const PASSTHROUGH_WRAPPERS = new Set(["env", "nohup", "time", "nice", "xargs", "command", "exec"]);
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish", "python", "python3", "perl", "ruby", "node"]);
+const FETCHERS = new Set(["curl", "wget", "fetch", "iwr", "invoke-webrequest"]);
+const SYSTEM_PATH = /^(\/(etc|usr|bin|sbin|lib|lib64|boot|sys|proc|dev|var\/lib|root)(\/|$)|~?\/\.ssh(\/|$))/;
+const HARMLESS_DEVICE = /^\/dev\/(null|zero|stdout|stderr|stdin|tty|fd\/\d+)$/;
+const BROAD_TARGET = /^(\/|\/\*|~|~\/|~\/\*|\$HOME\/?|\*|\.\/?\*?|\.\.\/?)$/;
+
+/** One simple command of a pipeline/list, as words plus redirect targets. */
+interface Segment {
+  words: string[];
+  redirects: string[];
+  /** Operator that joined this segment to the previous one */
+  joinedBy: string | null;
+}
+
+interface Finding {
+  level: RiskLevel;
+  reason: string;
+}
+
+// ─── Analysis ───────────────────────────────────────────────────────────────
+
+/**
+ * Tokenize a shell command and assess how risky it looks.
+ *
+ * This is a heuristic for display and button gating — it reads quoting,
+ * pipes, lists and redirections, but it does not expand variables or
+ * follow scripts, so "low" never means "safe".
+ */
+export function analyzeCommand(command: string): CommandRisk {
+  const segments = tokenize(command);
+  const findings: Finding[] = [];
+
+  segments.forEach((segment, i) => {
+    const { name, args, privileged } = unwrap(segment.words);
+    if (privileged) findings.push({ level: "medium", reason: `runs as root (${privileged})` });
+
+    for (const target of segment.redirects) {
+      if (isSystemPath(target)) findings.push({ level: "high", reason: `writes to system path ${target}` });
+    }
+
+    // Network fetch piped straight into an interpreter
+    const prev = segments[i - 1];
+    if (segment.joinedBy === "|" && prev && name && SHELLS.has(name)) {
+      const source = unwrap(prev.words).name;
+      findings.push(
+        source && FETCHERS.has(source)
+          ? { level: "high", reason: `downloads and executes code (${source} | ${name})` }
+          : { level: "medium", reason: `pipes input into ${name}` },
+      );
+    }
+
+    if (name) findings.push(...inspect(name, args));
+
+    // `bash -c "…"` — analyze the inline script too
+    const script = name && SHELLS.has(name) ? args[args.indexOf("-c") + 1] : undefined;
+    if (script && args.includes("-c")) {
+      const inner = analyzeCommand(script);
+      findings.push(...inner.reasons.map((reason) => ({ level: inner.level, reason })));
+    }
+  });
+
+  findings.sort((a, b) => RANK[b.level] - RANK[a.level]);
+  const level = findings[0]?.level ?? "low";
+  return { level, reasons: [...new Set(findings.map((f) => f.reason))] };
+}
+
+/**
+ * Whether the "Always" button may be offered for this command.
+ * High-risk commands must be approved one at a time.
+ */
+export function allowsAlways(command: string): boolean {
+  return analyzeCommand(command).level !== "high";
+}
+
+/**
+ * The words of a command that runs one program directly: a single simple
+ * command with no pipes, lists, redirections, substitutions, wrappers
+ * (`sudo`, `env`, `VAR=1 …`) or shell interpreters. Null for anything
+ * else. Scoped "Always" grants broader than the exact command only ever
+ * match such commands.
+ */
+export function plainCommandWords(command: string): string[] | null {
+  if (/`|\$\(|[<>]\(/.test(command)) return null;
+  const segments = tokenize(command);
+  if (segments.length !== 1 || segments[0].redirects.length > 0) return null;
+  const words = segments[0].words;
+  const { name, privileged } = unwrap(words);
+  if (!name || privileged || basename(words[0]).toLowerCase() !== name || SHELLS.has(name)) return null;
+  return words;
+}
+
+// ─── Per-program checks ─────────────────────────────────────────────────────
+
+function inspect(name: string, args: string[]): Finding[] {
+  const flags = args.filter((a) => a.startsWith("-"));
+  const targets = args.filter((a) => !a.startsWith("-"));
+  const hasShort = (ch: string) => flags.some((f) => /^-[^-]/.test(f) && f.includes(ch));
+
+  switch (name) {
+    case "rm": {
+      if (!(hasShort("r") || hasShort("R") || flags.includes("--recursive"))) return [];
+      const broad = targets.filter((t) => BROAD_TARGET.test(t) || isSystemPath(t));
+      return broad.length > 0
+        ? [{ level: "high", reason: `recursive delete of ${broad.join(" ")}` }]
+        : [{ level: "medium", reason: "recursive delete" }];
+    }
+    case "git": {
+      if (targets[0] !== "push") return [];
+      if (flags.includes("--force-with-lease")) return [{ level: "medium", reason: "force push (with lease)" }];
+      if (flags.includes("--force") || hasShort("f") || targets.some((t) => t.startsWith("+"))) {
+        return [{ level: "high", reason: "force push" }];
+      }
+      return [];
+    }
+    case "chmod":
+    case "chown":
+      return hasShort("R") || flags.includes("--recursive")
+        ? [{ level: isSystemPath(targets.at(-1) ?? "") ? "high" : "medium", reason: `recursive ${name}` }]
+        : [];
+    case "dd":
+      return args.some((a) => /^of=\/dev\//.test(a)) ? [{ level: "high", reason: "writes a raw device (dd)" }] : [];
+    case "shutdown":
+    case "reboot":
+    case "halt":
+    case "poweroff":
+      return [{ level: "high", reason: `${name} the machine` }];
+    default:
+      if (name.startsWith("mkfs")) return [{ level: "high", reason: "formats a filesystem" }];
+      return [];
+  }
+}
+
+// ─── Tokenizer ──────────────────────────────────────────────────────────────
+
+/**
+ * Split a command into simple commands joined by `|`, `||`, `&&`, `;`,
+ * `&` or newlines. Honours single/double quotes and backslash escapes;
+ * redirection targets (`>`, `>>`, `2>`, `&>`, `| tee`) are collected
+ * separately.
+ */
+function tokenize(command: string): Segment[] {
+  const segments: Segment[] = [];
+  let current: Segment = { words: [], redirects: [], joinedBy: null };
+  let word = "";
+  let inWord = false;
+  let quote: "'" | '"' | null = null;
+  let redirectNext = false;
+
+  const endWord = () => {
+    if (!inWord) return;
+    if (redirectNext) current.redirects.push(word);
+    else current.words.push(word);
+    word = "";
+    inWord = false;
+    redirectNext = false;
+  };
+  const endSegment = (op: string) => {
+    endWord();
+    if (current.words.length > 0 || current.redirects.length > 0) segments.push(current);
+    current = { words: [], redirects: [], joinedBy: op };
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (ch === "\\" && quote === '"' && i + 1 < command.length) word += command[++i];
+      else word += ch;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+      inWord = true;
+    } else if (ch === "\\" && i + 1 < command.length) {
+      word += command[++i];
+      inWord = true;
+    } else if (ch === " " || ch === "\t") {
+      endWord();
+    } else if (ch === "\n" || ch === ";") {
+      endSegment(";");
+    } else if (ch === "|" || ch === "&") {
+      const double = command[i + 1] === ch;
+      if (ch === "&" && command[i + 1] === ">") {
+        endWord();
+        redirectNext = true;
+        i += command[i + 2] === ">" ? 2 : 1;
+        continue;
+      }
+      endSegment(double ? ch + ch : ch);
+      if (double) i++;
+    } else if (ch === ">") {
+      // "2>" / "1>" — drop the fd number that was read as a word
+      if (inWord && /^\d$/.test(word)) {
+        word = "";
+        inWord = false;
+      }
+      endWord();
+      redirectNext = true;
+      if (command[i + 1] === ">") i++;
+      if (command[i + 1] === "&") i++; // >&2
+    } else if (ch === "#" && !inWord) {
+      break; // Comment to end of line
+    } else {
+      word += ch;
+      inWord = true;
+    }
+  }
+  endSegment(";");
+
+  // `… | tee /etc/x` writes its arguments just like a redirection
+  for (const s of segments) {
+    const { name, args } = unwrap(s.words);
+    if (name === "tee") s.redirects.push(...args.filter((a) => !a.startsWith("-")));
+  }
+  return segments;
+}
+
+/**
+ * Strip privilege and pass-through wrappers (`sudo -u x env FOO=1 rm …`)
+ * to find the program that actually runs.
+ */
+function unwrap(words: string[]): { name: string | null; args: string[]; privileged: string | null } {
+  let i = 0;
+  let privileged: string | null = null;
+  while (i < words.length) {
+    const w = basename(words[i]);
+    if (PRIVILEGE_WRAPPERS.has(w)) {
+      privileged ??= w;
+      i = skipOptions(words, i + 1); // sudo -E -u root
+    } else if (PASSTHROUGH_WRAPPERS.has(w) || /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[i])) {
+      i = skipOptions(words, i + 1);
+    } else {
+      break;
+    }
+  }
+  const name = i < words.length ? basename(words[i]).toLowerCase() : null;
+  return { name, args: words.slice(i + 1), privileged };
+}
+
+function skipOptions(words: string[], i: number): number {
+  while (i < words.length && words[i].startsWith("-")) {
+    i += VALUE_FLAGS.has(words[i]) ? 2 : 1;
+  }
+  return i;
+}
+
+function isSystemPath(path: string): boolean {
+  return SYSTEM_PATH.test(path) && !HARMLESS_DEVICE.test(path);
+}
+
+function basename(word: string): string {
+  return word.slice(word.lastIndexOf("/") + 1);
+}
@@ -0,0 +1,46 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/decision-dispatcher.ts
+// Submit approval decisions through the gateway (auto-decisions, direct presses)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { ApprovalAction, DecisionDispatcher, Logger } from "../types.js";
+
+/** Gateway RPC as exposed by the OpenClaw runtime. */
+export type GatewayCall = (method: string, params: Record<string, unknown>) => Promise<unknown>;
+
+/**
+ * Resolves approvals through the gateway's `exec.approval.resolve` method —
+ * the same call OpenClaw's own `/approve` command makes. A deny reason is
+ * passed along as `reason`; gateways that predate it ignore the field.
+ */
+export class GatewayDecisionDispatcher implements DecisionDispatcher {
+  constructor(
+    private readonly call: GatewayCall,
+    private readonly log?: Logger,
+  ) {}
+
+  async dispatch(approvalId: string, action: ApprovalAction, reason?: string): Promise<boolean> {
+    try {
+      await this.call("exec.approval.resolve", {
+        id: approvalId,
+        decision: action,
+        ...(reason ? { reason } : {}),
+      });
+      return true;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log?.warn(`[decision-dispatcher] exec.approval.resolve failed for ${approvalId.slice(0, 8)}…: ${msg}`);
+      return false;
+    }
+  }
+}
+
+/**
+ * Find the gateway RPC on the plugin API, if this OpenClaw build exposes
+ * one. Returns null otherwise (auto-decisions then fall back to buttons).
+ */
+export function gatewayCallFrom(api: any): GatewayCall | null {
+  const gateway = api?.runtime?.gateway;
+  if (typeof gateway?.call !== "function") return null;
+  return (method, params) => gateway.call(method, params);
+}
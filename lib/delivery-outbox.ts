@@ -0,0 +1,288 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/delivery-outbox.ts
+// Delivery outbox: resolve / expire / escalate edits retried until they land
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { randomBytes } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import type {
+  ApprovalInfo,
+  EditResult,
+  Logger,
+  OutboxFailure,
+  OutboxItem,
+  OutboxKind,
+  OutboxStats,
+  SentMessage,
+} from "../types.js";
+import type { AdapterRegistry } from "./channel-adapter.js";
+import { pluginStatePath } from "./approval-persistence.js";
+
+const FILE_VERSION = 1;
+/** Wait before the first retry; doubles with every failed attempt */
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 10 * 60_000;
+/** Edits still failing after this long are given up on */
+const MAX_AGE_MS = 24 * 60 * 60_000;
+const KINDS: readonly OutboxKind[] = ["resolve", "expire", "escalate"];
+
+/**
+ * Makes the edits that close an approval's messages — the decision, the
+ * expiry, retiring a late escalation copy — stick. Each edit is tried
+ * right away; one that fails is kept (in a JSON file in the plugin's
+ * state folder, in memory only without a path) and retried with growing
+ * pauses until the platform takes it or refuses it for good (an
+ * EditResult with `permanent`, e.g. the message was deleted). Without it
+ * a failed edit leaves the buttons of a decided approval live forever.
+ *
+ * A newer edit of the same message replaces a queued one. Refused edits
+ * and edits still failing after a day are dropped, logged and shown in
+ * /approvalstatus.
+ */
+export class DeliveryOutbox {
+  private items: OutboxItem[];
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private started = false;
+  private redelivered = 0;
+  private rejected = 0;
+  private lastFailure: OutboxFailure | undefined;
+
+  constructor(
+    private readonly adapters: AdapterRegistry,
+    private readonly filePath?: string,
+    private readonly log?: Logger,
+  ) {
+    this.items = filePath ? this.load(filePath) : [];
+  }
+
+  // ── Lifecycle ───────────────────────────────────────────────────────────
+
+  /** Start retrying queued edits (those loaded from disk included). */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    for (const item of this.items) this.schedule(item);
+  }
+
+  /** Stop retrying; queued edits stay on disk for the next start. */
+  stop(): void {
+    this.started = false;
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  get stats(): OutboxStats {
+    return {
+      retrying: this.items.length,
+      redelivered: this.redelivered,
+      rejected: this.rejected,
+      ...(this.lastFailure ? { lastFailure: { ...this.lastFailure } } : {}),
+    };
+  }
+
+  // ── Edits ───────────────────────────────────────────────────────────────
+
+  /**
+   * Edit each of `messages` for `kind` (showing `decision` for a resolve),
+   * queueing the ones that fail for a retry. Never throws.
+   */
+  async send(
+    kind: OutboxKind,
+    messages: SentMessage[],
+    info: ApprovalInfo,
+    decision?: OutboxItem["decision"],
+  ): Promise<void> {
+    const now = Date.now();
+    const queued = await Promise.all(
+      messages.map(async (message) => {
+        this.drop(messageKey(message));
+        const item: OutboxItem = {
+          id: randomBytes(4).toString("hex"),
+          kind,
+          message,
+          info,
+          ...(decision ? { decision } : {}),
+          queuedAt: now,
+          attempts: 0,
+          nextAttemptAt: now,
+        };
+        return (await this.attempt(item)) ? null : item;
+      }),
+    );
+    for (const item of queued) {
+      if (!item) continue;
+      this.items.push(item);
+      this.schedule(item);
+    }
+    if (queued.some((item) => item !== null)) this.save();
+  }
+
+  // ── Internal ────────────────────────────────────────────────────────────
+
+  /**
+   * Try the edit once. Returns true when it is settled — applied, or
+   * given up on; otherwise the item is set up for its next attempt.
+   */
+  private async attempt(item: OutboxItem): Promise<boolean> {
+    item.attempts++;
+    const result = await this.edit(item);
+    const short = item.info.id.slice(0, 8);
+    if (result.ok) {
+      if (item.attempts > 1) {
+        this.redelivered++;
+        this.log?.info(`[delivery-outbox] ${item.kind} of ${short}… on ${item.message.channel} went through (attempt ${item.attempts})`);
+      }
+      return true;
+    }
+
+    item.lastError = result.error;
+    const now = Date.now();
+    if (result.permanent || now - item.queuedAt >= MAX_AGE_MS) {
+      this.rejected++;
+      this.lastFailure = {
+        kind: item.kind,
+        approvalId: item.info.id,
+        channel: item.message.channel,
+        error: result.error,
+        at: now,
+      };
+      const why = result.permanent ? "rejected" : `still failing after ${item.attempts} attempts`;
+      this.log?.warn(`[delivery-outbox] ${item.kind} of ${short}… on ${item.message.channel} ${why}: ${result.error}`);
+      return true;
+    }
+
+    item.nextAttemptAt = now + Math.min(RETRY_BASE_MS * 2 ** (item.attempts - 1), RETRY_MAX_MS);
+    this.log?.warn(
+      `[delivery-outbox] ${item.kind} of ${short}… on ${item.message.channel} failed (${result.error}) — ` +
+        `retrying in ${Math.round((item.nextAttemptAt - now) / 1000)}s`,
+    );
+    return false;
+  }
+
+  private async edit(item: OutboxItem): Promise<EditResult> {
+    const adapter = this.adapters.get(item.message.channel);
+    if (!adapter) return { ok: false, error: "channel not registered", permanent: false };
+    try {
+      const { ref } = item.message;
+      const result = item.decision
+        ? await adapter.markResolved(ref, item.info, item.decision.action, item.decision.decidedBy, item.decision.detail)
+        : await adapter.markExpired(ref, item.info);
+      if (typeof result !== "boolean") return result;
+      return result ? { ok: true } : { ok: false, error: "edit failed", permanent: false };
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return { ok: false, error: msg, permanent: false };
+    }
+  }
+
+  private async retry(id: string): Promise<void> {
+    this.timers.delete(id);
+    const item = this.items.find((i) => i.id === id);
+    if (!item) return;
+    const settled = await this.attempt(item);
+    // Replaced by a newer edit of the same message while this one ran
+    if (!this.items.includes(item)) return;
+    if (settled) {
+      this.items = this.items.filter((i) => i !== item);
+    } else {
+      this.schedule(item);
+    }
+    this.save();
+  }
+
+  /** Forget a queued edit of the message (a newer edit supersedes it). */
+  private drop(key: string): void {
+    const old = this.items.find((i) => messageKey(i.message) === key);
+    if (!old) return;
+    this.unschedule(old.id);
+    this.items = this.items.filter((i) => i !== old);
+  }
+
+  private schedule(item: OutboxItem): void {
+    this.unschedule(item.id);
+    if (!this.started) return;
+    const timer = setTimeout(() => {
+      this.retry(item.id).catch(() => {});
+    }, Math.max(item.nextAttemptAt - Date.now(), 0));
+    // Prevent the timer from keeping the process alive
+    if (typeof timer === "object" && "unref" in timer) timer.unref();
+    this.timers.set(item.id, timer);
+  }
+
+  private unschedule(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(id);
+  }
+
+  private load(filePath: string): OutboxItem[] {
+    let raw: string;
+    try {
+      raw = readFileSync(filePath, "utf8");
+    } catch {
+      return []; // Nothing queued
+    }
+    try {
+      const data = JSON.parse(raw) as { version?: number; items?: unknown };
+      if (data.version !== FILE_VERSION || !Array.isArray(data.items)) {
+        this.log?.warn(`[delivery-outbox] ignoring ${filePath}: unsupported format`);
+        return [];
+      }
+      return data.items.filter(isOutboxItem);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log?.warn(`[delivery-outbox] ignoring ${filePath}: ${msg}`);
+      return [];
+    }
+  }
+
+  /** Atomic write (temp file + rename), like the pending-approvals snapshot. */
+  private save(): void {
+    if (!this.filePath) return;
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(tmpPath, JSON.stringify({ version: FILE_VERSION, items: this.items }), {
+        encoding: "utf8",
+        mode: 0o600,
+      });
+      renameSync(tmpPath, this.filePath);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log?.error(`[delivery-outbox] save failed: ${msg}`);
+    }
+  }
+}
+
+/**
+ * Path of the delivery outbox inside the plugin's state folder.
+ */
+export function outboxFilePath(stateDir: string): string {
+  return pluginStatePath(stateDir, "outbox.json");
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+function messageKey(message: SentMessage): string {
+  return `${message.channel}:${JSON.stringify(message.ref)}`;
+}
+
+function isOutboxItem(value: unknown): value is OutboxItem {
+  if (!value || typeof value !== "object") return false;
+  const v = value as Partial<OutboxItem>;
+  return (
+    typeof v.id === "string" &&
+    KINDS.includes(v.kind as OutboxKind) &&
+    !!v.message &&
+    typeof v.message.channel === "string" &&
+    !!v.message.ref &&
+    typeof v.message.ref === "object" &&
+    !!v.info &&
+    typeof v.info.id === "string" &&
+    (v.decision === undefined || typeof v.decision?.action === "string") &&
+    typeof v.queuedAt === "number" &&
+    typeof v.attempts === "number" &&
+    typeof v.nextAttemptAt === "number"
+  );
+}
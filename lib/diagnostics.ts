@@ -3,39 +3,73 @@
 // Self-diagnostics: config validation, connectivity check, auto-repair
 // ─────────────────────────────────────────────────────────────────────────────
 
-import type { HealthCheck, Logger, PluginConfig, ResolvedConfig } from "../types.js";
-import type { TelegramApi } from "./telegram-api.js";
-import type { SlackApi } from "./slack-api.js";
+import { randomBytes } from "node:crypto";
+import { isAbsolute, join } from "node:path";
+import type {
+  ChannelAdapter,
+  ChannelHealth,
+  HealthCheck,
+  Logger,
+  OutboxStats,
+  ParseStats,
+  PluginConfig,
+  EscalationConfig,
+  QuorumRule,
+  ResolvedConfig,
+  TelegramUpdatesConfig,
+} from "../types.js";
 import type { ApprovalStore } from "./approval-store.js";
+import { pluginStatePath, resolveStateDir } from "./approval-persistence.js";
+import { loadPolicyFile, type PolicyEngine } from "./policy.js";
 
 // ─── Config resolution ─────────────────────────────────────────────────────
 
+const DEFAULT_SLACK_INTERACTIVITY_PATH = "/approval-buttons/slack/interactions";
+const DEFAULT_TELEGRAM_WEBHOOK_PATH = "/approval-buttons/telegram/webhook";
+/** Characters Telegram accepts in a webhook secret_token (1–256 of them) */
+const RE_WEBHOOK_SECRET = /^[A-Za-z0-9_-]{1,256}$/;
+/** Longest batchWindowSecs honoured — a digest is for bursts, not a queue */
+const MAX_BATCH_WINDOW_SECS = 60;
+
 export interface ConfigSources {
   pluginConfig: PluginConfig;
   telegramChannelConfig: { token?: string; allowFrom?: (string | number)[] };
-  slackChannelConfig: { token?: string; botToken?: string; allowFrom?: (string | number)[] };
+  slackChannelConfig: {
+    token?: string;
+    botToken?: string;
+    signingSecret?: string;
+    allowFrom?: (string | number)[];
+  };
+  discordChannelConfig: { token?: string; allowFrom?: (string | number)[] };
+  /** State directory reported by the OpenClaw runtime, if available */
+  runtimeStateDir?: string;
   env: {
     TELEGRAM_BOT_TOKEN?: string;
     TELEGRAM_CHAT_ID?: string;
     SLACK_BOT_TOKEN?: string;
     SLACK_CHANNEL_ID?: string;
+    SLACK_SIGNING_SECRET?: string;
+    DISCORD_BOT_TOKEN?: string;
+    DISCORD_CHANNEL_ID?: string;
+    OPENCLAW_STATE_DIR?: string;
   };
 }
 
 /**
  * Resolve plugin configuration from multiple sources with priority:
  * 1. pluginConfig (explicit config in openclaw.json)
- * 2. channels.telegram / channels.slack (shared channel config)
+ * 2. channels.telegram / channels.slack / channels.discord (shared channel config)
  * 3. Environment variables (fallback)
  *
- * Returns null only if BOTH Telegram and Slack are unconfigurable.
- * Either channel can be independently enabled/disabled.
+ * Each built-in channel can be independently enabled/disabled. When none is
+ * configured the plugin still loads, so adapters registered by other
+ * plugins can be used.
  */
 export function resolveConfig(
   sources: ConfigSources,
   log: Logger,
-): ResolvedConfig | null {
-  const { pluginConfig, telegramChannelConfig, slackChannelConfig, env } = sources;
+): ResolvedConfig {
+  const { pluginConfig, telegramChannelConfig, slackChannelConfig, discordChannelConfig, env } = sources;
 
   // ── Telegram config ─────────────────────────────────────────────────
   const tgBotToken =
@@ -44,22 +78,24 @@ export function resolveConfig(
     env.TELEGRAM_BOT_TOKEN ||
     "";
 
-  let tgChatId = pluginConfig.chatId || env.TELEGRAM_CHAT_ID || "";
+  // Explicit chat lists win; env accepts a comma-separated list
+  let tgChatIds = idList(pluginConfig.chatId, pluginConfig.chatIds);
+  if (tgChatIds.length === 0) tgChatIds = idList(env.TELEGRAM_CHAT_ID);
 
-  if (!tgChatId && Array.isArray(telegramChannelConfig.allowFrom)) {
+  if (tgChatIds.length === 0 && Array.isArray(telegramChannelConfig.allowFrom)) {
     const first = telegramChannelConfig.allowFrom[0];
     const candidate = String(first ?? "");
     if (/^-?\d+$/.test(candidate)) {
-      tgChatId = candidate;
+      tgChatIds = [candidate];
       log.info(
-        `[diagnostics] Auto-resolved Telegram chatId from channels.telegram.allowFrom: ${tgChatId}`,
+        `[diagnostics] Auto-resolved Telegram chatId from channels.telegram.allowFrom: ${candidate}`,
       );
     }
   }
 
   const telegram =
-    tgBotToken && tgChatId
-      ? { chatId: tgChatId, botToken: tgBotToken }
+    tgBotToken && tgChatIds.length > 0
+      ? { chatIds: tgChatIds, botToken: tgBotToken, updates: resolveTelegramUpdates(pluginConfig, log) }
       : null;
 
   if (!telegram) {
@@ -74,36 +110,77 @@ export function resolveConfig(
     env.SLACK_BOT_TOKEN ||
     "";
 
-  let slackChannelId = pluginConfig.slackChannelId || env.SLACK_CHANNEL_ID || "";
+  let slackChannelIds = idList(pluginConfig.slackChannelId, pluginConfig.slackChannelIds);
+  if (slackChannelIds.length === 0) slackChannelIds = idList(env.SLACK_CHANNEL_ID);
 
   // Auto-detect from Slack channel's allowFrom (user/channel ID)
-  if (!slackChannelId && Array.isArray(slackChannelConfig.allowFrom)) {
+  if (slackChannelIds.length === 0 && Array.isArray(slackChannelConfig.allowFrom)) {
     const first = slackChannelConfig.allowFrom[0];
     const candidate = String(first ?? "");
     // Slack IDs start with U (user), D (DM), C (channel), G (group)
     if (/^[UDCGW][A-Z0-9]+$/.test(candidate)) {
-      slackChannelId = candidate;
+      slackChannelIds = [candidate];
       log.info(
-        `[diagnostics] Auto-resolved Slack channelId from channels.slack.allowFrom: ${slackChannelId}`,
+        `[diagnostics] Auto-resolved Slack channelId from channels.slack.allowFrom: ${candidate}`,
       );
     }
   }
 
+  const slackSigningSecret =
+    pluginConfig.slackSigningSecret ||
+    slackChannelConfig.signingSecret ||
+    env.SLACK_SIGNING_SECRET ||
+    undefined;
+
   const slack =
-    slackBotToken && slackChannelId
-      ? { channelId: slackChannelId, botToken: slackBotToken }
+    slackBotToken && slackChannelIds.length > 0
+      ? {
+          channelIds: slackChannelIds,
+          botToken: slackBotToken,
+          signingSecret: slackSigningSecret,
+          interactivityPath: pluginConfig.slackInteractivityPath?.trim() || DEFAULT_SLACK_INTERACTIVITY_PATH,
+        }
       : null;
 
   if (!slack) {
     log.info("[diagnostics] Slack not configured (optional)");
   }
 
-  // ── At least one channel required ─────────────────────────────────
-  if (!telegram && !slack) {
-    log.error(
-      "[diagnostics] Plugin disabled — neither Telegram nor Slack is configured",
+  // ── Discord config ──────────────────────────────────────────────────
+  const discordBotToken =
+    pluginConfig.discordBotToken ||
+    discordChannelConfig.token ||
+    env.DISCORD_BOT_TOKEN ||
+    "";
+
+  const discordChannelId = pluginConfig.discordChannelId || env.DISCORD_CHANNEL_ID || "";
+  let discordDmUserId = "";
+
+  // Auto-detect a DM recipient from Discord's allowFrom (user snowflake)
+  if (!discordChannelId && Array.isArray(discordChannelConfig.allowFrom)) {
+    const first = discordChannelConfig.allowFrom[0];
+    const candidate = String(first ?? "");
+    if (/^\d{15,21}$/.test(candidate)) {
+      discordDmUserId = candidate;
+      log.info(
+        `[diagnostics] Auto-resolved Discord DM user from channels.discord.allowFrom: ${discordDmUserId}`,
+      );
+    }
+  }
+
+  const discord =
+    discordBotToken && (discordChannelId || discordDmUserId)
+      ? { channelId: discordChannelId, dmUserId: discordDmUserId, botToken: discordBotToken }
+      : null;
+
+  if (!discord) {
+    log.info("[diagnostics] Discord not configured (optional)");
+  }
+
+  if (!telegram && !slack && !discord) {
+    log.warn(
+      "[diagnostics] No built-in channel configured — only externally registered adapters will be used",
     );
-    return null;
   }
 
   // ── Optional config with defaults ───────────────────────────────────
@@ -114,66 +191,224 @@ export function resolveConfig(
 
   const verbose = pluginConfig.verbose === true;
 
-  return { telegram, slack, staleMins, verbose };
+  const stateDir = resolveStateDir(pluginConfig.stateDir || sources.runtimeStateDir, env);
+  const persist = pluginConfig.persist !== false;
+  const liveCountdown = pluginConfig.liveCountdown !== false;
+
+  const audit =
+    pluginConfig.audit === false
+      ? null
+      : {
+          maxBytes: positiveOr(pluginConfig.auditMaxKb, 5120) * 1024,
+          maxFiles: Math.floor(positiveOr(pluginConfig.auditMaxFiles, 5)),
+        };
+
+  const approvers = idListMap(pluginConfig.approvers);
+  const alwaysApprovers = idListMap(pluginConfig.alwaysApprovers);
+
+  const quorum = resolveQuorum(pluginConfig, log);
+
+  // Relative policy paths are taken from the state dir
+  const policyFile = pluginConfig.policyFile
+    ? isAbsolute(pluginConfig.policyFile)
+      ? pluginConfig.policyFile
+      : join(stateDir, pluginConfig.policyFile)
+    : pluginStatePath(stateDir, "policy.json");
+
+  const batchWindowMs = Math.min(Math.floor(positiveOr(pluginConfig.batchWindowSecs, 0)), MAX_BATCH_WINDOW_SECS) * 1000;
+
+  const escalation = resolveEscalation(pluginConfig, staleMins, log);
+
+  const groupChats = telegram?.chatIds.filter((id) => id.startsWith("-")) ?? [];
+  if (groupChats.length > 0 && !approvers.telegram) {
+    log.warn(
+      "[diagnostics] Approval buttons go to a Telegram group but approvers.telegram is not set — " +
+        "any group member can approve",
+    );
+  }
+
+  return {
+    telegram,
+    slack,
+    discord,
+    staleMins,
+    verbose,
+    stateDir,
+    persist,
+    audit,
+    approvers,
+    alwaysApprovers,
+    quorum,
+    policyFile,
+    batchWindowMs,
+    liveCountdown,
+    escalation,
+  };
+}
+
+/**
+ * Flatten string / comma-separated string / array config values into a
+ * de-duplicated list of non-empty IDs.
+ */
+function idList(...values: (string | (string | number)[] | undefined)[]): string[] {
+  const ids = values
+    .flatMap((v) => (Array.isArray(v) ? v.map(String) : (v ?? "").split(",")))
+    .map((id) => id.trim())
+    .filter((id) => id !== "");
+  return [...new Set(ids)];
+}
+
+/**
+ * Resolve direct Telegram update delivery. Webhook mode needs a public
+ * URL; without one (or with an invalid secret) it is disabled with a warning.
+ */
+function resolveTelegramUpdates(pluginConfig: PluginConfig, log: Logger): TelegramUpdatesConfig | null {
+  const mode = pluginConfig.telegramUpdates ?? "off";
+  if (mode === "polling") return { mode };
+  if (mode !== "webhook") return null;
+
+  const base = pluginConfig.telegramWebhookUrl?.trim().replace(/\/+$/, "");
+  if (!base || !/^https:\/\//i.test(base)) {
+    log.warn('[diagnostics] telegramUpdates is "webhook" but telegramWebhookUrl is not an https:// URL — disabled');
+    return null;
+  }
+  const secret = pluginConfig.telegramWebhookSecret ?? randomBytes(32).toString("hex");
+  if (!RE_WEBHOOK_SECRET.test(secret)) {
+    log.warn("[diagnostics] telegramWebhookSecret may only contain A-Z, a-z, 0-9, _ and - — webhook disabled");
+    return null;
+  }
+  let path = pluginConfig.telegramWebhookPath?.trim() || DEFAULT_TELEGRAM_WEBHOOK_PATH;
+  if (!path.startsWith("/")) path = `/${path}`;
+  return { mode, url: `${base}${path}`, path, secret };
+}
+
+/**
+ * Compile quorumPatterns, skipping (and reporting) invalid regexes.
+ */
+function resolveQuorum(pluginConfig: PluginConfig, log: Logger): QuorumRule | null {
+  const patterns: RegExp[] = [];
+  for (const source of pluginConfig.quorumPatterns ?? []) {
+    try {
+      patterns.push(new RegExp(source, "i"));
+    } catch {
+      log.warn(`[diagnostics] Ignoring invalid quorumPatterns entry: ${source}`);
+    }
+  }
+  if (patterns.length === 0) return null;
+  return { patterns, size: Math.max(2, Math.floor(positiveOr(pluginConfig.quorumSize, 2))) };
+}
+
+/**
+ * Resolve reminders and escalation. Escalation without targets is turned
+ * off, and steps that could only come after staleMins are reported, since
+ * the approval has expired by then.
+ */
+function resolveEscalation(pluginConfig: PluginConfig, staleMins: number, log: Logger): EscalationConfig | null {
+  const remindAfterMs = Math.floor(positiveOr(pluginConfig.remindAfterSecs, 0)) * 1000;
+  let escalateAfterMs = Math.floor(positiveOr(pluginConfig.escalateAfterSecs, 0)) * 1000;
+  const targets = idListMap(pluginConfig.escalationTargets);
+  if (escalateAfterMs > 0 && Object.keys(targets).length === 0) {
+    log.warn("[diagnostics] escalateAfterSecs is set but escalationTargets is empty — escalation disabled");
+    escalateAfterMs = 0;
+  }
+  if (remindAfterMs === 0 && escalateAfterMs === 0) return null;
+
+  for (const [key, ms] of [["remindAfterSecs", remindAfterMs], ["escalateAfterSecs", escalateAfterMs]] as const) {
+    if (ms >= staleMins * 60_000) {
+      log.warn(`[diagnostics] ${key} is not shorter than staleMins — approvals expire before it applies`);
+    }
+  }
+
+  const mentions: Record<string, string> = {};
+  for (const [channel, mention] of Object.entries(pluginConfig.escalationMentions ?? {})) {
+    if (typeof mention === "string" && mention.trim()) mentions[channel] = mention.trim();
+  }
+  return { remindAfterMs, escalateAfterMs, targets, mentions };
+}
+
+/**
+ * Normalize a `{ channelId: ids }` config map with idList, dropping
+ * channels whose list ends up empty.
+ */
+function idListMap(value: Record<string, string[] | string> | undefined): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  if (!value || typeof value !== "object") return result;
+  for (const [channel, ids] of Object.entries(value)) {
+    const list = idList(ids);
+    if (list.length > 0) result[channel] = list;
+  }
+  return result;
+}
+
+function positiveOr(value: unknown, fallback: number): number {
+  return typeof value === "number" && value > 0 ? value : fallback;
+}
+
+// ─── Policy validation ──────────────────────────────────────────────────────
+
+/**
+ * Load and validate the auto-decision policy at startup.
+ *
+ * Every problem is logged. A policy with any error is disabled as a whole
+ * (all approvals ask), since dropping a single bad deny rule could let a
+ * later allow rule through.
+ */
+export function validatePolicy(config: ResolvedConfig, log: Logger): PolicyEngine {
+  const { engine, errors, found } = loadPolicyFile(config.policyFile);
+  if (!found) return engine;
+
+  if (errors.length > 0) {
+    for (const err of errors) log.error(`[diagnostics] Policy ${config.policyFile}: ${err}`);
+    log.error("[diagnostics] Policy disabled — every approval will ask until it is fixed");
+    return engine;
+  }
+
+  log.info(`[diagnostics] Policy OK → ${engine.size} rule(s) from ${config.policyFile}`);
+  return engine;
 }
 
 // ─── Health check ───────────────────────────────────────────────────────────
 
 /**
- * Run a full health check: config + connectivity + store stats.
+ * Run a full health check: connectivity of every registered adapter,
+ * store stats, parse counters and, when given, the delivery outbox.
  */
 export async function runHealthCheck(
-  config: ResolvedConfig | null,
-  tg: TelegramApi | null,
-  slackApi: SlackApi | null,
+  adapters: ChannelAdapter<any>[],
   store: ApprovalStore,
+  parsing: ParseStats,
   startedAt: number,
+  outbox?: OutboxStats,
 ): Promise<HealthCheck> {
-  const health: HealthCheck = {
-    ok: false,
-    config: {
-      telegramChatId: !!config?.telegram?.chatId,
-      telegramToken: !!config?.telegram?.botToken,
-      slackToken: !!config?.slack?.botToken,
-      slackChannel: !!config?.slack?.channelId,
-    },
-    telegram: { reachable: false },
-    slack: { reachable: false },
+  const channels = await Promise.all(adapters.map(probeAdapter));
+
+  return {
+    ok: channels.some((c) => c.reachable),
+    channels,
     store: {
       pending: store.pendingCount,
       totalProcessed: store.processedCount,
     },
+    parsing: { ...parsing },
+    ...(outbox ? { outbox } : {}),
     uptime: Date.now() - startedAt,
   };
+}
 
-  // Telegram connectivity
-  if (config?.telegram && tg) {
-    const me = await tg.getMe();
-    if (me.ok) {
-      health.telegram.reachable = true;
-      health.telegram.botUsername = me.username;
-    } else {
-      health.telegram.error = me.error;
-    }
-  } else {
-    health.telegram.error = "not configured";
-  }
-
-  // Slack connectivity
-  if (config?.slack && slackApi) {
-    const auth = await slackApi.authTest();
-    if (auth.ok) {
-      health.slack.reachable = true;
-      health.slack.teamName = auth.teamName;
-    } else {
-      health.slack.error = auth.error;
-    }
-  } else {
-    health.slack.error = "not configured";
+async function probeAdapter(adapter: ChannelAdapter<any>): Promise<ChannelHealth> {
+  const base = { id: adapter.id, label: adapter.label };
+  let health: ChannelHealth;
+  try {
+    const probe = await adapter.probe();
+    health = probe.ok
+      ? { ...base, reachable: true, detail: probe.detail }
+      : { ...base, reachable: false, error: probe.error };
+  } catch (err: unknown) {
+    health = { ...base, reachable: false, error: err instanceof Error ? err.message : String(err) };
   }
-
-  health.ok = health.telegram.reachable || health.slack.reachable;
-  return health;
+  // Read after the probe, so its own retries are counted
+  const requests = adapter.requestStats?.();
+  return requests ? { ...health, requests } : health;
 }
 
 // ─── Startup diagnostics ────────────────────────────────────────────────────
@@ -189,45 +424,63 @@ export function logStartupDiagnostics(
 
   if (config.telegram) {
     const maskedToken = config.telegram.botToken.slice(0, 6) + "…" + config.telegram.botToken.slice(-4);
-    const maskedChatId = config.telegram.chatId.slice(0, 3) + "…" + config.telegram.chatId.slice(-2);
-    channels.push(`telegram(chatId=${maskedChatId}, token=${maskedToken})`);
+    const maskedChatIds = config.telegram.chatIds.map(maskId).join("|");
+    const updates = config.telegram.updates ? `, updates=${config.telegram.updates.mode}` : "";
+    channels.push(`telegram(chatId=${maskedChatIds}, token=${maskedToken}${updates})`);
   }
 
   if (config.slack) {
     const maskedToken = config.slack.botToken.slice(0, 8) + "…" + config.slack.botToken.slice(-4);
-    const maskedChannel = config.slack.channelId.slice(0, 3) + "…" + config.slack.channelId.slice(-2);
-    channels.push(`slack(channel=${maskedChannel}, token=${maskedToken})`);
+    const maskedChannels = config.slack.channelIds.map(maskId).join("|");
+    const interactivity = config.slack.signingSecret ? `, interactivity=${config.slack.interactivityPath}` : "";
+    channels.push(`slack(channel=${maskedChannels}, token=${maskedToken}${interactivity})`);
+  }
+
+  if (config.discord) {
+    const maskedToken = config.discord.botToken.slice(0, 6) + "…" + config.discord.botToken.slice(-4);
+    const target = config.discord.channelId
+      ? `channel=${maskId(config.discord.channelId)}`
+      : `dm=${maskId(config.discord.dmUserId)}`;
+    channels.push(`discord(${target}, token=${maskedToken})`);
   }
 
   log.info(
-    `[diagnostics] Config OK → ${channels.join(", ")}, ` +
-      `staleMins=${config.staleMins}, verbose=${config.verbose}`,
+    `[diagnostics] Config OK → ${channels.join(", ") || "no built-in channels"}, ` +
+      `staleMins=${config.staleMins}, verbose=${config.verbose}, ` +
+      `persist=${config.persist ? "on" : "off"}, audit=${config.audit ? "on" : "off"}, ` +
+      `approvers=${Object.keys(config.approvers).join("|") || "open"}, ` +
+      `quorum=${config.quorum ? `${config.quorum.size}×${config.quorum.patterns.length} patterns` : "off"}, ` +
+      `batch=${config.batchWindowMs > 0 ? `${config.batchWindowMs / 1000}s` : "off"}, ` +
+      `countdown=${config.liveCountdown ? "on" : "off"}, ` +
+      `escalation=${config.escalation ? describeEscalation(config.escalation) : "off"}`,
   );
 }
 
+function describeEscalation(escalation: EscalationConfig): string {
+  const steps = [];
+  if (escalation.remindAfterMs > 0) steps.push(`remind@${escalation.remindAfterMs / 1000}s`);
+  if (escalation.escalateAfterMs > 0) {
+    steps.push(`escalate@${escalation.escalateAfterMs / 1000}s→${Object.keys(escalation.targets).join("|")}`);
+  }
+  return steps.join(" ");
+}
+
+function maskId(id: string): string {
+  return id.slice(0, 3) + "…" + id.slice(-2);
+}
+
 /**
  * Run async startup checks (non-blocking).
  */
 export async function runStartupChecks(
-  tg: TelegramApi | null,
-  slackApi: SlackApi | null,
+  adapters: ChannelAdapter<any>[],
   log: Logger,
 ): Promise<void> {
-  if (tg) {
-    const me = await tg.getMe();
-    if (me.ok) {
-      log.info(`[diagnostics] Telegram connected → @${me.username}`);
-    } else {
-      log.warn(`[diagnostics] Telegram unreachable: ${me.error}`);
-    }
-  }
-
-  if (slackApi) {
-    const auth = await slackApi.authTest();
-    if (auth.ok) {
-      log.info(`[diagnostics] Slack connected → ${auth.teamName}`);
+  for (const health of await Promise.all(adapters.map(probeAdapter))) {
+    if (health.reachable) {
+      log.info(`[diagnostics] ${health.label} connected → ${health.detail}`);
     } else {
-      log.warn(`[diagnostics] Slack unreachable: ${auth.error}`);
+      log.warn(`[diagnostics] ${health.label} unreachable: ${health.error}`);
     }
   }
 }
@@ -0,0 +1,116 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/discord-adapter.ts
+// Built-in ChannelAdapter for Discord (embeds + button components)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  ApprovalAction,
+  ApprovalInfo,
+  ApprovalVote,
+  ChannelAdapter,
+  ChannelProbe,
+  DecisionDetail,
+  EditResult,
+} from "../types.js";
+import type { DiscordApi } from "./discord-api.js";
+import {
+  formatDiscordApprovalExpired,
+  formatDiscordApprovalRequest,
+  formatDiscordApprovalResolved,
+  formatDiscordEscalation,
+} from "./discord-formatter.js";
+
+export type DiscordRef = { channelId: string; messageId: string };
+
+/**
+ * Sends to a fixed channel, or to a DM with `dmUserId` (the DM channel is
+ * opened on first use and cached).
+ */
+export class DiscordAdapter implements ChannelAdapter<DiscordRef> {
+  readonly id = "discord";
+  readonly label = "Discord";
+  private dmChannel: Promise<string | null> | null = null;
+
+  constructor(
+    private readonly api: DiscordApi,
+    private readonly target: { channelId: string; dmUserId: string },
+  ) {}
+
+  async sendRequest(info: ApprovalInfo): Promise<DiscordRef[]> {
+    const channelId = await this.resolveChannelId();
+    if (!channelId) return [];
+    const messageId = await this.api.sendMessage(channelId, formatDiscordApprovalRequest(info));
+    return messageId === null ? [] : [{ channelId, messageId }];
+  }
+
+  markResolved(
+    ref: DiscordRef,
+    info: ApprovalInfo,
+    action: ApprovalAction,
+    decidedBy?: string,
+    detail?: DecisionDetail,
+  ): Promise<EditResult> {
+    return this.api.editMessage(
+      ref.channelId,
+      ref.messageId,
+      formatDiscordApprovalResolved(info, action, decidedBy, detail),
+    );
+  }
+
+  async markProgress(ref: DiscordRef, info: ApprovalInfo, votes: ApprovalVote[]): Promise<boolean> {
+    const res = await this.api.editMessage(
+      ref.channelId,
+      ref.messageId,
+      formatDiscordApprovalRequest(info, votes),
+    );
+    return res.ok;
+  }
+
+  markExpired(ref: DiscordRef, info: ApprovalInfo): Promise<EditResult> {
+    return this.api.editMessage(ref.channelId, ref.messageId, formatDiscordApprovalExpired(info));
+  }
+
+  async sendNotice(text: string): Promise<boolean> {
+    const channelId = await this.resolveChannelId();
+    if (!channelId) return false;
+    const id = await this.api.sendMessage(channelId, { content: text, allowed_mentions: { parse: [] } });
+    return id !== null;
+  }
+
+  async sendReminder(ref: DiscordRef, text: string): Promise<boolean> {
+    const id = await this.api.sendMessage(ref.channelId, {
+      content: text,
+      allowed_mentions: { parse: [] },
+      message_reference: { message_id: ref.messageId },
+    });
+    return id !== null;
+  }
+
+  /** Post the request, with its buttons, to each target channel. */
+  async escalate(info: ApprovalInfo, targets: string[], afterMs: number, mention?: string): Promise<DiscordRef[]> {
+    const payload = formatDiscordEscalation(info, afterMs, mention);
+    const sent = await Promise.all(
+      targets.map(async (channelId) => {
+        const messageId = await this.api.sendMessage(channelId, payload);
+        return messageId === null ? null : { channelId, messageId };
+      }),
+    );
+    return sent.filter((ref): ref is DiscordRef => ref !== null);
+  }
+
+  async probe(): Promise<ChannelProbe> {
+    const me = await this.api.getMe();
+    return me.ok ? { ok: true, detail: me.username } : me;
+  }
+
+  private resolveChannelId(): Promise<string | null> {
+    if (this.target.channelId) return Promise.resolve(this.target.channelId);
+    if (!this.dmChannel) {
+      this.dmChannel = this.api.openDm(this.target.dmUserId).then((id) => {
+        if (!id) this.dmChannel = null; // Retry on next use
+        return id;
+      });
+    }
+    return this.dmChannel;
+  }
+}
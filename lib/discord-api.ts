@@ -0,0 +1,155 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/discord-api.ts
+// Isolated Discord REST API wrapper — only depends on fetch (Node built-in)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { EditResult, Logger } from "../types.js";
+
+const API_BASE = "https://discord.com/api/v10";
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// ─── Internal helpers ───────────────────────────────────────────────────────
+
+interface DiscordResponse<T = unknown> {
+  ok: boolean;
+  result?: T;
+  error?: string;
+  /** HTTP status of a failed request (absent for network errors) */
+  status?: number;
+}
+
+async function discordFetch<T = unknown>(
+  token: string,
+  httpMethod: "GET" | "POST" | "PATCH",
+  path: string,
+  body: Record<string, unknown> | undefined,
+  log?: Logger,
+): Promise<DiscordResponse<T>> {
+  const url = `${API_BASE}${path}`;
+  try {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    const res = await fetch(url, {
+      method: httpMethod,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bot ${token}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      signal: controller.signal,
+    });
+
+    clearTimeout(timer);
+
+    const data = res.status === 204 ? {} : ((await res.json()) as Record<string, unknown>);
+    if (!res.ok) {
+      const error = `${res.status} ${(data as { message?: string }).message ?? res.statusText}`;
+      log?.warn(`[discord-api] ${httpMethod} ${path} failed: ${error}`);
+      return { ok: false, error, status: res.status };
+    }
+    return { ok: true, result: data as T };
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log?.error(`[discord-api] ${httpMethod} ${path} network error: ${msg}`);
+    return { ok: false, error: msg };
+  }
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Discord message payload (content + embeds + message components).
+ */
+export interface DiscordMessagePayload {
+  content?: string;
+  embeds?: object[];
+  components?: object[];
+  allowed_mentions?: { parse: string[] };
+  /** Makes the message a reply to another in the same channel */
+  message_reference?: { message_id: string };
+}
+
+/**
+ * Discord REST API client.
+ * Instantiate with a bot token; all methods are self-contained.
+ */
+export class DiscordApi {
+  constructor(
+    private readonly token: string,
+    private readonly log?: Logger,
+  ) {}
+
+  // ── Connectivity ────────────────────────────────────────────────────────
+
+  /**
+   * Fetch the bot user to verify the token.
+   * Useful for diagnostics.
+   */
+  async getMe(): Promise<{ ok: true; username: string } | { ok: false; error: string }> {
+    const res = await discordFetch<{ username: string }>(
+      this.token,
+      "GET",
+      "/users/@me",
+      undefined,
+      this.log,
+    );
+    if (res.ok && res.result?.username) {
+      return { ok: true, username: res.result.username };
+    }
+    return { ok: false, error: res.error ?? "unknown error" };
+  }
+
+  /**
+   * Open (or fetch the existing) DM channel with a user.
+   * Returns the DM channel ID on success, null on failure.
+   */
+  async openDm(userId: string): Promise<string | null> {
+    const res = await discordFetch<{ id: string }>(
+      this.token,
+      "POST",
+      "/users/@me/channels",
+      { recipient_id: userId },
+      this.log,
+    );
+    return res.ok ? (res.result?.id ?? null) : null;
+  }
+
+  // ── Messaging ───────────────────────────────────────────────────────────
+
+  /**
+   * Send a message with embeds/components to a channel.
+   * Returns the message ID on success, null on failure.
+   */
+  async sendMessage(channelId: string, payload: DiscordMessagePayload): Promise<string | null> {
+    const res = await discordFetch<{ id: string }>(
+      this.token,
+      "POST",
+      `/channels/${channelId}/messages`,
+      { ...payload },
+      this.log,
+    );
+    return res.ok ? (res.result?.id ?? null) : null;
+  }
+
+  /**
+   * Edit an existing message. Pass `components: []` to remove buttons.
+   * A 4xx other than 429 (unknown message, missing access) is permanent.
+   */
+  async editMessage(
+    channelId: string,
+    messageId: string,
+    payload: DiscordMessagePayload,
+  ): Promise<EditResult> {
+    const res = await discordFetch(
+      this.token,
+      "PATCH",
+      `/channels/${channelId}/messages/${messageId}`,
+      { ...payload },
+      this.log,
+    );
+    if (res.ok) return { ok: true };
+    const status = res.status ?? 0;
+    return { ok: false, error: res.error ?? "unknown error", permanent: status >= 400 && status < 500 && status !== 429 };
+  }
+}
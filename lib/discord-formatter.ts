@@ -0,0 +1,218 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/discord-formatter.ts
+// Embed + component formatting for Discord (approval requests & resolutions)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { ApprovalAction, ApprovalInfo, ApprovalVote, DecisionDetail } from "../types.js";
+import type { DiscordMessagePayload } from "./discord-api.js";
+import { analyzeCommand } from "./command-risk.js";
+import { diffCommands } from "./command-diff.js";
+import { clipCommand, formatDuration, formatEscalationHistory, formatQuorumProgress, riskLines, SCOPE_LABELS } from "./message-formatter.js";
+import { scopePreview } from "./allow-grants.js";
+
+// Discord component / style constants (see Discord "Message Components" docs)
+const ACTION_ROW = 1;
+const BUTTON = 2;
+const STYLE_PRIMARY = 1;
+const STYLE_SUCCESS = 3;
+const STYLE_DANGER = 4;
+
+const COLOR_PENDING = 0x5865f2;
+const COLOR_EXPIRED = 0x99aab5;
+const COLOR_EDITED = 0xfee75c;
+
+/** Embed descriptions are capped at 4096 characters. */
+const DESCRIPTION_COMMAND_LIMIT = 3900;
+
+// ─── Markdown escaping ──────────────────────────────────────────────────────
+
+/**
+ * Keep embedded backticks from closing a Discord code block, and clip the
+ * command (with a marker) so the embed stays within Discord's limits.
+ */
+function codeBlock(command: string, language = ""): string {
+  const { text, omitted } = clipCommand(command, DESCRIPTION_COMMAND_LIMIT);
+  const block = "```" + language + "\n" + text.replace(/```/g, "`\u200b``") + "\n```";
+  return omitted > 0 ? `${block}\n*… ${omitted} more characters not shown*` : block;
+}
+
+// ─── Approval request format ────────────────────────────────────────────────
+
+/**
+ * Format an approval request as a Discord embed with button components.
+ * Includes a "Risk" field; approvals that need several approvers get an
+ * "Approvals" field. "Always" is omitted for high-risk commands.
+ */
+export function formatDiscordApprovalRequest(
+  info: ApprovalInfo,
+  votes: ApprovalVote[] = [],
+): DiscordMessagePayload {
+  const progress = formatQuorumProgress(info, votes);
+  const risk = analyzeCommand(info.command);
+  return {
+    embeds: [
+      {
+        title: "🔐 Exec Approval",
+        description: codeBlock(info.command),
+        color: COLOR_PENDING,
+        fields: [
+          { name: "Risk", value: riskLines(risk).join("\n"), inline: false },
+          { name: "CWD", value: `\`${info.cwd}\``, inline: false },
+          { name: "Agent", value: info.agent, inline: true },
+          { name: "Expires", value: info.expires, inline: true },
+          ...(progress ? [{ name: "Approvals", value: progress, inline: false }] : []),
+        ],
+        footer: { text: `ID: ${info.id}` },
+      },
+    ],
+    components: buildDiscordApprovalComponents(info.id, risk.level !== "high"),
+  };
+}
+
+/**
+ * Format an escalated request: the usual request embed and buttons, with
+ * a line saying nobody answered for `afterMs` as the message content.
+ * The mention (`<@id>`, `<@&roleId>`) notifies.
+ */
+export function formatDiscordEscalation(info: ApprovalInfo, afterMs: number, mention?: string): DiscordMessagePayload {
+  const who = mention ? ` · ${mention}` : "";
+  return {
+    content: `📣 **Escalated** — no decision after ${formatDuration(afterMs)}${who}`,
+    ...formatDiscordApprovalRequest(info),
+  };
+}
+
+/**
+ * Build the action row with approval buttons.
+ *
+ * Each button uses `/approve <id> <action>` as custom_id, mirroring the
+ * Telegram callback_data and Slack button values. Pass
+ * `allowAlways: false` to omit "Always".
+ */
+export function buildDiscordApprovalComponents(approvalId: string, allowAlways = true): object[] {
+  const buttons = [
+    {
+      type: BUTTON,
+      style: STYLE_SUCCESS,
+      label: "Allow Once",
+      emoji: { name: "✅" },
+      custom_id: `/approve ${approvalId} allow-once`,
+    },
+    {
+      type: BUTTON,
+      style: STYLE_PRIMARY,
+      label: "Always",
+      emoji: { name: "🔏" },
+      custom_id: `/approve ${approvalId} allow-always`,
+    },
+    {
+      type: BUTTON,
+      style: STYLE_DANGER,
+      label: "Deny",
+      emoji: { name: "❌" },
+      custom_id: `/approve ${approvalId} deny`,
+    },
+  ];
+  return [
+    {
+      type: ACTION_ROW,
+      components: allowAlways ? buttons : buttons.filter((b) => !b.custom_id.endsWith(" allow-always")),
+    },
+  ];
+}
+
+// ─── Resolved approval format ───────────────────────────────────────────────
+
+const ACTION_ICONS: Record<ApprovalAction, string> = {
+  "allow-once": "✅",
+  "allow-15m": "⏱",
+  "allow-1h": "⏱",
+  "allow-always": "🔏",
+  deny: "❌",
+};
+
+const ACTION_LABELS: Record<ApprovalAction, string> = {
+  "allow-once": "Allowed (once)",
+  "allow-15m": "Allowed for 15 min",
+  "allow-1h": "Allowed for 1 hour",
+  "allow-always": "Always allowed",
+  deny: "Denied",
+};
+
+const ACTION_COLORS: Record<ApprovalAction, number> = {
+  "allow-once": 0x57f287,
+  "allow-15m": 0x57f287,
+  "allow-1h": 0x57f287,
+  "allow-always": 0x57f287,
+  deny: 0xed4245,
+};
+
+/**
+ * Format a resolved approval as a Discord embed (buttons removed).
+ * `decidedBy` (when known) is shown in the footer, a deny reason or the
+ * scope of a scoped Always as a field, and an edited command as a diff
+ * against the original.
+ */
+export function formatDiscordApprovalResolved(
+  info: ApprovalInfo,
+  action: ApprovalAction,
+  decidedBy?: string,
+  detail: DecisionDetail = {},
+): DiscordMessagePayload {
+  const by = decidedBy ? ` · by ${decidedBy}` : "";
+
+  if (detail.editedCommand !== undefined) {
+    return {
+      embeds: [
+        {
+          title: "✏️ Edited",
+          description: codeBlock(diffCommands(info.command, detail.editedCommand), "diff"),
+          color: COLOR_EDITED,
+          footer: { text: `${info.agent}${by} · ID: ${info.id}` },
+        },
+      ],
+      components: [],
+    };
+  }
+
+  const icon = ACTION_ICONS[action] ?? "✅";
+  const label = ACTION_LABELS[action] ?? action;
+  const scope = detail.scope ? scopePreview(info, detail.scope) : null;
+  const history = formatEscalationHistory(detail.escalations ?? []);
+  const fields = [
+    ...(detail.reason ? [{ name: "Reason", value: detail.reason.slice(0, 1024) }] : []),
+    ...(detail.scope && scope ? [{ name: "Scope", value: `${SCOPE_LABELS[detail.scope]}: ${scope}`.slice(0, 1024) }] : []),
+    ...(history ? [{ name: "History", value: history.slice(0, 1024) }] : []),
+  ];
+  return {
+    embeds: [
+      {
+        title: `${icon} ${label}`,
+        description: codeBlock(info.command),
+        color: ACTION_COLORS[action] ?? COLOR_PENDING,
+        ...(fields.length > 0 ? { fields } : {}),
+        footer: { text: `${info.agent}${by} · ID: ${info.id}` },
+      },
+    ],
+    components: [],
+  };
+}
+
+// ─── Stale approval format ──────────────────────────────────────────────────
+
+/**
+ * Format a stale/expired approval as a Discord embed (buttons removed).
+ */
+export function formatDiscordApprovalExpired(info: ApprovalInfo): DiscordMessagePayload {
+  return {
+    embeds: [
+      {
+        title: "⏰ Expired",
+        description: codeBlock(info.command),
+        color: COLOR_EXPIRED,
+        footer: { text: `${info.agent} · ID: ${info.id}` },
+      },
+    ],
+    components: [],
+  };
+}
@@ -0,0 +1,79 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/exec-allowlist.ts
+// Edit OpenClaw's exec allowlist through the gateway (revoking Always grants)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { Logger } from "../types.js";
+import type { GatewayCall } from "./decision-dispatcher.js";
+
+/** One allowlist entry as stored in OpenClaw's exec-approvals file. */
+interface AllowlistEntry {
+  pattern?: string;
+  lastResolvedPath?: string;
+  [key: string]: unknown;
+}
+
+/** Result of `exec.approvals.get` (only the parts used here). */
+interface ApprovalsSnapshot {
+  hash?: string;
+  file?: {
+    agents?: Record<string, { allowlist?: AllowlistEntry[]; [key: string]: unknown }>;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Reads and writes the exec approvals file through the gateway's
+ * `exec.approvals.get` / `exec.approvals.set` — the calls behind the
+ * Control UI's allowlist editor. The file is written back with the hash
+ * it was read at, so the gateway rejects the write if someone changed it
+ * in between rather than losing their edit.
+ */
+export class GatewayExecAllowlist {
+  constructor(
+    private readonly call: GatewayCall,
+    private readonly log?: Logger,
+  ) {}
+
+  /**
+   * Remove every entry of `agent`'s allowlist for `program` (matched by
+   * executable name against the pattern and the last resolved path).
+   * Resolves to the number of entries removed, or null when the gateway
+   * call failed.
+   */
+  async removeProgram(agent: string, program: string): Promise<number | null> {
+    const name = basename(program).toLowerCase();
+    try {
+      const snapshot = ((await this.call("exec.approvals.get", {})) ?? {}) as ApprovalsSnapshot;
+      const file = snapshot.file ?? {};
+      const agentEntry = file.agents?.[agent];
+      const allowlist = Array.isArray(agentEntry?.allowlist) ? agentEntry.allowlist : [];
+
+      const keep = allowlist.filter((entry) => !entryNames(entry).includes(name));
+      const removed = allowlist.length - keep.length;
+      if (removed === 0) return 0;
+
+      await this.call("exec.approvals.set", {
+        file: { ...file, agents: { ...file.agents, [agent]: { ...agentEntry, allowlist: keep } } },
+        baseHash: snapshot.hash,
+      });
+      return removed;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log?.warn(`[exec-allowlist] could not remove ${name} for agent ${agent}: ${msg}`);
+      return null;
+    }
+  }
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+function entryNames(entry: AllowlistEntry): string[] {
+  return [entry?.pattern, entry?.lastResolvedPath]
+    .filter((p): p is string => typeof p === "string" && p !== "")
+    .map((p) => basename(p).toLowerCase());
+}
+
+function basename(path: string): string {
+  return path.slice(Math.max(path.lastIndexOf("/"), path.lastIndexOf("\\")) + 1);
+}
@@ -0,0 +1,33 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/http-request.ts
+// Helpers for the plugin's inbound HTTP routes (Slack, Telegram webhooks)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { IncomingMessage } from "node:http";
+
+/**
+ * Read the raw request body as UTF-8. Returns null as soon as it exceeds
+ * `maxBytes`, so oversized requests are not buffered.
+ */
+export async function readRequestBody(req: IncomingMessage, maxBytes: number): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buf.length;
+    if (size > maxBytes) return null;
+    chunks.push(buf);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * First value of a request header (Node lower-cases header names).
+ */
+export function headerValue(
+  headers: Record<string, string | string[] | undefined>,
+  name: string,
+): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
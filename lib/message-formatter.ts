@@ -3,7 +3,27 @@
 // HTML message formatting for Telegram (approval requests & resolutions)
 // ─────────────────────────────────────────────────────────────────────────────
 
-import type { ApprovalAction, ApprovalInfo } from "../types.js";
+import type {
+  AllowGrant,
+  AlwaysScope,
+  ApprovalAction,
+  ApprovalDigest,
+  ApprovalInfo,
+  ApprovalVote,
+  ApprovalInput,
+  AuditRecord,
+  CommandRisk,
+  DecisionDetail,
+  DigestItem,
+  EscalationStep,
+  HealthCheck,
+  RiskLevel,
+  ScopeOption,
+} from "../types.js";
+import { analyzeCommand } from "./command-risk.js";
+import { diffCommands } from "./command-diff.js";
+import { describeGrant, scopePreview, type RevokeResult } from "./allow-grants.js";
+import { pendingItems, selectedItems } from "./approval-digest.js";
 
 // ─── HTML escaping ──────────────────────────────────────────────────────────
 
@@ -15,59 +35,191 @@ export function escapeHtml(text: string): string {
     .replace(/>/g, "&gt;");
 }
 
+// ─── Command block ──────────────────────────────────────────────────────────
+
+/** Telegram caps messages at 4096 characters; leave room for the rest of the card. */
+const TELEGRAM_COMMAND_LIMIT = 3000;
+/** Commands longer than this are collapsed into an expandable quote. */
+const EXPANDABLE_MIN_LINES = 8;
+const EXPANDABLE_MIN_CHARS = 500;
+
+/**
+ * Shorten a command to at most `limit` characters, cutting at a line break
+ * when one is close. `omitted` is the number of characters dropped.
+ */
+export function clipCommand(command: string, limit: number): { text: string; omitted: number } {
+  if (command.length <= limit) return { text: command, omitted: 0 };
+  const lineEnd = command.lastIndexOf("\n", limit);
+  const cut = lineEnd > limit * 0.8 ? lineEnd : limit;
+  return { text: command.slice(0, cut), omitted: command.length - cut };
+}
+
+/**
+ * True when formatCommandHtml has to truncate the command (the request
+ * then gets a 📄 Full command button).
+ */
+export function telegramCommandClipped(command: string): boolean {
+  return command.length > TELEGRAM_COMMAND_LIMIT;
+}
+
+/**
+ * Render a command as a `<pre>` block. Long scripts are wrapped in an
+ * expandable blockquote so they don't bury the buttons, and clipped to
+ * fit Telegram's message size limit.
+ */
+export function formatCommandHtml(command: string): string {
+  const { text, omitted } = clipCommand(command, TELEGRAM_COMMAND_LIMIT);
+  const pre = `<pre>${escapeHtml(text)}</pre>`;
+  const long = text.split("\n").length > EXPANDABLE_MIN_LINES || text.length > EXPANDABLE_MIN_CHARS;
+  const block = long ? `<blockquote expandable>${pre}</blockquote>` : pre;
+  return omitted > 0 ? `${block}\n<i>… ${omitted} more characters not shown</i>` : block;
+}
+
+/**
+ * Render the line diff between a command and its edited version as a
+ * `<pre>` diff block, clipped like formatCommandHtml.
+ */
+export function formatCommandDiffHtml(original: string, edited: string): string {
+  const { text, omitted } = clipCommand(diffCommands(original, edited), TELEGRAM_COMMAND_LIMIT);
+  const block = `<pre><code class="language-diff">${escapeHtml(text)}</code></pre>`;
+  return omitted > 0 ? `${block}\n<i>… ${omitted} more characters not shown</i>` : block;
+}
+
 // ─── Approval request format ────────────────────────────────────────────────
 
 /**
  * Format an approval request as a rich HTML message for Telegram.
+ * Includes a risk badge with its reasons; approvals that need several
+ * approvers get a progress line.
  */
-export function formatApprovalRequest(info: ApprovalInfo): string {
+export function formatApprovalRequest(info: ApprovalInfo, votes: ApprovalVote[] = []): string {
   const e = escapeHtml;
-  return [
+  const risk = analyzeCommand(info.command);
+  const lines = [
     `🔐 <b>Exec Approval</b>`,
     ``,
-    `<pre>${e(info.command)}</pre>`,
+    formatCommandHtml(info.command),
+    ``,
+    `<b>${riskBadge(risk.level)}</b>`,
+    ...risk.reasons.map((r) => `• ${e(r)}`),
     ``,
     `📁 <code>${e(info.cwd)}</code>`,
     `🤖 ${e(info.agent)} · ⏱️ ${e(info.expires)}`,
     `🆔 <code>${e(info.id)}</code>`,
-  ].join("\n");
+  ];
+  const progress = formatQuorumProgress(info, votes);
+  if (progress) lines.push(``, `👥 ${e(progress)}`);
+  return lines.join("\n");
+}
+
+// ── Risk badge ──
+
+const RISK_BADGES: Record<RiskLevel, string> = {
+  low: "🟢 Low risk",
+  medium: "🟡 Medium risk",
+  high: "🔴 High risk",
+};
+
+/**
+ * Colored badge for a risk level, e.g. "🔴 High risk" (plain text).
+ */
+export function riskBadge(level: RiskLevel): string {
+  return RISK_BADGES[level];
+}
+
+/**
+ * Badge plus one bullet per reason, as plain-text lines.
+ */
+export function riskLines(risk: CommandRisk): string[] {
+  return [riskBadge(risk.level), ...risk.reasons.map((r) => `• ${r}`)];
+}
+
+/**
+ * Plain-text progress line for multi-approver approvals, e.g.
+ * "1/2 approvals — @alice". Returns null when one approval is enough.
+ */
+export function formatQuorumProgress(info: ApprovalInfo, votes: ApprovalVote[]): string | null {
+  const required = info.requiredApprovals ?? 1;
+  if (required <= 1) return null;
+  const names = votes.map((v) => v.name).join(", ");
+  return `${votes.length}/${required} approvals${names ? ` — ${names}` : ""}`;
 }
 
 // ─── Resolved approval format ───────────────────────────────────────────────
 
 const ACTION_ICONS: Record<ApprovalAction, string> = {
   "allow-once": "✅",
+  "allow-15m": "⏱",
+  "allow-1h": "⏱",
   "allow-always": "🔏",
   deny: "❌",
 };
 
 const ACTION_LABELS: Record<ApprovalAction, string> = {
   "allow-once": "Allowed (once)",
+  "allow-15m": "Allowed for 15 min",
+  "allow-1h": "Allowed for 1 hour",
   "allow-always": "Always allowed",
   deny: "Denied",
 };
 
+/** Names of the 🔏 Always scopes, as shown in pickers and resolutions. */
+export const SCOPE_LABELS: Record<AlwaysScope, string> = {
+  exact: "Exact command",
+  prefix: "Command prefix",
+  binary: "Binary only",
+  cwd: "This cwd only",
+};
+
 /**
  * Format a resolved approval (post-decision) as an HTML message.
- * Buttons are removed and the header shows the resolution.
+ * Buttons are removed and the header shows the resolution (and who made
+ * it), followed by the reason when the deny came with one, or the scope
+ * of a scoped Always. An edited command is shown as a diff against the
+ * original.
  */
 export function formatApprovalResolved(
   info: ApprovalInfo,
   action: ApprovalAction,
+  decidedBy?: string,
+  detail: DecisionDetail = {},
 ): string {
   const e = escapeHtml;
+  const by = decidedBy ? ` by ${e(decidedBy)}` : "";
+
+  if (detail.editedCommand !== undefined) {
+    return [
+      `✏️ <b>Edited</b>${by}`,
+      `<i>Denied as written — the agent was asked to run the edited command.</i>`,
+      ``,
+      ...historyLines(detail.escalations),
+      formatCommandDiffHtml(info.command, detail.editedCommand),
+      ``,
+      `🤖 ${e(info.agent)} · 🆔 <code>${e(info.id)}</code>`,
+    ].join("\n");
+  }
+
   const icon = ACTION_ICONS[action] ?? "✅";
   const label = ACTION_LABELS[action] ?? action;
-
+  const scope = detail.scope ? scopePreview(info, detail.scope) : null;
   return [
-    `${icon} <b>${label}</b>`,
+    `${icon} <b>${label}</b>${by}`,
+    ...(detail.reason ? [`💬 <i>${e(detail.reason)}</i>`] : []),
+    ...(detail.scope && scope ? [`🎯 ${SCOPE_LABELS[detail.scope]}: <code>${e(scope)}</code>`] : []),
+    ...historyLines(detail.escalations),
     ``,
-    `<pre>${e(info.command)}</pre>`,
+    formatCommandHtml(info.command),
     ``,
     `🤖 ${e(info.agent)} · 🆔 <code>${e(info.id)}</code>`,
   ].join("\n");
 }
 
+/** The reminder/escalation history as an italic line (none when there was none). */
+function historyLines(steps: EscalationStep[] | undefined): string[] {
+  const history = formatEscalationHistory(steps ?? []);
+  return history ? [`<i>${escapeHtml(history)}</i>`] : [];
+}
+
 // ─── Inline keyboard ────────────────────────────────────────────────────────
 
 /**
@@ -77,17 +229,264 @@ export function formatApprovalResolved(
  * OpenClaw's Telegram integration converts unknown callback_data
  * into synthetic text messages, so these are processed as commands
  * automatically — no webhook needed.
+ *
+ * Pass `allowAlways: false` (high-risk commands) to omit "Always",
+ * `fullCommand: true` (truncated commands) to add "📄 Full command",
+ * `prompts: true` to add "✏️ Edit" and "❌ Deny with reason", and
+ * `timed: true` to add a second row of "⏱ 15 min" / "⏱ 1 hour".
+ */
+export function buildApprovalKeyboard(
+  approvalId: string,
+  allowAlways = true,
+  fullCommand = false,
+  prompts = false,
+  timed = false,
+): object {
+  const allow = [{ text: "✅ Allow Once", callback_data: `/approve ${approvalId} allow-once` }];
+  if (allowAlways) {
+    allow.push({ text: "🔏 Always", callback_data: `/approve ${approvalId} allow-always` });
+  }
+  const deny = [{ text: "❌ Deny", callback_data: `/approve ${approvalId} deny` }];
+  if (prompts) {
+    allow.push({ text: "✏️ Edit", callback_data: `/approve ${approvalId} edit` });
+    deny.push({ text: "❌ Deny with reason", callback_data: `/approve ${approvalId} deny-reason` });
+  }
+  const rows = [allow];
+  if (timed) {
+    rows.push([
+      { text: "⏱ 15 min", callback_data: `/approve ${approvalId} allow-15m` },
+      { text: "⏱ 1 hour", callback_data: `/approve ${approvalId} allow-1h` },
+    ]);
+  }
+  rows.push(deny);
+  if (fullCommand) {
+    rows.push([{ text: "📄 Full command", callback_data: `/approve ${approvalId} full-command` }]);
+  }
+  return { inline_keyboard: rows };
+}
+
+/**
+ * Inline keyboard of the 🔏 Always scope picker: one button per scope
+ * (`/approve <id> always-<scope>`), then Allow Once and Deny so the
+ * approver can still change their mind.
+ */
+export function buildScopeKeyboard(approvalId: string, options: ScopeOption[]): object {
+  const rows = options.map((o) => [
+    {
+      text: `🔏 ${SCOPE_LABELS[o.scope]}: ${o.preview.length > 40 ? o.preview.slice(0, 39) + "…" : o.preview}`,
+      callback_data: `/approve ${approvalId} always-${o.scope}`,
+    },
+  ]);
+  rows.push([
+    { text: "✅ Allow Once", callback_data: `/approve ${approvalId} allow-once` },
+    { text: "❌ Deny", callback_data: `/approve ${approvalId} deny` },
+  ]);
+  return { inline_keyboard: rows };
+}
+
+/**
+ * Toast shown when the 🔏 Always scope picker opens.
+ */
+export function formatScopePickerToast(): string {
+  return "🔏 Choose what to always allow.";
+}
+
+// ─── Approval digest ────────────────────────────────────────────────────────
+
+/** Commands are shortened to this many characters in digest lines. */
+const DIGEST_COMMAND_LIMIT = 100;
+/** Toggle buttons per keyboard row */
+const DIGEST_TOGGLES_PER_ROW = 5;
+
+/**
+ * Format a digest of approvals as an HTML message: one numbered entry
+ * per approval with its first command line and cwd. Pending entries show
+ * whether they are selected (☑ / ☐) and their risk; decided ones the
+ * decision and who made it.
+ */
+export function formatDigest(digest: ApprovalDigest): string {
+  const e = escapeHtml;
+  const pending = pendingItems(digest).length;
+  const selected = selectedItems(digest).length;
+  const lines = [
+    `📚 <b>${digest.items.length} exec approvals</b> · 🤖 ${e(digest.agent)}@${e(digest.host)}`,
+    pending > 0 ? `<i>${selected} of ${pending} pending selected</i>` : `<i>All decided</i>`,
+    ``,
+  ];
+  digest.items.forEach((item, i) => {
+    const pendingItem = item.status === "pending";
+    const mark = pendingItem ? (item.selected ? "☑" : "☐") : digestStatusIcon(item);
+    const state = pendingItem
+      ? riskBadge(analyzeCommand(item.info.command).level)
+      : `${digestStatusLabel(item)}${item.decidedBy ? ` by ${e(item.decidedBy)}` : ""}`;
+    lines.push(
+      `${i + 1}. ${mark} <code>${e(digestCommand(item.info.command))}</code>`,
+      `     📁 <code>${e(item.info.cwd)}</code> · ${state}`,
+    );
+  });
+  return lines.join("\n");
+}
+
+/**
+ * Inline keyboard of a digest: a ☑ / ☐ toggle per pending item, then
+ * Allow / Deny for the selected ones ("all" when every pending item is
+ * selected). Undefined once nothing is pending, which removes the
+ * buttons.
+ */
+export function buildDigestKeyboard(digest: ApprovalDigest): object | undefined {
+  const pending = pendingItems(digest).length;
+  if (pending === 0) return undefined;
+  const selected = selectedItems(digest).length;
+  const all = selected === pending;
+
+  const toggles = digest.items.flatMap((item, i) =>
+    item.status === "pending"
+      ? [{ text: `${item.selected ? "☑" : "☐"} ${i + 1}`, callback_data: `/approve ${digest.id} toggle-${i + 1}` }]
+      : [],
+  );
+  const rows: { text: string; callback_data: string }[][] = [];
+  for (let i = 0; i < toggles.length; i += DIGEST_TOGGLES_PER_ROW) {
+    rows.push(toggles.slice(i, i + DIGEST_TOGGLES_PER_ROW));
+  }
+  rows.push([
+    { text: all ? "✅ Allow all once" : `✅ Allow ${selected} once`, callback_data: `/approve ${digest.id} allow-all` },
+    { text: all ? "❌ Deny all" : `❌ Deny ${selected}`, callback_data: `/approve ${digest.id} deny-all` },
+  ]);
+  return { inline_keyboard: rows };
+}
+
+/**
+ * Toast confirming Allow all / Deny all on a digest.
+ */
+export function formatDigestToast(action: ApprovalAction, count: number): string {
+  return action === "deny" ? `Denied ${count} ✓` : `Allowed ${count} once ✓`;
+}
+
+/**
+ * Toast confirming a digest item was ticked or unticked.
+ */
+export function formatDigestToggleToast(item: number, selected: boolean): string {
+  return selected ? `☑ ${item} selected` : `☐ ${item} left out`;
+}
+
+/**
+ * Alert shown when Allow all / Deny all is pressed with nothing selected.
+ */
+export function formatDigestEmptyAlert(): string {
+  return "☐ Nothing selected — tick at least one pending approval.";
+}
+
+/** Icon of a decided digest item (the resolved-message icon, ⏰ when expired). */
+function digestStatusIcon(item: DigestItem): string {
+  return item.status === "pending" ? "" : item.status === "expired" ? "⏰" : ACTION_ICONS[item.status];
+}
+
+/** Label of a decided digest item, e.g. "Allowed (once)" or "Expired". */
+export function digestStatusLabel(item: DigestItem): string {
+  return item.status === "pending" ? "Pending" : item.status === "expired" ? "Expired" : ACTION_LABELS[item.status];
+}
+
+/**
+ * A command as one digest line: its first line, clipped, with "…" when
+ * anything was left out.
+ */
+export function digestCommand(command: string): string {
+  const [first, ...more] = command.trim().split("\n");
+  const clipped = first.length > DIGEST_COMMAND_LIMIT;
+  return clipped || more.length > 0 ? `${first.slice(0, DIGEST_COMMAND_LIMIT)}…` : first;
+}
+
+// ─── Full command attachment ────────────────────────────────────────────────
+
+/**
+ * File name for the full-command attachment, e.g. "command-0e9a9d4d.sh".
+ */
+export function fullCommandFileName(info: ApprovalInfo): string {
+  return `command-${info.id.slice(0, 8)}.sh`;
+}
+
+/**
+ * Plain-text caption for the full-command attachment.
+ */
+export function formatFullCommandCaption(info: ApprovalInfo): string {
+  return `📄 Full command · ${info.agent} · ${info.id}`;
+}
+
+const FULL_COMMAND_TOASTS = {
+  sent: "📄 Full command sent as a file.",
+  repeat: "📄 The full command was already sent — see above.",
+  failed: "⚠️ Could not send the full command.",
+} as const;
+
+/**
+ * Toast for a 📄 Full command press.
+ */
+export function formatFullCommandToast(result: keyof typeof FULL_COMMAND_TOASTS): string {
+  return FULL_COMMAND_TOASTS[result];
+}
+
+// ─── Reason / edit prompts ──────────────────────────────────────────────────
+
+/**
+ * Prompt sent (as a force_reply) after ❌ Deny with reason or ✏️ Edit is
+ * pressed. The edit prompt shows the whole command (tap to copy) so it
+ * can be changed and sent back.
+ */
+export function formatInputPrompt(input: ApprovalInput, info: ApprovalInfo): string {
+  const e = escapeHtml;
+  if (input === "edit") {
+    return [
+      `✏️ <b>Edit this command</b>`,
+      `Reply to this message with the command ${e(info.agent)} should run instead.`,
+      ``,
+      formatCommandHtml(info.command),
+      `🆔 <code>${e(info.id)}</code>`,
+    ].join("\n");
+  }
+  const cmd = info.command.length > 200 ? info.command.slice(0, 199) + "…" : info.command;
+  return [
+    `✍️ <b>Why deny this command?</b>`,
+    `Reply to this message with a reason for ${e(info.agent)}.`,
+    ``,
+    `<pre>${e(cmd)}</pre>`,
+    `🆔 <code>${e(info.id)}</code>`,
+  ].join("\n");
+}
+
+const INPUT_TOASTS: Record<ApprovalInput, string> = {
+  reason: "✍️ Reply with your reason to deny.",
+  edit: "✏️ Reply with the edited command.",
+};
+
+/**
+ * Toast confirming that a reply prompt was shown.
+ */
+export function formatInputPromptToast(input: ApprovalInput): string {
+  return INPUT_TOASTS[input];
+}
+
+/**
+ * Alert shown when the prompt for ❌ Deny with reason or ✏️ Edit could not be shown.
+ */
+export function formatInputUnavailableAlert(input: ApprovalInput): string {
+  return input === "edit"
+    ? "⚠️ Could not ask for the edited command — deny it with a reason instead."
+    : "⚠️ Could not ask for a reason — use ❌ Deny instead.";
+}
+
+/**
+ * Alert shown when an edited command is identical to the original.
  */
-export function buildApprovalKeyboard(approvalId: string): object {
-  return {
-    inline_keyboard: [
-      [
-        { text: "✅ Allow Once", callback_data: `/approve ${approvalId} allow-once` },
-        { text: "🔏 Always", callback_data: `/approve ${approvalId} allow-always` },
-      ],
-      [{ text: "❌ Deny", callback_data: `/approve ${approvalId} deny` }],
-    ],
-  };
+export function formatUnchangedEditAlert(): string {
+  return "✏️ The command was not changed — nothing was sent.";
+}
+
+/**
+ * Deny reason handed to the agent for an edited command: the original is
+ * refused and the edited version should be run instead.
+ */
+export function formatEditInstruction(editedCommand: string): string {
+  return `The approver edited this command. Do not run it as written; run this instead:\n${editedCommand}`;
 }
 
 // ─── Stale approval format ──────────────────────────────────────────────────
@@ -100,62 +499,331 @@ export function formatApprovalExpired(info: ApprovalInfo): string {
   return [
     `⏰ <b>Expired</b>`,
     ``,
-    `<pre>${e(info.command)}</pre>`,
+    formatCommandHtml(info.command),
     ``,
     `🤖 ${e(info.agent)} · 🆔 <code>${e(info.id)}</code>`,
   ].join("\n");
 }
 
+// ─── Auto-decision notice ───────────────────────────────────────────────────
+
+/**
+ * Compact plain-text notice for an approval decided by a policy rule
+ * (adapters escape it for their channel).
+ */
+export function formatAutoDecisionNotice(
+  info: ApprovalInfo,
+  action: ApprovalAction,
+  rule: string,
+): string {
+  const verb = action === "deny" ? "Auto-denied" : "Auto-allowed";
+  const cmd = info.command.length > 200 ? info.command.slice(0, 199) + "…" : info.command;
+  return `🤖 ${verb} by rule "${rule}" · ${info.agent}: ${cmd}`;
+}
+
+// ─── Countdown ──────────────────────────────────────────────────────────────
+
+/**
+ * Time left before a request expires, as shown in place of its
+ * `expires` while it is pending: "1h 5m left", "12m left" (rounded up to
+ * the minute) and, in the last two minutes, "1m 45s left" / "30s left"
+ * (rounded up to 15 seconds). Each label change is one message edit, so
+ * the steps are kept coarse.
+ */
+export function formatTimeLeft(remainingMs: number): string {
+  if (remainingMs <= 0) return "expiring";
+  if (remainingMs <= 120_000) {
+    const secs = Math.ceil(remainingMs / 15_000) * 15;
+    const mins = Math.floor(secs / 60);
+    if (mins === 0) return `${secs}s left`;
+    return secs % 60 ? `${mins}m ${secs % 60}s left` : `${mins}m left`;
+  }
+  const mins = Math.ceil(remainingMs / 60_000);
+  if (mins < 60) return `${mins}m left`;
+  return mins % 60 ? `${Math.floor(mins / 60)}h ${mins % 60}m left` : `${mins / 60}h left`;
+}
+
+// ─── Reminders & escalation ─────────────────────────────────────────────────
+
+/**
+ * Short duration for reminder and escalation texts: "45s", "5m", "1h 5m".
+ */
+export function formatDuration(ms: number): string {
+  const secs = Math.max(0, Math.round(ms / 1000));
+  if (secs < 60) return `${secs}s`;
+  const mins = Math.floor(secs / 60);
+  if (mins < 60) return `${mins}m`;
+  const rest = mins % 60;
+  return rest ? `${Math.floor(mins / 60)}h ${rest}m` : `${Math.floor(mins / 60)}h`;
+}
+
+/**
+ * Plain-text reminder replied to a request nobody answered (adapters
+ * escape it for their channel).
+ */
+export function formatReminderNotice(info: ApprovalInfo, afterMs: number): string {
+  const cmd = info.command.length > 200 ? info.command.slice(0, 199) + "…" : info.command;
+  return `🔔 Still waiting for a decision (${formatDuration(afterMs)} so far) · ${info.agent}: ${cmd}`;
+}
+
+/**
+ * Header line of an escalated request (HTML). The mention is inserted
+ * as is, so Telegram links `@username`.
+ */
+export function formatEscalationHeader(afterMs: number, mention?: string): string {
+  const who = mention ? ` · ${escapeHtml(mention)}` : "";
+  return `📣 <b>Escalated</b> — no decision after ${formatDuration(afterMs)}${who}`;
+}
+
+/**
+ * One-line plain-text summary of the reminders and escalations an
+ * approval went through, e.g.
+ * "🔔 reminded after 2m · 📣 escalated after 5m (telegram, slack)".
+ * Empty when there were none.
+ */
+export function formatEscalationHistory(steps: EscalationStep[]): string {
+  return steps
+    .map((step) => {
+      const when = `after ${formatDuration(step.afterMs)}`;
+      if (step.kind === "reminder") return `🔔 reminded ${when}`;
+      const where = step.channels.length ? ` (${step.channels.join(", ")})` : "";
+      return `📣 escalated ${when}${where}`;
+    })
+    .join(" · ");
+}
+
+// ─── Button press feedback ──────────────────────────────────────────────────
+
+const TOAST_TEXT: Record<ApprovalAction, string> = {
+  "allow-once": "Allowed once ✓",
+  "allow-15m": "Allowed for 15 min ✓",
+  "allow-1h": "Allowed for 1 hour ✓",
+  "allow-always": "Always allowed ✓",
+  deny: "Denied ✓",
+};
+
+/**
+ * Short toast confirming a button press (plain text, ≤ 200 chars).
+ */
+export function formatButtonToast(action: ApprovalAction): string {
+  return TOAST_TEXT[action] ?? "Received ✓";
+}
+
+/**
+ * Alert shown when a button is pressed on an approval that is no longer pending.
+ */
+export function formatStaleButtonAlert(approvalId: string): string {
+  return `⏰ Approval ${approvalId.slice(0, 8)}… was already resolved or has expired.`;
+}
+
+/**
+ * Toast for an approval vote that did not reach the quorum yet.
+ * `repeat` is set when the same user pressed again.
+ */
+export function formatVoteToast(count: number, required: number, repeat: boolean): string {
+  const left = required - count;
+  const waiting = `waiting for ${left} more approver${left === 1 ? "" : "s"}`;
+  return repeat ? `You already approved — ${waiting}` : `Approval ${count}/${required} recorded — ${waiting}`;
+}
+
+/**
+ * Alert shown when a multi-approver approval is pressed by an unidentifiable sender.
+ */
+export function formatAnonymousVoteAlert(required: number): string {
+  return `🚫 This approval needs ${required} distinct approvers, but your user ID is unknown.`;
+}
+
+/**
+ * Alert shown when "Always" is pressed on a high-risk command.
+ */
+export function formatAlwaysDisabledAlert(): string {
+  return "🔴 Always is disabled for high-risk commands — use Allow Once.";
+}
+
+/**
+ * Alert shown when a scoped Always is picked on an approval that needs
+ * more than one approver.
+ */
+export function formatScopeQuorumAlert(required: number): string {
+  return `👥 This approval needs ${required} distinct approvers — vote with Allow Once instead.`;
+}
+
+/**
+ * Alert shown when ⏱ 15 min / 1 hour is pressed where it is not offered.
+ */
+export function formatTimedDisabledAlert(): string {
+  return "⏱ Timed approval is not available for this command — use Allow Once.";
+}
+
+/**
+ * Alert shown when a decision received directly from a channel could not
+ * be delivered to the gateway.
+ */
+export function formatSubmitFailedAlert(): string {
+  return "⚠️ Could not deliver your decision to OpenClaw — try again or use /approve.";
+}
+
+/**
+ * Alert shown when someone who is not an approver presses a button.
+ */
+export function formatUnauthorizedAlert(action: ApprovalAction): string {
+  return action === "allow-always"
+    ? "🚫 You are not allowed to always-allow commands."
+    : "🚫 You are not allowed to decide this approval.";
+}
+
 // ─── Health / diagnostics format ────────────────────────────────────────────
 
 /**
  * Format a health check result for display.
  */
-export function formatHealthCheck(health: {
-  ok: boolean;
-  config: { telegramChatId: boolean; telegramToken: boolean; slackToken: boolean; slackChannel: boolean };
-  telegram: { reachable: boolean; botUsername?: string; error?: string };
-  slack: { reachable: boolean; teamName?: string; error?: string };
-  store: { pending: number; totalProcessed: number };
-  uptime: number;
-}): string {
+export function formatHealthCheck(health: HealthCheck): string {
   const uptimeMin = Math.floor(health.uptime / 60_000);
   const lines = [
     `${health.ok ? "🟢" : "🔴"} Approval Buttons Status`,
     ``,
   ];
 
-  // Telegram status
-  const tgConfigured = health.config.telegramChatId && health.config.telegramToken;
-  if (tgConfigured) {
-    lines.push(`Telegram: chatId=${health.config.telegramChatId ? "✓" : "✗"} · token=${health.config.telegramToken ? "✓" : "✗"}`);
-    if (health.telegram.reachable) {
-      lines.push(`  ✓ connected (@${health.telegram.botUsername ?? "?"})`);
-    } else {
-      lines.push(`  ✗ ${health.telegram.error ?? "unreachable"}`);
-    }
-  } else {
-    lines.push(`Telegram: not configured`);
+  if (health.channels.length === 0) {
+    lines.push(`No channels configured`);
   }
 
-  // Slack status
-  const slackConfigured = health.config.slackToken && health.config.slackChannel;
-  if (slackConfigured) {
-    lines.push(`Slack: token=${health.config.slackToken ? "✓" : "✗"} · channel=${health.config.slackChannel ? "✓" : "✗"}`);
-    if (health.slack.reachable) {
-      lines.push(`  ✓ connected (${health.slack.teamName ?? "?"})`);
+  for (const channel of health.channels) {
+    lines.push(`${channel.label}:`);
+    if (channel.reachable) {
+      lines.push(`  ✓ connected (${channel.detail ?? "?"})`);
     } else {
-      lines.push(`  ✗ ${health.slack.error ?? "unreachable"}`);
+      lines.push(`  ✗ ${channel.error ?? "unreachable"}`);
+    }
+    if (channel.requests) {
+      const { queued, retries, rateLimited, failed } = channel.requests;
+      lines.push(
+        `  ↻ ${queued} queued · ${retries} retried · ${rateLimited} rate-limited · ${failed} failed` +
+          (failed > 0 ? " ⚠️" : ""),
+      );
     }
-  } else {
-    lines.push(`Slack: not configured`);
   }
 
+  const { structured, text, defaulted } = health.parsing;
   lines.push(
     ``,
     `Pending: ${health.store.pending} · Processed: ${health.store.totalProcessed}`,
-    `Uptime: ${uptimeMin}m`,
+    `Parsed: ${structured} structured · ${text} from text · ${defaulted} fell back to defaults` +
+      (defaulted > 0 ? " ⚠️" : ""),
   );
 
+  if (health.outbox) {
+    const { retrying, redelivered, rejected, lastFailure } = health.outbox;
+    lines.push(
+      `Edits: ${retrying} retrying · ${redelivered} delivered on retry · ${rejected} failed` +
+        (rejected > 0 ? " ⚠️" : ""),
+    );
+    if (lastFailure) {
+      const short = lastFailure.approvalId.slice(0, 8);
+      lines.push(`  Last failure: ${lastFailure.kind} of ${short}… on ${lastFailure.channel} — ${lastFailure.error}`);
+    }
+  }
+
+  lines.push(`Uptime: ${uptimeMin}m`);
+
+  return lines.join("\n");
+}
+
+// ─── Audit log format ───────────────────────────────────────────────────────
+
+/**
+ * Format the most recent audit records for display (plain text, newest first).
+ */
+export function formatAuditLog(records: AuditRecord[]): string {
+  if (records.length === 0) return "📜 Approval Audit\n\nNo decisions recorded yet.";
+
+  const lines = [`📜 Approval Audit (last ${records.length})`, ``];
+  for (const r of records) {
+    const icon = r.outcome === "expired" ? "⏰" : ACTION_ICONS[r.outcome] ?? "•";
+    const when = new Date(r.resolvedAt).toISOString().replace("T", " ").slice(0, 19);
+    const who = r.decidedBy ? ` by ${r.decidedBy}` : "";
+    const cmd = r.command.length > 120 ? r.command.slice(0, 119) + "…" : r.command;
+    const edited = r.editedCommand && r.editedCommand.length > 120 ? r.editedCommand.slice(0, 119) + "…" : r.editedCommand;
+    lines.push(
+      `${icon} ${r.outcome}${who} · ${when}Z · ${Math.round(r.latencyMs / 1000)}s`,
+      `  ${r.agent}@${r.host} (${r.channels.join(", ")}) · ${r.id.slice(0, 8)}…`,
+      `  $ ${cmd}`,
+      ...(r.reason ? [`  💬 ${r.reason}`] : []),
+      ...(edited ? [`  ✏️ $ ${edited}`] : []),
+      ...(r.scope ? [`  🎯 ${SCOPE_LABELS[r.scope]}`] : []),
+    );
+  }
   return lines.join("\n");
 }
+
+// ─── Always grants (/approvalrules) ─────────────────────────────────────────
+
+/**
+ * Format the allow-always and timed grants made through the plugin
+ * (plain text, oldest first).
+ */
+export function formatGrantList(grants: AllowGrant[]): string {
+  if (grants.length === 0) return "🔏 Always-allow grants\n\nNo grants made through the plugin yet.";
+
+  const lines = [`🔏 Always-allow grants (${grants.length})`, ``];
+  for (const g of grants) {
+    const when = new Date(g.grantedAt).toISOString().replace("T", " ").slice(0, 16);
+    const who = g.grantedBy ? ` by ${g.grantedBy}` : "";
+    const where = g.scope === "binary" ? "OpenClaw allowlist" : "plugin";
+    const until =
+      g.expiresAt === undefined ? "" : ` · ⏱ until ${new Date(g.expiresAt).toISOString().slice(11, 16)}Z`;
+    lines.push(
+      `${g.id} · ${SCOPE_LABELS[g.scope]} · ${g.agent} (${where})`,
+      `  $ ${describeGrant(g)}`,
+      `  granted${who} · ${when}Z${until}`,
+    );
+  }
+  lines.push(``, `Revoke one with /approvalrules revoke <id>`);
+  return lines.join("\n");
+}
+
+/**
+ * Compact plain-text notice for a ⏱ timed grant that lapsed (adapters
+ * escape it for their channel).
+ */
+export function formatGrantExpiredNotice(grant: AllowGrant): string {
+  return `⏱ Timed approval ended — ${grant.agent}: ${describeGrant(grant)} needs approval again`;
+}
+
+/**
+ * Inline keyboard with one 🗑 Revoke button per grant. The buttons send
+ * `/approvalrules revoke <id>`, which OpenClaw runs as the command.
+ */
+export function buildGrantKeyboard(grants: AllowGrant[]): { text: string; callback_data: string }[][] {
+  return grants.map((g) => {
+    const what = describeGrant(g);
+    return [
+      {
+        text: `🗑 Revoke ${what.length > 32 ? what.slice(0, 31) + "…" : what}`,
+        callback_data: `/approvalrules revoke ${g.id}`,
+      },
+    ];
+  });
+}
+
+const REVOKE_FAILURES: Record<Extract<RevokeResult, { ok: false }>["reason"], string> = {
+  "unknown grant": "No grant with that ID — see /approvalrules.",
+  "gateway unavailable":
+    "This OpenClaw build exposes no gateway call, so the binary can't be removed from the exec allowlist. Remove it there by hand.",
+  "allowlist update failed": "Could not update OpenClaw's exec allowlist — try again.",
+};
+
+/**
+ * Reply to `/approvalrules revoke <id>`.
+ */
+export function formatRevokeResult(result: RevokeResult): string {
+  if (!result.ok) return `⚠️ ${REVOKE_FAILURES[result.reason]}`;
+  const { grant, allowlistEntries } = result;
+  const from =
+    allowlistEntries === undefined
+      ? ""
+      : allowlistEntries > 0
+        ? ` Removed ${allowlistEntries} entr${allowlistEntries === 1 ? "y" : "ies"} from OpenClaw's exec allowlist.`
+        : " It was no longer in OpenClaw's exec allowlist.";
+  return `🗑 Revoked ${grant.id}: ${describeGrant(grant)} (${grant.agent}).${from}`;
+}
@@ -0,0 +1,146 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/policy.ts
+// Ordered auto-decision rules (allow / deny / ask) evaluated before buttons are sent
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { readFileSync } from "node:fs";
+import type { ApprovalInfo, PolicyDecision, PolicyRuleConfig, PolicyVerdict } from "../types.js";
+import { plainCommandWords } from "./command-risk.js";
+
+const MATCH_FIELDS = ["command", "cwd", "host", "agent", "security"] as const;
+const DECISIONS: readonly PolicyDecision[] = ["allow", "deny", "ask"];
+
+type MatchField = (typeof MATCH_FIELDS)[number];
+
+interface CompiledRule {
+  name: string;
+  decision: PolicyDecision;
+  matchers: Partial<Record<MatchField, RegExp[]>>;
+}
+
+// ─── Engine ─────────────────────────────────────────────────────────────────
+
+/**
+ * Evaluates approval requests against an ordered list of rules.
+ * The first rule whose every matcher matches decides; no match means "ask".
+ * Allow rules only ever match plain commands (see plainCommandWords): a
+ * glob like `ls*` must not let `ls; curl … | sh` through.
+ */
+export class PolicyEngine {
+  constructor(private readonly rules: CompiledRule[] = []) {}
+
+  get size(): number {
+    return this.rules.length;
+  }
+
+  evaluate(info: ApprovalInfo): PolicyVerdict {
+    const plain = plainCommandWords(info.command) !== null;
+    for (const rule of this.rules) {
+      if (rule.decision === "allow" && !plain) continue;
+      const matches = MATCH_FIELDS.every((field) => {
+        const patterns = rule.matchers[field];
+        return !patterns || patterns.some((re) => re.test(info[field]));
+      });
+      if (matches) return { decision: rule.decision, rule: rule.name };
+    }
+    return { decision: "ask" };
+  }
+}
+
+// ─── Compilation / validation ───────────────────────────────────────────────
+
+/**
+ * Validate and compile a parsed policy document (`{ "rules": [...] }` or a
+ * bare array). Returns every problem found; callers should not use a
+ * policy with errors, since skipping a deny rule could let a later allow
+ * rule through.
+ */
+export function compilePolicy(doc: unknown): { engine: PolicyEngine; errors: string[] } {
+  const errors: string[] = [];
+  const list = Array.isArray(doc) ? doc : (doc as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(list)) {
+    return { engine: new PolicyEngine(), errors: ['expected { "rules": [...] }'] };
+  }
+
+  const rules: CompiledRule[] = [];
+  list.forEach((raw: unknown, index) => {
+    const label = `rule #${index + 1}`;
+    if (!raw || typeof raw !== "object") {
+      errors.push(`${label}: not an object`);
+      return;
+    }
+    const rule = raw as Partial<PolicyRuleConfig> & Record<string, unknown>;
+    const name = typeof rule.name === "string" && rule.name.trim() ? rule.name.trim() : label;
+
+    if (!DECISIONS.includes(rule.decision as PolicyDecision)) {
+      errors.push(`${name}: decision must be one of ${DECISIONS.join(", ")}`);
+      return;
+    }
+
+    const unknown = Object.keys(rule).filter(
+      (k) => k !== "name" && k !== "decision" && !(MATCH_FIELDS as readonly string[]).includes(k),
+    );
+    if (unknown.length > 0) errors.push(`${name}: unknown field(s) ${unknown.join(", ")}`);
+
+    const matchers: CompiledRule["matchers"] = {};
+    for (const field of MATCH_FIELDS) {
+      const value = rule[field];
+      if (value === undefined) continue;
+      const sources = Array.isArray(value) ? value : [value];
+      if (sources.length === 0 || !sources.every((v) => typeof v === "string" && v !== "")) {
+        errors.push(`${name}: ${field} must be a non-empty string or array of strings`);
+        continue;
+      }
+      try {
+        matchers[field] = sources.map(toRegExp);
+      } catch (err: unknown) {
+        const msg = err instanceof Error ? err.message : String(err);
+        errors.push(`${name}: invalid ${field} pattern — ${msg}`);
+      }
+    }
+
+    rules.push({ name, decision: rule.decision as PolicyDecision, matchers });
+  });
+
+  return { engine: new PolicyEngine(errors.length === 0 ? rules : []), errors };
+}
+
+/**
+ * Read and compile a policy file. A missing file is not an error (no
+ * policy); unreadable JSON is.
+ */
+export function loadPolicyFile(path: string): { engine: PolicyEngine; errors: string[]; found: boolean } {
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch {
+    return { engine: new PolicyEngine(), errors: [], found: false };
+  }
+  try {
+    return { ...compilePolicy(JSON.parse(raw)), found: true };
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { engine: new PolicyEngine(), errors: [`invalid JSON — ${msg}`], found: true };
+  }
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+/**
+ * `/source/flags` → RegExp; anything else is a glob matched against the
+ * whole value (`*` = any run of characters, `?` = one character). The `g`
+ * and `y` flags are refused: they make `test()` resume from `lastIndex`,
+ * so a rule would match only every other time.
+ */
+function toRegExp(pattern: string): RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    if (/[gy]/.test(regex[2])) throw new Error(`flag "${regex[2].replace(/[^gy]/g, "")}" is not supported`);
+    return new RegExp(regex[1], regex[2]);
+  }
+  const source = pattern
+    .split("")
+    .map((ch) => (ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "s");
+}
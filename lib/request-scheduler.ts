@@ -0,0 +1,193 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/request-scheduler.ts
+// Outbound API calls: token-bucket rate limits, 429 handling, retry with backoff
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type { Logger, RequestStats } from "../types.js";
+
+/** Attempts after the first before a call gives up */
+const MAX_RETRIES = 3;
+/** Backoff before the first retry of a failed idempotent call; doubles per retry */
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10_000;
+/** Longest wait a 429 is honored for; a call told to wait longer fails instead */
+const MAX_RETRY_AFTER_MS = 60_000;
+/** Idle buckets are dropped after this long, so one-off chats don't pile up */
+const BUCKET_IDLE_MS = 10 * 60_000;
+
+/**
+ * A token bucket: `burst` calls at once, refilled at `perSec`.
+ */
+export interface RateLimit {
+  perSec: number;
+  burst: number;
+}
+
+/**
+ * What one attempt at an API call came back with. `value` is returned to
+ * the caller once no retry follows.
+ */
+export interface AttemptOutcome<T> {
+  value: T;
+  /** Rate limited (HTTP 429): how long the platform asked to wait (ms) */
+  retryAfterMs?: number;
+  /** Network error, timeout or 5xx — the call may or may not have taken effect */
+  transient?: boolean;
+}
+
+interface Bucket {
+  limit: RateLimit;
+  tokens: number;
+  updatedAt: number;
+  /** No calls before this time (set by a 429) */
+  pausedUntil: number;
+}
+
+/**
+ * Paces the calls one API client makes and retries the ones that failed.
+ *
+ * Each call names the buckets it draws from (e.g. `global` and
+ * `chat:<id>`); `limitFor` gives each bucket its limit, and a call waits
+ * until every one of its buckets has a token. A 429 pauses the call's
+ * buckets for the requested `retry_after` and retries it — the platform
+ * did not carry it out, so this is safe for any call. Calls that failed
+ * for another transient reason are retried with jittered exponential
+ * backoff only when they are idempotent (edits, deletes, lookups):
+ * re-sending a message that may have gone out would post it twice.
+ *
+ * Never throws; the last outcome is returned when retries run out.
+ */
+export class RequestScheduler {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly counters: RequestStats = { queued: 0, retries: 0, rateLimited: 0, failed: 0 };
+
+  constructor(
+    private readonly name: string,
+    private readonly limitFor: (bucket: string) => RateLimit,
+    private readonly log?: Logger,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  /** Calls waiting for a token or a retry, and totals since startup. */
+  get stats(): RequestStats {
+    return { ...this.counters };
+  }
+
+  /**
+   * Run `attempt` within the limits of `buckets`, retrying as described
+   * above. `label` names the call in logs.
+   */
+  async run<T>(
+    label: string,
+    buckets: string[],
+    idempotent: boolean,
+    attempt: () => Promise<AttemptOutcome<T>>,
+  ): Promise<T> {
+    for (let retry = 0; ; retry++) {
+      await this.acquire(buckets);
+      const outcome = await attempt();
+
+      if (outcome.retryAfterMs !== undefined) {
+        this.counters.rateLimited++;
+        const wait = Math.max(outcome.retryAfterMs, 0);
+        if (wait > MAX_RETRY_AFTER_MS) {
+          return this.giveUp(label, outcome.value, retry, `retry_after ${Math.ceil(wait / 1000)}s exceeds cap`);
+        }
+        if (retry >= MAX_RETRIES) return this.giveUp(label, outcome.value, retry, "still rate limited");
+        this.pause(buckets, Date.now() + wait);
+        this.log?.warn(`[${this.name}] ${label} rate limited — retrying in ${Math.ceil(wait / 1000)}s`);
+        this.counters.retries++;
+        continue;
+      }
+
+      if (outcome.transient && idempotent) {
+        if (retry >= MAX_RETRIES) return this.giveUp(label, outcome.value, retry, "still failing");
+        this.counters.retries++;
+        await this.wait(backoffMs(retry, this.random));
+        continue;
+      }
+
+      if (outcome.transient) this.counters.failed++;
+      return outcome.value;
+    }
+  }
+
+  // ── Internal ────────────────────────────────────────────────────────────
+
+  /** Wait until every bucket has a token, then take one from each. */
+  private async acquire(names: string[]): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      const buckets = names.map((name) => this.bucket(name, now));
+      const waitMs = Math.max(0, ...buckets.map((b) => waitFor(b, now)));
+      if (waitMs === 0) {
+        for (const bucket of buckets) bucket.tokens -= 1;
+        return;
+      }
+      await this.wait(waitMs);
+    }
+  }
+
+  private pause(names: string[], until: number): void {
+    const now = Date.now();
+    for (const name of names) {
+      const bucket = this.bucket(name, now);
+      bucket.pausedUntil = Math.max(bucket.pausedUntil, until);
+    }
+  }
+
+  /** The bucket `name`, refilled up to now (created full on first use). */
+  private bucket(name: string, now: number): Bucket {
+    let bucket = this.buckets.get(name);
+    if (!bucket) {
+      this.prune(now);
+      const limit = this.limitFor(name);
+      bucket = { limit, tokens: limit.burst, updatedAt: now, pausedUntil: 0 };
+      this.buckets.set(name, bucket);
+    }
+    const refill = ((now - bucket.updatedAt) / 1000) * bucket.limit.perSec;
+    bucket.tokens = Math.min(bucket.limit.burst, bucket.tokens + refill);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private prune(now: number): void {
+    for (const [name, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > BUCKET_IDLE_MS && bucket.tokens >= bucket.limit.burst) {
+        this.buckets.delete(name);
+      }
+    }
+  }
+
+  /** Sleep, counted as queued. */
+  private async wait(ms: number): Promise<void> {
+    this.counters.queued++;
+    try {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+    } finally {
+      this.counters.queued--;
+    }
+  }
+
+  /** Count and log a call given up on after `retries` retries, for `reason`. */
+  private giveUp<T>(label: string, value: T, retries: number, reason: string): T {
+    this.counters.failed++;
+    this.log?.warn(`[${this.name}] ${label} failed after ${retries} ${retries === 1 ? "retry" : "retries"}: ${reason}`);
+    return value;
+  }
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+/** How long until the bucket can hand out a token (0 = now). */
+function waitFor(bucket: Bucket, now: number): number {
+  const paused = Math.max(bucket.pausedUntil - now, 0);
+  const refill = bucket.tokens >= 1 ? 0 : ((1 - bucket.tokens) / bucket.limit.perSec) * 1000;
+  return Math.ceil(Math.max(paused, refill));
+}
+
+/** Exponential backoff with jitter: between half and all of base · 2^retry, capped. */
+function backoffMs(retry: number, random: () => number): number {
+  const cap = Math.min(BASE_BACKOFF_MS * 2 ** retry, MAX_BACKOFF_MS);
+  return Math.round(cap / 2 + random() * (cap / 2));
+}
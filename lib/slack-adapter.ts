@@ -0,0 +1,209 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/slack-adapter.ts
+// Built-in ChannelAdapter for Slack (Block Kit messages)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  ApprovalAction,
+  ApprovalDigest,
+  ApprovalInfo,
+  ApprovalInput,
+  ApprovalVote,
+  ChannelAdapter,
+  ChannelProbe,
+  DecisionDetail,
+  EditResult,
+  InputPrompt,
+  RequestStats,
+  ScopeOption,
+} from "../types.js";
+import type { SlackApi } from "./slack-api.js";
+import { formatFullCommandCaption, fullCommandFileName } from "./message-formatter.js";
+import {
+  escapeSlack,
+  formatSlackApprovalExpired,
+  formatSlackApprovalRequest,
+  formatSlackApprovalResolved,
+  formatSlackDigest,
+  formatSlackEscalation,
+  formatSlackInputModal,
+  formatSlackScopeModal,
+  slackDigestFallbackText,
+  slackFallbackText,
+} from "./slack-formatter.js";
+
+/** channelId is the conversation Slack actually posted to (a D… ID for DMs). */
+/**
+ * A posted copy. Escalation copies also keep what their :mega: line said,
+ * so redraws (countdown, votes) can repeat it.
+ */
+export type SlackRef = { channelId: string; ts: string; escalatedAfterMs?: number; escalationMention?: string };
+
+/**
+ * Sends every approval to each configured channel/DM (fan-out).
+ * With `prompts` set, requests also offer "Edit" and "Deny with reason",
+ * and "Always Allow" asks for a scope — each opens a modal (needs the
+ * interactivity endpoint for its trigger_id) — as well as "15 min" and
+ * "1 hour".
+ */
+export class SlackAdapter implements ChannelAdapter<SlackRef> {
+  readonly id = "slack";
+  readonly label = "Slack";
+
+  constructor(
+    private readonly api: SlackApi,
+    private readonly channelIds: string[],
+    private readonly prompts = false,
+  ) {}
+
+  async sendRequest(info: ApprovalInfo): Promise<SlackRef[]> {
+    const text = slackFallbackText(info);
+    const blocks = formatSlackApprovalRequest(info, [], this.prompts);
+    const sent = await Promise.all(
+      this.channelIds.map(async (channelId) => {
+        const res = await this.api.postMessage(channelId, text, blocks);
+        return res ? { channelId: res.channel, ts: res.ts } : null;
+      }),
+    );
+    return sent.filter((ref): ref is SlackRef => ref !== null);
+  }
+
+  markResolved(
+    ref: SlackRef,
+    info: ApprovalInfo,
+    action: ApprovalAction,
+    decidedBy?: string,
+    detail?: DecisionDetail,
+  ): Promise<EditResult> {
+    return this.api.updateMessage(
+      ref.channelId,
+      ref.ts,
+      `Exec ${action}`,
+      formatSlackApprovalResolved(info, action, decidedBy, detail),
+    );
+  }
+
+  async markProgress(ref: SlackRef, info: ApprovalInfo, votes: ApprovalVote[]): Promise<boolean> {
+    const res = await this.api.updateMessage(
+      ref.channelId,
+      ref.ts,
+      slackFallbackText(info),
+      ref.escalatedAfterMs === undefined
+        ? formatSlackApprovalRequest(info, votes, this.prompts)
+        : formatSlackEscalation(info, ref.escalatedAfterMs, ref.escalationMention, this.prompts, votes),
+    );
+    return res.ok;
+  }
+
+  markExpired(ref: SlackRef, info: ApprovalInfo): Promise<EditResult> {
+    return this.api.updateMessage(
+      ref.channelId,
+      ref.ts,
+      "Exec Approval Expired",
+      formatSlackApprovalExpired(info),
+    );
+  }
+
+  async renderDigest(ref: SlackRef, digest: ApprovalDigest): Promise<boolean> {
+    const res = await this.api.updateMessage(ref.channelId, ref.ts, slackDigestFallbackText(digest), formatSlackDigest(digest));
+    return res.ok;
+  }
+
+  async sendNotice(text: string): Promise<boolean> {
+    const sent = await Promise.all(
+      this.channelIds.map((channelId) => this.api.postMessage(channelId, escapeSlack(text), [])),
+    );
+    return sent.some((res) => res !== null);
+  }
+
+  /** Reply in the request's thread, broadcast to the channel so it notifies. */
+  async sendReminder(ref: SlackRef, text: string): Promise<boolean> {
+    const res = await this.api.postMessage(ref.channelId, escapeSlack(text), [], ref.ts, true);
+    return res !== null;
+  }
+
+  /**
+   * Post the request, with its buttons, to each target channel (or user
+   * ID, for a DM). The mention goes into the notification text too.
+   */
+  async escalate(info: ApprovalInfo, targets: string[], afterMs: number, mention?: string): Promise<SlackRef[]> {
+    const text = mention ? `${mention} ${slackFallbackText(info)}` : slackFallbackText(info);
+    const blocks = formatSlackEscalation(info, afterMs, mention, this.prompts);
+    const escalation = { escalatedAfterMs: afterMs, ...(mention ? { escalationMention: mention } : {}) };
+    const sent = await Promise.all(
+      targets.map(async (channelId): Promise<SlackRef | null> => {
+        const res = await this.api.postMessage(channelId, text, blocks);
+        return res ? { channelId: res.channel, ts: res.ts, ...escalation } : null;
+      }),
+    );
+    return sent.filter((ref): ref is SlackRef => ref !== null);
+  }
+
+  /**
+   * Reply ephemerally to the presser via the interaction's response_url
+   * (only present for presses received by the interactivity endpoint).
+   * Slack has no toast/alert distinction; both become ephemeral messages.
+   */
+  acknowledge(metadata: Record<string, unknown>, text: string): Promise<boolean> {
+    const url = metadata.responseUrl ?? metadata.response_url;
+    if (typeof url !== "string" || !url) return Promise.resolve(false);
+    return this.api.respond(url, {
+      response_type: "ephemeral",
+      replace_original: false,
+      text: escapeSlack(text),
+    });
+  }
+
+  sendFullCommand(ref: SlackRef, info: ApprovalInfo): Promise<boolean> {
+    return this.api.uploadFile(
+      ref.channelId,
+      fullCommandFileName(info),
+      info.command,
+      formatFullCommandCaption(info),
+      ref.ts,
+    );
+  }
+
+  /**
+   * Open the reason or edit modal with the press's trigger_id. Its
+   * submission comes back through the interactivity endpoint.
+   */
+  async promptInput(
+    input: ApprovalInput,
+    _refs: SlackRef[],
+    info: ApprovalInfo,
+    metadata: Record<string, unknown>,
+  ): Promise<InputPrompt | null> {
+    const triggerId = metadata.triggerId ?? metadata.trigger_id;
+    if (typeof triggerId !== "string" || !triggerId) return null;
+    const url = metadata.responseUrl ?? metadata.response_url;
+    const modal = formatSlackInputModal(input, info, typeof url === "string" ? url : undefined);
+    if (!modal) return null;
+    return (await this.api.openView(triggerId, modal)) ? "form" : null;
+  }
+
+  /**
+   * Open the Always scope modal with the press's trigger_id. The chosen
+   * scope comes back through the interactivity endpoint.
+   */
+  async promptScope(
+    _refs: SlackRef[],
+    info: ApprovalInfo,
+    options: ScopeOption[],
+    metadata: Record<string, unknown>,
+  ): Promise<boolean> {
+    const triggerId = metadata.triggerId ?? metadata.trigger_id;
+    if (!this.prompts || typeof triggerId !== "string" || !triggerId) return false;
+    const url = metadata.responseUrl ?? metadata.response_url;
+    return this.api.openView(triggerId, formatSlackScopeModal(info, options, typeof url === "string" ? url : undefined));
+  }
+
+  async probe(): Promise<ChannelProbe> {
+    const auth = await this.api.authTest();
+    return auth.ok ? { ok: true, detail: auth.teamName } : auth;
+  }
+
+  requestStats(): RequestStats {
+    return this.api.requestStats;
+  }
+}
@@ -3,11 +3,46 @@
 // Isolated Slack Web API wrapper — only depends on fetch (Node built-in)
 // ─────────────────────────────────────────────────────────────────────────────
 
-import type { Logger } from "../types.js";
+import type { EditResult, Logger, RequestStats } from "../types.js";
+import { RequestScheduler, type AttemptOutcome, type RateLimit } from "./request-scheduler.js";
 
 const API_BASE = "https://slack.com/api/";
 const REQUEST_TIMEOUT_MS = 10_000;
 
+/**
+ * Slack's published limits: each Web API method belongs to a tier (calls
+ * per minute per workspace), and chat.postMessage allows about one
+ * message a second per channel, with short bursts tolerated.
+ */
+const METHOD_TIERS: Record<string, RateLimit> = {
+  "chat.postMessage": { perSec: 5, burst: 10 }, // Special: limited per channel, loose overall
+  "chat.update": { perSec: 50 / 60, burst: 5 }, // Tier 3
+  "views.open": { perSec: 100 / 60, burst: 10 }, // Tier 4
+  "auth.test": { perSec: 100 / 60, burst: 10 }, // Tier 4
+  "files.getUploadURLExternal": { perSec: 100 / 60, burst: 10 }, // Tier 4
+  "files.completeUploadExternal": { perSec: 100 / 60, burst: 10 }, // Tier 4
+};
+/** Methods without a listed tier get Tier 2, the strictest that applies here */
+const DEFAULT_TIER: RateLimit = { perSec: 20 / 60, burst: 3 };
+const CHANNEL_LIMIT: RateLimit = { perSec: 1, burst: 3 };
+
+/** chat.update errors that sending the same update again cannot fix */
+const PERMANENT_UPDATE_ERRORS = new Set([
+  "message_not_found",
+  "channel_not_found",
+  "cant_update_message",
+  "edit_window_closed",
+  "not_in_channel",
+  "is_archived",
+  "invalid_blocks",
+  "msg_too_long",
+  "not_authed",
+  "invalid_auth",
+  "account_inactive",
+  "token_revoked",
+  "missing_scope",
+]);
+
 // ─── Internal helpers ───────────────────────────────────────────────────────
 
 interface SlackResponse<T = unknown> {
@@ -18,52 +53,102 @@ interface SlackResponse<T = unknown> {
   [key: string]: unknown;
 }
 
+/**
+ * Call a Web API method once. Plain objects are sent as JSON;
+ * URLSearchParams as a form (required by the files.* upload methods).
+ * The outcome tells the scheduler whether the call is worth retrying: a
+ * 429 carries its Retry-After, network errors, timeouts and 5xx are
+ * transient.
+ */
 async function slackFetch<T = unknown>(
   token: string,
   method: string,
-  body: Record<string, unknown>,
+  body: Record<string, unknown> | URLSearchParams,
   log?: Logger,
-): Promise<SlackResponse<T>> {
+): Promise<AttemptOutcome<SlackResponse<T>>> {
   const url = `${API_BASE}${method}`;
   try {
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
 
+    const form = body instanceof URLSearchParams;
     const res = await fetch(url, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json; charset=utf-8",
-        Authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify(body),
+      headers: form
+        ? { Authorization: `Bearer ${token}` }
+        : { "Content-Type": "application/json; charset=utf-8", Authorization: `Bearer ${token}` },
+      body: form ? body : JSON.stringify(body),
       signal: controller.signal,
     });
 
     clearTimeout(timer);
 
+    if (res.status === 429) {
+      log?.warn(`[slack-api] ${method} failed: ratelimited`);
+      const retryAfter = Number(res.headers.get("Retry-After") ?? "1");
+      return {
+        value: { ok: false, error: "ratelimited" },
+        retryAfterMs: (Number.isFinite(retryAfter) ? retryAfter : 1) * 1000,
+      };
+    }
+
     const data = (await res.json()) as SlackResponse<T>;
     if (!data.ok && log) {
       log.warn(`[slack-api] ${method} failed: ${data.error}`);
     }
-    return data;
+    return { value: data, transient: res.status >= 500 };
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : String(err);
     log?.error(`[slack-api] ${method} network error: ${msg}`);
-    return { ok: false, error: msg };
+    return { value: { ok: false, error: msg }, transient: true };
   }
 }
 
+/** Rate limit of a scheduler bucket: `method:<name>` or `channel:<id>`. */
+function limitFor(bucket: string): RateLimit {
+  if (bucket.startsWith("channel:")) return CHANNEL_LIMIT;
+  return METHOD_TIERS[bucket.slice("method:".length)] ?? DEFAULT_TIER;
+}
+
 // ─── Public API ─────────────────────────────────────────────────────────────
 
 /**
  * Slack Web API client.
- * Instantiate with a bot OAuth token; all methods are self-contained.
+ * Instantiate with a bot OAuth token; all methods are self-contained. Web
+ * API calls go through a RequestScheduler that keeps within Slack's rate
+ * limits and retries 429s and, for calls safe to repeat, transient
+ * failures.
  */
 export class SlackApi {
+  private readonly scheduler: RequestScheduler;
+
   constructor(
     private readonly token: string,
     private readonly log?: Logger,
-  ) {}
+  ) {
+    this.scheduler = new RequestScheduler("slack-api", limitFor, log);
+  }
+
+  /** Queue depth and retry counters of the outbound calls. */
+  get requestStats(): RequestStats {
+    return this.scheduler.stats;
+  }
+
+  /**
+   * Call `method` through the scheduler. `channelId` adds the channel's
+   * own bucket; `idempotent` calls are also retried after transient errors.
+   */
+  private call<T = unknown>(
+    method: string,
+    body: Record<string, unknown> | URLSearchParams,
+    { channelId, idempotent }: { channelId?: string; idempotent: boolean },
+  ): Promise<SlackResponse<T>> {
+    const buckets = [`method:${method}`];
+    if (channelId !== undefined) buckets.push(`channel:${channelId}`);
+    return this.scheduler.run(method, buckets, idempotent, () =>
+      slackFetch<T>(this.token, method, body, this.log),
+    );
+  }
 
   // ── Connectivity ────────────────────────────────────────────────────────
 
@@ -71,12 +156,7 @@ export class SlackApi {
    * Call auth.test to verify the bot token and get bot info.
    */
   async authTest(): Promise<{ ok: true; botId: string; teamName: string } | { ok: false; error: string }> {
-    const res = await slackFetch<{ bot_id: string; team: string }>(
-      this.token,
-      "auth.test",
-      {},
-      this.log,
-    );
+    const res = await this.call<{ bot_id: string; team: string }>("auth.test", {}, { idempotent: true });
     if (res.ok) {
       return {
         ok: true,
@@ -92,38 +172,43 @@ export class SlackApi {
   /**
    * Send a message with Block Kit blocks to a channel or DM.
    * For DMs, pass the user's Slack ID as channelId — Slack opens the DM automatically.
-   * Returns the message timestamp (ts) on success, null on failure.
+   * Returns the message timestamp (ts) and the conversation it landed in
+   * (the D… ID for DMs, needed by chat.update) on success, null on failure.
+   * With `threadTs` the message is a thread reply; `broadcast` also shows
+   * it in the channel.
    */
   async postMessage(
     channelId: string,
     text: string,
     blocks: object[],
-  ): Promise<string | null> {
-    const res = await slackFetch(
-      this.token,
+    threadTs?: string,
+    broadcast = false,
+  ): Promise<{ ts: string; channel: string } | null> {
+    // Not retried after a transient error: the message may have gone out
+    const res = await this.call(
       "chat.postMessage",
       {
         channel: channelId,
         text, // fallback for notifications
         blocks,
+        ...(threadTs ? { thread_ts: threadTs, reply_broadcast: broadcast } : {}),
       },
-      this.log,
+      { channelId, idempotent: false },
     );
-    return res.ok ? (res.ts as string ?? null) : null;
+    if (!res.ok || !res.ts) return null;
+    return { ts: res.ts, channel: res.channel ?? channelId };
   }
 
   /**
    * Update an existing message's text and blocks.
-   * Returns true on success.
    */
   async updateMessage(
     channelId: string,
     ts: string,
     text: string,
     blocks: object[],
-  ): Promise<boolean> {
-    const res = await slackFetch(
-      this.token,
+  ): Promise<EditResult> {
+    const res = await this.call(
       "chat.update",
       {
         channel: channelId,
@@ -131,8 +216,95 @@ export class SlackApi {
         text,
         blocks,
       },
-      this.log,
+      { channelId, idempotent: true },
     );
+    if (res.ok) return { ok: true };
+    const error = res.error ?? "unknown error";
+    return { ok: false, error, permanent: PERMANENT_UPDATE_ERRORS.has(error) };
+  }
+
+  /**
+   * Post to an interaction's `response_url` (e.g. an ephemeral reply to
+   * the user who pressed a button). Returns true on success.
+   */
+  async respond(responseUrl: string, message: Record<string, unknown>): Promise<boolean> {
+    try {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      const res = await fetch(responseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json; charset=utf-8" },
+        body: JSON.stringify(message),
+        signal: controller.signal,
+      });
+      clearTimeout(timer);
+      if (!res.ok) this.log?.warn(`[slack-api] response_url failed: HTTP ${res.status}`);
+      return res.ok;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log?.error(`[slack-api] response_url network error: ${msg}`);
+      return false;
+    }
+  }
+
+  // ── Views ───────────────────────────────────────────────────────────────
+
+  /**
+   * Open a modal in response to an interaction. `triggerId` comes from the
+   * interaction payload and is only valid for three seconds.
+   * Returns true on success.
+   */
+  async openView(triggerId: string, view: object): Promise<boolean> {
+    // Not retried after a transient error: the trigger is single-use
+    const res = await this.call("views.open", { trigger_id: triggerId, view }, { idempotent: false });
     return res.ok;
   }
+
+  // ── Files ───────────────────────────────────────────────────────────────
+
+  /**
+   * Upload a text file to a conversation, optionally into a message's
+   * thread. Uses the external upload flow (get URL → upload → complete),
+   * which needs the `files:write` scope. Returns true on success.
+   */
+  async uploadFile(
+    channelId: string,
+    fileName: string,
+    content: string,
+    title?: string,
+    threadTs?: string,
+  ): Promise<boolean> {
+    const bytes = Buffer.from(content, "utf8");
+    const target = await this.call(
+      "files.getUploadURLExternal",
+      new URLSearchParams({ filename: fileName, length: String(bytes.length) }),
+      { idempotent: true },
+    );
+    const uploadUrl = target.upload_url;
+    const fileId = target.file_id;
+    if (!target.ok || typeof uploadUrl !== "string" || typeof fileId !== "string") return false;
+
+    try {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      const res = await fetch(uploadUrl, { method: "POST", body: bytes, signal: controller.signal });
+      clearTimeout(timer);
+      if (!res.ok) {
+        this.log?.warn(`[slack-api] file upload failed: HTTP ${res.status}`);
+        return false;
+      }
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log?.error(`[slack-api] file upload network error: ${msg}`);
+      return false;
+    }
+
+    const params = new URLSearchParams({
+      files: JSON.stringify([{ id: fileId, title: title ?? fileName }]),
+      channel_id: channelId,
+    });
+    if (threadTs) params.set("thread_ts", threadTs);
+    const done = await this.call("files.completeUploadExternal", params, { channelId, idempotent: false });
+    return done.ok;
+  }
 }
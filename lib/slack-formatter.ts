@@ -3,22 +3,98 @@
 // Block Kit message formatting for Slack (approval requests & resolutions)
 // ─────────────────────────────────────────────────────────────────────────────
 
-import type { ApprovalAction, ApprovalInfo } from "../types.js";
+import type {
+  ApprovalAction,
+  ApprovalDigest,
+  ApprovalInfo,
+  ApprovalInput,
+  ApprovalVote,
+  DecisionDetail,
+  ScopeOption,
+} from "../types.js";
+import { analyzeCommand } from "./command-risk.js";
+import { diffCommands } from "./command-diff.js";
+import {
+  clipCommand,
+  digestCommand,
+  digestStatusLabel,
+  formatDuration,
+  formatEscalationHistory,
+  formatQuorumProgress,
+  riskBadge,
+  riskLines,
+  SCOPE_LABELS,
+} from "./message-formatter.js";
+import { scopePreview } from "./allow-grants.js";
+import { pendingItems, selectedItems } from "./approval-digest.js";
+
+// ─── Escaping ───────────────────────────────────────────────────────────────
+
+/** Escape the three characters Slack treats as control sequences in text. */
+export function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// ─── Command blocks ─────────────────────────────────────────────────────────
+
+/** Slack rejects section blocks whose text exceeds 3000 characters. */
+const SECTION_TEXT_LIMIT = 3000;
+/** Longer commands are clipped; the message stays well under Slack's block cap. */
+const COMMAND_LIMIT = 4 * (SECTION_TEXT_LIMIT - 10);
+
+/**
+ * Render a command as one or more ``` section blocks.
+ *
+ * Embedded fences are broken with a zero-width space so they can't close
+ * the block early, long scripts are split at line breaks across sections,
+ * and anything beyond COMMAND_LIMIT is replaced by a context note.
+ */
+export function slackCommandBlocks(command: string): object[] {
+  const { text, omitted } = clipCommand(command, COMMAND_LIMIT);
+  const body = escapeSlack(text).replace(/```/g, "`\u200b``");
+  const blocks: object[] = splitLines(body, SECTION_TEXT_LIMIT - 8).map((chunk) => ({
+    type: "section",
+    text: { type: "mrkdwn", text: `\`\`\`${chunk}\`\`\`` },
+  }));
+  if (omitted > 0) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `… ${omitted} more characters not shown` }],
+    });
+  }
+  return blocks;
+}
 
 // ─── Approval request format ────────────────────────────────────────────────
 
 /**
  * Format an approval request as Slack Block Kit blocks.
+ * Includes a risk badge with its reasons; approvals that need several
+ * approvers get a progress context line. "Always" is omitted for
+ * high-risk commands; truncated commands get a "Full command" button,
+ * and `prompts` adds "Edit" and "Deny with reason", plus a second row of
+ * "15 min" / "1 hour" where "Always" is offered to a single approver.
  */
-export function formatSlackApprovalRequest(info: ApprovalInfo): object[] {
+export function formatSlackApprovalRequest(
+  info: ApprovalInfo,
+  votes: ApprovalVote[] = [],
+  prompts = false,
+): object[] {
+  const progress = formatQuorumProgress(info, votes);
+  const risk = analyzeCommand(info.command);
+  const [badge, ...reasons] = riskLines(risk);
+  const allowAlways = risk.level !== "high";
+  // A timed grant would let later two-person commands skip the quorum
+  const timed = prompts && allowAlways && (info.requiredApprovals ?? 1) <= 1;
   return [
     {
       type: "header",
       text: { type: "plain_text", text: "Exec Approval", emoji: true },
     },
+    ...slackCommandBlocks(info.command),
     {
       type: "section",
-      text: { type: "mrkdwn", text: `\`\`\`${info.command}\`\`\`` },
+      text: { type: "mrkdwn", text: [`*${badge}*`, ...reasons.map(escapeSlack)].join("\n") },
     },
     {
       type: "context",
@@ -27,41 +103,104 @@ export function formatSlackApprovalRequest(info: ApprovalInfo): object[] {
         { type: "mrkdwn", text: `ID: \`${info.id}\`` },
       ],
     },
-    ...buildSlackApprovalActions(info.id),
+    ...(progress
+      ? [{ type: "context", elements: [{ type: "mrkdwn", text: `:busts_in_silhouette: ${escapeSlack(progress)}` }] }]
+      : []),
+    ...buildSlackApprovalActions(info.id, allowAlways, info.command.length > COMMAND_LIMIT, prompts, timed),
   ];
 }
 
 /**
- * Build the actions block with approval buttons.
+ * Build the actions block with approval buttons, and the block of timed
+ * allows below it.
  */
-function buildSlackApprovalActions(approvalId: string): object[] {
+function buildSlackApprovalActions(
+  approvalId: string,
+  allowAlways: boolean,
+  fullCommand: boolean,
+  prompts: boolean,
+  timed: boolean,
+): object[] {
+  const buttons = [
+    {
+      type: "button",
+      text: { type: "plain_text", text: "Allow Once", emoji: true },
+      style: "primary",
+      action_id: "approval_allow_once",
+      value: `/approve ${approvalId} allow-once`,
+    },
+    {
+      type: "button",
+      text: { type: "plain_text", text: "Always Allow", emoji: true },
+      action_id: "approval_allow_always",
+      value: `/approve ${approvalId} allow-always`,
+    },
+    ...(prompts
+      ? [
+          {
+            type: "button",
+            text: { type: "plain_text", text: ":pencil2: Edit", emoji: true },
+            action_id: "approval_edit",
+            value: `/approve ${approvalId} edit`,
+          },
+        ]
+      : []),
+    {
+      type: "button",
+      text: { type: "plain_text", text: "Deny", emoji: true },
+      style: "danger",
+      action_id: "approval_deny",
+      value: `/approve ${approvalId} deny`,
+    },
+    ...(prompts
+      ? [
+          {
+            type: "button",
+            text: { type: "plain_text", text: "Deny with reason", emoji: true },
+            action_id: "approval_deny_reason",
+            value: `/approve ${approvalId} deny-reason`,
+          },
+        ]
+      : []),
+    ...(fullCommand
+      ? [
+          {
+            type: "button",
+            text: { type: "plain_text", text: ":page_facing_up: Full command", emoji: true },
+            action_id: "approval_full_command",
+            value: `/approve ${approvalId} full-command`,
+          },
+        ]
+      : []),
+  ];
   return [
     {
       type: "actions",
       block_id: `approval_${approvalId}`,
-      elements: [
-        {
-          type: "button",
-          text: { type: "plain_text", text: "Allow Once", emoji: true },
-          style: "primary",
-          action_id: "approval_allow_once",
-          value: `/approve ${approvalId} allow-once`,
-        },
-        {
-          type: "button",
-          text: { type: "plain_text", text: "Always Allow", emoji: true },
-          action_id: "approval_allow_always",
-          value: `/approve ${approvalId} allow-always`,
-        },
-        {
-          type: "button",
-          text: { type: "plain_text", text: "Deny", emoji: true },
-          style: "danger",
-          action_id: "approval_deny",
-          value: `/approve ${approvalId} deny`,
-        },
-      ],
+      elements: allowAlways ? buttons : buttons.filter((b) => b.action_id !== "approval_allow_always"),
     },
+    ...(timed
+      ? [
+          {
+            type: "actions",
+            block_id: `approval_timed_${approvalId}`,
+            elements: [
+              {
+                type: "button",
+                text: { type: "plain_text", text: ":stopwatch: 15 min", emoji: true },
+                action_id: "approval_allow_15m",
+                value: `/approve ${approvalId} allow-15m`,
+              },
+              {
+                type: "button",
+                text: { type: "plain_text", text: ":stopwatch: 1 hour", emoji: true },
+                action_id: "approval_allow_1h",
+                value: `/approve ${approvalId} allow-1h`,
+              },
+            ],
+          },
+        ]
+      : []),
   ];
 }
 
@@ -69,42 +208,307 @@ function buildSlackApprovalActions(approvalId: string): object[] {
 
 const ACTION_ICONS: Record<ApprovalAction, string> = {
   "allow-once": ":white_check_mark:",
+  "allow-15m": ":stopwatch:",
+  "allow-1h": ":stopwatch:",
   "allow-always": ":lock:",
   deny: ":x:",
 };
 
 const ACTION_LABELS: Record<ApprovalAction, string> = {
   "allow-once": "Allowed (once)",
+  "allow-15m": "Allowed for 15 min",
+  "allow-1h": "Allowed for 1 hour",
   "allow-always": "Always allowed",
   deny: "Denied",
 };
 
 /**
  * Format a resolved approval as Slack Block Kit blocks (no buttons).
+ * `decidedBy` (when known) is shown next to the agent, a deny reason
+ * (or the scope of a scoped Always) below the command. An edited command
+ * is shown as a diff against the original instead.
  */
 export function formatSlackApprovalResolved(
   info: ApprovalInfo,
   action: ApprovalAction,
+  decidedBy?: string,
+  detail: DecisionDetail = {},
 ): object[] {
-  const icon = ACTION_ICONS[action] ?? ":white_check_mark:";
-  const label = ACTION_LABELS[action] ?? action;
+  const edited = detail.editedCommand !== undefined;
+  const icon = edited ? ":pencil2:" : ACTION_ICONS[action] ?? ":white_check_mark:";
+  const label = edited ? "Edited" : ACTION_LABELS[action] ?? action;
+  const by = decidedBy ? ` · by ${escapeSlack(decidedBy)}` : "";
+  const scope = detail.scope ? scopePreview(info, detail.scope) : null;
+  const history = formatEscalationHistory(detail.escalations ?? []);
 
   return [
     {
       type: "header",
       text: { type: "plain_text", text: label, emoji: true },
     },
+    ...(edited
+      ? [
+          {
+            type: "context",
+            elements: [
+              { type: "mrkdwn", text: "Denied as written — the agent was asked to run the edited command." },
+            ],
+          },
+          ...slackCommandBlocks(diffCommands(info.command, detail.editedCommand!)),
+        ]
+      : slackCommandBlocks(info.command)),
+    ...(detail.reason
+      ? [{ type: "section", text: { type: "mrkdwn", text: `:speech_balloon: _${escapeSlack(detail.reason)}_` } }]
+      : []),
+    ...(detail.scope && scope
+      ? [
+          {
+            type: "context",
+            elements: [
+              { type: "mrkdwn", text: `:dart: ${SCOPE_LABELS[detail.scope]}: \`${escapeSlack(scope)}\`` },
+            ],
+          },
+        ]
+      : []),
+    ...(history ? [{ type: "context", elements: [{ type: "mrkdwn", text: escapeSlack(history) }] }] : []),
     {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `${icon} ${info.agent}${by} · ID: \`${info.id}\`` }],
+    },
+  ];
+}
+
+// ─── Escalation ─────────────────────────────────────────────────────────────
+
+/**
+ * Format an escalated request: the usual request blocks (with `votes`)
+ * under a line saying nobody answered for `afterMs`. The mention is
+ * inserted as is, so `<@U…>`, `<!subteam^S…>` and `<!here>` notify.
+ */
+export function formatSlackEscalation(
+  info: ApprovalInfo,
+  afterMs: number,
+  mention?: string,
+  prompts = false,
+  votes: ApprovalVote[] = [],
+): object[] {
+  const who = mention ? ` · ${mention}` : "";
+  return [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: `:mega: *Escalated* — no decision after ${formatDuration(afterMs)}${who}` },
+    },
+    ...formatSlackApprovalRequest(info, votes, prompts),
+  ];
+}
+
+// ─── Approval digest ────────────────────────────────────────────────────────
+
+/**
+ * Format a digest of approvals as Slack Block Kit blocks: a section per
+ * approval, with a Select / Selected toggle while it is pending, then
+ * Allow / Deny for the selected ones. No buttons once all are decided.
+ */
+export function formatSlackDigest(digest: ApprovalDigest): object[] {
+  const pending = pendingItems(digest).length;
+  const selected = selectedItems(digest).length;
+  const all = selected === pending;
+  const summary = pending > 0 ? `${selected} of ${pending} pending selected` : "all decided";
+
+  const items = digest.items.map((item, i) => {
+    const n = i + 1;
+    const cmd = escapeSlack(digestCommand(item.info.command)).replace(/`/g, "'");
+    const by = item.decidedBy ? ` by ${escapeSlack(item.decidedBy)}` : "";
+    const state =
+      item.status === "pending"
+        ? `${item.selected ? ":ballot_box_with_check:" : ":white_large_square:"} ${riskBadge(analyzeCommand(item.info.command).level)}`
+        : `${item.status === "expired" ? ":clock1:" : ACTION_ICONS[item.status]} ${digestStatusLabel(item)}${by}`;
+    return {
       type: "section",
-      text: { type: "mrkdwn", text: `\`\`\`${info.command}\`\`\`` },
+      block_id: `approval_digest_item_${n}`,
+      text: { type: "mrkdwn", text: `*${n}.* \`${cmd}\`\n${state} · \`${escapeSlack(item.info.cwd)}\`` },
+      ...(item.status === "pending"
+        ? {
+            accessory: {
+              type: "button",
+              text: { type: "plain_text", text: item.selected ? "Selected" : "Select", emoji: true },
+              ...(item.selected ? { style: "primary" } : {}),
+              action_id: `approval_digest_toggle_${n}`,
+              value: `/approve ${digest.id} toggle-${n}`,
+            },
+          }
+        : {}),
+    };
+  });
+
+  return [
+    {
+      type: "header",
+      text: { type: "plain_text", text: `${digest.items.length} Exec Approvals`, emoji: true },
     },
     {
       type: "context",
-      elements: [{ type: "mrkdwn", text: `${icon} ${info.agent} · ID: \`${info.id}\`` }],
+      elements: [{ type: "mrkdwn", text: `${escapeSlack(digest.agent)}@${escapeSlack(digest.host)} · ${summary}` }],
     },
+    ...items,
+    ...(pending > 0
+      ? [
+          {
+            type: "actions",
+            block_id: `approval_digest_${digest.id}`,
+            elements: [
+              {
+                type: "button",
+                text: { type: "plain_text", text: all ? "Allow all once" : `Allow ${selected} once`, emoji: true },
+                style: "primary",
+                action_id: "approval_digest_allow_all",
+                value: `/approve ${digest.id} allow-all`,
+              },
+              {
+                type: "button",
+                text: { type: "plain_text", text: all ? "Deny all" : `Deny ${selected}`, emoji: true },
+                style: "danger",
+                action_id: "approval_digest_deny_all",
+                value: `/approve ${digest.id} deny-all`,
+              },
+            ],
+          },
+        ]
+      : []),
   ];
 }
 
+/**
+ * Plain-text fallback for a digest (shown in push notifications).
+ */
+export function slackDigestFallbackText(digest: ApprovalDigest): string {
+  return `Exec Approvals — ${digest.items.length} from ${digest.agent}@${digest.host}`;
+}
+
+// ─── Reason / edit modals ───────────────────────────────────────────────────
+
+/** Identifiers of the input modals, read back from their view_submission. */
+export const INPUT_MODALS = {
+  reason: { callbackId: "approval_deny_reason", blockId: "reason", actionId: "reason_input" },
+  edit: { callbackId: "approval_edit_command", blockId: "command", actionId: "command_input" },
+} as const;
+
+/** Longest reason the modal accepts */
+const REASON_MAX_LENGTH = 500;
+/** Slack's limit for a plain_text_input, which also bounds the command to edit */
+const INPUT_MAX_LENGTH = 3000;
+
+/**
+ * Modal asking why a command is denied, or for an edited version of it
+ * (opened with the press's trigger_id). The approval ID and the press's
+ * response_url travel in private_metadata. Returns null when the command
+ * is too long to prefill an edit field with.
+ */
+export function formatSlackInputModal(
+  input: ApprovalInput,
+  info: ApprovalInfo,
+  responseUrl?: string,
+): object | null {
+  const ids = INPUT_MODALS[input];
+  const base = {
+    type: "modal",
+    callback_id: ids.callbackId,
+    private_metadata: JSON.stringify({ id: info.id, responseUrl }),
+    close: { type: "plain_text", text: "Cancel" },
+  };
+
+  if (input === "edit") {
+    if (info.command.length > INPUT_MAX_LENGTH) return null;
+    return {
+      ...base,
+      title: { type: "plain_text", text: "Edit command" },
+      submit: { type: "plain_text", text: "Send edit" },
+      blocks: [
+        {
+          type: "input",
+          block_id: ids.blockId,
+          label: { type: "plain_text", text: `Command for ${info.agent} to run instead` },
+          hint: { type: "plain_text", text: "The original is denied; the edited command needs approval again." },
+          element: {
+            type: "plain_text_input",
+            action_id: ids.actionId,
+            multiline: true,
+            initial_value: info.command,
+            max_length: INPUT_MAX_LENGTH,
+          },
+        },
+      ],
+    };
+  }
+
+  const cmd = info.command.length > 200 ? info.command.slice(0, 199) + "…" : info.command;
+  return {
+    ...base,
+    title: { type: "plain_text", text: "Deny command" },
+    submit: { type: "plain_text", text: "Deny" },
+    blocks: [
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: `\`\`\`${escapeSlack(cmd).replace(/```/g, "`\u200b``")}\`\`\`` },
+      },
+      {
+        type: "input",
+        block_id: ids.blockId,
+        label: { type: "plain_text", text: `Why deny this for ${info.agent}?` },
+        element: {
+          type: "plain_text_input",
+          action_id: ids.actionId,
+          multiline: true,
+          max_length: REASON_MAX_LENGTH,
+        },
+      },
+    ],
+  };
+}
+
+// ─── Always scope modal ─────────────────────────────────────────────────────
+
+/** Identifiers of the 🔏 Always scope modal, read back from its view_submission. */
+export const SCOPE_MODAL = {
+  callbackId: "approval_always_scope",
+  blockId: "scope",
+  actionId: "scope_input",
+} as const;
+
+/**
+ * Modal letting the presser of "Always Allow" pick what to allow (opened
+ * with the press's trigger_id). The approval ID and the press's
+ * response_url travel in private_metadata, the scope in the selected
+ * radio option's value.
+ */
+export function formatSlackScopeModal(info: ApprovalInfo, options: ScopeOption[], responseUrl?: string): object {
+  return {
+    type: "modal",
+    callback_id: SCOPE_MODAL.callbackId,
+    private_metadata: JSON.stringify({ id: info.id, responseUrl }),
+    title: { type: "plain_text", text: "Always allow" },
+    submit: { type: "plain_text", text: "Always allow" },
+    close: { type: "plain_text", text: "Cancel" },
+    blocks: [
+      {
+        type: "input",
+        block_id: SCOPE_MODAL.blockId,
+        label: { type: "plain_text", text: `What should ${info.agent} be allowed to run without asking?` },
+        element: {
+          type: "radio_buttons",
+          action_id: SCOPE_MODAL.actionId,
+          options: options.map((o) => ({
+            text: { type: "plain_text", text: SCOPE_LABELS[o.scope] },
+            // Option descriptions are capped at 75 characters
+            description: { type: "plain_text", text: o.preview.length > 75 ? o.preview.slice(0, 74) + "…" : o.preview },
+            value: o.scope,
+          })),
+        },
+      },
+    ],
+  };
+}
+
 // ─── Stale approval format ──────────────────────────────────────────────────
 
 /**
@@ -116,10 +520,7 @@ export function formatSlackApprovalExpired(info: ApprovalInfo): object[] {
       type: "header",
       text: { type: "plain_text", text: "Expired", emoji: true },
     },
-    {
-      type: "section",
-      text: { type: "mrkdwn", text: `\`\`\`${info.command}\`\`\`` },
-    },
+    ...slackCommandBlocks(info.command),
     {
       type: "context",
       elements: [{ type: "mrkdwn", text: `:clock1: ${info.agent} · ID: \`${info.id}\`` }],
@@ -131,7 +532,38 @@ export function formatSlackApprovalExpired(info: ApprovalInfo): object[] {
 
 /**
  * Plain-text fallback for Slack notifications (shown in push notifications).
+ * Only the first line of the command is included.
  */
 export function slackFallbackText(info: ApprovalInfo): string {
-  return `Exec Approval Request — ${info.command} (${info.agent}@${info.host})`;
+  const [first, ...more] = info.command.split("\n");
+  const cmd = first.length > 150 || more.length > 0 ? `${first.slice(0, 150)}…` : first;
+  return `Exec Approval Request — ${cmd} (${info.agent}@${info.host})`;
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+/**
+ * Split text into chunks of at most `max` characters, preferring line
+ * breaks and never cutting an HTML entity in half.
+ */
+function splitLines(text: string, max: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const line of text.split("\n")) {
+    const joined = current ? `${current}\n${line}` : line;
+    if (joined.length <= max) {
+      current = joined;
+      continue;
+    }
+    if (current) chunks.push(current);
+    current = line;
+    while (current.length > max) {
+      const amp = current.lastIndexOf("&", max);
+      const cut = amp > max - 5 && !current.slice(amp, max).includes(";") ? amp : max;
+      chunks.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  }
+  chunks.push(current);
+  return chunks;
 }
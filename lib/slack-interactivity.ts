@@ -0,0 +1,290 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/slack-interactivity.ts
+// Built-in Slack interactivity endpoint (signed block_actions / view_submission payloads)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AlwaysScope, ApprovalAction, ApprovalInput, DecisionDetail, DigestAction, Logger } from "../types.js";
+import type { ApprovalCoordinator } from "./approval-coordinator.js";
+import { parseDigestPress } from "./approval-parser.js";
+import { headerValue, readRequestBody } from "./http-request.js";
+import { INPUT_MODALS, SCOPE_MODAL } from "./slack-formatter.js";
+
+/** Requests signed longer ago than this are rejected as replays (Slack's recommendation). */
+const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+/** Interactivity payloads are a few KB; refuse anything much larger. */
+const MAX_BODY_BYTES = 64 * 1024;
+
+const RE_APPROVAL_ID = /^\/approve\s+([a-f0-9-]+)\s/i;
+const RE_BARE_ID = /^[a-f0-9-]+$/i;
+/** Digest buttons (allow all, deny all, per-item toggles) carry their action in the value */
+const DIGEST_ACTION_PREFIX = "approval_digest_";
+
+type PressAction =
+  | ApprovalAction
+  | "full-command"
+  | "deny-reason"
+  | "edit"
+  | `always-${AlwaysScope}`
+  | DigestAction;
+
+const SCOPES: readonly AlwaysScope[] = ["exact", "prefix", "binary", "cwd"];
+
+/** Button action_id (see slack-formatter.ts) → button payload action. */
+const ACTIONS: Record<string, PressAction> = {
+  approval_allow_once: "allow-once",
+  approval_allow_15m: "allow-15m",
+  approval_allow_1h: "allow-1h",
+  approval_allow_always: "allow-always",
+  approval_deny: "deny",
+  approval_deny_reason: "deny-reason",
+  approval_edit: "edit",
+  approval_full_command: "full-command",
+};
+
+export type SignatureCheck = { ok: true } | { ok: false; reason: string };
+
+/**
+ * One approval button press from a `block_actions` payload, or a deny
+ * reason or edited command submitted from a modal (`view_submission`,
+ * action "deny"), or the scope picked for an Always (`always-<scope>`).
+ * For digest buttons `approvalId` is the digest's ID.
+ */
+export interface SlackButtonPress {
+  approvalId: string;
+  action: PressAction;
+  /** Slack user who pressed the button (`id`, `username`, `name`) */
+  user: Record<string, unknown>;
+  /** Where to post an ephemeral reply to the presser */
+  responseUrl?: string;
+  /** Opens a modal in reply to the press (valid for three seconds) */
+  triggerId?: string;
+  /** Reason or edited command typed into a modal */
+  detail?: DecisionDetail;
+}
+
+// ─── Verification ───────────────────────────────────────────────────────────
+
+/**
+ * Verify Slack's `X-Slack-Signature` for a request body.
+ *
+ * The signature is `v0=` + HMAC-SHA256(secret, `v0:<timestamp>:<body>`);
+ * requests whose `X-Slack-Request-Timestamp` is more than five minutes
+ * off are rejected so captured requests cannot be replayed.
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  timestamp: string | undefined,
+  body: string,
+  signature: string | undefined,
+  now = Date.now(),
+): SignatureCheck {
+  if (!timestamp || !signature) return { ok: false, reason: "missing signature headers" };
+  const ts = Number(timestamp);
+  if (!Number.isInteger(ts)) return { ok: false, reason: "bad timestamp" };
+  if (Math.abs(now / 1000 - ts) > MAX_CLOCK_SKEW_SECONDS) return { ok: false, reason: "timestamp outside window" };
+
+  const expected = Buffer.from(
+    "v0=" + createHmac("sha256", signingSecret).update(`v0:${timestamp}:${body}`).digest("hex"),
+  );
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: "signature mismatch" };
+  }
+  return { ok: true };
+}
+
+// ─── Payload parsing ────────────────────────────────────────────────────────
+
+/**
+ * Extract an approval button press (or reason / edit submission) from a
+ * form-encoded interactivity body (`payload=<json>`). Returns null for
+ * anything else — other interaction types, other apps' buttons and
+ * modals, malformed payloads.
+ */
+export function parseSlackButtonPress(body: string): SlackButtonPress | null {
+  let payload: any;
+  try {
+    payload = JSON.parse(new URLSearchParams(body).get("payload") ?? "");
+  } catch {
+    return null;
+  }
+  if (payload?.type === "view_submission") return parseScopeSubmission(payload) ?? parseInputSubmission(payload);
+  if (payload?.type !== "block_actions" || !Array.isArray(payload.actions)) return null;
+
+  for (const entry of payload.actions) {
+    const value = typeof entry?.value === "string" ? entry.value : "";
+    const digest = String(entry?.action_id).startsWith(DIGEST_ACTION_PREFIX) ? parseDigestPress(value) : null;
+    const action = digest?.action ?? ACTIONS[entry?.action_id];
+    const approvalId = digest?.id ?? value.match(RE_APPROVAL_ID)?.[1];
+    if (!action || !approvalId) continue;
+    return {
+      approvalId: approvalId.toLowerCase(),
+      action,
+      user: userOf(payload),
+      responseUrl: typeof payload.response_url === "string" ? payload.response_url : undefined,
+      triggerId: typeof payload.trigger_id === "string" ? payload.trigger_id : undefined,
+    };
+  }
+  return null;
+}
+
+/**
+ * Read a submitted reason or edit modal (see formatSlackInputModal).
+ */
+function parseInputSubmission(payload: any): SlackButtonPress | null {
+  const view = payload.view;
+  const input = (Object.keys(INPUT_MODALS) as ApprovalInput[]).find(
+    (key) => INPUT_MODALS[key].callbackId === view?.callback_id,
+  );
+  const meta = input ? modalMetadata(view) : null;
+  if (!input || !meta) return null;
+
+  const { blockId, actionId } = INPUT_MODALS[input];
+  const value = view.state?.values?.[blockId]?.[actionId]?.value;
+  const text = typeof value === "string" ? value : undefined;
+  return {
+    approvalId: meta.id,
+    action: "deny",
+    user: userOf(payload),
+    responseUrl: meta.responseUrl,
+    detail: input === "edit" ? { editedCommand: text ?? "" } : { reason: text },
+  };
+}
+
+/**
+ * Read a submitted Always scope picker (see formatSlackScopeModal).
+ */
+function parseScopeSubmission(payload: any): SlackButtonPress | null {
+  const view = payload.view;
+  if (view?.callback_id !== SCOPE_MODAL.callbackId) return null;
+  const meta = modalMetadata(view);
+  const scope = view.state?.values?.[SCOPE_MODAL.blockId]?.[SCOPE_MODAL.actionId]?.selected_option?.value;
+  if (!meta || !SCOPES.includes(scope)) return null;
+  return {
+    approvalId: meta.id,
+    action: `always-${scope as AlwaysScope}`,
+    user: userOf(payload),
+    responseUrl: meta.responseUrl,
+  };
+}
+
+/** Approval ID and response_url a modal carries in its private_metadata. */
+function modalMetadata(view: any): { id: string; responseUrl?: string } | null {
+  let meta: any;
+  try {
+    meta = JSON.parse(view.private_metadata ?? "");
+  } catch {
+    return null;
+  }
+  if (typeof meta?.id !== "string" || !RE_BARE_ID.test(meta.id)) return null;
+  return {
+    id: meta.id.toLowerCase(),
+    responseUrl: typeof meta.responseUrl === "string" ? meta.responseUrl : undefined,
+  };
+}
+
+function userOf(payload: any): Record<string, unknown> {
+  return payload.user && typeof payload.user === "object" ? payload.user : {};
+}
+
+// ─── HTTP handler ───────────────────────────────────────────────────────────
+
+/**
+ * Receives Slack button presses directly, for setups where the Slack app's
+ * Interactivity Request URL points at the gateway instead of relying on
+ * OpenClaw's Slack channel to relay them.
+ *
+ * Verified presses go through the coordinator exactly like relayed ones
+ * (approver lists, quorum, stale checks); decisions are then submitted to
+ * the gateway and every copy of the approval is resolved.
+ */
+export class SlackInteractivityHandler {
+  constructor(
+    private readonly signingSecret: string,
+    private readonly coordinator: ApprovalCoordinator,
+    private readonly log: Logger,
+  ) {}
+
+  /**
+   * Verify and parse one request. Returns the HTTP status to answer with
+   * and, for approval buttons, the press to process afterwards.
+   */
+  accept(
+    headers: Record<string, string | string[] | undefined>,
+    body: string,
+    now = Date.now(),
+  ): { status: number; press?: SlackButtonPress } {
+    const check = verifySlackSignature(
+      this.signingSecret,
+      headerValue(headers, "x-slack-request-timestamp"),
+      body,
+      headerValue(headers, "x-slack-signature"),
+      now,
+    );
+    if (!check.ok) {
+      this.log.warn(`[slack-interactivity] rejected request: ${check.reason}`);
+      return { status: 401 };
+    }
+    const press = parseSlackButtonPress(body);
+    return press ? { status: 200, press } : { status: 200 };
+  }
+
+  /**
+   * Run a verified press through the coordinator. Resolves to true when it
+   * decided the approval.
+   */
+  process(press: SlackButtonPress): Promise<boolean> {
+    const metadata: Record<string, unknown> = {
+      user: press.user,
+      responseUrl: press.responseUrl,
+      triggerId: press.triggerId,
+    };
+    return this.coordinator.handleInteraction(
+      `/approve ${press.approvalId} ${press.action}`,
+      "slack",
+      metadata,
+      undefined,
+      press.detail,
+    );
+  }
+
+  /**
+   * Node HTTP handler for the gateway's plugin routes. Slack expects an
+   * answer within three seconds, so the request is acknowledged before
+   * the press is processed.
+   */
+  handleHttp = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" }).end();
+      return;
+    }
+
+    let body: string | null;
+    try {
+      body = await readRequestBody(req, MAX_BODY_BYTES);
+    } catch (err: unknown) {
+      // The client went away mid-request
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log.warn(`[slack-interactivity] could not read request: ${msg}`);
+      res.writeHead(400).end();
+      return;
+    }
+    if (body === null) {
+      res.writeHead(413).end();
+      return;
+    }
+
+    const { status, press } = this.accept(req.headers, body);
+    res.writeHead(status).end();
+    if (!press) return;
+
+    try {
+      await this.process(press);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log.error(`[slack-interactivity] failed to process ${press.approvalId.slice(0, 8)}…: ${msg}`);
+    }
+  };
+}
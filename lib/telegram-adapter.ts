@@ -0,0 +1,243 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/telegram-adapter.ts
+// Built-in ChannelAdapter for Telegram (inline keyboard + HTML messages)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import type {
+  ApprovalAction,
+  ApprovalDigest,
+  ApprovalInfo,
+  ApprovalInput,
+  ApprovalVote,
+  ChannelAdapter,
+  ChannelProbe,
+  DecisionDetail,
+  EditResult,
+  InputPrompt,
+  RequestStats,
+  ScopeOption,
+} from "../types.js";
+import type { TelegramApi } from "./telegram-api.js";
+import { allowsAlways } from "./command-risk.js";
+import {
+  buildApprovalKeyboard,
+  buildDigestKeyboard,
+  buildScopeKeyboard,
+  escapeHtml,
+  formatApprovalExpired,
+  formatApprovalRequest,
+  formatApprovalResolved,
+  formatDigest,
+  formatEscalationHeader,
+  formatFullCommandCaption,
+  formatInputPrompt,
+  fullCommandFileName,
+  telegramCommandClipped,
+} from "./message-formatter.js";
+
+/**
+ * A sent copy. Escalation copies also keep what their 📣 header said, so
+ * redraws (countdown, votes, scope picker) can repeat it.
+ */
+export type TelegramRef = { chatId: string; messageId: number; escalatedAfterMs?: number; escalationMention?: string };
+
+/**
+ * Sends every approval to each configured chat (fan-out).
+ * With `prompts` set, requests also offer ✏️ Edit and ❌ Deny with reason,
+ * which ask for the edited command or the reason with a force_reply prompt,
+ * and ⏱ 15 min / 1 hour; 🔏 Always swaps the keyboard for a scope picker.
+ */
+export class TelegramAdapter implements ChannelAdapter<TelegramRef> {
+  readonly id = "telegram";
+  readonly label = "Telegram";
+
+  constructor(
+    private readonly api: TelegramApi,
+    private readonly chatIds: string[],
+    private readonly prompts = false,
+  ) {}
+
+  async sendRequest(info: ApprovalInfo): Promise<TelegramRef[]> {
+    const text = formatApprovalRequest(info);
+    const keyboard = requestKeyboard(info, this.prompts);
+    const sent = await Promise.all(
+      this.chatIds.map(async (chatId) => {
+        const messageId = await this.api.sendMessage(chatId, text, keyboard);
+        return messageId === null ? null : { chatId, messageId };
+      }),
+    );
+    return sent.filter((ref): ref is TelegramRef => ref !== null);
+  }
+
+  markResolved(
+    ref: TelegramRef,
+    info: ApprovalInfo,
+    action: ApprovalAction,
+    decidedBy?: string,
+    detail?: DecisionDetail,
+  ): Promise<EditResult> {
+    return this.api.editMessageText(
+      ref.chatId,
+      ref.messageId,
+      formatApprovalResolved(info, action, decidedBy, detail),
+    );
+  }
+
+  async markProgress(ref: TelegramRef, info: ApprovalInfo, votes: ApprovalVote[]): Promise<boolean> {
+    const res = await this.api.editMessageText(
+      ref.chatId,
+      ref.messageId,
+      requestText(ref, info, votes),
+      requestKeyboard(info, this.prompts),
+    );
+    return res.ok;
+  }
+
+  markExpired(ref: TelegramRef, info: ApprovalInfo): Promise<EditResult> {
+    return this.api.editMessageText(ref.chatId, ref.messageId, formatApprovalExpired(info));
+  }
+
+  async renderDigest(ref: TelegramRef, digest: ApprovalDigest): Promise<boolean> {
+    const res = await this.api.editMessageText(ref.chatId, ref.messageId, formatDigest(digest), buildDigestKeyboard(digest));
+    return res.ok;
+  }
+
+  async probe(): Promise<ChannelProbe> {
+    const me = await this.api.getMe();
+    return me.ok ? { ok: true, detail: `@${me.username}` } : me;
+  }
+
+  requestStats(): RequestStats {
+    return this.api.requestStats;
+  }
+
+  async sendNotice(text: string): Promise<boolean> {
+    const sent = await Promise.all(
+      this.chatIds.map((chatId) => this.api.sendMessage(chatId, escapeHtml(text))),
+    );
+    return sent.some((id) => id !== null);
+  }
+
+  async sendReminder(ref: TelegramRef, text: string): Promise<boolean> {
+    const id = await this.api.sendMessage(ref.chatId, escapeHtml(text), undefined, ref.messageId);
+    return id !== null;
+  }
+
+  /**
+   * Send the request, with its buttons, to each target chat under the
+   * 📣 Escalated line. Targets may be chats the request already went to.
+   */
+  async escalate(info: ApprovalInfo, targets: string[], afterMs: number, mention?: string): Promise<TelegramRef[]> {
+    const escalation = { escalatedAfterMs: afterMs, ...(mention ? { escalationMention: mention } : {}) };
+    const text = requestText(escalation, info);
+    const keyboard = requestKeyboard(info, this.prompts);
+    const sent = await Promise.all(
+      targets.map(async (chatId): Promise<TelegramRef | null> => {
+        const messageId = await this.api.sendMessage(chatId, text, keyboard);
+        return messageId === null ? null : { chatId, messageId, ...escalation };
+      }),
+    );
+    return sent.filter((ref): ref is TelegramRef => ref !== null);
+  }
+
+  acknowledge(metadata: Record<string, unknown>, text: string, alert: boolean): Promise<boolean> {
+    const id = callbackQueryId(metadata);
+    if (!id) return Promise.resolve(false);
+    return this.api.answerCallbackQuery(id, text, alert);
+  }
+
+  sendFullCommand(ref: TelegramRef, info: ApprovalInfo): Promise<boolean> {
+    return this.api.sendDocument(
+      ref.chatId,
+      fullCommandFileName(info),
+      info.command,
+      formatFullCommandCaption(info),
+      ref.messageId,
+    );
+  }
+
+  /**
+   * Reply to the approval with a force_reply prompt — only in the chat the
+   * press came from when the metadata names it. The presser's answer
+   * arrives as their next message.
+   */
+  async promptInput(
+    input: ApprovalInput,
+    refs: TelegramRef[],
+    info: ApprovalInfo,
+    metadata: Record<string, unknown>,
+  ): Promise<InputPrompt | null> {
+    const chatId = metadata.chatId ?? metadata.chat_id;
+    const inChat = refs.filter((ref) => ref.chatId === String(chatId));
+    const sent = await Promise.all(
+      (inChat.length > 0 ? inChat : refs).map((ref) =>
+        this.api.sendMessage(ref.chatId, formatInputPrompt(input, info), FORCE_REPLY[input], ref.messageId),
+      ),
+    );
+    return sent.some((id) => id !== null) ? "reply" : null;
+  }
+
+  /**
+   * Swap the approval's keyboard for the scope picker — only on the copy
+   * in the chat the press came from when the metadata names it. Copies in
+   * other chats keep their buttons.
+   */
+  async promptScope(
+    refs: TelegramRef[],
+    info: ApprovalInfo,
+    options: ScopeOption[],
+    metadata: Record<string, unknown>,
+  ): Promise<boolean> {
+    if (!this.prompts) return false;
+    const chatId = metadata.chatId ?? metadata.chat_id;
+    const inChat = refs.filter((ref) => ref.chatId === String(chatId));
+    const edited = await Promise.all(
+      (inChat.length > 0 ? inChat : refs).map((ref) =>
+        this.api.editMessageText(ref.chatId, ref.messageId, requestText(ref, info), buildScopeKeyboard(info.id, options)),
+      ),
+    );
+    return edited.some((r) => r.ok);
+  }
+}
+
+const FORCE_REPLY: Record<ApprovalInput, object> = {
+  reason: { force_reply: true, input_field_placeholder: "Reason for denying" },
+  edit: { force_reply: true, input_field_placeholder: "Edited command" },
+};
+
+/** Text of a pending request, under the 📣 header on an escalation copy. */
+function requestText(
+  ref: Pick<TelegramRef, "escalatedAfterMs" | "escalationMention">,
+  info: ApprovalInfo,
+  votes: ApprovalVote[] = [],
+): string {
+  const request = formatApprovalRequest(info, votes);
+  if (ref.escalatedAfterMs === undefined) return request;
+  return `${formatEscalationHeader(ref.escalatedAfterMs, ref.escalationMention)}\n\n${request}`;
+}
+
+function requestKeyboard(info: ApprovalInfo, prompts: boolean): object {
+  const allowAlways = allowsAlways(info.command);
+  return buildApprovalKeyboard(
+    info.id,
+    allowAlways,
+    telegramCommandClipped(info.command),
+    prompts,
+    // A timed grant would let later two-person commands skip the quorum
+    prompts && allowAlways && (info.requiredApprovals ?? 1) <= 1,
+  );
+}
+
+/**
+ * Pull the callback query ID out of inbound message metadata.
+ * Accepts camelCase and Bot API spellings, flat or as a nested object.
+ */
+function callbackQueryId(metadata: Record<string, unknown>): string | undefined {
+  const raw = metadata.callbackQueryId ?? metadata.callback_query_id;
+  if (typeof raw === "string" && raw) return raw;
+  const nested = metadata.callbackQuery ?? metadata.callback_query;
+  if (nested && typeof nested === "object" && typeof (nested as { id?: unknown }).id === "string") {
+    return (nested as { id: string }).id;
+  }
+  return undefined;
+}
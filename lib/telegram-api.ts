@@ -3,11 +3,21 @@
 // Isolated Telegram Bot API wrapper — only depends on fetch (Node built-in)
 // ─────────────────────────────────────────────────────────────────────────────
 
-import type { Logger } from "../types.js";
+import type { EditResult, Logger, RequestStats } from "../types.js";
+import { RequestScheduler, type AttemptOutcome, type RateLimit } from "./request-scheduler.js";
 
 const API_BASE = "https://api.telegram.org/bot";
 const REQUEST_TIMEOUT_MS = 10_000;
 
+/**
+ * Telegram's published limits: about 30 messages a second overall, one a
+ * second in a private chat (short bursts are tolerated) and 20 a minute
+ * in a group.
+ */
+const GLOBAL_LIMIT: RateLimit = { perSec: 30, burst: 30 };
+const PRIVATE_CHAT_LIMIT: RateLimit = { perSec: 1, burst: 3 };
+const GROUP_CHAT_LIMIT: RateLimit = { perSec: 20 / 60, burst: 3 };
+
 // ─── Internal helpers ───────────────────────────────────────────────────────
 
 interface TgResponse<T = unknown> {
@@ -15,23 +25,36 @@ interface TgResponse<T = unknown> {
   result?: T;
   description?: string;
   error_code?: number;
+  parameters?: { retry_after?: number };
 }
 
+/**
+ * Call a Bot API method once. Plain objects are sent as JSON; FormData
+ * (file uploads) as multipart/form-data. The outcome tells the scheduler
+ * whether the call is worth retrying: a 429 carries its `retry_after`,
+ * network errors, timeouts and 5xx are transient. A call aborted through
+ * `signal` fails quietly.
+ */
 async function tgFetch<T = unknown>(
   token: string,
   method: string,
-  body: Record<string, unknown>,
+  body: Record<string, unknown> | FormData,
   log?: Logger,
-): Promise<TgResponse<T>> {
+  timeoutMs = REQUEST_TIMEOUT_MS,
+  signal?: AbortSignal,
+): Promise<AttemptOutcome<TgResponse<T>>> {
   const url = `${API_BASE}${token}/${method}`;
   try {
     const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    signal?.addEventListener("abort", () => controller.abort(), { once: true });
+    if (signal?.aborted) controller.abort();
 
+    const multipart = body instanceof FormData;
     const res = await fetch(url, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
+      headers: multipart ? undefined : { "Content-Type": "application/json" },
+      body: multipart ? body : JSON.stringify(body),
       signal: controller.signal,
     });
 
@@ -43,25 +66,70 @@ async function tgFetch<T = unknown>(
         `[telegram-api] ${method} failed: ${data.error_code} ${data.description}`,
       );
     }
-    return data;
+    if (res.status === 429) {
+      return { value: data, retryAfterMs: (data.parameters?.retry_after ?? 1) * 1000 };
+    }
+    return { value: data, transient: res.status >= 500 };
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : String(err);
+    if (signal?.aborted) return { value: { ok: false, description: msg } };
     log?.error(`[telegram-api] ${method} network error: ${msg}`);
-    return { ok: false, description: msg };
+    return { value: { ok: false, description: msg }, transient: true };
   }
 }
 
+/**
+ * Whether a Bot API error code means the request itself was refused
+ * (4xx other than 429), so sending it again cannot succeed.
+ */
+function isRejection(code: number | undefined): boolean {
+  return code !== undefined && code >= 400 && code < 500 && code !== 429;
+}
+
+/** Rate limit of a scheduler bucket: `global` or `chat:<chat_id>`. */
+function limitFor(bucket: string): RateLimit {
+  if (bucket === "global") return GLOBAL_LIMIT;
+  // Group and channel IDs are negative
+  return bucket.startsWith("chat:-") ? GROUP_CHAT_LIMIT : PRIVATE_CHAT_LIMIT;
+}
+
 // ─── Public API ─────────────────────────────────────────────────────────────
 
 /**
  * Telegram Bot API client.
- * Instantiate with a bot token; all methods are self-contained.
+ * Instantiate with a bot token; all methods are self-contained. Calls go
+ * through a RequestScheduler that keeps within Telegram's rate limits and
+ * retries 429s and, for calls safe to repeat, transient failures.
  */
 export class TelegramApi {
+  private readonly scheduler: RequestScheduler;
+
   constructor(
     private readonly token: string,
     private readonly log?: Logger,
-  ) {}
+  ) {
+    this.scheduler = new RequestScheduler("telegram-api", limitFor, log);
+  }
+
+  /** Queue depth and retry counters of the outbound calls. */
+  get requestStats(): RequestStats {
+    return this.scheduler.stats;
+  }
+
+  /**
+   * Call `method` through the scheduler. `chatId` adds the chat's own
+   * bucket; `idempotent` calls are also retried after transient errors.
+   */
+  private call<T = unknown>(
+    method: string,
+    body: Record<string, unknown> | FormData,
+    { chatId, idempotent }: { chatId?: string; idempotent: boolean },
+  ): Promise<TgResponse<T>> {
+    const buckets = chatId === undefined ? ["global"] : ["global", `chat:${chatId}`];
+    return this.scheduler.run(method, buckets, idempotent, () =>
+      tgFetch<T>(this.token, method, body, this.log),
+    );
+  }
 
   // ── Connectivity ────────────────────────────────────────────────────────
 
@@ -70,12 +138,7 @@ export class TelegramApi {
    * Useful for diagnostics.
    */
   async getMe(): Promise<{ ok: true; username: string } | { ok: false; error: string }> {
-    const res = await tgFetch<{ username: string }>(
-      this.token,
-      "getMe",
-      {},
-      this.log,
-    );
+    const res = await this.call<{ username: string }>("getMe", {}, { idempotent: true });
     if (res.ok && res.result?.username) {
       return { ok: true, username: res.result.username };
     }
@@ -85,13 +148,15 @@ export class TelegramApi {
   // ── Messaging ───────────────────────────────────────────────────────────
 
   /**
-   * Send an HTML-formatted message, optionally with inline keyboard.
+   * Send an HTML-formatted message, optionally with reply markup (inline
+   * keyboard, force_reply) and as a reply to another message.
    * Returns the message_id on success, null on failure.
    */
   async sendMessage(
     chatId: string,
     text: string,
     replyMarkup?: object,
+    replyToMessageId?: number,
   ): Promise<number | null> {
     const body: Record<string, unknown> = {
       chat_id: chatId,
@@ -99,26 +164,29 @@ export class TelegramApi {
       parse_mode: "HTML",
     };
     if (replyMarkup) body.reply_markup = replyMarkup;
+    if (replyToMessageId) {
+      body.reply_parameters = { message_id: replyToMessageId, allow_sending_without_reply: true };
+    }
 
-    const res = await tgFetch<{ message_id: number }>(
-      this.token,
-      "sendMessage",
-      body,
-      this.log,
-    );
+    // Not retried after a transient error: the message may have gone out
+    const res = await this.call<{ message_id: number }>("sendMessage", body, {
+      chatId,
+      idempotent: false,
+    });
     return res.ok ? (res.result?.message_id ?? null) : null;
   }
 
   /**
-   * Edit an existing message's text and remove inline keyboard.
-   * Returns true on success.
+   * Edit an existing message's text and remove inline keyboard. An edit
+   * that changes nothing ("message is not modified", e.g. a retry of an
+   * edit that went through) counts as applied.
    */
   async editMessageText(
     chatId: string,
     messageId: number,
     text: string,
     replyMarkup?: object,
-  ): Promise<boolean> {
+  ): Promise<EditResult> {
     const body: Record<string, unknown> = {
       chat_id: chatId,
       message_id: messageId,
@@ -129,24 +197,54 @@ export class TelegramApi {
     // (omitting reply_markup removes all buttons)
     if (replyMarkup) body.reply_markup = replyMarkup;
 
-    const res = await tgFetch(this.token, "editMessageText", body, this.log);
+    const res = await this.call("editMessageText", body, { chatId, idempotent: true });
+    if (res.ok || res.description?.includes("message is not modified")) return { ok: true };
+    return { ok: false, error: res.description ?? "unknown error", permanent: isRejection(res.error_code) };
+  }
+
+  /**
+   * Upload a text file as a document, optionally as a reply to a message.
+   * Returns true on success.
+   */
+  async sendDocument(
+    chatId: string,
+    fileName: string,
+    content: string,
+    caption?: string,
+    replyToMessageId?: number,
+  ): Promise<boolean> {
+    const form = new FormData();
+    form.append("chat_id", chatId);
+    form.append("document", new Blob([content], { type: "text/plain" }), fileName);
+    if (caption) form.append("caption", caption);
+    if (replyToMessageId !== undefined) {
+      form.append(
+        "reply_parameters",
+        JSON.stringify({ message_id: replyToMessageId, allow_sending_without_reply: true }),
+      );
+    }
+
+    const res = await this.call("sendDocument", form, { chatId, idempotent: false });
     return res.ok;
   }
 
   /**
    * Answer a callback query (acknowledges button press in Telegram UI).
-   * Optional text shows as a toast notification to the user.
+   * Optional text shows as a toast notification to the user, or as a
+   * modal alert when showAlert is set.
    */
   async answerCallbackQuery(
     callbackQueryId: string,
     text?: string,
+    showAlert = false,
   ): Promise<boolean> {
     const body: Record<string, unknown> = {
       callback_query_id: callbackQueryId,
     };
     if (text) body.text = text;
+    if (showAlert) body.show_alert = true;
 
-    const res = await tgFetch(this.token, "answerCallbackQuery", body, this.log);
+    const res = await this.call("answerCallbackQuery", body, { idempotent: true });
     return res.ok;
   }
 
@@ -154,12 +252,76 @@ export class TelegramApi {
    * Delete a message from a chat.
    */
   async deleteMessage(chatId: string, messageId: number): Promise<boolean> {
-    const res = await tgFetch(
-      this.token,
+    const res = await this.call(
       "deleteMessage",
       { chat_id: chatId, message_id: messageId },
-      this.log,
+      { chatId, idempotent: true },
+    );
+    return res.ok;
+  }
+
+  // ── Updates ─────────────────────────────────────────────────────────────
+
+  /**
+   * Point the bot's updates at a webhook. Telegram sends `secretToken` in
+   * the X-Telegram-Bot-Api-Secret-Token header of every request.
+   */
+  async setWebhook(url: string, secretToken: string, allowedUpdates: string[]): Promise<boolean> {
+    const res = await this.call(
+      "setWebhook",
+      { url, secret_token: secretToken, allowed_updates: allowedUpdates },
+      { idempotent: true },
     );
     return res.ok;
   }
+
+  /**
+   * Remove the webhook so getUpdates can be used (pending updates are kept).
+   */
+  async deleteWebhook(): Promise<boolean> {
+    const res = await this.call("deleteWebhook", {}, { idempotent: true });
+    return res.ok;
+  }
+
+  /**
+   * Long-poll for updates after `offset`, waiting up to `timeoutSec`.
+   * Returns null on failure (including a 409 conflict with another poller)
+   * or when aborted through `signal`. Bypasses the scheduler: the poll
+   * loop backs off on failure itself.
+   */
+  async getUpdates(
+    offset: number,
+    timeoutSec: number,
+    allowedUpdates: string[],
+    signal?: AbortSignal,
+  ): Promise<TelegramUpdate[] | null> {
+    const { value: res } = await tgFetch<TelegramUpdate[]>(
+      this.token,
+      "getUpdates",
+      { offset, timeout: timeoutSec, allowed_updates: allowedUpdates },
+      this.log,
+      timeoutSec * 1000 + REQUEST_TIMEOUT_MS,
+      signal,
+    );
+    return res.ok ? (res.result ?? []) : null;
+  }
+}
+
+/**
+ * The parts of a Bot API Update this plugin reads.
+ */
+export interface TelegramUpdate {
+  update_id: number;
+  callback_query?: {
+    id: string;
+    data?: string;
+    from?: { id: number; username?: string; first_name?: string };
+    message?: { message_id: number; chat: { id: number; username?: string } };
+  };
+  message?: {
+    message_id: number;
+    chat: { id: number; username?: string };
+    from?: { id: number; username?: string; first_name?: string };
+    text?: string;
+  };
 }
@@ -0,0 +1,211 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// approval-buttons · lib/telegram-updates.ts
+// Receive Telegram button presses directly (webhook or getUpdates polling)
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Logger } from "../types.js";
+import type { ApprovalCoordinator } from "./approval-coordinator.js";
+import { headerValue, readRequestBody } from "./http-request.js";
+import type { TelegramApi, TelegramUpdate } from "./telegram-api.js";
+
+/** Button presses, plus messages for replies to reason and edit prompts. */
+const ALLOWED_UPDATES = ["callback_query", "message"];
+/** Long-poll duration for getUpdates */
+const POLL_TIMEOUT_SEC = 25;
+/** Pause after a failed poll before trying again */
+const POLL_RETRY_MS = 5_000;
+/** Updates with a single callback query are small; refuse anything much larger. */
+const MAX_BODY_BYTES = 64 * 1024;
+
+const RE_APPROVE_PAYLOAD = /^\/approve\s/i;
+
+/**
+ * Processes Telegram updates for setups where OpenClaw does not relay the
+ * plugin's button presses — its Telegram channel runs on another bot, or
+ * not at all.
+ *
+ * Updates arrive either through a webhook served on the gateway (validated
+ * with the secret token given to setWebhook) or by long polling. Only one
+ * of the two can be active per bot, and neither can share a bot with
+ * another poller. Updates from chats the plugin does not post to are
+ * ignored, wherever else the bot is a member.
+ */
+export class TelegramUpdateReceiver {
+  private offset = 0;
+  private polling = false;
+  private loop: Promise<void> | null = null;
+  /** Aborts the in-flight long poll, so stop() need not wait it out */
+  private poll: AbortController | null = null;
+
+  constructor(
+    private readonly api: TelegramApi,
+    private readonly coordinator: ApprovalCoordinator,
+    /** Chats requests and escalations go to: numeric IDs or `@channelusername` */
+    private readonly chatIds: readonly string[],
+    private readonly log: Logger,
+    private readonly sleep: (ms: number) => Promise<void> = (ms) =>
+      new Promise((resolve) => setTimeout(resolve, ms)),
+  ) {}
+
+  /**
+   * Run one update through the coordinator. Presses on anything but the
+   * plugin's `/approve …` buttons, and updates from other chats, are
+   * ignored; messages are only taken as replies to a reason or edit
+   * prompt. Resolves to true when the update decided an approval (or was
+   * taken as such a reply).
+   */
+  async handleUpdate(update: TelegramUpdate): Promise<boolean> {
+    const chat = update.message?.chat ?? update.callback_query?.message?.chat;
+    if (!chat || !this.isOwnChat(chat)) return false;
+
+    const message = update.message;
+    if (message?.text && message.from) {
+      const metadata: Record<string, unknown> = { user: message.from, chatId: message.chat.id };
+      return this.coordinator.handleInputReply(message.text, "telegram", metadata);
+    }
+
+    const query = update.callback_query;
+    if (!query?.data || !RE_APPROVE_PAYLOAD.test(query.data)) return false;
+
+    const metadata: Record<string, unknown> = {
+      callbackQueryId: query.id,
+      user: query.from ?? {},
+      chatId: query.message?.chat.id,
+    };
+    return this.coordinator.handleInteraction(query.data, "telegram", metadata);
+  }
+
+  // ── Webhook ─────────────────────────────────────────────────────────────
+
+  /**
+   * Register the webhook with Telegram. Returns false when Telegram
+   * refuses it (e.g. the URL is not reachable over HTTPS).
+   */
+  async registerWebhook(url: string, secret: string): Promise<boolean> {
+    const ok = await this.api.setWebhook(url, secret, ALLOWED_UPDATES);
+    if (ok) this.log.info(`[telegram-updates] webhook registered at ${url}`);
+    else this.log.warn(`[telegram-updates] setWebhook failed for ${url}`);
+    return ok;
+  }
+
+  /**
+   * Node HTTP handler for the webhook route. Requests without the secret
+   * token are rejected with 401, oversized ones with 413 and unreadable
+   * ones with 400; valid updates are acknowledged before they are
+   * processed so Telegram does not retry them.
+   */
+  webhookHandler(secret: string): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+    return async (req, res) => {
+      if (req.method !== "POST") {
+        res.writeHead(405, { Allow: "POST" }).end();
+        return;
+      }
+      if (!secretMatches(headerValue(req.headers, "x-telegram-bot-api-secret-token"), secret)) {
+        this.log.warn("[telegram-updates] rejected webhook request: bad secret token");
+        res.writeHead(401).end();
+        return;
+      }
+
+      let body: string | null;
+      try {
+        body = await readRequestBody(req, MAX_BODY_BYTES);
+      } catch (err: unknown) {
+        // The client went away mid-request
+        const msg = err instanceof Error ? err.message : String(err);
+        this.log.warn(`[telegram-updates] could not read webhook request: ${msg}`);
+        res.writeHead(400).end();
+        return;
+      }
+      if (body === null) {
+        res.writeHead(413).end();
+        return;
+      }
+
+      let update: TelegramUpdate | null = null;
+      try {
+        update = JSON.parse(body) as TelegramUpdate;
+      } catch {
+        update = null;
+      }
+      res.writeHead(update ? 200 : 400).end();
+      if (update) await this.safeHandle(update);
+    };
+  }
+
+  // ── Polling ─────────────────────────────────────────────────────────────
+
+  /**
+   * Start long polling in the background. Any webhook is removed first,
+   * since Telegram refuses getUpdates while one is set.
+   */
+  start(): void {
+    if (this.polling) return;
+    this.polling = true;
+    this.loop = (async () => {
+      await this.api.deleteWebhook();
+      while (this.polling) {
+        if (!(await this.pollOnce()) && this.polling) await this.sleep(POLL_RETRY_MS);
+      }
+    })();
+    this.log.info("[telegram-updates] polling for button presses");
+  }
+
+  /**
+   * Stop polling. The in-flight poll is aborted; resolves once the loop
+   * has wound down.
+   */
+  async stop(): Promise<void> {
+    this.polling = false;
+    this.poll?.abort();
+    await this.loop;
+    this.loop = null;
+  }
+
+  /**
+   * Fetch and process one batch of updates. Returns false when the poll
+   * failed.
+   */
+  async pollOnce(): Promise<boolean> {
+    const poll = new AbortController();
+    this.poll = poll;
+    let updates: TelegramUpdate[] | null;
+    try {
+      updates = await this.api.getUpdates(this.offset, POLL_TIMEOUT_SEC, ALLOWED_UPDATES, poll.signal);
+    } finally {
+      if (this.poll === poll) this.poll = null;
+    }
+    if (!updates) return false;
+    for (const update of updates) {
+      // Confirm the update on the next poll even if processing fails
+      this.offset = Math.max(this.offset, update.update_id + 1);
+      await this.safeHandle(update);
+    }
+    return true;
+  }
+
+  // ── Internal ────────────────────────────────────────────────────────────
+
+  private isOwnChat(chat: { id: number; username?: string }): boolean {
+    return this.chatIds.some((id) => id === String(chat.id) || (!!chat.username && id === `@${chat.username}`));
+  }
+
+  private async safeHandle(update: TelegramUpdate): Promise<void> {
+    try {
+      await this.handleUpdate(update);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.log.error(`[telegram-updates] failed to process update ${update.update_id}: ${msg}`);
+    }
+  }
+}
+
+// ─── Internal ───────────────────────────────────────────────────────────────
+
+function secretMatches(value: string | undefined, secret: string): boolean {
+  if (!value) return false;
+  const a = Buffer.from(value);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
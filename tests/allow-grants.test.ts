@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AllowGrants, grantMatches, scopeOptions, scopePreview, timedScope } from "../lib/allow-grants.js";
+import type { GatewayExecAllowlist } from "../lib/exec-allowlist.js";
+import type { ApprovalInfo } from "../types.js";
+
+function info(command: string, overrides: Partial<ApprovalInfo> = {}): ApprovalInfo {
+    return {
+        id: "0e9a9d4d-c7e6-4893-972f-2c80d70162c5",
+        command,
+        cwd: "/srv/app",
+        host: "gateway",
+        agent: "main",
+        security: "allowlist",
+        ask: "on-miss",
+        expires: "120s",
+        ...overrides,
+    };
+}
+
+// ─── scopeOptions ───────────────────────────────────────────────────────────
+
+describe("scopeOptions", () => {
+    it("offers every scope for a plain subcommand", () => {
+        expect(scopeOptions(info("git push origin main"))).toEqual([
+            { scope: "exact", preview: "git push origin main" },
+            { scope: "prefix", preview: "git push …" },
+            { scope: "binary", preview: "git …" },
+            { scope: "cwd", preview: "git push origin main in /srv/app" },
+        ]);
+    });
+
+    it("offers only exact and cwd for chained commands", () => {
+        const scopes = scopeOptions(info("git status; rm -rf ~")).map((o) => o.scope);
+        expect(scopes).toEqual(["exact", "cwd"]);
+    });
+
+    it("skips prefix when the second word is a flag, and cwd when it is unknown", () => {
+        const scopes = scopeOptions(info("ls -la", { cwd: "unknown" })).map((o) => o.scope);
+        expect(scopes).toEqual(["exact", "binary"]);
+        expect(scopePreview(info("ls -la"), "prefix")).toBeNull();
+    });
+});
+
+// ─── timedScope ─────────────────────────────────────────────────────────────
+
+describe("timedScope", () => {
+    it("covers the command prefix where one is offered", () => {
+        expect(timedScope(info("pytest tests/api -x"))).toBe("prefix");
+        expect(timedScope(info("ls -la"))).toBe("exact");
+    });
+});
+
+// ─── grantMatches ───────────────────────────────────────────────────────────
+
+describe("grantMatches", () => {
+    const base = { id: "g", agent: "main", approvalId: "a", grantedAt: 0 };
+
+    it("matches prefix grants on leading words only", () => {
+        const grant = { ...base, scope: "prefix" as const, command: "git push", words: ["git", "push"] };
+        expect(grantMatches(grant, info("git push --force"))).toBe(true);
+        expect(grantMatches(grant, info("git pull"))).toBe(false);
+        expect(grantMatches(grant, info("git push && rm -rf ~"))).toBe(false);
+    });
+
+    it("matches cwd grants in that directory only", () => {
+        const grant = { ...base, scope: "cwd" as const, command: "make", cwd: "/srv/app" };
+        expect(grantMatches(grant, info("make"))).toBe(true);
+        expect(grantMatches(grant, info("make", { cwd: "/srv/other" }))).toBe(false);
+    });
+
+    it("never matches another agent", () => {
+        const grant = { ...base, scope: "exact" as const, command: "make" };
+        expect(grantMatches(grant, info("make", { agent: "deploy" }))).toBe(false);
+    });
+});
+
+// ─── AllowGrants ────────────────────────────────────────────────────────────
+
+describe("AllowGrants", () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "allow-grants-"));
+        file = join(dir, "grants.json");
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("records grants once and finds the plugin-enforced ones", () => {
+        const grants = new AllowGrants();
+        const first = grants.add(info("git push origin main"), "prefix", "@alice");
+        expect(grants.add(info("git push origin dev"), "prefix")).toBe(first);
+        grants.add(info("git status"), "binary");
+
+        expect(first).toMatchObject({ scope: "prefix", command: "git push", words: ["git", "push"], grantedBy: "@alice" });
+        expect(grants.size).toBe(2);
+        expect(grants.match(info("git push upstream"))).toBe(first);
+        expect(grants.match(info("git log"))).toBeUndefined();
+    });
+
+    it("persists grants across restarts", () => {
+        new AllowGrants(file).add(info("make test"), "cwd");
+        expect(JSON.parse(readFileSync(file, "utf8")).version).toBe(1);
+        expect(new AllowGrants(file).list()).toEqual([expect.objectContaining({ scope: "cwd", cwd: "/srv/app" })]);
+    });
+
+    it("ignores unreadable files", () => {
+        writeFileSync(file, "{nope");
+        expect(new AllowGrants(file).size).toBe(0);
+    });
+
+    it("revokes plugin grants without touching the allowlist", async () => {
+        const removeProgram = vi.fn(async () => 1);
+        const grants = new AllowGrants(file, undefined, { removeProgram } as unknown as GatewayExecAllowlist);
+        const grant = grants.add(info("make test"), "exact");
+
+        expect(await grants.revoke(grant.id)).toEqual({ ok: true, grant });
+        expect(removeProgram).not.toHaveBeenCalled();
+        expect(new AllowGrants(file).size).toBe(0);
+        expect(await grants.revoke(grant.id)).toEqual({ ok: false, reason: "unknown grant" });
+    });
+
+    it("removes binary grants from OpenClaw's allowlist first", async () => {
+        const removeProgram = vi.fn(async (): Promise<number | null> => null);
+        const grants = new AllowGrants(undefined, undefined, { removeProgram } as unknown as GatewayExecAllowlist);
+        const grant = grants.add(info("/usr/bin/git status"), "binary");
+
+        expect(await grants.revoke(grant.id)).toEqual({ ok: false, reason: "allowlist update failed" });
+        expect(grants.size).toBe(1);
+
+        removeProgram.mockResolvedValueOnce(2);
+        expect(await grants.revoke(grant.id)).toEqual({ ok: true, grant, allowlistEntries: 2 });
+        expect(removeProgram).toHaveBeenCalledWith("main", "/usr/bin/git");
+        expect(grants.size).toBe(0);
+    });
+
+    it("stops matching timed grants once they lapse", () => {
+        const grants = new AllowGrants();
+        const grant = grants.add(info("make test"), "exact", undefined, Date.now() + 60_000);
+        expect(grants.match(info("make test"))).toBe(grant);
+        expect(grants.match(info("make test"), Date.now() + 60_000)).toBeUndefined();
+        expect(grants.list(Date.now() + 60_000)).toEqual([]);
+    });
+
+    it("extends timed grants, and lets a permanent grant absorb a timed one", () => {
+        const grants = new AllowGrants();
+        const grant = grants.add(info("make test"), "exact", undefined, 1_000 + Date.now());
+        expect(grants.add(info("make test"), "exact", undefined, 5_000 + Date.now())).toBe(grant);
+        expect(grant.expiresAt).toBeGreaterThan(Date.now() + 4_000);
+        grants.add(info("make test"), "exact");
+        expect(grant.expiresAt).toBeUndefined();
+        expect(grants.size).toBe(1);
+    });
+
+    it("keeps binary grants when there is no gateway", async () => {
+        const grants = new AllowGrants();
+        const grant = grants.add(info("npm test"), "binary");
+        expect(await grants.revoke(grant.id)).toEqual({ ok: false, reason: "gateway unavailable" });
+    });
+});
+
+describe("AllowGrants timers", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("drops timed grants when they lapse and reports them", () => {
+        const onExpired = vi.fn();
+        const grants = new AllowGrants(undefined, undefined, null, onExpired);
+        grants.start();
+        const grant = grants.add(info("make test"), "exact", undefined, Date.now() + 15 * 60_000);
+        grants.add(info("make lint"), "exact");
+
+        vi.advanceTimersByTime(15 * 60_000 - 1);
+        expect(onExpired).not.toHaveBeenCalled();
+        vi.advanceTimersByTime(1);
+        expect(onExpired).toHaveBeenCalledWith(grant);
+        expect(grants.list().map((g) => g.command)).toEqual(["make lint"]);
+        grants.stop();
+    });
+
+    it("expires grants that lapsed before start, and not after stop or revoke", async () => {
+        const onExpired = vi.fn();
+        const grants = new AllowGrants(undefined, undefined, null, onExpired);
+        const lapsed = grants.add(info("make a"), "exact", undefined, Date.now() + 1_000);
+        const revoked = grants.add(info("make b"), "exact", undefined, Date.now() + 60_000);
+        vi.advanceTimersByTime(2_000);
+
+        grants.start();
+        vi.advanceTimersByTime(0);
+        expect(onExpired).toHaveBeenCalledWith(lapsed);
+
+        await grants.revoke(revoked.id);
+        vi.advanceTimersByTime(60_000);
+        expect(onExpired).toHaveBeenCalledTimes(1);
+        grants.stop();
+    });
+});
@@ -0,0 +1,1286 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ApprovalCoordinator } from "../lib/approval-coordinator.js";
+import { ApprovalStore } from "../lib/approval-store.js";
+import { AdapterRegistry } from "../lib/channel-adapter.js";
+import { ApproverPolicy } from "../lib/approver-policy.js";
+import { compilePolicy } from "../lib/policy.js";
+import { AllowGrants } from "../lib/allow-grants.js";
+import { ApprovalDigests } from "../lib/approval-digest.js";
+import type { ChannelAdapter, Logger, InputPrompt, MessageRef } from "../types.js";
+
+const APPROVAL_ID = "0e9a9d4d-c7e6-4893-972f-2c80d70162c5";
+
+const APPROVAL_TEXT = `🔒 Exec approval required
+Agent: main
+Host: gateway
+CWD: /tmp
+Command: \`ls -la\`
+Expires in: 120s
+ID: ${APPROVAL_ID}`;
+
+const silentLog: Logger = { info: () => {}, warn: () => {}, error: () => {} };
+
+function fakeAdapter(id: string, refs: MessageRef[]) {
+    return {
+        acknowledge: vi.fn(async () => true),
+        sendNotice: vi.fn(async () => true),
+        markProgress: vi.fn(async () => true),
+        sendFullCommand: vi.fn(async () => true),
+        promptInput: vi.fn(async (): Promise<InputPrompt | null> => "reply"),
+        promptScope: vi.fn(async () => true),
+        id,
+        label: id,
+        sendRequest: vi.fn(async () => refs),
+        markResolved: vi.fn(async () => true),
+        markExpired: vi.fn(async () => true),
+        probe: vi.fn(async () => ({ ok: true as const, detail: id })),
+    } satisfies ChannelAdapter;
+}
+
+describe("ApprovalCoordinator", () => {
+    let store: ApprovalStore;
+    let registry: AdapterRegistry;
+
+    beforeEach(() => {
+        store = new ApprovalStore(600_000);
+        registry = new AdapterRegistry();
+    });
+
+    afterEach(() => {
+        store.stop();
+    });
+
+    it("fans a new approval out to every chat on every adapter", async () => {
+        const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }, { chatId: "2", messageId: 20 }]);
+        const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+        registry.register(tg);
+        registry.register(slack);
+        const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+
+        const result = await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+        expect(result).toEqual({ cancel: true });
+        expect(tg.sendRequest).toHaveBeenCalledTimes(1);
+        expect(slack.sendRequest).toHaveBeenCalledTimes(1);
+        expect(store.get(APPROVAL_ID)!.messages).toHaveLength(3);
+    });
+
+    it("prefers structured metadata over the rendered text", async () => {
+        const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+        registry.register(tg);
+        const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+
+        await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram", {
+            execApproval: { id: APPROVAL_ID, request: { command: "git status", agentId: "ops" } },
+        });
+
+        expect(tg.sendRequest).toHaveBeenCalledWith(expect.objectContaining({ command: "git status", agent: "ops" }));
+        expect(coordinator.parseStats).toEqual({ structured: 1, text: 0, defaulted: 0 });
+    });
+
+    it("counts text fallbacks and warns when fields were defaulted", async () => {
+        registry.register(fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]));
+        const log = { ...silentLog, warn: vi.fn() };
+        const coordinator = new ApprovalCoordinator(registry, store, log);
+
+        await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+        await coordinator.handleOutgoing(
+            `🔒 Exec approval required\nCommand: whoami\nID: 12345678-abcd-efab-cdef-123456789abc`,
+            "telegram",
+        );
+
+        expect(coordinator.parseStats).toEqual({ structured: 0, text: 2, defaulted: 1 });
+        expect(log.warn).toHaveBeenCalledTimes(1);
+        expect(log.warn.mock.calls[0][0]).toContain("cwd");
+    });
+
+    it("cancels duplicates of an approval that is already tracked", async () => {
+        const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+        const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+        registry.register(tg);
+        registry.register(slack);
+        const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+
+        await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+        const second = await coordinator.handleOutgoing(APPROVAL_TEXT, "slack");
+
+        expect(second).toEqual({ cancel: true });
+        expect(slack.sendRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("sends only once when two channels intercept concurrently", async () => {
+        const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+        const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+        registry.register(tg);
+        registry.register(slack);
+        const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+
+        await Promise.all([
+            coordinator.handleOutgoing(APPROVAL_TEXT, "telegram"),
+            coordinator.handleOutgoing(APPROVAL_TEXT, "slack"),
+        ]);
+
+        expect(tg.sendRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it("falls back to the original message when every send fails", async () => {
+        registry.register(fakeAdapter("telegram", []));
+        const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+
+        expect(await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram")).toBeUndefined();
+        expect(store.has(APPROVAL_ID)).toBe(false);
+    });
+
+    it("ignores channels without a registered adapter", async () => {
+        const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+        registry.register(tg);
+        const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+
+        expect(await coordinator.handleOutgoing(APPROVAL_TEXT, "whatsapp")).toBeUndefined();
+        expect(tg.sendRequest).not.toHaveBeenCalled();
+    });
+
+    it("edits every copy with the decision and the presser whose press was forwarded", async () => {
+        const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }, { chatId: "2", messageId: 20 }]);
+        const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+        registry.register(tg);
+        registry.register(slack);
+        const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+        await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+        await coordinator.handleIncoming(`/approve ${APPROVAL_ID} deny`, "telegram", {
+            user: { id: 111, username: "alice" },
+        });
+        await coordinator.handleOutgoing(`Exec denied by user 123: ${APPROVAL_ID}`, "slack");
+
+        expect(tg.markResolved).toHaveBeenCalledTimes(2);
+        expect(slack.markResolved).toHaveBeenCalledWith(
+            { channelId: "C1", ts: "1.0" },
+            expect.objectContaining({ id: APPROVAL_ID }),
+            "deny",
+            "@alice",
+            undefined,
+        );
+        expect(store.has(APPROVAL_ID)).toBe(false);
+    });
+
+    it("first responder wins — later decisions are ignored", async () => {
+        const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+        registry.register(tg);
+        const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+        await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+        expect(await coordinator.resolve(APPROVAL_ID, "allow-once", "@alice")).toBeDefined();
+        expect(await coordinator.resolve(APPROVAL_ID, "deny", "@bob")).toBeUndefined();
+        expect(tg.markResolved).toHaveBeenCalledTimes(1);
+    });
+
+    it("marks every copy as expired", async () => {
+        const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+        const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+        registry.register(tg);
+        registry.register(slack);
+        const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+        await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+        await coordinator.markExpired(store.get(APPROVAL_ID)!);
+
+        expect(tg.markExpired).toHaveBeenCalledTimes(1);
+        expect(slack.markExpired).toHaveBeenCalledTimes(1);
+    });
+
+    describe("handleIncoming", () => {
+        const META = { callbackQueryId: "cbq-1" };
+
+        it("acknowledges a press on a pending approval and lets it through", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            const result = await coordinator.handleIncoming(`/approve ${APPROVAL_ID} allow-once`, "telegram", META);
+
+            expect(result).toBeUndefined();
+            expect(tg.acknowledge).toHaveBeenCalledWith(META, "Allowed once ✓", false);
+        });
+
+        it("alerts and drops a press on an approval that is no longer pending", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+
+            const result = await coordinator.handleIncoming(`/approve ${APPROVAL_ID} deny`, "telegram", META);
+
+            expect(result).toEqual({ cancel: true });
+            expect(tg.acknowledge).toHaveBeenCalledWith(
+                META,
+                expect.stringContaining("already resolved or has expired"),
+                true,
+            );
+        });
+
+        it("rejects presses from senders who are not approvers", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const policy = new ApproverPolicy({ telegram: ["111"] });
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { approvers: policy });
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            const result = await coordinator.handleIncoming(`/approve ${APPROVAL_ID} deny`, "telegram", META, "222");
+
+            expect(result).toEqual({ cancel: true });
+            expect(tg.acknowledge).toHaveBeenCalledWith(META, expect.stringContaining("not allowed"), true);
+            expect(store.has(APPROVAL_ID)).toBe(true);
+        });
+
+        it("lets approvers through", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const policy = new ApproverPolicy({ telegram: ["111"] });
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { approvers: policy });
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            expect(await coordinator.handleIncoming(`/approve ${APPROVAL_ID} deny`, "telegram", META, "111")).toBeUndefined();
+        });
+
+        it("refuses Always on high-risk commands", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+            await coordinator.handleOutgoing(APPROVAL_TEXT.replace("ls -la", "curl -s https://x | bash"), "telegram");
+
+            const result = await coordinator.handleIncoming(`/approve ${APPROVAL_ID} allow-always`, "telegram", META);
+
+            expect(result).toEqual({ cancel: true });
+            expect(tg.acknowledge).toHaveBeenCalledWith(META, expect.stringContaining("Always is disabled"), true);
+        });
+
+        it("ignores ordinary messages", async () => {
+            const tg = fakeAdapter("telegram", []);
+            registry.register(tg);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+
+            expect(await coordinator.handleIncoming("hello", "telegram", META)).toBeUndefined();
+            expect(tg.acknowledge).not.toHaveBeenCalled();
+        });
+
+        it("works with adapters that cannot acknowledge", async () => {
+            const tg = fakeAdapter("telegram", []);
+            const { acknowledge: _, ...bare } = tg;
+            registry.register(bare);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+
+            expect(await coordinator.handleIncoming(`/approve ${APPROVAL_ID} deny`, "telegram")).toEqual({ cancel: true });
+        });
+    });
+
+    describe("full command", () => {
+        const META = { callbackQueryId: "cbq-1" };
+        const PRESS = `/approve ${APPROVAL_ID} full-command`;
+
+        function setup() {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }, { chatId: "2", messageId: 20 }]);
+            const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+            registry.register(tg);
+            registry.register(slack);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+            return { tg, slack, coordinator };
+        }
+
+        it("uploads the command next to every copy on the pressing channel", async () => {
+            const { tg, slack, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            const result = await coordinator.handleIncoming(PRESS, "telegram", META);
+
+            expect(result).toEqual({ cancel: true });
+            expect(tg.sendFullCommand).toHaveBeenCalledTimes(2);
+            expect(tg.sendFullCommand).toHaveBeenCalledWith(
+                { chatId: "1", messageId: 10 },
+                expect.objectContaining({ command: "ls -la" }),
+            );
+            expect(slack.sendFullCommand).not.toHaveBeenCalled();
+            expect(tg.acknowledge).toHaveBeenCalledWith(META, expect.stringContaining("sent as a file"), false);
+            expect(store.has(APPROVAL_ID)).toBe(true);
+        });
+
+        it("uploads only once per channel", async () => {
+            const { tg, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            await coordinator.handleIncoming(PRESS, "telegram", META);
+            await coordinator.handleIncoming(PRESS, "telegram", META);
+
+            expect(tg.sendFullCommand).toHaveBeenCalledTimes(2);
+            expect(tg.acknowledge).toHaveBeenLastCalledWith(META, expect.stringContaining("already sent"), false);
+        });
+
+        it("alerts when the upload fails", async () => {
+            const { tg, coordinator } = setup();
+            tg.sendFullCommand.mockResolvedValue(false);
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            await coordinator.handleIncoming(PRESS, "telegram", META);
+
+            expect(tg.acknowledge).toHaveBeenCalledWith(META, expect.stringContaining("Could not send"), true);
+        });
+
+        it("alerts on approvals that are no longer pending", async () => {
+            const { tg, coordinator } = setup();
+            expect(await coordinator.handleIncoming(PRESS, "telegram", META)).toEqual({ cancel: true });
+            expect(tg.sendFullCommand).not.toHaveBeenCalled();
+            expect(tg.acknowledge).toHaveBeenCalledWith(META, expect.stringContaining("already resolved"), true);
+        });
+    });
+
+    describe("two-person rule", () => {
+        const RM_TEXT = APPROVAL_TEXT.replace("ls -la", "rm -rf /srv/data");
+        const quorum = { patterns: [/\brm\s+-rf\b/i], size: 2 };
+
+        function setup() {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+            registry.register(tg);
+            registry.register(slack);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { quorum });
+            return { tg, slack, coordinator };
+        }
+
+        it("marks matching commands as needing several approvers", async () => {
+            const { tg, coordinator } = setup();
+            await coordinator.handleOutgoing(RM_TEXT, "telegram");
+            expect(tg.sendRequest).toHaveBeenCalledWith(expect.objectContaining({ requiredApprovals: 2 }));
+        });
+
+        it("leaves other commands at a single approval", async () => {
+            const { coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            expect(store.get(APPROVAL_ID)!.info.requiredApprovals).toBeUndefined();
+        });
+
+        it("holds back the first approval and shows progress on every copy", async () => {
+            const { tg, slack, coordinator } = setup();
+            await coordinator.handleOutgoing(RM_TEXT, "telegram");
+
+            const result = await coordinator.handleIncoming(
+                `/approve ${APPROVAL_ID} allow-once`,
+                "telegram",
+                { senderId: "111", username: "alice" },
+            );
+
+            expect(result).toEqual({ cancel: true });
+            const votes = [{ userId: "111", name: "@alice" }];
+            expect(tg.markProgress).toHaveBeenCalledWith({ chatId: "1", messageId: 10 }, expect.anything(), votes);
+            expect(slack.markProgress).toHaveBeenCalledWith({ channelId: "C1", ts: "1.0" }, expect.anything(), votes);
+            expect(tg.acknowledge).toHaveBeenCalledWith(expect.anything(), expect.stringContaining("1/2"), false);
+        });
+
+        it("does not count the same approver twice", async () => {
+            const { tg, coordinator } = setup();
+            await coordinator.handleOutgoing(RM_TEXT, "telegram");
+            const press = `/approve ${APPROVAL_ID} allow-once`;
+
+            await coordinator.handleIncoming(press, "telegram", { senderId: "111" });
+            const again = await coordinator.handleIncoming(press, "slack", { senderId: "111" });
+
+            expect(again).toEqual({ cancel: true });
+            expect(store.get(APPROVAL_ID)!.votes).toHaveLength(1);
+            expect(tg.markProgress).toHaveBeenCalledTimes(1);
+        });
+
+        it("forwards the press that completes the quorum", async () => {
+            const { coordinator } = setup();
+            await coordinator.handleOutgoing(RM_TEXT, "telegram");
+            const press = `/approve ${APPROVAL_ID} allow-once`;
+
+            await coordinator.handleIncoming(press, "telegram", { senderId: "111", username: "alice" });
+            const second = await coordinator.handleIncoming(press, "slack", { senderId: "U2", username: "bob" });
+
+            expect(second).toBeUndefined();
+        });
+
+        it("credits every voter when the quorum approval resolves", async () => {
+            const { tg, coordinator } = setup();
+            await coordinator.handleOutgoing(RM_TEXT, "telegram");
+            const press = `/approve ${APPROVAL_ID} allow-once`;
+            await coordinator.handleIncoming(press, "telegram", { senderId: "111", username: "alice" });
+            await coordinator.handleIncoming(press, "slack", { senderId: "U2", username: "bob" });
+
+            await coordinator.resolve(APPROVAL_ID, "allow-once", "@bob");
+
+            expect(tg.markResolved).toHaveBeenCalledWith(expect.anything(), expect.anything(), "allow-once", "@alice, @bob", undefined);
+        });
+
+        it("short-circuits on a single deny", async () => {
+            const { coordinator } = setup();
+            await coordinator.handleOutgoing(RM_TEXT, "telegram");
+
+            const result = await coordinator.handleIncoming(`/approve ${APPROVAL_ID} deny`, "telegram", { senderId: "111" });
+
+            expect(result).toBeUndefined();
+        });
+
+        it("rejects votes from senders it cannot identify", async () => {
+            const { tg, coordinator } = setup();
+            await coordinator.handleOutgoing(RM_TEXT, "telegram");
+
+            const result = await coordinator.handleIncoming(`/approve ${APPROVAL_ID} allow-once`, "telegram", {});
+
+            expect(result).toEqual({ cancel: true });
+            expect(tg.acknowledge).toHaveBeenCalledWith({}, expect.stringContaining("distinct approvers"), true);
+            expect(store.get(APPROVAL_ID)!.votes).toBeUndefined();
+        });
+    });
+
+    describe("handleInteraction", () => {
+        const META = { responseUrl: "https://hooks.slack.test/r" };
+
+        function setup(dispatchOk = true, options = {}) {
+            const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+            registry.register(slack);
+            const dispatcher = { dispatch: vi.fn(async () => dispatchOk) };
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { dispatcher, ...options });
+            return { slack, dispatcher, coordinator };
+        }
+
+        it("submits the decision and resolves every copy", async () => {
+            const { slack, dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "slack");
+
+            const decided = await coordinator.handleInteraction(`/approve ${APPROVAL_ID} deny`, "slack", {
+                ...META,
+                user: { id: "U1", username: "alice" },
+            });
+
+            expect(decided).toBe(true);
+            expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "deny", undefined);
+            expect(slack.markResolved).toHaveBeenCalledWith(expect.anything(), expect.anything(), "deny", "@alice", undefined);
+            expect(store.has(APPROVAL_ID)).toBe(false);
+        });
+
+        it("does not submit presses the checks reject", async () => {
+            const approvers = new ApproverPolicy({ slack: ["U1"] });
+            const { dispatcher, coordinator } = setup(true, { approvers });
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "slack");
+
+            const decided = await coordinator.handleInteraction(`/approve ${APPROVAL_ID} deny`, "slack", {
+                user: { id: "U2" },
+            });
+
+            expect(decided).toBe(false);
+            expect(dispatcher.dispatch).not.toHaveBeenCalled();
+            expect(store.has(APPROVAL_ID)).toBe(true);
+        });
+
+        it("alerts and keeps the approval pending when submitting fails", async () => {
+            const { slack, coordinator } = setup(false);
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "slack");
+
+            expect(await coordinator.handleInteraction(`/approve ${APPROVAL_ID} allow-once`, "slack", META)).toBe(false);
+            expect(slack.acknowledge).toHaveBeenLastCalledWith(META, expect.stringContaining("Could not deliver"), true);
+            expect(store.has(APPROVAL_ID)).toBe(true);
+        });
+    });
+
+    describe("deny with reason", () => {
+        const PRESS = `/approve ${APPROVAL_ID} deny-reason`;
+        const ALICE = { callbackQueryId: "q1", user: { id: 111, username: "alice" } };
+
+        function setup(dispatcher: { dispatch: ReturnType<typeof vi.fn> } | null = { dispatch: vi.fn(async () => true) }) {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }, { chatId: "2", messageId: 20 }]);
+            const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+            registry.register(tg);
+            registry.register(slack);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { dispatcher });
+            return { tg, slack, dispatcher, coordinator };
+        }
+
+        it("prompts the presser and denies with their next message as the reason", async () => {
+            const { tg, slack, dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            expect(await coordinator.handleIncoming(PRESS, "telegram", ALICE)).toEqual({ cancel: true });
+            expect(tg.promptInput).toHaveBeenCalledWith(
+                "reason",
+                [{ chatId: "1", messageId: 10 }, { chatId: "2", messageId: 20 }],
+                expect.objectContaining({ id: APPROVAL_ID }),
+                ALICE,
+            );
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, expect.stringContaining("Reply with your reason"), false);
+            expect(store.has(APPROVAL_ID)).toBe(true);
+
+            const reply = await coordinator.handleIncoming("  wrong cluster  ", "telegram", { senderId: "111" });
+
+            expect(reply).toEqual({ cancel: true });
+            expect(dispatcher!.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "deny", "wrong cluster");
+            expect(slack.markResolved).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.anything(),
+                "deny",
+                "111",
+                { reason: "wrong cluster" },
+            );
+            expect(store.has(APPROVAL_ID)).toBe(false);
+        });
+
+        it("only takes the prompted sender's next plain message", async () => {
+            const { dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            await coordinator.handleIncoming(PRESS, "telegram", ALICE);
+
+            expect(await coordinator.handleIncoming("hello", "telegram", { senderId: "222" })).toBeUndefined();
+            expect(await coordinator.handleIncoming("hello", "slack", { senderId: "111" })).toBeUndefined();
+            expect(await coordinator.handleIncoming("/status", "telegram", { senderId: "111" })).toBeUndefined();
+            // The command abandoned the prompt
+            expect(await coordinator.handleIncoming("too late", "telegram", { senderId: "111" })).toBeUndefined();
+            expect(dispatcher!.dispatch).not.toHaveBeenCalled();
+        });
+
+        it("ignores replies after the prompt timed out", async () => {
+            vi.useFakeTimers({ toFake: ["Date"] });
+            try {
+                const { dispatcher, coordinator } = setup();
+                await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+                await coordinator.handleIncoming(PRESS, "telegram", ALICE);
+
+                vi.advanceTimersByTime(5 * 60_000 + 1);
+
+                expect(await coordinator.handleInputReply("nope", "telegram", { senderId: "111" })).toBe(false);
+                expect(dispatcher!.dispatch).not.toHaveBeenCalled();
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+
+        it("alerts when reasons cannot be submitted or prompted", async () => {
+            const { tg, coordinator } = setup(null);
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            expect(await coordinator.handleIncoming(PRESS, "telegram", ALICE)).toEqual({ cancel: true });
+            expect(tg.promptInput).not.toHaveBeenCalled();
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, expect.stringContaining("Could not ask for a reason"), true);
+        });
+
+        it("applies the approver list to the prompt", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, {
+                approvers: new ApproverPolicy({ telegram: ["999"] }),
+                dispatcher: { dispatch: vi.fn(async () => true) },
+            });
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            expect(await coordinator.handleIncoming(PRESS, "telegram", ALICE)).toEqual({ cancel: true });
+            expect(tg.promptInput).not.toHaveBeenCalled();
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, expect.stringContaining("not allowed"), true);
+        });
+
+        it("submits reasons from a form through handleInteraction", async () => {
+            const { slack, dispatcher, coordinator } = setup();
+            slack.promptInput.mockResolvedValue("form");
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "slack");
+            const meta = { user: { id: "U1", username: "bob" }, triggerId: "t1" };
+
+            expect(await coordinator.handleInteraction(PRESS, "slack", meta)).toBe(false);
+            expect(slack.acknowledge).not.toHaveBeenCalled();
+
+            const decided = await coordinator.handleInteraction(`/approve ${APPROVAL_ID} deny`, "slack", meta, undefined, {
+                reason: "prod",
+            });
+
+            expect(decided).toBe(true);
+            expect(dispatcher!.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "deny", "prod");
+            expect(slack.markResolved).toHaveBeenCalledWith(expect.anything(), expect.anything(), "deny", "@bob", {
+                reason: "prod",
+            });
+        });
+    });
+
+    describe("edit", () => {
+        const PRESS = `/approve ${APPROVAL_ID} edit`;
+        const ALICE = { callbackQueryId: "q1", user: { id: 111, username: "alice" } };
+
+        function setup() {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+            registry.register(tg);
+            registry.register(slack);
+            const dispatcher = { dispatch: vi.fn(async () => true) };
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { dispatcher });
+            return { tg, slack, dispatcher, coordinator };
+        }
+
+        it("denies the original and asks the agent to run the edited command", async () => {
+            const { tg, slack, dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            expect(await coordinator.handleIncoming(PRESS, "telegram", ALICE)).toEqual({ cancel: true });
+            expect(tg.promptInput).toHaveBeenCalledWith("edit", expect.anything(), expect.anything(), ALICE);
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, expect.stringContaining("edited command"), false);
+
+            const reply = await coordinator.handleIncoming("```\nls -la /tmp\n```", "telegram", { senderId: "111" });
+
+            expect(reply).toEqual({ cancel: true });
+            expect(dispatcher.dispatch).toHaveBeenCalledWith(
+                APPROVAL_ID,
+                "deny",
+                expect.stringMatching(/run this instead:\nls -la \/tmp$/),
+            );
+            expect(slack.markResolved).toHaveBeenCalledWith(expect.anything(), expect.anything(), "deny", "111", {
+                editedCommand: "ls -la /tmp",
+            });
+            expect(store.has(APPROVAL_ID)).toBe(false);
+        });
+
+        it("takes replies that start with a path, not only bot commands", async () => {
+            const { dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            await coordinator.handleIncoming(PRESS, "telegram", ALICE);
+
+            await coordinator.handleIncoming("/usr/bin/ls /tmp", "telegram", { senderId: "111" });
+            expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "deny", expect.stringContaining("/usr/bin/ls"));
+        });
+
+        it("does not submit an unchanged command", async () => {
+            const { tg, dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            await coordinator.handleIncoming(PRESS, "telegram", ALICE);
+            const command = store.get(APPROVAL_ID)!.info.command;
+
+            const meta = { senderId: "111", callbackQueryId: "q2" };
+            expect(await coordinator.handleIncoming(` ${command} `, "telegram", meta)).toEqual({ cancel: true });
+            expect(tg.acknowledge).toHaveBeenLastCalledWith(meta, expect.stringContaining("not changed"), true);
+            expect(dispatcher.dispatch).not.toHaveBeenCalled();
+            expect(store.has(APPROVAL_ID)).toBe(true);
+        });
+
+        it("submits edits from a form through handleInteraction", async () => {
+            const { slack, dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "slack");
+            const meta = { user: { id: "U1", username: "bob" } };
+            const deny = `/approve ${APPROVAL_ID} deny`;
+            const command = store.get(APPROVAL_ID)!.info.command;
+
+            expect(await coordinator.handleInteraction(deny, "slack", meta, undefined, { editedCommand: command })).toBe(false);
+            expect(slack.acknowledge).toHaveBeenCalledWith(meta, expect.stringContaining("not changed"), true);
+
+            expect(await coordinator.handleInteraction(deny, "slack", meta, undefined, { editedCommand: "ls" })).toBe(true);
+            expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "deny", expect.stringContaining("\nls"));
+            expect(slack.markResolved).toHaveBeenCalledWith(expect.anything(), expect.anything(), "deny", "@bob", {
+                editedCommand: "ls",
+            });
+        });
+    });
+
+    describe("scoped Always", () => {
+        const ALWAYS = `/approve ${APPROVAL_ID} allow-always`;
+        const ALICE = { callbackQueryId: "q1", user: { id: 111, username: "alice" } };
+        const NEXT_ID = "5b1c2f0e-8d7a-4c3b-9e6f-0a1b2c3d4e5f";
+
+        function setup() {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const dispatcher = { dispatch: vi.fn(async () => true) };
+            const grants = new AllowGrants();
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { dispatcher, grants });
+            return { tg, dispatcher, grants, coordinator };
+        }
+
+        it("opens the scope picker instead of letting Always through", async () => {
+            const { tg, dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            expect(await coordinator.handleIncoming(ALWAYS, "telegram", ALICE)).toEqual({ cancel: true });
+
+            expect(tg.promptScope).toHaveBeenCalledWith(
+                [{ chatId: "1", messageId: 10 }],
+                expect.objectContaining({ id: APPROVAL_ID }),
+                [
+                    { scope: "exact", preview: "ls -la" },
+                    { scope: "binary", preview: "ls …" },
+                    { scope: "cwd", preview: "ls -la in /tmp" },
+                ],
+                ALICE,
+            );
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, expect.stringContaining("Choose"), false);
+            expect(dispatcher.dispatch).not.toHaveBeenCalled();
+            expect(store.has(APPROVAL_ID)).toBe(true);
+        });
+
+        it("lets Always through when the adapter shows no picker", async () => {
+            const { tg, coordinator } = setup();
+            tg.promptScope.mockResolvedValueOnce(false);
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            expect(await coordinator.handleIncoming(ALWAYS, "telegram", ALICE)).toBeUndefined();
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, "Always allowed ✓", false);
+        });
+
+        it("refuses a typed scope on a two-person approval", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const dispatcher = { dispatch: vi.fn(async () => true) };
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, {
+                dispatcher,
+                grants: new AllowGrants(),
+                quorum: { patterns: [/^ls\b/], size: 2 },
+            });
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            const pick = `/approve ${APPROVAL_ID} always-exact`;
+            expect(await coordinator.handleIncoming(pick, "telegram", ALICE)).toEqual({ cancel: true });
+
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, expect.stringContaining("2 distinct approvers"), true);
+            expect(dispatcher.dispatch).not.toHaveBeenCalled();
+            expect(store.has(APPROVAL_ID)).toBe(true);
+        });
+
+        it("allows a narrow scope once and auto-allows the same command later", async () => {
+            const { tg, dispatcher, grants, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            const pick = `/approve ${APPROVAL_ID} always-exact`;
+            expect(await coordinator.handleIncoming(pick, "telegram", ALICE)).toEqual({ cancel: true });
+
+            expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "allow-once", undefined);
+            expect(tg.markResolved).toHaveBeenCalledWith(expect.anything(), expect.anything(), "allow-always", "@alice", {
+                scope: "exact",
+            });
+            expect(grants.list()).toEqual([expect.objectContaining({ scope: "exact", command: "ls -la" })]);
+
+            const grantId = grants.list()[0].id;
+            await coordinator.handleOutgoing(APPROVAL_TEXT.replace(APPROVAL_ID, NEXT_ID), "telegram");
+            expect(dispatcher.dispatch).toHaveBeenLastCalledWith(NEXT_ID, "allow-once");
+            expect(tg.sendNotice).toHaveBeenCalledWith(expect.stringContaining(`rule "always:${grantId}"`));
+            expect(tg.sendRequest).toHaveBeenCalledTimes(1);
+        });
+
+        it("leaves binary grants to OpenClaw's allowlist", async () => {
+            const { dispatcher, grants, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            await coordinator.handleIncoming(`/approve ${APPROVAL_ID} always-binary`, "telegram", ALICE);
+
+            expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "allow-always", undefined);
+            expect(grants.list()).toEqual([expect.objectContaining({ scope: "binary", words: ["ls"] })]);
+            expect(grants.match(store.get(APPROVAL_ID)?.info ?? ({} as any))).toBeUndefined();
+        });
+
+        it("rejects scopes the approval was not offered", async () => {
+            const { tg, dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            const pick = `/approve ${APPROVAL_ID} always-prefix`;
+            expect(await coordinator.handleIncoming(pick, "telegram", ALICE)).toEqual({ cancel: true });
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, expect.anything(), true);
+            expect(dispatcher.dispatch).not.toHaveBeenCalled();
+        });
+
+        it("decides scope picks from handleInteraction", async () => {
+            const { dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            const pick = `/approve ${APPROVAL_ID} always-cwd`;
+            expect(await coordinator.handleInteraction(pick, "telegram", ALICE)).toBe(true);
+            expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "allow-once", undefined);
+            expect(store.has(APPROVAL_ID)).toBe(false);
+        });
+
+        it("records relayed Always decisions as binary grants", async () => {
+            const { grants, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            await coordinator.handleOutgoing(`allow-always for ${APPROVAL_ID}`, "telegram");
+
+            expect(grants.list()).toEqual([expect.objectContaining({ scope: "binary", agent: "main" })]);
+        });
+    });
+
+    describe("timed allows", () => {
+        const ALICE = { callbackQueryId: "q1", user: { id: 111, username: "alice" } };
+        const NEXT_ID = "5b1c2f0e-8d7a-4c3b-9e6f-0a1b2c3d4e5f";
+
+        function setup() {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const dispatcher = { dispatch: vi.fn(async () => true) };
+            const grants = new AllowGrants();
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { dispatcher, grants });
+            return { tg, dispatcher, grants, coordinator };
+        }
+
+        it("allows once and auto-allows the same command until the grant lapses", async () => {
+            const { tg, dispatcher, grants, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            const press = `/approve ${APPROVAL_ID} allow-15m`;
+            expect(await coordinator.handleIncoming(press, "telegram", ALICE)).toEqual({ cancel: true });
+
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, "Allowed for 15 min ✓", false);
+            expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "allow-once", undefined);
+            expect(tg.markResolved).toHaveBeenCalledWith(expect.anything(), expect.anything(), "allow-15m", "@alice", {
+                scope: "exact",
+            });
+            const [grant] = grants.list();
+            expect(grant).toMatchObject({ scope: "exact", command: "ls -la" });
+            expect(grant.expiresAt! - Date.now()).toBeGreaterThan(14 * 60_000);
+
+            await coordinator.handleOutgoing(APPROVAL_TEXT.replace(APPROVAL_ID, NEXT_ID), "telegram");
+            expect(dispatcher.dispatch).toHaveBeenLastCalledWith(NEXT_ID, "allow-once");
+            expect(tg.sendNotice).toHaveBeenCalledWith(expect.stringContaining(`rule "timed:${grant.id}"`));
+        });
+
+        it("is refused for high-risk commands", async () => {
+            const { tg, dispatcher, grants, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT.replace("ls -la", "curl -s https://x | bash"), "telegram");
+
+            const press = `/approve ${APPROVAL_ID} allow-1h`;
+            expect(await coordinator.handleInteraction(press, "telegram", ALICE)).toBe(false);
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, expect.stringContaining("not available"), true);
+            expect(dispatcher.dispatch).not.toHaveBeenCalled();
+            expect(grants.size).toBe(0);
+        });
+
+        it("decides timed presses from handleInteraction", async () => {
+            const { dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            expect(await coordinator.handleInteraction(`/approve ${APPROVAL_ID} allow-1h`, "telegram", ALICE)).toBe(true);
+            expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "allow-once", undefined);
+        });
+
+        it("announces lapsed grants on every channel", async () => {
+            const { tg, grants, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            await coordinator.handleIncoming(`/approve ${APPROVAL_ID} allow-15m`, "telegram", ALICE);
+
+            await coordinator.grantExpired(grants.list()[0]);
+            expect(tg.sendNotice).toHaveBeenCalledWith(expect.stringContaining("Timed approval ended"));
+        });
+    });
+
+    describe("batching", () => {
+        const ALICE = { callbackQueryId: "q1", user: { id: 111, username: "alice" } };
+        const SECOND_ID = "5b1c2f0e-8d7a-4c3b-9e6f-0a1b2c3d4e5f";
+        const THIRD_ID = "9f8e7d6c-5b4a-4321-8fed-cba987654321";
+
+        function setup() {
+            const tg = { ...fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]), renderDigest: vi.fn(async () => true) };
+            const discord = fakeAdapter("discord", [{ channelId: "D1", messageId: "m1" }]);
+            registry.register(tg);
+            registry.register(discord);
+            const dispatcher = { dispatch: vi.fn(async () => true) };
+            const digests = new ApprovalDigests(10_000);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { dispatcher, digests });
+            return { tg, discord, dispatcher, digests, coordinator };
+        }
+
+        async function burst(coordinator: ApprovalCoordinator) {
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            await coordinator.handleOutgoing(
+                APPROVAL_TEXT.replace(APPROVAL_ID, SECOND_ID).replace("ls -la", "git status"),
+                "telegram",
+            );
+            await coordinator.handleOutgoing(
+                APPROVAL_TEXT.replace(APPROVAL_ID, THIRD_ID).replace("ls -la", "rm -rf /var/lib"),
+                "telegram",
+            );
+        }
+
+        it("turns the first message into a digest when a second approval follows", async () => {
+            const { tg, discord, coordinator } = setup();
+            await burst(coordinator);
+
+            expect(tg.sendRequest).toHaveBeenCalledTimes(1);
+            expect(discord.sendRequest).toHaveBeenCalledTimes(3);
+            const digest = tg.renderDigest.mock.lastCall![1] as any;
+            expect(digest.items.map((i: any) => i.info.id)).toEqual([APPROVAL_ID, SECOND_ID, THIRD_ID]);
+            expect(digest.items.map((i: any) => i.selected)).toEqual([true, true, false]);
+            expect(tg.renderDigest).toHaveBeenLastCalledWith({ chatId: "1", messageId: 10 }, digest);
+
+            for (const id of [APPROVAL_ID, SECOND_ID, THIRD_ID]) {
+                const copies = store.get(id)!.messages;
+                expect(copies).toContainEqual({ channel: "telegram", ref: { chatId: "1", messageId: 10 }, digest: digest.id });
+                expect(copies.filter((m) => m.channel === "discord")).toHaveLength(1);
+            }
+        });
+
+        it("sends approvals on their own outside the window", async () => {
+            const { tg, digests, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            digests.noteSingle(store.get(APPROVAL_ID)!.info, Date.now() - 60_000);
+
+            await coordinator.handleOutgoing(APPROVAL_TEXT.replace(APPROVAL_ID, SECOND_ID), "telegram");
+
+            expect(tg.sendRequest).toHaveBeenCalledTimes(2);
+            expect(tg.renderDigest).not.toHaveBeenCalled();
+        });
+
+        it("allows every selected item once and redraws the digest once", async () => {
+            const { tg, discord, dispatcher, coordinator } = setup();
+            await burst(coordinator);
+            const digest = tg.renderDigest.mock.lastCall![1] as any;
+            tg.renderDigest.mockClear();
+
+            const press = `/approve ${digest.id} allow-all`;
+            expect(await coordinator.handleIncoming(press, "telegram", ALICE)).toEqual({ cancel: true });
+
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, "Allowed 2 once ✓", false);
+            expect(dispatcher.dispatch.mock.calls).toEqual([
+                [APPROVAL_ID, "allow-once"],
+                [SECOND_ID, "allow-once"],
+            ]);
+            expect(store.has(THIRD_ID)).toBe(true);
+            expect(tg.renderDigest).toHaveBeenCalledTimes(1);
+            expect(tg.markResolved).not.toHaveBeenCalled();
+            expect(discord.markResolved).toHaveBeenCalledTimes(2);
+            expect(digest.items.map((i: any) => i.status)).toEqual(["allow-once", "allow-once", "pending"]);
+            expect(digest.items[0].decidedBy).toBe("@alice");
+        });
+
+        it("toggles items in and out of the selection", async () => {
+            const { tg, dispatcher, coordinator } = setup();
+            await burst(coordinator);
+            const digest = tg.renderDigest.mock.lastCall![1] as any;
+
+            await coordinator.handleIncoming(`/approve ${digest.id} toggle-1`, "telegram", ALICE);
+            await coordinator.handleIncoming(`/approve ${digest.id} toggle-3`, "telegram", ALICE);
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, "☐ 1 left out", false);
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, "☑ 3 selected", false);
+
+            expect(await coordinator.handleInteraction(`/approve ${digest.id} deny-all`, "telegram", ALICE)).toBe(true);
+            expect(dispatcher.dispatch.mock.calls).toEqual([
+                [SECOND_ID, "deny"],
+                [THIRD_ID, "deny"],
+            ]);
+            expect(store.has(APPROVAL_ID)).toBe(true);
+        });
+
+        it("alerts when nothing is selected or the digest is unknown", async () => {
+            const { tg, dispatcher, coordinator } = setup();
+            await burst(coordinator);
+            const digest = tg.renderDigest.mock.lastCall![1] as any;
+            await coordinator.handleIncoming(`/approve ${digest.id} toggle-1`, "telegram", ALICE);
+            await coordinator.handleIncoming(`/approve ${digest.id} toggle-2`, "telegram", ALICE);
+
+            await coordinator.handleIncoming(`/approve ${digest.id} allow-all`, "telegram", ALICE);
+            expect(tg.acknowledge).toHaveBeenLastCalledWith(ALICE, expect.stringContaining("Nothing selected"), true);
+            await coordinator.handleIncoming("/approve 00000000 allow-all", "telegram", ALICE);
+            expect(tg.acknowledge).toHaveBeenLastCalledWith(ALICE, expect.stringContaining("already resolved"), true);
+            expect(dispatcher.dispatch).not.toHaveBeenCalled();
+        });
+
+        it("checks the approver list before deciding in bulk", async () => {
+            const tg = { ...fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]), renderDigest: vi.fn(async () => true) };
+            registry.register(tg);
+            const dispatcher = { dispatch: vi.fn(async () => true) };
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, {
+                dispatcher,
+                digests: new ApprovalDigests(10_000),
+                approvers: new ApproverPolicy({ telegram: ["222"] }),
+            });
+            await burst(coordinator);
+            const digest = tg.renderDigest.mock.lastCall![1] as any;
+
+            await coordinator.handleIncoming(`/approve ${digest.id} allow-all`, "telegram", ALICE);
+            expect(tg.acknowledge).toHaveBeenCalledWith(ALICE, expect.stringContaining("not allowed"), true);
+            expect(dispatcher.dispatch).not.toHaveBeenCalled();
+        });
+
+        it("redraws the digest for decisions and expiry reported elsewhere", async () => {
+            const { tg, coordinator } = setup();
+            await burst(coordinator);
+            tg.renderDigest.mockClear();
+
+            await coordinator.handleOutgoing(`✅ Exec approval ${SECOND_ID} allowed once by @bob`, "telegram");
+            await coordinator.markExpired(store.resolve(THIRD_ID)!);
+
+            expect(tg.markResolved).not.toHaveBeenCalled();
+            expect(tg.markExpired).not.toHaveBeenCalled();
+            const digest = tg.renderDigest.mock.lastCall![1] as any;
+            expect(tg.renderDigest).toHaveBeenCalledTimes(2);
+            expect(digest.items.map((i: any) => i.status)).toEqual(["pending", "allow-once", "expired"]);
+        });
+
+        it("edits digest copies one by one once the digest is forgotten", async () => {
+            const { tg, coordinator } = setup();
+            await burst(coordinator);
+            const fresh = new ApprovalCoordinator(registry, store, silentLog, {
+                dispatcher: { dispatch: vi.fn(async () => true) },
+                digests: new ApprovalDigests(10_000),
+            });
+
+            await fresh.resolve(SECOND_ID, "deny", "@bob");
+            expect(tg.markResolved).toHaveBeenCalledWith({ chatId: "1", messageId: 10 }, expect.anything(), "deny", "@bob", undefined);
+        });
+    });
+
+    describe("countdown", () => {
+        it("stores the gateway deadline and shows the time left", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+            const before = Date.now();
+
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            const entry = store.get(APPROVAL_ID)!;
+            expect(entry.deadline).toBeGreaterThanOrEqual(before + 120_000);
+            expect(entry.deadline).toBeLessThanOrEqual(Date.now() + 120_000);
+            expect(entry.info.expires).toBe("120s");
+            expect(tg.sendRequest).toHaveBeenCalledWith(expect.objectContaining({ expires: "2m left" }));
+        });
+
+        it("sets no deadline when the metadata carries no expiry", async () => {
+            registry.register(fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]));
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram", {
+                execApproval: { id: APPROVAL_ID, request: { command: "ls -la" } },
+            });
+
+            expect(store.get(APPROVAL_ID)!.deadline).toBeUndefined();
+        });
+
+        it("sets no deadline when the expiry was defaulted", async () => {
+            registry.register(fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]));
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+
+            await coordinator.handleOutgoing(APPROVAL_TEXT.replace("Expires in: 120s\n", ""), "telegram");
+
+            expect(store.get(APPROVAL_ID)!.deadline).toBeUndefined();
+        });
+
+        it("redraws each copy with the time left and the votes so far", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+            registry.register(tg);
+            registry.register(slack);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            const { deadline } = store.get(APPROVAL_ID)!;
+
+            expect(await coordinator.refreshCountdown(APPROVAL_ID, deadline! - 30_000)).toBe(2);
+
+            expect(tg.markProgress).toHaveBeenCalledWith(
+                { chatId: "1", messageId: 10 },
+                expect.objectContaining({ expires: "30s left" }),
+                [],
+            );
+            expect(await coordinator.refreshCountdown("unknown")).toBe(0);
+        });
+
+        it("edits no more copies than it is allowed to", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }, { chatId: "2", messageId: 20 }]);
+            const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+            registry.register(tg);
+            registry.register(slack);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            const { deadline } = store.get(APPROVAL_ID)!;
+
+            expect(await coordinator.refreshCountdown(APPROVAL_ID, deadline! - 30_000, 1, 1)).toBe(1);
+
+            expect(tg.markProgress).toHaveBeenCalledTimes(1);
+            expect(tg.markProgress).toHaveBeenCalledWith({ chatId: "2", messageId: 20 }, expect.anything(), []);
+            expect(slack.markProgress).not.toHaveBeenCalled();
+        });
+
+        it("leaves copies with an open scope picker alone on a tick", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            const slack = fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]);
+            registry.register(tg);
+            registry.register(slack);
+            const dispatcher = { dispatch: vi.fn(async () => true) };
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, {
+                dispatcher,
+                grants: new AllowGrants(),
+            });
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            const always = `/approve ${APPROVAL_ID} allow-always`;
+            await coordinator.handleIncoming(always, "telegram", { user: { id: 111, username: "alice" } });
+            const { deadline } = store.get(APPROVAL_ID)!;
+
+            expect(await coordinator.refreshCountdown(APPROVAL_ID, deadline! - 30_000)).toBe(1);
+
+            expect(tg.markProgress).not.toHaveBeenCalled();
+            expect(slack.markProgress).toHaveBeenCalledTimes(1);
+            expect(store.get(APPROVAL_ID)!.scopePicker).toEqual(["telegram"]);
+        });
+    });
+
+    describe("escalation", () => {
+        function setup() {
+            const tg = {
+                ...fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]),
+                sendReminder: vi.fn(async () => true),
+                escalate: vi.fn(async () => [{ chatId: "99", messageId: 77 }]),
+            };
+            const slack = { ...fakeAdapter("slack", [{ channelId: "C1", ts: "1.0" }]), sendReminder: vi.fn(async () => false) };
+            registry.register(tg);
+            registry.register(slack);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog);
+            return { tg, slack, coordinator };
+        }
+
+        it("replies a reminder to every copy and records the channels it reached", async () => {
+            const { tg, slack, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            expect(await coordinator.remind(APPROVAL_ID)).toBe(true);
+
+            expect(tg.sendReminder).toHaveBeenCalledWith({ chatId: "1", messageId: 10 }, expect.stringContaining("ls -la"));
+            expect(slack.sendReminder).toHaveBeenCalledWith({ channelId: "C1", ts: "1.0" }, expect.any(String));
+            expect(store.get(APPROVAL_ID)!.escalations).toEqual([
+                { kind: "reminder", afterMs: expect.any(Number), channels: ["telegram"] },
+            ]);
+        });
+
+        it("sends escalated copies that are resolved with the others", async () => {
+            const { tg, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            await coordinator.escalate(APPROVAL_ID, { telegram: ["99"], discord: ["D1"] }, { telegram: "@lead" });
+            expect(tg.escalate).toHaveBeenCalledWith(
+                expect.objectContaining({ id: APPROVAL_ID }),
+                ["99"],
+                expect.any(Number),
+                "@lead",
+            );
+            expect(store.get(APPROVAL_ID)!.messages).toHaveLength(3);
+
+            await coordinator.resolve(APPROVAL_ID, "allow-once", "@lead");
+            expect(tg.markResolved).toHaveBeenCalledTimes(2);
+            expect(tg.markResolved).toHaveBeenCalledWith(
+                { chatId: "99", messageId: 77 },
+                expect.anything(),
+                "allow-once",
+                "@lead",
+                { escalations: [{ kind: "escalation", afterMs: expect.any(Number), channels: ["telegram"] }] },
+            );
+        });
+
+        it("skips channels without targets or escalation support", async () => {
+            const { tg, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            await coordinator.escalate(APPROVAL_ID, { slack: ["C9"] });
+
+            expect(tg.escalate).not.toHaveBeenCalled();
+            expect(store.get(APPROVAL_ID)!.escalations).toEqual([
+                { kind: "escalation", afterMs: expect.any(Number), channels: [] },
+            ]);
+        });
+
+        it("retires escalated copies when the approval was decided meanwhile", async () => {
+            const { tg, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            tg.escalate.mockImplementationOnce(async () => {
+                await coordinator.resolve(APPROVAL_ID, "deny", "@bob");
+                return [{ chatId: "99", messageId: 77 }];
+            });
+
+            expect(await coordinator.escalate(APPROVAL_ID, { telegram: ["99"] })).toBe(false);
+            expect(tg.markExpired).toHaveBeenCalledWith({ chatId: "99", messageId: 77 }, expect.anything());
+        });
+
+        it("does nothing for approvals that are not pending", async () => {
+            const { tg, coordinator } = setup();
+            expect(await coordinator.remind(APPROVAL_ID)).toBe(false);
+            expect(await coordinator.escalate(APPROVAL_ID, { telegram: ["99"] })).toBe(false);
+            expect(tg.escalate).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("policy auto-decisions", () => {
+        const { engine: policy } = compilePolicy([
+            { name: "safe-reads", command: "ls*", decision: "allow" },
+            { name: "no-wipe", command: "rm -rf*", decision: "deny" },
+        ]);
+
+        function setup(dispatchOk = true) {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const dispatcher = { dispatch: vi.fn(async () => dispatchOk) };
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { policy, dispatcher });
+            return { tg, dispatcher, coordinator };
+        }
+
+        it("auto-allows matching commands without sending buttons", async () => {
+            const { tg, dispatcher, coordinator } = setup();
+
+            expect(await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram")).toEqual({ cancel: true });
+
+            expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "allow-once");
+            expect(tg.sendRequest).not.toHaveBeenCalled();
+            expect(tg.sendNotice).toHaveBeenCalledWith(expect.stringContaining('Auto-allowed by rule "safe-reads"'));
+            expect(store.has(APPROVAL_ID)).toBe(false);
+        });
+
+        it("auto-denies matching commands", async () => {
+            const { dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT.replace("ls -la", "rm -rf /tmp/x"), "telegram");
+            expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "deny");
+        });
+
+        it("decides once even when the hook fires for several channels", async () => {
+            const { dispatcher, coordinator } = setup();
+            registry.register(fakeAdapter("slack", []));
+
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            expect(await coordinator.handleOutgoing(APPROVAL_TEXT, "slack")).toEqual({ cancel: true });
+
+            expect(dispatcher.dispatch).toHaveBeenCalledTimes(1);
+        });
+
+        it("falls back to buttons when the decision cannot be delivered", async () => {
+            const { tg, coordinator } = setup(false);
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+            expect(tg.sendRequest).toHaveBeenCalledTimes(1);
+            expect(store.has(APPROVAL_ID)).toBe(true);
+        });
+
+        it("asks when there is no dispatcher", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { policy });
+
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            expect(tg.sendRequest).toHaveBeenCalledTimes(1);
+        });
+
+        it("never auto-allows high-risk commands", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const dispatcher = { dispatch: vi.fn(async () => true) };
+            const { engine: cleanup } = compilePolicy([{ name: "cleanup", command: "rm *", decision: "allow" }]);
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { policy: cleanup, dispatcher });
+
+            await coordinator.handleOutgoing(APPROVAL_TEXT.replace("ls -la", "rm -rf /"), "telegram");
+
+            expect(dispatcher.dispatch).not.toHaveBeenCalled();
+            expect(tg.sendRequest).toHaveBeenCalledTimes(1);
+        });
+
+        it("never auto-allows commands under the two-person rule", async () => {
+            const tg = fakeAdapter("telegram", [{ chatId: "1", messageId: 10 }]);
+            registry.register(tg);
+            const dispatcher = { dispatch: vi.fn(async () => true) };
+            const quorum = { patterns: [/^ls\b/], size: 2 };
+            const coordinator = new ApprovalCoordinator(registry, store, silentLog, { policy, dispatcher, quorum });
+
+            await coordinator.handleOutgoing(APPROVAL_TEXT, "telegram");
+
+            expect(dispatcher.dispatch).not.toHaveBeenCalled();
+            expect(tg.sendRequest).toHaveBeenCalledWith(expect.objectContaining({ requiredApprovals: 2 }));
+        });
+
+        it("sends buttons for commands no rule decides", async () => {
+            const { tg, dispatcher, coordinator } = setup();
+            await coordinator.handleOutgoing(APPROVAL_TEXT.replace("ls -la", "make deploy"), "telegram");
+            expect(dispatcher.dispatch).not.toHaveBeenCalled();
+            expect(tg.sendRequest).toHaveBeenCalledTimes(1);
+        });
+    });
+});
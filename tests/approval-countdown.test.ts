@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CountdownScheduler } from "../lib/approval-countdown.js";
+import { ApprovalStore } from "../lib/approval-store.js";
+import type { ApprovalInfo } from "../types.js";
+
+const baseInfo: ApprovalInfo = {
+    id: "0e9a9d4d-c7e6-4893-972f-2c80d70162c5",
+    command: "ls -la",
+    cwd: "/tmp",
+    host: "gateway",
+    agent: "main",
+    security: "allowlist",
+    ask: "on-miss",
+    expires: "120s",
+};
+
+function info(n: number): ApprovalInfo {
+    return { ...baseInfo, id: `approval-${n}` };
+}
+
+describe("CountdownScheduler", () => {
+    let store: ApprovalStore;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+        store = new ApprovalStore(600_000);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("redraws only when the time-left label changes", async () => {
+        const coordinator = { refreshCountdown: vi.fn(async () => 1) };
+        const scheduler = new CountdownScheduler(store, coordinator);
+        store.add(baseInfo.id, [], baseInfo, 300_000);
+
+        expect(await scheduler.tick(10_000)).toBe(0); // still "5m left"
+        expect(await scheduler.tick(61_000)).toBe(1); // "4m left"
+        expect(await scheduler.tick(65_000)).toBe(0);
+        expect(coordinator.refreshCountdown).toHaveBeenCalledTimes(1);
+        expect(coordinator.refreshCountdown).toHaveBeenCalledWith(baseInfo.id, 61_000, 4, 0);
+    });
+
+    it("redraws on the timer until stopped", async () => {
+        const coordinator = { refreshCountdown: vi.fn(async () => 1) };
+        const scheduler = new CountdownScheduler(store, coordinator);
+        store.add(baseInfo.id, [], baseInfo, 300_000);
+        scheduler.start();
+
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(coordinator.refreshCountdown).toHaveBeenCalledTimes(1);
+        scheduler.stop();
+        await vi.advanceTimersByTimeAsync(120_000);
+        expect(coordinator.refreshCountdown).toHaveBeenCalledTimes(1);
+    });
+
+    it("spends its edit budget on the most urgent approvals first", async () => {
+        // Two copies each
+        const coordinator = {
+            refreshCountdown: vi.fn(async (_id: string, _now?: number, limit = Infinity, skip = 0) =>
+                Math.max(Math.min(2 - skip, limit), 0),
+            ),
+        };
+        const scheduler = new CountdownScheduler(store, coordinator);
+        store.add("approval-1", [], info(1), 600_000);
+        store.add("approval-2", [], info(2), 300_000);
+        store.add("approval-3", [], info(3), 400_000);
+
+        expect(await scheduler.tick(61_000)).toBe(4);
+        expect(coordinator.refreshCountdown.mock.calls.map(([id]) => id)).toEqual(["approval-2", "approval-3"]);
+
+        expect(await scheduler.tick(66_000)).toBe(2);
+        expect(coordinator.refreshCountdown).toHaveBeenLastCalledWith("approval-1", 66_000, 4, 0);
+    });
+
+    it("stops midway through an approval's copies and carries on next tick", async () => {
+        // Ten copies; edits as many as the limit allows after the skipped ones
+        const copies = 10;
+        const coordinator = {
+            refreshCountdown: vi.fn(async (_id: string, _now?: number, limit = Infinity, skip = 0) =>
+                Math.max(Math.min(copies - skip, limit), 0),
+            ),
+        };
+        const scheduler = new CountdownScheduler(store, coordinator);
+        store.add(baseInfo.id, [], baseInfo, 300_000);
+
+        expect(await scheduler.tick(61_000)).toBe(4);
+        expect(await scheduler.tick(66_000)).toBe(4);
+        expect(await scheduler.tick(71_000)).toBe(2);
+        expect(await scheduler.tick(76_000)).toBe(0);
+        expect(coordinator.refreshCountdown.mock.calls.map((call) => call.slice(2))).toEqual([
+            [4, 0],
+            [4, 4],
+            [4, 8],
+        ]);
+    });
+
+    it("leaves approvals without a deadline alone", async () => {
+        const coordinator = { refreshCountdown: vi.fn(async () => 1) };
+        const scheduler = new CountdownScheduler(store, coordinator);
+        store.add(baseInfo.id, [], baseInfo);
+
+        expect(await scheduler.tick(300_000)).toBe(0);
+        expect(store.pendingCount).toBe(1);
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { ApprovalDigests, MAX_DIGEST_ITEMS, pendingItems, selectedItems } from "../lib/approval-digest.js";
+import type { ApprovalInfo, SentMessage } from "../types.js";
+
+const baseInfo: ApprovalInfo = {
+    id: "0e9a9d4d-c7e6-4893-972f-2c80d70162c5",
+    command: "ls -la",
+    cwd: "/tmp",
+    host: "gateway",
+    agent: "main",
+    security: "allowlist",
+    ask: "on-miss",
+    expires: "120s",
+};
+
+const COPY: SentMessage = { channel: "telegram", ref: { chatId: "1", messageId: 10 } };
+
+function info(n: number, overrides: Partial<ApprovalInfo> = {}): ApprovalInfo {
+    return { ...baseInfo, id: `approval-${n}`, ...overrides };
+}
+
+describe("ApprovalDigests", () => {
+    it("offers the previous approval from the same source within the window", () => {
+        const digests = new ApprovalDigests(10_000);
+        digests.noteSingle(info(1), 1_000);
+
+        expect(digests.target(info(2), 5_000)).toEqual({ approvalId: "approval-1" });
+        expect(digests.target(info(2), 12_000)).toBeNull();
+        expect(digests.target(info(2, { agent: "ops" }), 5_000)).toBeNull();
+        expect(digests.target(info(2, { host: "laptop" }), 5_000)).toBeNull();
+    });
+
+    it("builds a digest and keeps it open while approvals keep arriving", () => {
+        const digests = new ApprovalDigests(10_000);
+        const digest = digests.create(info(1), [COPY], 1_000);
+        digests.add(digest, info(2), 9_000);
+
+        expect(digest.id).toMatch(/^[0-9a-f]{8}$/);
+        expect(digest.messages).toEqual([{ ...COPY, digest: digest.id }]);
+        expect(digests.get(digest.id)).toBe(digest);
+        // The window counts from the latest arrival
+        expect(digests.target(info(3), 18_000)).toEqual({ digest });
+        expect(digests.target(info(3), 20_000)).toBeNull();
+    });
+
+    it("leaves high-risk commands out of the selection", () => {
+        const digests = new ApprovalDigests(10_000);
+        const digest = digests.create(info(1), [COPY]);
+        digests.add(digest, info(2, { command: "rm -rf /var/lib" }));
+
+        expect(selectedItems(digest).map((i) => i.info.id)).toEqual(["approval-1"]);
+        expect(digests.toggle(digest, 2)).toBe(true);
+        expect(digests.toggle(digest, 1)).toBe(false);
+        expect(selectedItems(digest).map((i) => i.info.id)).toEqual(["approval-2"]);
+        expect(digests.toggle(digest, 3)).toBeNull();
+    });
+
+    it("settles items once and stops offering digests with nothing pending", () => {
+        const digests = new ApprovalDigests(10_000);
+        const digest = digests.create(info(1), [COPY]);
+        digests.add(digest, info(2));
+
+        expect(digests.settle("approval-1", "allow-once", "@alice")).toBe(digest);
+        expect(digests.settle("approval-1", "expired")).toBe(digest);
+        expect(digest.items[0]).toMatchObject({ status: "allow-once", decidedBy: "@alice" });
+        expect(digests.toggle(digest, 1)).toBeNull();
+        expect(digests.settle("unknown", "deny")).toBeUndefined();
+
+        digests.settle("approval-2", "deny");
+        expect(pendingItems(digest)).toEqual([]);
+        expect(digests.target(info(3))).toBeNull();
+    });
+
+    it("stops adding to a full digest", () => {
+        const digests = new ApprovalDigests(10_000);
+        const digest = digests.create(info(0), [COPY]);
+        for (let n = 1; n < MAX_DIGEST_ITEMS; n++) digests.add(digest, info(n));
+
+        expect(digest.items).toHaveLength(MAX_DIGEST_ITEMS);
+        expect(digests.target(info(99))).toBeNull();
+    });
+});
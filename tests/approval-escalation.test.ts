@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EscalationScheduler, dueStep } from "../lib/approval-escalation.js";
+import { ApprovalStore } from "../lib/approval-store.js";
+import type { ApprovalInfo, EscalationConfig, SentApproval } from "../types.js";
+
+const baseInfo: ApprovalInfo = {
+    id: "0e9a9d4d-c7e6-4893-972f-2c80d70162c5",
+    command: "ls -la",
+    cwd: "/tmp",
+    host: "gateway",
+    agent: "main",
+    security: "allowlist",
+    ask: "on-miss",
+    expires: "120s",
+};
+
+const CONFIG: EscalationConfig = {
+    remindAfterMs: 60_000,
+    escalateAfterMs: 180_000,
+    targets: { telegram: ["-100"] },
+    mentions: { telegram: "@lead" },
+};
+
+function entry(overrides: Partial<SentApproval> = {}): SentApproval {
+    return { messages: [], info: baseInfo, sentAt: 0, ...overrides };
+}
+
+// ─── dueStep ────────────────────────────────────────────────────────────────
+
+describe("dueStep", () => {
+    it("reminds, then escalates, as the approval ages", () => {
+        expect(dueStep(entry(), CONFIG, 59_000)).toBeNull();
+        expect(dueStep(entry(), CONFIG, 60_000)).toBe("reminder");
+        const reminded = entry({ escalations: [{ kind: "reminder", afterMs: 60_000, channels: ["telegram"] }] });
+        expect(dueStep(reminded, CONFIG, 120_000)).toBeNull();
+        expect(dueStep(reminded, CONFIG, 180_000)).toBe("escalation");
+    });
+
+    it("escalates without a reminder when both are due", () => {
+        expect(dueStep(entry(), CONFIG, 200_000)).toBe("escalation");
+    });
+
+    it("takes nothing after an escalation", () => {
+        const escalated = entry({ escalations: [{ kind: "escalation", afterMs: 180_000, channels: [] }] });
+        expect(dueStep(escalated, CONFIG, 900_000)).toBeNull();
+    });
+
+    it("skips steps that are off", () => {
+        expect(dueStep(entry(), { ...CONFIG, remindAfterMs: 0 }, 90_000)).toBeNull();
+        expect(dueStep(entry(), { ...CONFIG, escalateAfterMs: 0 }, 900_000)).toBe("reminder");
+    });
+});
+
+// ─── EscalationScheduler ────────────────────────────────────────────────────
+
+describe("EscalationScheduler", () => {
+    let store: ApprovalStore;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+        store = new ApprovalStore(600_000);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    function steps() {
+        return {
+            remind: vi.fn(async (id: string) => {
+                store.addEscalation(id, { kind: "reminder", afterMs: Date.now(), channels: ["telegram"] });
+                return true;
+            }),
+            escalate: vi.fn(async (id: string) => {
+                store.addEscalation(id, { kind: "escalation", afterMs: Date.now(), channels: ["telegram"] });
+                return true;
+            }),
+        };
+    }
+
+    it("reminds and escalates each approval once, on the timer", async () => {
+        const coordinator = steps();
+        const scheduler = new EscalationScheduler(CONFIG, store, coordinator);
+        store.add(baseInfo.id, [], baseInfo);
+        scheduler.start();
+
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(coordinator.remind).toHaveBeenCalledTimes(1);
+        expect(coordinator.remind).toHaveBeenCalledWith(baseInfo.id);
+
+        await vi.advanceTimersByTimeAsync(120_000);
+        expect(coordinator.escalate).toHaveBeenCalledWith(baseInfo.id, CONFIG.targets, CONFIG.mentions);
+
+        await vi.advanceTimersByTimeAsync(300_000);
+        expect(coordinator.remind).toHaveBeenCalledTimes(1);
+        expect(coordinator.escalate).toHaveBeenCalledTimes(1);
+        scheduler.stop();
+    });
+
+    it("keeps going when a step throws", async () => {
+        const coordinator = steps();
+        const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+        coordinator.remind.mockRejectedValueOnce(new Error("boom"));
+        const scheduler = new EscalationScheduler(CONFIG, store, coordinator, log);
+        store.add(baseInfo.id, [], baseInfo);
+        store.add("second", [], { ...baseInfo, id: "second" });
+
+        expect(await scheduler.tick(60_000)).toBe(1);
+        expect(coordinator.remind).toHaveBeenCalledTimes(2);
+        expect(log.warn).toHaveBeenCalledWith(expect.stringContaining("boom"));
+    });
+
+    it("stops checking once stopped", async () => {
+        const coordinator = steps();
+        const scheduler = new EscalationScheduler(CONFIG, store, coordinator);
+        store.add(baseInfo.id, [], baseInfo);
+        scheduler.start();
+        scheduler.stop();
+
+        await vi.advanceTimersByTimeAsync(600_000);
+        expect(coordinator.remind).not.toHaveBeenCalled();
+    });
+});
@@ -1,5 +1,18 @@
 import { describe, it, expect } from "vitest";
-import { parseApprovalText, detectApprovalResult } from "../lib/approval-parser.js";
+import {
+    parseApproval,
+    parseApprovalMetadata,
+    parseApprovalText,
+    detectApprovalResult,
+    parseButtonPress,
+    parseFullCommandPress,
+    parseEditedCommand,
+    parseInputPress,
+    parseScopePress,
+    parseDigestPress,
+    parseExpiresIn,
+    TEXT_PARSER_VERSION,
+} from "../lib/approval-parser.js";
 import type { SentApproval, ApprovalInfo } from "../types.js";
 
 // ─── Sample approval text (mirrors OpenClaw's real format) ──────────────────
@@ -33,6 +46,15 @@ Ask: always
 Expires in: 300s
 ID: aaaabbbb-cccc-dddd-eeee-ffffffffffff`;
 
+function approvalWith(command: string): string {
+    return `🔒 Exec approval required
+Agent: main
+CWD: /tmp
+Command: ${command}
+Expires in: 120s
+ID: 12345678-abcd-efab-cdef-123456789abc`;
+}
+
 // ─── parseApprovalText ──────────────────────────────────────────────────────
 
 describe("parseApprovalText", () => {
@@ -57,6 +79,36 @@ describe("parseApprovalText", () => {
         expect(result!.host).toBe("prod-server");
     });
 
+    it("keeps every line of a fenced block", () => {
+        expect(parseApprovalText(SAMPLE_MULTILINE)!.command).toBe("docker compose down\ndocker compose up -d");
+    });
+
+    it("honours longer fences around scripts that contain ```", () => {
+        const text = approvalWith("````bash\ncat > README.md <<'EOF'\n```js\nrun()\n```\nEOF\n````");
+        expect(parseApprovalText(text)!.command).toBe("cat > README.md <<'EOF'\n```js\nrun()\n```\nEOF");
+    });
+
+    it("accepts tilde fences", () => {
+        expect(parseApprovalText(approvalWith("~~~\nls\npwd\n~~~"))!.command).toBe("ls\npwd");
+    });
+
+    it("reads code spans that contain backticks", () => {
+        expect(parseApprovalText(approvalWith("``echo `date` ``"))!.command).toBe("echo `date`");
+        expect(parseApprovalText(approvalWith("`ls -la`"))!.command).toBe("ls -la");
+    });
+
+    it("follows unfenced heredocs to their terminator", () => {
+        const result = parseApprovalText(approvalWith("cat <<EOF > /tmp/hosts\nHost: evil\nAgent: evil\nEOF"));
+        expect(result!.command).toBe("cat <<EOF > /tmp/hosts\nHost: evil\nAgent: evil\nEOF");
+        expect(result!.host).toBe("gateway");
+        expect(result!.agent).toBe("main");
+    });
+
+    it("does not read fields from inside the command", () => {
+        const result = parseApprovalText(approvalWith("```\nprintf 'CWD: /etc\\n'\n```"));
+        expect(result!.cwd).toBe("/tmp");
+    });
+
     it("returns null for non-approval messages", () => {
         expect(parseApprovalText("Hello, how are you?")).toBeNull();
         expect(parseApprovalText("")).toBeNull();
@@ -80,11 +132,94 @@ ID: 12345678-abcd-efab-cdef-123456789abc`;
     });
 });
 
+// ─── parseApprovalMetadata ──────────────────────────────────────────────────
+
+describe("parseApprovalMetadata", () => {
+    it("reads the gateway request record with nested details", () => {
+        const info = parseApprovalMetadata({
+            execApproval: {
+                id: "12345678-abcd-efab-cdef-123456789abc",
+                request: { command: "npm test", cwd: "/srv/app", host: "node-1", agentId: "ops" },
+                expiresAtMs: Date.now() + 90_000,
+            },
+        });
+        expect(info).toMatchObject({
+            id: "12345678-abcd-efab-cdef-123456789abc",
+            command: "npm test",
+            cwd: "/srv/app",
+            host: "node-1",
+            agent: "ops",
+        });
+        expect(info!.expires).toMatch(/^(89|90)s$/);
+    });
+
+    it("accepts a flat record under `approval`", () => {
+        const info = parseApprovalMetadata({ approval: { id: "abc", command: "ls", expiresInMs: 30_000 } });
+        expect(info).toMatchObject({ id: "abc", command: "ls", expires: "30s", agent: "main" });
+    });
+
+    it("returns null without an ID or a command", () => {
+        expect(parseApprovalMetadata(undefined)).toBeNull();
+        expect(parseApprovalMetadata({ execApproval: { command: "ls" } })).toBeNull();
+        expect(parseApprovalMetadata({ execApproval: { id: "abc" } })).toBeNull();
+        expect(parseApprovalMetadata({ execApproval: "ls" })).toBeNull();
+    });
+});
+
+// ─── parseApproval ──────────────────────────────────────────────────────────
+
+describe("parseApproval", () => {
+    it("prefers metadata over the rendered text", () => {
+        const parsed = parseApproval(SAMPLE_APPROVAL, {
+            execApproval: { id: "from-metadata", command: "whoami", expiresInMs: 60_000 },
+        });
+        expect(parsed).toMatchObject({ source: "metadata", confidence: "high", defaulted: [] });
+        expect(parsed!.info.id).toBe("from-metadata");
+        expect(parsed!.parserVersion).toBeUndefined();
+    });
+
+    it("reports the expiry as defaulted when the metadata has none", () => {
+        const parsed = parseApproval(SAMPLE_APPROVAL, {
+            execApproval: { id: "from-metadata", command: "whoami" },
+        });
+        expect(parsed).toMatchObject({ source: "metadata", defaulted: ["expires"] });
+        expect(parsed!.info.expires).toBe("120s");
+    });
+
+    it("falls back to the text parser and tags its version", () => {
+        const parsed = parseApproval(SAMPLE_APPROVAL);
+        expect(parsed).toMatchObject({
+            source: "text",
+            parserVersion: TEXT_PARSER_VERSION,
+            confidence: "high",
+            defaulted: [],
+        });
+    });
+
+    it("reports partial confidence when core fields were defaulted", () => {
+        const parsed = parseApproval(`🔒 Exec approval required
+Command: whoami
+ID: 12345678-abcd-efab-cdef-123456789abc`);
+        expect(parsed!.confidence).toBe("partial");
+        expect(parsed!.defaulted).toEqual(["cwd", "host", "agent", "expires"]);
+    });
+
+    it("reports low confidence when the command could not be read", () => {
+        const parsed = parseApproval("🔒 Exec approval required\nID: 12345678-abcd-efab-cdef-123456789abc");
+        expect(parsed!.confidence).toBe("low");
+        expect(parsed!.defaulted).toContain("command");
+    });
+
+    it("returns null for other messages", () => {
+        expect(parseApproval("Hello", {})).toBeNull();
+    });
+});
+
 // ─── detectApprovalResult ───────────────────────────────────────────────────
 
 describe("detectApprovalResult", () => {
     const mockEntry: SentApproval = {
-        messageId: 42,
+        messages: [{ channel: "telegram", ref: { chatId: "c-1", messageId: 42 } }],
         info: {
             id: "0e9a9d4d-c7e6-4893-972f-2c80d70162c5",
             command: "ls",
@@ -182,6 +317,27 @@ describe("detectApprovalResult", () => {
         expect(result).toBeNull();
     });
 
+    it("does not take the word after \"by\" as the decider", () => {
+        const byUser = detectApprovalResult(
+            "Exec allowed by user 123: 0e9a9d4d-c7e6-4893-972f-2c80d70162c5",
+            pending,
+        );
+        expect(byUser!.decidedBy).toBeUndefined();
+        const byCommand = detectApprovalResult(
+            "Exec allowed: 0e9a9d4d-c7e6-4893-972f-2c80d70162c5 (echo hi | written by tee)",
+            pending,
+        );
+        expect(byCommand!.decidedBy).toBeUndefined();
+    });
+
+    it("attributes approval-timeout denials to the gateway", () => {
+        const result = detectApprovalResult(
+            "Exec denied for 0e9a9d4d-c7e6-4893-972f-2c80d70162c5: approval-timeout",
+            pending,
+        );
+        expect(result!.decidedBy).toBe("gateway");
+    });
+
     it("returns null for UUID not in pending map", () => {
         const result = detectApprovalResult(
             "Exec allowed: aaaabbbb-cccc-dddd-eeee-ffffffffffff",
@@ -190,3 +346,130 @@ describe("detectApprovalResult", () => {
         expect(result).toBeNull();
     });
 });
+
+// ─── parseButtonPress ───────────────────────────────────────────────────────
+
+describe("parseButtonPress", () => {
+    const ID = "0e9a9d4d-c7e6-4893-972f-2c80d70162c5";
+
+    it("parses every button payload", () => {
+        expect(parseButtonPress(`/approve ${ID} allow-once`)).toEqual({ id: ID, action: "allow-once" });
+        expect(parseButtonPress(`/approve ${ID} allow-always`)).toEqual({ id: ID, action: "allow-always" });
+        expect(parseButtonPress(`/approve ${ID} allow-15m`)).toEqual({ id: ID, action: "allow-15m" });
+        expect(parseButtonPress(`/approve ${ID} allow-1h`)).toEqual({ id: ID, action: "allow-1h" });
+        expect(parseButtonPress(`/approve ${ID} deny`)).toEqual({ id: ID, action: "deny" });
+    });
+
+    it("tolerates surrounding whitespace", () => {
+        expect(parseButtonPress(`  /approve ${ID} deny\n`)).toEqual({ id: ID, action: "deny" });
+    });
+
+    it("returns null for unknown actions", () => {
+        expect(parseButtonPress(`/approve ${ID} maybe`)).toBeNull();
+    });
+
+    it("returns null for other text", () => {
+        expect(parseButtonPress("please /approve this")).toBeNull();
+        expect(parseButtonPress(`/approve ${ID} deny because`)).toBeNull();
+    });
+});
+
+// ─── parseFullCommandPress ──────────────────────────────────────────────────
+
+describe("parseFullCommandPress", () => {
+    const ID = "0e9a9d4d-c7e6-4893-972f-2c80d70162c5";
+
+    it("returns the approval ID", () => {
+        expect(parseFullCommandPress(`/approve ${ID.toUpperCase()} full-command `)).toBe(ID);
+    });
+
+    it("ignores decisions and other text", () => {
+        expect(parseFullCommandPress(`/approve ${ID} allow-once`)).toBeNull();
+        expect(parseFullCommandPress("full-command")).toBeNull();
+    });
+});
+
+// ─── parseInputPress ────────────────────────────────────────────────────────
+
+describe("parseInputPress", () => {
+    const ID = "0e9a9d4d-c7e6-4893-972f-2c80d70162c5";
+
+    it("returns the approval ID and what to ask for", () => {
+        expect(parseInputPress(`/approve ${ID.toUpperCase()} deny-reason`)).toEqual({ id: ID, input: "reason" });
+        expect(parseInputPress(`/approve ${ID} edit`)).toEqual({ id: ID, input: "edit" });
+    });
+
+    it("is not mistaken for a plain deny, and vice versa", () => {
+        expect(parseInputPress(`/approve ${ID} deny`)).toBeNull();
+        expect(parseButtonPress(`/approve ${ID} deny-reason`)).toBeNull();
+        expect(parseButtonPress(`/approve ${ID} edit`)).toBeNull();
+    });
+});
+
+// ─── parseScopePress ────────────────────────────────────────────────────────
+
+describe("parseScopePress", () => {
+    const ID = "0e9a9d4d-c7e6-4893-972f-2c80d70162c5";
+
+    it("returns the approval ID and the picked scope", () => {
+        expect(parseScopePress(`/approve ${ID} always-prefix`)).toEqual({ id: ID, scope: "prefix" });
+        expect(parseScopePress(`/approve ${ID.toUpperCase()} ALWAYS-CWD`)).toEqual({ id: ID, scope: "cwd" });
+    });
+
+    it("ignores unknown scopes and plain Always presses", () => {
+        expect(parseScopePress(`/approve ${ID} always-everything`)).toBeNull();
+        expect(parseScopePress(`/approve ${ID} allow-always`)).toBeNull();
+        expect(parseButtonPress(`/approve ${ID} always-exact`)).toBeNull();
+    });
+});
+
+// ─── parseDigestPress ───────────────────────────────────────────────────────
+
+describe("parseDigestPress", () => {
+    it("reads bulk decisions and item toggles", () => {
+        expect(parseDigestPress("/approve 1a2b3c4d allow-all")).toEqual({ id: "1a2b3c4d", action: "allow-all" });
+        expect(parseDigestPress("/approve 1A2B3C4D DENY-ALL")).toEqual({ id: "1a2b3c4d", action: "deny-all" });
+        expect(parseDigestPress("/approve 1a2b3c4d toggle-10")).toEqual({ id: "1a2b3c4d", action: "toggle-10", item: 10 });
+    });
+
+    it("ignores approval IDs, item 0 and other actions", () => {
+        expect(parseDigestPress("/approve 0e9a9d4d-c7e6-4893-972f-2c80d70162c5 allow-all")).toBeNull();
+        expect(parseDigestPress("/approve 1a2b3c4d toggle-0")).toBeNull();
+        expect(parseDigestPress("/approve 1a2b3c4d allow-once")).toBeNull();
+        expect(parseButtonPress("/approve 1a2b3c4d allow-all")).toBeNull();
+    });
+});
+
+// ─── parseExpiresIn ─────────────────────────────────────────────────────────
+
+describe("parseExpiresIn", () => {
+    it("reads durations in the usual spellings", () => {
+        expect(parseExpiresIn("120s")).toBe(120_000);
+        expect(parseExpiresIn("2m")).toBe(120_000);
+        expect(parseExpiresIn("1h 30m")).toBe(5_400_000);
+        expect(parseExpiresIn("90 seconds")).toBe(90_000);
+        expect(parseExpiresIn("5 minutes")).toBe(300_000);
+        expect(parseExpiresIn("1.5h")).toBe(5_400_000);
+        expect(parseExpiresIn("1500ms")).toBe(1_500);
+    });
+
+    it("returns null for anything else", () => {
+        expect(parseExpiresIn("")).toBeNull();
+        expect(parseExpiresIn("never")).toBeNull();
+        expect(parseExpiresIn("120")).toBeNull();
+        expect(parseExpiresIn("2m or so")).toBeNull();
+    });
+});
+
+// ─── parseEditedCommand ─────────────────────────────────────────────────────
+
+describe("parseEditedCommand", () => {
+    it("unwraps code fences and inline code", () => {
+        expect(parseEditedCommand("```bash\nls -la\ncd /tmp\n```")).toBe("ls -la\ncd /tmp");
+        expect(parseEditedCommand(" `rm -i x` ")).toBe("rm -i x");
+    });
+
+    it("keeps plain commands as typed, trimmed", () => {
+        expect(parseEditedCommand("  echo `date`  \n")).toBe("echo `date`");
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync, existsSync, readdirSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { JsonFilePersistence, pendingFilePath, resolveStateDir } from "../lib/approval-persistence.js";
+import type { SentApproval } from "../types.js";
+
+const sampleEntry: SentApproval = {
+    messages: [{ channel: "telegram", ref: { chatId: "c-1", messageId: 100 } }],
+    info: {
+        id: "test-id-001",
+        command: "ls -la",
+        cwd: "/tmp",
+        host: "gateway",
+        agent: "main",
+        security: "allowlist",
+        ask: "on-miss",
+        expires: "120s",
+    },
+    sentAt: 1_700_000_000_000,
+};
+
+describe("JsonFilePersistence", () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "approval-persistence-"));
+        file = join(dir, "nested", "pending.json");
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("returns an empty list when no snapshot exists", () => {
+        expect(new JsonFilePersistence(file).load()).toEqual([]);
+    });
+
+    it("round-trips entries and creates parent directories", () => {
+        const p = new JsonFilePersistence(file);
+        p.save([sampleEntry]);
+        expect(existsSync(file)).toBe(true);
+        expect(p.load()).toEqual([sampleEntry]);
+    });
+
+    it("does not leave temp files behind", () => {
+        new JsonFilePersistence(file).save([sampleEntry]);
+        expect(readdirSync(join(dir, "nested"))).toEqual(["pending.json"]);
+    });
+
+    it("ignores corrupt snapshots", () => {
+        new JsonFilePersistence(file).save([]);
+        writeFileSync(file, "{not json");
+        expect(new JsonFilePersistence(file).load()).toEqual([]);
+    });
+
+    it("ignores snapshots with an unknown version", () => {
+        new JsonFilePersistence(file).save([sampleEntry]);
+        const data = JSON.parse(readFileSync(file, "utf8"));
+        writeFileSync(file, JSON.stringify({ ...data, version: 99 }));
+        expect(new JsonFilePersistence(file).load()).toEqual([]);
+    });
+
+    it("drops malformed entries", () => {
+        new JsonFilePersistence(file).save([sampleEntry]);
+        const data = JSON.parse(readFileSync(file, "utf8"));
+        data.entries.push(
+            { channel: "telegram" },
+            { ...sampleEntry, messages: [{ channel: "telegram", ref: null }] },
+            null,
+        );
+        writeFileSync(file, JSON.stringify(data));
+        expect(new JsonFilePersistence(file).load()).toEqual([sampleEntry]);
+    });
+});
+
+describe("resolveStateDir", () => {
+    it("prefers the explicit override", () => {
+        expect(resolveStateDir("/custom", { OPENCLAW_STATE_DIR: "/env" })).toBe("/custom");
+    });
+
+    it("falls back to OPENCLAW_STATE_DIR", () => {
+        expect(resolveStateDir(undefined, { OPENCLAW_STATE_DIR: "/env" })).toBe("/env");
+    });
+
+    it("defaults to ~/.openclaw", () => {
+        expect(resolveStateDir()).toMatch(/\.openclaw$/);
+    });
+
+    it("places the snapshot under the plugin folder", () => {
+        expect(pendingFilePath("/state")).toBe(join("/state", "plugins", "approval-buttons", "pending.json"));
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { ApprovalStore } from "../lib/approval-store.js";
+import type { ApprovalPersistence } from "../lib/approval-persistence.js";
 import type { ApprovalInfo, SentApproval } from "../types.js";
 
 const sampleInfo: ApprovalInfo = {
@@ -27,19 +28,63 @@ describe("ApprovalStore", () => {
     // ── Basic CRUD ──────────────────────────────────────────────────────────
 
     it("adds and retrieves a telegram approval", () => {
-        store.add("id-1", "telegram", { messageId: 100 }, sampleInfo);
+        store.add("id-1", [{ channel: "telegram", ref: { chatId: "c-1", messageId: 100 } }], sampleInfo);
         expect(store.has("id-1")).toBe(true);
         expect(store.get("id-1")).toBeDefined();
-        expect(store.get("id-1")!.channel).toBe("telegram");
-        expect(store.get("id-1")!.messageId).toBe(100);
+        expect(store.get("id-1")!.messages[0].channel).toBe("telegram");
+        expect(store.get("id-1")!.messages[0].ref).toEqual({ chatId: "c-1", messageId: 100 });
         expect(store.get("id-1")!.info).toEqual(sampleInfo);
     });
 
+    it("tracks every copy of a fanned-out approval", () => {
+        store.add(
+            "id-3",
+            [
+                { channel: "telegram", ref: { chatId: "c-1", messageId: 1 } },
+                { channel: "telegram", ref: { chatId: "c-2", messageId: 2 } },
+                { channel: "slack", ref: { channelId: "C1", ts: "ts-1" } },
+            ],
+            sampleInfo,
+        );
+        expect(store.pendingCount).toBe(1);
+        expect(store.get("id-3")!.messages).toHaveLength(3);
+    });
+
+    it("records each approver's vote once", () => {
+        store.add("id-4", [{ channel: "telegram", ref: { chatId: "c-1", messageId: 1 } }], sampleInfo);
+        store.addVote("id-4", { userId: "1", name: "@alice" });
+        store.addVote("id-4", { userId: "1", name: "@alice" });
+        expect(store.addVote("id-4", { userId: "2", name: "@bob" })).toEqual([
+            { userId: "1", name: "@alice" },
+            { userId: "2", name: "@bob" },
+        ]);
+        expect(store.addVote("unknown", { userId: "1", name: "@alice" })).toBeUndefined();
+    });
+
+    it("replaces the copies of a pending approval", () => {
+        store.add("id-5", [{ channel: "telegram", ref: { chatId: "c-1", messageId: 1 } }], sampleInfo);
+        const copies = [{ channel: "telegram", ref: { chatId: "c-1", messageId: 1 }, digest: "1a2b3c4d" }];
+        expect(store.setMessages("id-5", copies)).toBe(true);
+        expect(store.get("id-5")!.messages).toEqual(copies);
+        expect(store.setMessages("unknown", copies)).toBe(false);
+    });
+
+    it("records escalation steps and the copies they sent", () => {
+        const original = { channel: "telegram", ref: { chatId: "c-1", messageId: 1 } };
+        const escalated = { channel: "telegram", ref: { chatId: "c-9", messageId: 7 } };
+        store.add("id-6", [original], sampleInfo);
+        const step = { kind: "escalation" as const, afterMs: 300_000, channels: ["telegram"] };
+        expect(store.addEscalation("id-6", step, [escalated])).toBe(true);
+        expect(store.get("id-6")!.escalations).toEqual([step]);
+        expect(store.get("id-6")!.messages).toEqual([original, escalated]);
+        expect(store.addEscalation("unknown", step)).toBe(false);
+    });
+
     it("adds and retrieves a slack approval", () => {
-        store.add("id-2", "slack", { slackTs: "1234567890.123456" }, sampleInfo);
+        store.add("id-2", [{ channel: "slack", ref: { channelId: "C1", ts: "1234567890.123456" } }], sampleInfo);
         expect(store.has("id-2")).toBe(true);
-        expect(store.get("id-2")!.channel).toBe("slack");
-        expect(store.get("id-2")!.slackTs).toBe("1234567890.123456");
+        expect(store.get("id-2")!.messages[0].channel).toBe("slack");
+        expect(store.get("id-2")!.messages[0].ref.ts).toBe("1234567890.123456");
     });
 
     it("returns undefined for unknown IDs", () => {
@@ -49,19 +94,19 @@ describe("ApprovalStore", () => {
 
     it("tracks pending count", () => {
         expect(store.pendingCount).toBe(0);
-        store.add("id-1", "telegram", { messageId: 100 }, sampleInfo);
-        store.add("id-2", "slack", { slackTs: "ts-1" }, sampleInfo);
+        store.add("id-1", [{ channel: "telegram", ref: { chatId: "c-1", messageId: 100 } }], sampleInfo);
+        store.add("id-2", [{ channel: "slack", ref: { channelId: "C1", ts: "ts-1" } }], sampleInfo);
         expect(store.pendingCount).toBe(2);
     });
 
     // ── Resolve ─────────────────────────────────────────────────────────────
 
     it("resolves an approval and increments processed count", () => {
-        store.add("id-1", "telegram", { messageId: 100 }, sampleInfo);
+        store.add("id-1", [{ channel: "telegram", ref: { chatId: "c-1", messageId: 100 } }], sampleInfo);
         const entry = store.resolve("id-1");
 
         expect(entry).toBeDefined();
-        expect(entry!.messageId).toBe(100);
+        expect(entry!.messages[0].ref.messageId).toBe(100);
         expect(store.has("id-1")).toBe(false);
         expect(store.pendingCount).toBe(0);
         expect(store.processedCount).toBe(1);
@@ -76,8 +121,8 @@ describe("ApprovalStore", () => {
     // ── Entries (read-only view) ────────────────────────────────────────────
 
     it("provides read-only entries map", () => {
-        store.add("id-1", "telegram", { messageId: 100 }, sampleInfo);
-        store.add("id-2", "slack", { slackTs: "ts-1" }, sampleInfo);
+        store.add("id-1", [{ channel: "telegram", ref: { chatId: "c-1", messageId: 100 } }], sampleInfo);
+        store.add("id-2", [{ channel: "slack", ref: { channelId: "C1", ts: "ts-1" } }], sampleInfo);
         const entries = store.entries();
         expect(entries.size).toBe(2);
         expect(entries.has("id-1")).toBe(true);
@@ -89,7 +134,7 @@ describe("ApprovalStore", () => {
         vi.useFakeTimers();
         const shortStore = new ApprovalStore(1000); // 1s TTL
 
-        shortStore.add("id-1", "telegram", { messageId: 100 }, sampleInfo);
+        shortStore.add("id-1", [{ channel: "telegram", ref: { chatId: "c-1", messageId: 100 } }], sampleInfo);
 
         // Not stale yet
         expect(shortStore.cleanStale()).toBe(0);
@@ -104,18 +149,38 @@ describe("ApprovalStore", () => {
         vi.useRealTimers();
     });
 
+    it("expires entries at their deadline, before the TTL", () => {
+        vi.useFakeTimers();
+        const onExpired = vi.fn();
+        const store = new ApprovalStore(600_000, undefined, onExpired);
+
+        store.add("id-1", [], sampleInfo, Date.now() + 120_000);
+        store.add("id-2", [], sampleInfo);
+        expect(store.get("id-1")!.deadline).toBe(Date.now() + 120_000);
+
+        vi.advanceTimersByTime(119_000);
+        expect(store.cleanStale()).toBe(0);
+        vi.advanceTimersByTime(1_000);
+        expect(store.cleanStale()).toBe(1);
+        expect(store.has("id-1")).toBe(false);
+        expect(store.has("id-2")).toBe(true);
+        expect(onExpired).toHaveBeenCalledTimes(1);
+
+        vi.useRealTimers();
+    });
+
     it("calls onExpired callback for stale entries", () => {
         vi.useFakeTimers();
         const onExpired = vi.fn();
         const shortStore = new ApprovalStore(1000, undefined, onExpired);
 
-        shortStore.add("id-1", "telegram", { messageId: 100 }, sampleInfo);
+        shortStore.add("id-1", [{ channel: "telegram", ref: { chatId: "c-1", messageId: 100 } }], sampleInfo);
         vi.advanceTimersByTime(1500);
         shortStore.cleanStale();
 
         expect(onExpired).toHaveBeenCalledTimes(1);
         expect(onExpired).toHaveBeenCalledWith(
-            expect.objectContaining({ channel: "telegram", messageId: 100 }),
+            expect.objectContaining({ messages: [{ channel: "telegram", ref: { chatId: "c-1", messageId: 100 } }] }),
         );
 
         shortStore.stop();
@@ -129,7 +194,7 @@ describe("ApprovalStore", () => {
         });
         const shortStore = new ApprovalStore(1000, undefined, onExpired);
 
-        shortStore.add("id-1", "telegram", { messageId: 100 }, sampleInfo);
+        shortStore.add("id-1", [{ channel: "telegram", ref: { chatId: "c-1", messageId: 100 } }], sampleInfo);
         vi.advanceTimersByTime(1500);
 
         // Should not throw
@@ -151,4 +216,156 @@ describe("ApprovalStore", () => {
     it("stop without start is safe", () => {
         expect(() => store.stop()).not.toThrow();
     });
+
+    // ── Expiry timers ─────────────────────────────────────────────────────
+
+    describe("expiry timers", () => {
+        const copy = { channel: "telegram", ref: { chatId: "c-1", messageId: 1 } };
+        let onExpired: ReturnType<typeof vi.fn>;
+        let timed: ApprovalStore;
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+            onExpired = vi.fn();
+            timed = new ApprovalStore(600_000, undefined, onExpired); // 10 min cap
+            timed.start();
+        });
+
+        afterEach(() => {
+            timed.stop();
+            vi.useRealTimers();
+        });
+
+        it("expires each approval at its own deadline", () => {
+            timed.add("id-short", [copy], sampleInfo, Date.now() + 120_000);
+            timed.add("id-long", [copy], sampleInfo, Date.now() + 300_000);
+
+            vi.advanceTimersByTime(119_999);
+            expect(onExpired).not.toHaveBeenCalled();
+            vi.advanceTimersByTime(1);
+            expect(onExpired).toHaveBeenCalledTimes(1);
+            expect(timed.has("id-short")).toBe(false);
+            expect(timed.has("id-long")).toBe(true);
+
+            vi.advanceTimersByTime(180_000);
+            expect(onExpired).toHaveBeenCalledTimes(2);
+            expect(timed.pendingCount).toBe(0);
+        });
+
+        it("caps approvals at staleTtlMs, with or without a deadline", () => {
+            timed.add("id-none", [copy], sampleInfo);
+            timed.add("id-far", [copy], sampleInfo, Date.now() + 3_600_000);
+
+            vi.advanceTimersByTime(599_999);
+            expect(timed.pendingCount).toBe(2);
+            vi.advanceTimersByTime(1);
+            expect(timed.pendingCount).toBe(0);
+            expect(onExpired).toHaveBeenCalledTimes(2);
+        });
+
+        it("does not expire approvals resolved before their deadline", () => {
+            timed.add("id-1", [copy], sampleInfo, Date.now() + 120_000);
+            timed.resolve("id-1");
+
+            vi.advanceTimersByTime(600_000);
+            expect(onExpired).not.toHaveBeenCalled();
+        });
+
+        it("arms timers for entries added before start", () => {
+            const later = new ApprovalStore(600_000, undefined, onExpired);
+            later.add("id-1", [copy], sampleInfo, Date.now() + 60_000);
+
+            vi.advanceTimersByTime(60_000);
+            expect(onExpired).not.toHaveBeenCalled();
+            later.start();
+            expect(onExpired).toHaveBeenCalledTimes(1);
+            later.stop();
+        });
+
+        it("stops expiring once stopped", () => {
+            timed.add("id-1", [copy], sampleInfo, Date.now() + 120_000);
+            timed.stop();
+
+            vi.advanceTimersByTime(600_000);
+            expect(onExpired).not.toHaveBeenCalled();
+            expect(timed.has("id-1")).toBe(true);
+        });
+
+        it("handles caps longer than setTimeout allows", () => {
+            const days = 24 * 3_600_000;
+            const longCap = new ApprovalStore(40 * days, undefined, onExpired);
+            longCap.start();
+            longCap.add("id-1", [copy], sampleInfo);
+
+            vi.advanceTimersByTime(30 * days);
+            expect(onExpired).not.toHaveBeenCalled();
+            vi.advanceTimersByTime(10 * days);
+            expect(onExpired).toHaveBeenCalledTimes(1);
+            longCap.stop();
+        });
+    });
+
+    // ── Persistence ───────────────────────────────────────────────────────
+
+    function memoryPersistence(initial: SentApproval[] = []) {
+        const saved: SentApproval[][] = [];
+        const backend: ApprovalPersistence = {
+            load: () => initial,
+            save: (entries) => { saved.push(entries); },
+        };
+        return { backend, saved };
+    }
+
+    it("writes through to the persistence backend", () => {
+        const { backend, saved } = memoryPersistence();
+        const persisted = new ApprovalStore(600_000, undefined, undefined, backend);
+
+        persisted.add("id-1", [{ channel: "telegram", ref: { chatId: "c-1", messageId: 100 } }], sampleInfo);
+        expect(saved.at(-1)).toHaveLength(1);
+
+        persisted.resolve("id-1");
+        expect(saved.at(-1)).toHaveLength(0);
+    });
+
+    it("rehydrates persisted entries on start", () => {
+        const entry: SentApproval = {
+            messages: [{ channel: "slack", ref: { channelId: "C1", ts: "ts-1" } }],
+            info: { ...sampleInfo, id: "id-restored" },
+            sentAt: Date.now(),
+        };
+        const { backend } = memoryPersistence([entry]);
+        const persisted = new ApprovalStore(600_000, undefined, undefined, backend);
+
+        persisted.start();
+        expect(persisted.get("id-restored")).toEqual(entry);
+        persisted.stop();
+    });
+
+    it("expires rehydrated entries that went stale while down", () => {
+        const onExpired = vi.fn();
+        const entry: SentApproval = {
+            messages: [{ channel: "telegram", ref: { chatId: "c-1", messageId: 7 } }],
+            info: { ...sampleInfo, id: "id-old" },
+            sentAt: Date.now() - 60_000,
+        };
+        const { backend, saved } = memoryPersistence([entry]);
+        const persisted = new ApprovalStore(1000, undefined, onExpired, backend);
+
+        persisted.start();
+        expect(onExpired).toHaveBeenCalledWith(expect.objectContaining({ info: expect.objectContaining({ id: "id-old" }) }));
+        expect(persisted.pendingCount).toBe(0);
+        expect(saved.at(-1)).toEqual([]);
+        persisted.stop();
+    });
+
+    it("only rehydrates on the first start", () => {
+        const load = vi.fn(() => [] as SentApproval[]);
+        const persisted = new ApprovalStore(600_000, undefined, undefined, { load, save: () => {} });
+
+        persisted.start();
+        persisted.stop();
+        persisted.start();
+        persisted.stop();
+        expect(load).toHaveBeenCalledTimes(1);
+    });
 });
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+    ApproverPolicy,
+    requiredApprovals,
+    senderIdFrom,
+    senderNameFrom,
+} from "../lib/approver-policy.js";
+
+// ─── ApproverPolicy ─────────────────────────────────────────────────────────
+
+describe("ApproverPolicy", () => {
+    const policy = new ApproverPolicy(
+        { telegram: ["111", "222"], slack: ["U1"] },
+        { telegram: ["111"] },
+    );
+
+    it("lets anyone press on channels without a list", () => {
+        expect(policy.isRestricted("discord")).toBe(false);
+        expect(policy.authorize("discord", "999", "allow-always")).toEqual({ ok: true });
+        expect(policy.authorize("discord", undefined, "deny")).toEqual({ ok: true });
+    });
+
+    it("allows listed approvers", () => {
+        expect(policy.authorize("telegram", "222", "allow-once")).toEqual({ ok: true });
+        expect(policy.authorize("telegram", "222", "deny")).toEqual({ ok: true });
+    });
+
+    it("rejects senders that are not listed", () => {
+        expect(policy.authorize("telegram", "333", "deny")).toEqual({ ok: false, reason: "not an approver" });
+    });
+
+    it("rejects presses without a sender on restricted channels", () => {
+        expect(policy.authorize("telegram", undefined, "allow-once")).toEqual({ ok: false, reason: "unknown sender" });
+    });
+
+    it("applies the stricter always-approvers list to allow-always", () => {
+        expect(policy.authorize("telegram", "111", "allow-always")).toEqual({ ok: true });
+        expect(policy.authorize("telegram", "222", "allow-always")).toEqual({
+            ok: false,
+            reason: "not an always-approver",
+        });
+    });
+
+    it("falls back to approvers for allow-always when no stricter list is set", () => {
+        expect(policy.authorize("slack", "U1", "allow-always")).toEqual({ ok: true });
+        expect(policy.authorize("slack", "U2", "allow-always").ok).toBe(false);
+    });
+
+    it("restricts only allow-always when a channel has just an always-approvers list", () => {
+        const onlyAlways = new ApproverPolicy({}, { slack: ["U1"] });
+        expect(onlyAlways.isRestricted("slack")).toBe(true);
+        expect(onlyAlways.authorize("slack", "U2", "allow-once")).toEqual({ ok: true });
+        expect(onlyAlways.authorize("slack", "U2", "allow-always").ok).toBe(false);
+    });
+});
+
+// ─── senderIdFrom ───────────────────────────────────────────────────────────
+
+describe("senderIdFrom", () => {
+    it("prefers explicit metadata", () => {
+        expect(senderIdFrom("telegram:1", { senderId: "42" })).toBe("42");
+        expect(senderIdFrom(undefined, { userId: 42 })).toBe("42");
+        expect(senderIdFrom(undefined, { user: { id: "U123" } })).toBe("U123");
+        expect(senderIdFrom(undefined, { from: { id: 7 } })).toBe("7");
+    });
+
+    it("strips a channel prefix from the event sender", () => {
+        expect(senderIdFrom("telegram:123456")).toBe("123456");
+        expect(senderIdFrom("U0123")).toBe("U0123");
+    });
+
+    it("returns undefined when nothing identifies the sender", () => {
+        expect(senderIdFrom(undefined, {})).toBeUndefined();
+        expect(senderIdFrom("  ")).toBeUndefined();
+    });
+});
+
+// ─── senderNameFrom ─────────────────────────────────────────────────────────
+
+describe("senderNameFrom", () => {
+    it("prefers a username", () => {
+        expect(senderNameFrom("telegram:1", { username: "alice" })).toBe("@alice");
+        expect(senderNameFrom(undefined, { from: { username: "@bob" } })).toBe("@bob");
+    });
+
+    it("falls back to a display name, then the ID", () => {
+        expect(senderNameFrom(undefined, { senderName: "Alice" })).toBe("Alice");
+        expect(senderNameFrom("telegram:42")).toBe("42");
+    });
+});
+
+// ─── requiredApprovals ──────────────────────────────────────────────────────
+
+describe("requiredApprovals", () => {
+    const quorum = { patterns: [/\brm\s+-rf\b/i, /^kubectl delete/i], size: 3 };
+
+    it("requires the quorum size for matching commands", () => {
+        expect(requiredApprovals("sudo rm -rf /var", quorum)).toBe(3);
+        expect(requiredApprovals("kubectl delete ns prod", quorum)).toBe(3);
+    });
+
+    it("requires one approval otherwise", () => {
+        expect(requiredApprovals("ls -la", quorum)).toBe(1);
+        expect(requiredApprovals("rm -rf /", null)).toBe(1);
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AuditLog } from "../lib/audit-log.js";
+import type { SentApproval } from "../types.js";
+
+function makeEntry(id: string, sentAt = Date.now() - 5_000): SentApproval {
+    return {
+        messages: [
+            { channel: "telegram", ref: { chatId: "c-1", messageId: 1 } },
+            { channel: "telegram", ref: { chatId: "c-2", messageId: 2 } },
+        ],
+        info: {
+            id,
+            command: "ls -la",
+            cwd: "/tmp",
+            host: "gateway",
+            agent: "main",
+            security: "allowlist",
+            ask: "on-miss",
+            expires: "120s",
+        },
+        sentAt,
+    };
+}
+
+describe("AuditLog", () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "audit-log-"));
+        file = join(dir, "audit.jsonl");
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("appends one JSON line per record with all fields", () => {
+        const log = new AuditLog(file, 1_000_000, 3);
+        log.record(makeEntry("id-1"), "allow-once", "@alice");
+        log.record(makeEntry("id-2"), "expired");
+
+        const lines = readFileSync(file, "utf8").trim().split("\n");
+        expect(lines).toHaveLength(2);
+
+        const first = JSON.parse(lines[0]);
+        expect(first).toMatchObject({
+            id: "id-1",
+            command: "ls -la",
+            cwd: "/tmp",
+            agent: "main",
+            channels: ["telegram"],
+            outcome: "allow-once",
+            decidedBy: "@alice",
+        });
+        expect(first.resolvedAt).toBeGreaterThanOrEqual(first.sentAt);
+        expect(first.latencyMs).toBe(first.resolvedAt - first.sentAt);
+        expect(JSON.parse(lines[1]).decidedBy).toBeUndefined();
+    });
+
+    it("records the reason or edited command given for a deny", () => {
+        const log = new AuditLog(file, 1_000_000, 3);
+        log.record(makeEntry("id-1"), "deny", "@alice", { reason: "wrong cluster" });
+        log.record(makeEntry("id-2"), "deny", "@alice");
+        log.record(makeEntry("id-3"), "deny", "@alice", { editedCommand: "ls -la" });
+
+        const [first, second, third] = log.tail(3).reverse();
+        expect(first.reason).toBe("wrong cluster");
+        expect(second).not.toHaveProperty("reason");
+        expect(second).not.toHaveProperty("editedCommand");
+        expect(third.editedCommand).toBe("ls -la");
+    });
+
+    it("returns the last N records newest first", () => {
+        const log = new AuditLog(file, 1_000_000, 3);
+        for (let i = 1; i <= 5; i++) log.record(makeEntry(`id-${i}`), "deny");
+
+        expect(log.tail(2).map((r) => r.id)).toEqual(["id-5", "id-4"]);
+        expect(log.tail(10)).toHaveLength(5);
+    });
+
+    it("returns an empty list when nothing was recorded", () => {
+        expect(new AuditLog(file, 1_000_000, 3).tail(10)).toEqual([]);
+    });
+
+    it("rotates when the file exceeds maxBytes and reads across rotations", () => {
+        const log = new AuditLog(file, 400, 2);
+        for (let i = 1; i <= 4; i++) log.record(makeEntry(`id-${i}`), "allow-once");
+
+        expect(existsSync(`${file}.1`)).toBe(true);
+        expect(log.tail(3).map((r) => r.id)).toEqual(["id-4", "id-3", "id-2"]);
+    });
+
+    it("keeps at most maxFiles rotated files", () => {
+        const log = new AuditLog(file, 100, 2);
+        for (let i = 1; i <= 6; i++) log.record(makeEntry(`id-${i}`), "allow-once");
+
+        expect(existsSync(`${file}.2`)).toBe(true);
+        expect(existsSync(`${file}.3`)).toBe(false);
+        expect(log.tail(10).map((r) => r.id)).toEqual(["id-6", "id-5", "id-4"]);
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { AdapterRegistry, sharedAdapterRegistry } from "../lib/channel-adapter.js";
+import type { ChannelAdapter } from "../types.js";
+
+function fakeAdapter(id: string): ChannelAdapter {
+    return {
+        id,
+        label: id.toUpperCase(),
+        sendRequest: async () => ({ messageId: 1 }),
+        markResolved: async () => true,
+        markExpired: async () => true,
+        probe: async () => ({ ok: true, detail: id }),
+    };
+}
+
+describe("AdapterRegistry", () => {
+    it("registers and looks up adapters by channel ID", () => {
+        const registry = new AdapterRegistry();
+        const adapter = fakeAdapter("matrix");
+        registry.register(adapter);
+
+        expect(registry.get("matrix")).toBe(adapter);
+        expect(registry.get("telegram")).toBeUndefined();
+        expect(registry.size).toBe(1);
+    });
+
+    it("lists adapters in registration order", () => {
+        const registry = new AdapterRegistry();
+        registry.register(fakeAdapter("telegram"));
+        registry.register(fakeAdapter("slack"));
+        expect(registry.list().map((a) => a.id)).toEqual(["telegram", "slack"]);
+    });
+
+    it("replaces an adapter registered under the same ID", () => {
+        const registry = new AdapterRegistry();
+        registry.register(fakeAdapter("telegram"));
+        const replacement = fakeAdapter("telegram");
+        registry.register(replacement);
+
+        expect(registry.get("telegram")).toBe(replacement);
+        expect(registry.size).toBe(1);
+    });
+
+    it("returns an unregister function", () => {
+        const registry = new AdapterRegistry();
+        const unregister = registry.register(fakeAdapter("matrix"));
+        unregister();
+        expect(registry.get("matrix")).toBeUndefined();
+    });
+
+    it("unregister does not remove a newer replacement", () => {
+        const registry = new AdapterRegistry();
+        const unregister = registry.register(fakeAdapter("matrix"));
+        const replacement = fakeAdapter("matrix");
+        registry.register(replacement);
+        unregister();
+        expect(registry.get("matrix")).toBe(replacement);
+    });
+
+    it("rejects adapters without an ID", () => {
+        const registry = new AdapterRegistry();
+        expect(() => registry.register(fakeAdapter(""))).toThrow();
+    });
+});
+
+describe("sharedAdapterRegistry", () => {
+    it("returns the same registry on every call", () => {
+        expect(sharedAdapterRegistry()).toBe(sharedAdapterRegistry());
+    });
+});
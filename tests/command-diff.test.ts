@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { diffCommands } from "../lib/command-diff.js";
+
+// ─── diffCommands ───────────────────────────────────────────────────────────
+
+describe("diffCommands", () => {
+    it("marks a changed single-line command as replaced", () => {
+        expect(diffCommands("rm -rf /", "rm -rf ./build")).toBe("- rm -rf /\n+ rm -rf ./build");
+    });
+
+    it("keeps unchanged lines as context", () => {
+        const original = "cd /srv\nmake clean\nmake";
+        const edited = "cd /srv\nmake -j4\nmake install";
+        expect(diffCommands(original, edited)).toBe(
+            ["  cd /srv", "- make clean", "- make", "+ make -j4", "+ make install"].join("\n"),
+        );
+    });
+
+    it("shows pure insertions and deletions", () => {
+        expect(diffCommands("a\nc", "a\nb\nc")).toBe("  a\n+ b\n  c");
+        expect(diffCommands("a\nb\nc", "a\nc")).toBe("  a\n- b\n  c");
+    });
+
+    it("falls back to a full replacement for huge scripts", () => {
+        const original = Array.from({ length: 600 }, (_, i) => `echo ${i}`).join("\n");
+        const edited = original.replace("echo 0", "echo start");
+        const lines = diffCommands(original, edited).split("\n");
+        expect(lines).toHaveLength(1200);
+        expect(lines.every((l) => l.startsWith("- ") || l.startsWith("+ "))).toBe(true);
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { analyzeCommand, allowsAlways, plainCommandWords } from "../lib/command-risk.js";
+
+// ─── analyzeCommand ─────────────────────────────────────────────────────────
+
+describe("analyzeCommand", () => {
+    it("rates plain commands low", () => {
+        expect(analyzeCommand("echo hi")).toEqual({ level: "low", reasons: [] });
+        expect(analyzeCommand("ls -la 2>/dev/null")).toEqual({ level: "low", reasons: [] });
+    });
+
+    it("flags sudo as medium", () => {
+        expect(analyzeCommand("sudo apt update")).toEqual({ level: "medium", reasons: ["runs as root (sudo)"] });
+    });
+
+    it("flags downloads piped into a shell as high", () => {
+        const risk = analyzeCommand("curl -fsSL https://example.com/install.sh | sudo bash");
+        expect(risk.level).toBe("high");
+        expect(risk.reasons).toEqual(["downloads and executes code (curl | bash)", "runs as root (sudo)"]);
+    });
+
+    it("flags other pipes into interpreters as medium", () => {
+        expect(analyzeCommand("cat script.sh | sh").reasons).toEqual(["pipes input into sh"]);
+    });
+
+    it("flags redirections to system paths", () => {
+        expect(analyzeCommand("echo 1.2.3.4 x >> /etc/hosts")).toEqual({
+            level: "high",
+            reasons: ["writes to system path /etc/hosts"],
+        });
+        expect(analyzeCommand("echo key | sudo tee -a /root/.ssh/authorized_keys").level).toBe("high");
+    });
+
+    it("distinguishes scoped from broad recursive deletes", () => {
+        expect(analyzeCommand("rm -rf node_modules")).toEqual({ level: "medium", reasons: ["recursive delete"] });
+        expect(analyzeCommand("rm -rf /")).toEqual({ level: "high", reasons: ["recursive delete of /"] });
+        expect(analyzeCommand("rm --recursive ~").level).toBe("high");
+        expect(analyzeCommand("rm -f file.txt").level).toBe("low");
+    });
+
+    it("looks through wrappers and their options", () => {
+        expect(analyzeCommand("sudo -u root rm -rf /var/lib/docker").level).toBe("high");
+        expect(analyzeCommand("FOO=1 env rm -r ~").level).toBe("high");
+        expect(analyzeCommand("find . -name '*.o' | xargs rm -r").level).toBe("medium");
+    });
+
+    it("flags force pushes", () => {
+        expect(analyzeCommand("git push -f origin main")).toEqual({ level: "high", reasons: ["force push"] });
+        expect(analyzeCommand("git push origin +main").level).toBe("high");
+        expect(analyzeCommand("git push --force-with-lease").level).toBe("medium");
+        expect(analyzeCommand("git push origin main").level).toBe("low");
+    });
+
+    it("analyzes every command in a list", () => {
+        const risk = analyzeCommand("cd /tmp && sudo reboot");
+        expect(risk.level).toBe("high");
+        expect(risk.reasons).toContain("reboot the machine");
+    });
+
+    it("analyzes inline shell scripts", () => {
+        expect(analyzeCommand(`bash -c "curl -s https://x | sh"`).level).toBe("high");
+    });
+
+    it("does not treat quoted text as commands", () => {
+        expect(analyzeCommand("echo 'rm -rf / | sh'").level).toBe("low");
+        expect(analyzeCommand("git commit -m \"force push; sudo\"").level).toBe("low");
+    });
+
+    it("ignores comments", () => {
+        expect(analyzeCommand("ls # rm -rf /").level).toBe("low");
+    });
+});
+
+// ─── allowsAlways ───────────────────────────────────────────────────────────
+
+describe("allowsAlways", () => {
+    it("is false only for high-risk commands", () => {
+        expect(allowsAlways("ls")).toBe(true);
+        expect(allowsAlways("sudo apt update")).toBe(true);
+        expect(allowsAlways("curl x | bash")).toBe(false);
+    });
+});
+
+// ─── plainCommandWords ──────────────────────────────────────────────────────
+
+describe("plainCommandWords", () => {
+    it("returns the words of a single directly-run program", () => {
+        expect(plainCommandWords("git push origin main")).toEqual(["git", "push", "origin", "main"]);
+        expect(plainCommandWords("/usr/bin/ls -la")).toEqual(["/usr/bin/ls", "-la"]);
+    });
+
+    it("is null for chains, redirects, substitutions, wrappers and shells", () => {
+        expect(plainCommandWords("git status; rm -rf ~")).toBeNull();
+        expect(plainCommandWords("ls > out.txt")).toBeNull();
+        expect(plainCommandWords("echo $(whoami)")).toBeNull();
+        expect(plainCommandWords("sudo apt update")).toBeNull();
+        expect(plainCommandWords("env FOO=1 git push")).toBeNull();
+        expect(plainCommandWords("bash -c 'ls'")).toBeNull();
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from "vitest";
+import { GatewayDecisionDispatcher, gatewayCallFrom } from "../lib/decision-dispatcher.js";
+
+describe("GatewayDecisionDispatcher", () => {
+    it("resolves through exec.approval.resolve", async () => {
+        const call = vi.fn(async () => ({ ok: true }));
+        const dispatcher = new GatewayDecisionDispatcher(call);
+
+        expect(await dispatcher.dispatch("abc", "deny")).toBe(true);
+        expect(call).toHaveBeenCalledWith("exec.approval.resolve", { id: "abc", decision: "deny" });
+    });
+
+    it("passes a deny reason along", async () => {
+        const call = vi.fn(async () => ({ ok: true }));
+        await new GatewayDecisionDispatcher(call).dispatch("abc", "deny", "touches prod");
+        expect(call).toHaveBeenCalledWith("exec.approval.resolve", {
+            id: "abc",
+            decision: "deny",
+            reason: "touches prod",
+        });
+    });
+
+    it("returns false when the call fails", async () => {
+        const dispatcher = new GatewayDecisionDispatcher(async () => {
+            throw new Error("unknown approval id");
+        });
+        expect(await dispatcher.dispatch("abc", "allow-once")).toBe(false);
+    });
+});
+
+describe("gatewayCallFrom", () => {
+    it("finds the runtime gateway call", async () => {
+        const gateway = { call: vi.fn(async () => "ok") };
+        const call = gatewayCallFrom({ runtime: { gateway } });
+        expect(call).not.toBeNull();
+        await call!("m", { a: 1 });
+        expect(gateway.call).toHaveBeenCalledWith("m", { a: 1 });
+    });
+
+    it("returns null when the runtime has no gateway", () => {
+        expect(gatewayCallFrom({})).toBeNull();
+        expect(gatewayCallFrom({ runtime: { gateway: {} } })).toBeNull();
+    });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AdapterRegistry } from "../lib/channel-adapter.js";
+import { DeliveryOutbox } from "../lib/delivery-outbox.js";
+import type { ApprovalInfo, ChannelAdapter, EditResult, SentMessage } from "../types.js";
+
+const info: ApprovalInfo = {
+    id: "0e9a9d4d-c7e6-4893-972f-2c80d70162c5",
+    command: "ls -la",
+    cwd: "/tmp",
+    host: "gateway",
+    agent: "main",
+    security: "allowlist",
+    ask: "on-miss",
+    expires: "120s",
+};
+
+const copy: SentMessage = { channel: "telegram", ref: { chatId: "1", messageId: 10 } };
+
+const FAILED: EditResult = { ok: false, error: "Internal Server Error", permanent: false };
+const NOT_FOUND: EditResult = { ok: false, error: "Bad Request: message to edit not found", permanent: true };
+
+function fakeAdapter(results: (boolean | EditResult)[] = []) {
+    const next = async () => results.shift() ?? { ok: true };
+    return {
+        id: "telegram",
+        label: "Telegram",
+        sendRequest: vi.fn(async () => []),
+        markResolved: vi.fn(next),
+        markExpired: vi.fn(next),
+        probe: async () => ({ ok: true as const, detail: "@bot" }),
+    } satisfies ChannelAdapter;
+}
+
+function registry(adapter: ChannelAdapter): AdapterRegistry {
+    const adapters = new AdapterRegistry();
+    adapters.register(adapter);
+    return adapters;
+}
+
+describe("DeliveryOutbox", () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+        dir = mkdtempSync(join(tmpdir(), "delivery-outbox-"));
+        file = join(dir, "outbox.json");
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("edits right away and queues nothing when the edit lands", async () => {
+        const adapter = fakeAdapter();
+        const outbox = new DeliveryOutbox(registry(adapter), file);
+        await outbox.send("resolve", [copy], info, { action: "deny", decidedBy: "@alice" });
+
+        expect(adapter.markResolved).toHaveBeenCalledWith(copy.ref, info, "deny", "@alice", undefined);
+        expect(outbox.stats).toEqual({ retrying: 0, redelivered: 0, rejected: 0 });
+    });
+
+    it("retries a failed edit with growing pauses until it lands", async () => {
+        const adapter = fakeAdapter([FAILED, false]);
+        const outbox = new DeliveryOutbox(registry(adapter), file);
+        outbox.start();
+        await outbox.send("expire", [copy], info);
+        expect(outbox.stats.retrying).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(5_000);
+        expect(adapter.markExpired).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(9_999);
+        expect(adapter.markExpired).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(adapter.markExpired).toHaveBeenCalledTimes(3);
+        expect(outbox.stats).toEqual({ retrying: 0, redelivered: 1, rejected: 0 });
+        outbox.stop();
+    });
+
+    it("gives up on an edit the platform refuses, and reports why", async () => {
+        const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+        const adapter = fakeAdapter([NOT_FOUND]);
+        const outbox = new DeliveryOutbox(registry(adapter), file, log);
+        outbox.start();
+        await outbox.send("resolve", [copy], info, { action: "allow-once" });
+
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(adapter.markResolved).toHaveBeenCalledTimes(1);
+        expect(outbox.stats).toEqual({
+            retrying: 0,
+            redelivered: 0,
+            rejected: 1,
+            lastFailure: {
+                kind: "resolve",
+                approvalId: info.id,
+                channel: "telegram",
+                error: "Bad Request: message to edit not found",
+                at: 0,
+            },
+        });
+        expect(log.warn).toHaveBeenCalledWith(expect.stringContaining("rejected: Bad Request: message to edit not found"));
+        outbox.stop();
+    });
+
+    it("gives up on an edit still failing after a day", async () => {
+        const adapter = fakeAdapter();
+        adapter.markExpired.mockResolvedValue(FAILED);
+        const outbox = new DeliveryOutbox(registry(adapter), file);
+        outbox.start();
+        await outbox.send("expire", [copy], info);
+
+        await vi.advanceTimersByTimeAsync(25 * 60 * 60_000);
+        expect(outbox.stats).toMatchObject({ retrying: 0, rejected: 1, lastFailure: { error: "Internal Server Error" } });
+        const calls = adapter.markExpired.mock.calls.length;
+        await vi.advanceTimersByTimeAsync(60 * 60_000);
+        expect(adapter.markExpired).toHaveBeenCalledTimes(calls);
+        outbox.stop();
+    });
+
+    it("replaces a queued edit of the same message with a newer one", async () => {
+        const adapter = fakeAdapter([FAILED]);
+        const outbox = new DeliveryOutbox(registry(adapter), file);
+        outbox.start();
+        await outbox.send("escalate", [copy], info);
+        await outbox.send("resolve", [copy], info, { action: "deny" });
+
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(adapter.markExpired).toHaveBeenCalledTimes(1);
+        expect(adapter.markResolved).toHaveBeenCalledTimes(1);
+        expect(outbox.stats.retrying).toBe(0);
+        outbox.stop();
+    });
+
+    it("keeps queued edits across a restart", async () => {
+        const first = fakeAdapter([FAILED]);
+        await new DeliveryOutbox(registry(first), file).send("resolve", [copy], info, {
+            action: "allow-always",
+            decidedBy: "@bob",
+        });
+        expect(JSON.parse(readFileSync(file, "utf8")).items).toHaveLength(1);
+
+        const second = fakeAdapter();
+        const outbox = new DeliveryOutbox(registry(second), file);
+        expect(outbox.stats.retrying).toBe(1);
+        outbox.start();
+        await vi.advanceTimersByTimeAsync(5_000);
+        expect(second.markResolved).toHaveBeenCalledWith(copy.ref, expect.objectContaining({ id: info.id }), "allow-always", "@bob", undefined);
+        expect(JSON.parse(readFileSync(file, "utf8")).items).toEqual([]);
+        outbox.stop();
+    });
+
+    it("waits for a channel that is not registered yet", async () => {
+        const outbox = new DeliveryOutbox(new AdapterRegistry());
+        await outbox.send("expire", [copy], info);
+        expect(outbox.stats.retrying).toBe(1);
+    });
+});
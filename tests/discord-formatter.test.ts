@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+    formatDiscordApprovalRequest,
+    formatDiscordApprovalResolved,
+    formatDiscordApprovalExpired,
+    formatDiscordEscalation,
+} from "../lib/discord-formatter.js";
+import type { ApprovalInfo } from "../types.js";
+
+const sampleInfo: ApprovalInfo = {
+    id: "abc12345-def6-7890-ghij-klmnopqrstuv",
+    command: "docker compose up -d",
+    cwd: "/home/user/app",
+    host: "gateway",
+    agent: "main",
+    security: "allowlist",
+    ask: "on-miss",
+    expires: "120s",
+};
+
+// ─── formatDiscordApprovalRequest ───────────────────────────────────────────
+
+describe("formatDiscordApprovalRequest", () => {
+    it("includes an embed with the command in a code block", () => {
+        const payload = formatDiscordApprovalRequest(sampleInfo) as any;
+        expect(payload.embeds).toHaveLength(1);
+        expect(payload.embeds[0].title).toContain("Exec Approval");
+        expect(payload.embeds[0].description).toBe("```\ndocker compose up -d\n```");
+    });
+
+    it("clips commands that would overflow the embed", () => {
+        const payload = formatDiscordApprovalRequest({ ...sampleInfo, command: "y".repeat(5000) }) as any;
+        expect(payload.embeds[0].description.length).toBeLessThanOrEqual(4096);
+        expect(payload.embeds[0].description).toContain("1100 more characters not shown");
+    });
+
+    it("includes the approval ID in the footer", () => {
+        const payload = formatDiscordApprovalRequest(sampleInfo) as any;
+        expect(payload.embeds[0].footer.text).toContain(sampleInfo.id);
+    });
+
+    it("includes an action row with 3 buttons", () => {
+        const payload = formatDiscordApprovalRequest(sampleInfo) as any;
+        expect(payload.components).toHaveLength(1);
+        expect(payload.components[0].type).toBe(1);
+        expect(payload.components[0].components).toHaveLength(3);
+    });
+
+    it("buttons have /approve commands as custom_ids", () => {
+        const payload = formatDiscordApprovalRequest(sampleInfo) as any;
+        const ids = payload.components[0].components.map((b: any) => b.custom_id);
+        expect(ids).toEqual([
+            `/approve ${sampleInfo.id} allow-once`,
+            `/approve ${sampleInfo.id} allow-always`,
+            `/approve ${sampleInfo.id} deny`,
+        ]);
+    });
+
+    it("adds a risk field and hides Always for high-risk commands", () => {
+        const payload = formatDiscordApprovalRequest({ ...sampleInfo, command: "git push -f" }) as any;
+        expect(payload.embeds[0].fields[0]).toEqual({ name: "Risk", value: "🔴 High risk\n• force push", inline: false });
+        expect(payload.components[0].components).toHaveLength(2);
+    });
+
+    it("adds an approvals field for multi-approver requests", () => {
+        const payload = formatDiscordApprovalRequest(
+            { ...sampleInfo, requiredApprovals: 2 },
+            [{ userId: "1", name: "@alice" }],
+        ) as any;
+        const field = payload.embeds[0].fields.find((f: any) => f.name === "Approvals");
+        expect(field.value).toBe("1/2 approvals — @alice");
+    });
+
+    it("keeps embedded triple backticks from closing the code block", () => {
+        const payload = formatDiscordApprovalRequest({ ...sampleInfo, command: "echo ```hi```" }) as any;
+        const inner = payload.embeds[0].description.slice(4, -4);
+        expect(inner).not.toContain("```");
+    });
+});
+
+// ─── formatDiscordApprovalResolved ──────────────────────────────────────────
+
+describe("formatDiscordApprovalResolved", () => {
+    it("shows the action label and removes buttons", () => {
+        const payload = formatDiscordApprovalResolved(sampleInfo, "deny") as any;
+        expect(payload.embeds[0].title).toContain("Denied");
+        expect(payload.components).toEqual([]);
+    });
+
+    it("shows allow-always label", () => {
+        const payload = formatDiscordApprovalResolved(sampleInfo, "allow-always") as any;
+        expect(payload.embeds[0].title).toContain("Always allowed");
+    });
+
+    it("shows the deny reason as a field", () => {
+        const payload = formatDiscordApprovalResolved(sampleInfo, "deny", "@alice", { reason: "wrong env" }) as any;
+        expect(payload.embeds[0].fields).toEqual([{ name: "Reason", value: "wrong env" }]);
+        expect(formatDiscordApprovalResolved(sampleInfo, "deny").embeds[0]).not.toHaveProperty("fields");
+    });
+
+    it("shows the escalation history as a field", () => {
+        const payload = formatDiscordApprovalResolved(sampleInfo, "allow-once", "@lead", {
+            escalations: [{ kind: "escalation", afterMs: 300_000, channels: ["discord"] }],
+        }) as any;
+        expect(payload.embeds[0].fields).toEqual([{ name: "History", value: "📣 escalated after 5m (discord)" }]);
+    });
+
+    it("shows an edited command as a diff", () => {
+        const payload = formatDiscordApprovalResolved(sampleInfo, "deny", "@alice", { editedCommand: "ls" }) as any;
+        expect(payload.embeds[0].title).toBe("✏️ Edited");
+        expect(payload.embeds[0].description).toBe("```diff\n- " + sampleInfo.command + "\n+ ls\n```");
+    });
+});
+
+// ─── formatDiscordEscalation ────────────────────────────────────────────────
+
+describe("formatDiscordEscalation", () => {
+    it("adds the escalation line as content and keeps the buttons", () => {
+        const payload = formatDiscordEscalation(sampleInfo, 300_000, "<@&42>") as any;
+        expect(payload.content).toBe("📣 **Escalated** — no decision after 5m · <@&42>");
+        expect(payload.components).toHaveLength(1);
+    });
+});
+
+// ─── formatDiscordApprovalExpired ───────────────────────────────────────────
+
+describe("formatDiscordApprovalExpired", () => {
+    it("shows expiry title and removes buttons", () => {
+        const payload = formatDiscordApprovalExpired(sampleInfo) as any;
+        expect(payload.embeds[0].title).toContain("Expired");
+        expect(payload.components).toEqual([]);
+    });
+});
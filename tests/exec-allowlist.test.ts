@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+import { GatewayExecAllowlist } from "../lib/exec-allowlist.js";
+import type { Logger } from "../types.js";
+
+const silentLog: Logger = { info: () => {}, warn: () => {}, error: () => {} };
+
+function snapshot() {
+    return {
+        hash: "h1",
+        file: {
+            version: 1,
+            agents: {
+                main: {
+                    security: "allowlist",
+                    allowlist: [
+                        { pattern: "/usr/bin/git", lastResolvedPath: "/usr/bin/git" },
+                        { pattern: "git" },
+                        { pattern: "/usr/bin/npm" },
+                    ],
+                },
+                other: { allowlist: [{ pattern: "git" }] },
+            },
+        },
+    };
+}
+
+describe("GatewayExecAllowlist", () => {
+    it("removes the program's entries and writes back with the base hash", async () => {
+        const call = vi.fn(async (method: string, _params: Record<string, unknown>) =>
+            method === "exec.approvals.get" ? snapshot() : {},
+        );
+        const allowlist = new GatewayExecAllowlist(call, silentLog);
+
+        expect(await allowlist.removeProgram("main", "git")).toBe(2);
+
+        const [method, params] = call.mock.calls[1];
+        expect(method).toBe("exec.approvals.set");
+        expect(params.baseHash).toBe("h1");
+        const agents = (params.file as any).agents;
+        expect(agents.main).toEqual({ security: "allowlist", allowlist: [{ pattern: "/usr/bin/npm" }] });
+        expect(agents.other.allowlist).toHaveLength(1);
+    });
+
+    it("does not write when nothing matches", async () => {
+        const call = vi.fn(async () => snapshot());
+        expect(await new GatewayExecAllowlist(call).removeProgram("main", "curl")).toBe(0);
+        expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns null when the gateway call fails", async () => {
+        const call = vi.fn(async (method: string) => {
+            if (method === "exec.approvals.set") throw new Error("base hash mismatch");
+            return snapshot();
+        });
+        expect(await new GatewayExecAllowlist(call, silentLog).removeProgram("main", "git")).toBeNull();
+    });
+});
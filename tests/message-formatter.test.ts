@@ -4,10 +4,34 @@ import {
     formatApprovalRequest,
     formatApprovalResolved,
     formatApprovalExpired,
+    formatCommandHtml,
+    clipCommand,
+    telegramCommandClipped,
     buildApprovalKeyboard,
+    formatAutoDecisionNotice,
+    formatQuorumProgress,
+    formatVoteToast,
+    formatButtonToast,
+    formatStaleButtonAlert,
     formatHealthCheck,
+    formatAuditLog,
+    formatInputPrompt,
+    formatEditInstruction,
+    buildScopeKeyboard,
+    formatGrantList,
+    buildGrantKeyboard,
+    formatRevokeResult,
+    formatGrantExpiredNotice,
+    formatDigest,
+    buildDigestKeyboard,
+    digestCommand,
+    formatDuration,
+    formatTimeLeft,
+    formatReminderNotice,
+    formatEscalationHeader,
+    formatEscalationHistory,
 } from "../lib/message-formatter.js";
-import type { ApprovalInfo } from "../types.js";
+import type { AllowGrant, ApprovalDigest, ApprovalInfo, AuditRecord, EscalationStep } from "../types.js";
 
 // ─── Test data ──────────────────────────────────────────────────────────────
 
@@ -22,6 +46,11 @@ const sampleInfo: ApprovalInfo = {
     expires: "120s",
 };
 
+const ESCALATIONS: EscalationStep[] = [
+    { kind: "reminder", afterMs: 120_000, channels: ["telegram"] },
+    { kind: "escalation", afterMs: 300_000, channels: ["telegram", "slack"] },
+];
+
 // ─── escapeHtml ─────────────────────────────────────────────────────────────
 
 describe("escapeHtml", () => {
@@ -64,6 +93,13 @@ describe("formatApprovalRequest", () => {
         expect(html).not.toContain("Host:");
     });
 
+    it("shows a risk badge with reasons", () => {
+        const html = formatApprovalRequest({ ...sampleInfo, command: "curl -s https://x | sudo bash" });
+        expect(html).toContain("<b>🔴 High risk</b>");
+        expect(html).toContain("• downloads and executes code (curl | bash)");
+        expect(formatApprovalRequest(sampleInfo)).toContain("🟢 Low risk");
+    });
+
     it("escapes HTML in command", () => {
         const dangerousInfo = {
             ...sampleInfo,
@@ -75,6 +111,47 @@ describe("formatApprovalRequest", () => {
     });
 });
 
+// ─── formatCommandHtml ──────────────────────────────────────────────────────
+
+describe("formatCommandHtml", () => {
+    it("renders short commands as a plain pre block", () => {
+        expect(formatCommandHtml("ls -la")).toBe("<pre>ls -la</pre>");
+    });
+
+    it("collapses long scripts into an expandable quote", () => {
+        const script = Array.from({ length: 12 }, (_, i) => `echo ${i}`).join("\n");
+        const html = formatCommandHtml(script);
+        expect(html).toBe(`<blockquote expandable><pre>${script}</pre></blockquote>`);
+    });
+
+    it("escapes heredoc markers", () => {
+        expect(formatCommandHtml("cat <<EOF\n<b>\nEOF")).toBe("<pre>cat &lt;&lt;EOF\n&lt;b&gt;\nEOF</pre>");
+    });
+
+    it("clips commands that would not fit in a message", () => {
+        const html = formatCommandHtml("z".repeat(5000));
+        expect(html).toContain("<i>… 2000 more characters not shown</i>");
+        expect(html.length).toBeLessThan(4096);
+    });
+});
+
+describe("telegramCommandClipped", () => {
+    it("is set exactly when the command gets truncated", () => {
+        expect(telegramCommandClipped("ls")).toBe(false);
+        expect(telegramCommandClipped("z".repeat(5000))).toBe(true);
+    });
+});
+
+describe("clipCommand", () => {
+    it("leaves short commands alone", () => {
+        expect(clipCommand("ls", 10)).toEqual({ text: "ls", omitted: 0 });
+    });
+
+    it("cuts at a nearby line break", () => {
+        expect(clipCommand("aaaaaaaaa\nbbbbbbbbb", 11)).toEqual({ text: "aaaaaaaaa", omitted: 10 });
+    });
+});
+
 // ─── formatApprovalResolved ─────────────────────────────────────────────────
 
 describe("formatApprovalResolved", () => {
@@ -96,6 +173,36 @@ describe("formatApprovalResolved", () => {
         expect(html).toContain("Denied");
     });
 
+    it("shows who made the decision", () => {
+        const html = formatApprovalResolved(sampleInfo, "deny", "@alice");
+        expect(html).toContain("Denied</b> by @alice");
+    });
+
+    it("escapes the decider name", () => {
+        const html = formatApprovalResolved(sampleInfo, "deny", "<bob>");
+        expect(html).toContain("&lt;bob&gt;");
+    });
+
+    it("shows the deny reason under the header, escaped", () => {
+        const html = formatApprovalResolved(sampleInfo, "deny", "@alice", { reason: "not on <prod>" });
+        expect(html.split("\n")[1]).toBe("💬 <i>not on &lt;prod&gt;</i>");
+    });
+
+    it("shows an edited command as a diff against the original", () => {
+        const html = formatApprovalResolved({ ...sampleInfo, command: "cd /srv\nrm -rf build" }, "deny", "@alice", {
+            editedCommand: "cd /srv\nrm -rf build/tmp",
+        });
+        expect(html.split("\n")[0]).toBe("✏️ <b>Edited</b> by @alice");
+        expect(html).toContain('<pre><code class="language-diff">  cd /srv\n- rm -rf build\n+ rm -rf build/tmp</code></pre>');
+        expect(html).not.toContain("❌");
+    });
+
+    it("lists the reminders and escalations that preceded the decision", () => {
+        const html = formatApprovalResolved(sampleInfo, "allow-once", "@lead", { escalations: ESCALATIONS });
+        expect(html).toContain("<i>🔔 reminded after 2m · 📣 escalated after 5m (telegram, slack)</i>");
+        expect(formatApprovalResolved(sampleInfo, "allow-once")).not.toContain("🔔");
+    });
+
     it("does not include unnecessary internal fields (post-resolution)", () => {
         const html = formatApprovalResolved(sampleInfo, "allow-once");
         expect(html).not.toContain("Security:");
@@ -105,6 +212,37 @@ describe("formatApprovalResolved", () => {
     });
 });
 
+// ─── formatInputPrompt ──────────────────────────────────────────────────────
+
+describe("formatInputPrompt", () => {
+    it("asks for a reason and names the command and ID", () => {
+        const html = formatInputPrompt("reason", { ...sampleInfo, command: "rm <x>" });
+        expect(html).toContain("Why deny this command?");
+        expect(html).toContain("<pre>rm &lt;x&gt;</pre>");
+        expect(html).toContain(sampleInfo.id);
+    });
+
+    it("shortens long commands", () => {
+        const html = formatInputPrompt("reason", { ...sampleInfo, command: "x".repeat(500) });
+        expect(html).toContain("x".repeat(199) + "…");
+        expect(html).not.toContain("x".repeat(200));
+    });
+
+    it("shows the whole command to edit", () => {
+        const html = formatInputPrompt("edit", { ...sampleInfo, command: "x".repeat(500) });
+        expect(html).toContain("Edit this command");
+        expect(html).toContain("x".repeat(500));
+    });
+});
+
+describe("formatEditInstruction", () => {
+    it("tells the agent to run the edited command instead", () => {
+        const text = formatEditInstruction("ls -la /srv");
+        expect(text).toContain("Do not run it as written");
+        expect(text.endsWith("\nls -la /srv")).toBe(true);
+    });
+});
+
 // ─── formatApprovalExpired ──────────────────────────────────────────────────
 
 describe("formatApprovalExpired", () => {
@@ -139,6 +277,44 @@ describe("buildApprovalKeyboard", () => {
         expect(kb.inline_keyboard[1][0].callback_data).toBe("/approve test-id-123 deny");
     });
 
+    it("omits Always when asked to", () => {
+        const kb = buildApprovalKeyboard("test-id-123", false) as any;
+        const data = kb.inline_keyboard.flat().map((b: any) => b.callback_data);
+        expect(data).toEqual(["/approve test-id-123 allow-once", "/approve test-id-123 deny"]);
+    });
+
+    it("adds a Full command row when asked to", () => {
+        const kb = buildApprovalKeyboard("test-id-123", true, true) as any;
+        expect(kb.inline_keyboard).toHaveLength(3);
+        expect(kb.inline_keyboard[2][0]).toEqual({
+            text: "📄 Full command",
+            callback_data: "/approve test-id-123 full-command",
+        });
+    });
+
+    it("adds Edit and Deny with reason when asked to", () => {
+        const kb = buildApprovalKeyboard("test-id-123", true, false, true) as any;
+        expect(kb.inline_keyboard).toHaveLength(2);
+        expect(kb.inline_keyboard[0][2]).toEqual({
+            text: "✏️ Edit",
+            callback_data: "/approve test-id-123 edit",
+        });
+        expect(kb.inline_keyboard[1][1]).toEqual({
+            text: "❌ Deny with reason",
+            callback_data: "/approve test-id-123 deny-reason",
+        });
+    });
+
+    it("adds the timed allows as the second row when asked to", () => {
+        const kb = buildApprovalKeyboard("test-id-123", true, false, true, true) as any;
+        expect(kb.inline_keyboard).toHaveLength(3);
+        expect(kb.inline_keyboard[1]).toEqual([
+            { text: "⏱ 15 min", callback_data: "/approve test-id-123 allow-15m" },
+            { text: "⏱ 1 hour", callback_data: "/approve test-id-123 allow-1h" },
+        ]);
+        expect(kb.inline_keyboard[2][0].callback_data).toBe("/approve test-id-123 deny");
+    });
+
     it("has emoji labels on buttons", () => {
         const kb = buildApprovalKeyboard("x") as any;
         expect(kb.inline_keyboard[0][0].text).toContain("✅");
@@ -147,16 +323,246 @@ describe("buildApprovalKeyboard", () => {
     });
 });
 
+// ─── buildScopeKeyboard ─────────────────────────────────────────────────────
+
+describe("buildScopeKeyboard", () => {
+    it("has one button per scope, then Allow Once and Deny", () => {
+        const kb = buildScopeKeyboard(sampleInfo.id, [
+            { scope: "exact", preview: "docker compose up -d" },
+            { scope: "binary", preview: "docker …" },
+        ]).inline_keyboard;
+        expect(kb).toHaveLength(3);
+        expect(kb[0][0]).toEqual({
+            text: "🔏 Exact command: docker compose up -d",
+            callback_data: `/approve ${sampleInfo.id} always-exact`,
+        });
+        expect(kb[1][0].callback_data).toBe(`/approve ${sampleInfo.id} always-binary`);
+        expect(kb[2].map((b) => b.callback_data)).toEqual([
+            `/approve ${sampleInfo.id} allow-once`,
+            `/approve ${sampleInfo.id} deny`,
+        ]);
+    });
+});
+
+// ─── Approval digest ────────────────────────────────────────────────────────
+
+describe("approval digests", () => {
+    function digest(): ApprovalDigest {
+        return {
+            id: "1a2b3c4d",
+            agent: "main",
+            host: "gateway",
+            messages: [],
+            items: [
+                { info: sampleInfo, status: "allow-once", selected: true, decidedBy: "@alice" },
+                { info: { ...sampleInfo, command: "git status" }, status: "pending", selected: true },
+                { info: { ...sampleInfo, command: "rm -rf /var/lib" }, status: "pending", selected: false },
+            ],
+        };
+    }
+
+    it("lists every approval with its state", () => {
+        const text = formatDigest(digest());
+        expect(text).toContain("📚 <b>3 exec approvals</b> · 🤖 main@gateway");
+        expect(text).toContain("1 of 2 pending selected");
+        expect(text).toContain("1. ✅ <code>docker compose up -d</code>");
+        expect(text).toContain("Allowed (once) by @alice");
+        expect(text).toContain("2. ☑ <code>git status</code>");
+        expect(text).toContain("3. ☐ <code>rm -rf /var/lib</code>");
+        expect(text).toContain("🔴 High risk");
+    });
+
+    it("has a toggle per pending item and bulk buttons for the selection", () => {
+        const kb = (buildDigestKeyboard(digest()) as any).inline_keyboard;
+        expect(kb[0]).toEqual([
+            { text: "☑ 2", callback_data: "/approve 1a2b3c4d toggle-2" },
+            { text: "☐ 3", callback_data: "/approve 1a2b3c4d toggle-3" },
+        ]);
+        expect(kb[1].map((b: any) => b.text)).toEqual(["✅ Allow 1 once", "❌ Deny 1"]);
+        expect(kb[1][0].callback_data).toBe("/approve 1a2b3c4d allow-all");
+    });
+
+    it("says all when every pending item is selected, and drops the buttons once decided", () => {
+        const d = digest();
+        d.items[2].selected = true;
+        expect((buildDigestKeyboard(d) as any).inline_keyboard[1].map((b: any) => b.text)).toEqual([
+            "✅ Allow all once",
+            "❌ Deny all",
+        ]);
+        d.items[1].status = "deny";
+        d.items[2].status = "expired";
+        expect(buildDigestKeyboard(d)).toBeUndefined();
+        expect(formatDigest(d)).toContain("3. ⏰ <code>rm -rf /var/lib</code>");
+    });
+
+    it("shows the first line of long or multi-line commands", () => {
+        expect(digestCommand("make\nmake install")).toBe("make…");
+        expect(digestCommand("x".repeat(150))).toBe("x".repeat(100) + "…");
+    });
+});
+
+// ─── Countdown ──────────────────────────────────────────────────────────────
+
+describe("formatTimeLeft", () => {
+    it("rounds up to the minute, then to 15 seconds in the last two minutes", () => {
+        expect(formatTimeLeft(3_900_000)).toBe("1h 5m left");
+        expect(formatTimeLeft(3_600_000)).toBe("1h left");
+        expect(formatTimeLeft(241_000)).toBe("5m left");
+        expect(formatTimeLeft(120_000)).toBe("2m left");
+        expect(formatTimeLeft(100_000)).toBe("1m 45s left");
+        expect(formatTimeLeft(31_000)).toBe("45s left");
+        expect(formatTimeLeft(1_000)).toBe("15s left");
+        expect(formatTimeLeft(0)).toBe("expiring");
+    });
+});
+
+// ─── Reminders & escalation ─────────────────────────────────────────────────
+
+describe("reminders and escalation", () => {
+    it("formats durations compactly", () => {
+        expect(formatDuration(45_000)).toBe("45s");
+        expect(formatDuration(300_000)).toBe("5m");
+        expect(formatDuration(3_900_000)).toBe("1h 5m");
+        expect(formatDuration(7_200_000)).toBe("2h");
+    });
+
+    it("formats a reminder as plain text", () => {
+        expect(formatReminderNotice(sampleInfo, 120_000)).toBe(
+            `🔔 Still waiting for a decision (2m so far) · ${sampleInfo.agent}: ${sampleInfo.command}`,
+        );
+    });
+
+    it("formats the escalation header with an escaped mention", () => {
+        expect(formatEscalationHeader(300_000, "@lead")).toBe("📣 <b>Escalated</b> — no decision after 5m · @lead");
+        expect(formatEscalationHeader(300_000, "<ops>")).toContain("&lt;ops&gt;");
+        expect(formatEscalationHeader(45_000)).toBe("📣 <b>Escalated</b> — no decision after 45s");
+    });
+
+    it("summarizes the steps taken", () => {
+        expect(formatEscalationHistory(ESCALATIONS)).toBe(
+            "🔔 reminded after 2m · 📣 escalated after 5m (telegram, slack)",
+        );
+        expect(formatEscalationHistory([{ kind: "escalation", afterMs: 60_000, channels: [] }])).toBe("📣 escalated after 1m");
+        expect(formatEscalationHistory([])).toBe("");
+    });
+});
+
+// ─── Always grants ──────────────────────────────────────────────────────────
+
+describe("formatGrantList", () => {
+    const grant: AllowGrant = {
+        id: "1a2b3c4d",
+        scope: "prefix",
+        agent: "main",
+        command: "git push",
+        words: ["git", "push"],
+        approvalId: sampleInfo.id,
+        grantedBy: "@alice",
+        grantedAt: Date.UTC(2026, 0, 2, 3, 4),
+    };
+
+    it("lists each grant with its ID, scope and who granted it", () => {
+        const text = formatGrantList([grant, { ...grant, id: "9f8e7d6c", scope: "binary", words: ["npm"], command: "npm" }]);
+        expect(text).toContain("1a2b3c4d");
+        expect(text).toContain("Command prefix");
+        expect(text).toContain("git push …");
+        expect(text).toContain("@alice");
+        expect(text).toContain("OpenClaw allowlist");
+        expect(text).toContain("/approvalrules revoke");
+    });
+
+    it("shows when timed grants lapse", () => {
+        const timed = { ...grant, expiresAt: Date.UTC(2026, 0, 2, 4, 4) };
+        expect(formatGrantList([timed])).toContain("⏱ until 04:04Z");
+        expect(formatGrantExpiredNotice(timed)).toBe("⏱ Timed approval ended — main: git push … needs approval again");
+    });
+
+    it("says when there are no grants", () => {
+        expect(formatGrantList([])).toContain("No grants");
+    });
+
+    it("offers a Revoke button per grant", () => {
+        expect(buildGrantKeyboard([grant])).toEqual([
+            [{ text: "🗑 Revoke git push …", callback_data: "/approvalrules revoke 1a2b3c4d" }],
+        ]);
+    });
+
+    it("reports revocations and failures", () => {
+        expect(formatRevokeResult({ ok: true, grant })).toContain("git push");
+        expect(formatRevokeResult({ ok: false, reason: "unknown grant" })).toContain("No grant with that ID");
+    });
+});
+
+// ─── formatQuorumProgress ───────────────────────────────────────────────────
+
+describe("formatQuorumProgress", () => {
+    it("is null when one approval is enough", () => {
+        expect(formatQuorumProgress(sampleInfo, [])).toBeNull();
+    });
+
+    it("counts votes and names the approvers", () => {
+        const info = { ...sampleInfo, requiredApprovals: 2 };
+        expect(formatQuorumProgress(info, [])).toBe("0/2 approvals");
+        expect(formatQuorumProgress(info, [{ userId: "1", name: "@alice" }])).toBe("1/2 approvals — @alice");
+    });
+
+    it("is shown in the Telegram request, escaped", () => {
+        const html = formatApprovalRequest({ ...sampleInfo, requiredApprovals: 2 }, [{ userId: "1", name: "<b>" }]);
+        expect(html).toContain("👥 1/2 approvals — &lt;b&gt;");
+    });
+});
+
+// ─── formatAutoDecisionNotice ───────────────────────────────────────────────
+
+describe("formatAutoDecisionNotice", () => {
+    it("names the rule, agent and command", () => {
+        expect(formatAutoDecisionNotice(sampleInfo, "allow-once", "safe")).toBe(
+            `🤖 Auto-allowed by rule "safe" · main: docker compose up -d`,
+        );
+        expect(formatAutoDecisionNotice(sampleInfo, "deny", "no")).toContain("Auto-denied");
+    });
+
+    it("truncates long commands", () => {
+        const text = formatAutoDecisionNotice({ ...sampleInfo, command: "x".repeat(500) }, "deny", "r");
+        expect(text.length).toBeLessThan(260);
+        expect(text.endsWith("…")).toBe(true);
+    });
+});
+
+// ─── Button press feedback ──────────────────────────────────────────────────
+
+describe("formatButtonToast", () => {
+    it("confirms each action", () => {
+        expect(formatButtonToast("allow-once")).toBe("Allowed once ✓");
+        expect(formatButtonToast("allow-always")).toBe("Always allowed ✓");
+        expect(formatButtonToast("deny")).toBe("Denied ✓");
+    });
+});
+
+describe("formatVoteToast", () => {
+    it("reports progress towards the quorum", () => {
+        expect(formatVoteToast(1, 2, false)).toBe("Approval 1/2 recorded — waiting for 1 more approver");
+        expect(formatVoteToast(1, 3, true)).toBe("You already approved — waiting for 2 more approvers");
+    });
+});
+
+describe("formatStaleButtonAlert", () => {
+    it("names the short ID", () => {
+        const text = formatStaleButtonAlert("0e9a9d4d-c7e6-4893-972f-2c80d70162c5");
+        expect(text).toContain("0e9a9d4d…");
+        expect(text).toContain("already resolved or has expired");
+    });
+});
+
 // ─── formatHealthCheck ──────────────────────────────────────────────────────
 
 describe("formatHealthCheck", () => {
     it("shows green circle when healthy", () => {
         const text = formatHealthCheck({
             ok: true,
-            config: { telegramChatId: true, telegramToken: true, slackToken: false, slackChannel: false },
-            telegram: { reachable: true, botUsername: "test_bot" },
-            slack: { reachable: false, error: "not configured" },
+            channels: [{ id: "telegram", label: "Telegram", reachable: true, detail: "@test_bot" }],
             store: { pending: 0, totalProcessed: 5 },
+            parsing: { structured: 0, text: 0, defaulted: 0 },
             uptime: 180_000,
         });
         expect(text).toContain("🟢");
@@ -168,40 +574,157 @@ describe("formatHealthCheck", () => {
     it("shows red circle when unhealthy", () => {
         const text = formatHealthCheck({
             ok: false,
-            config: { telegramChatId: true, telegramToken: true, slackToken: false, slackChannel: false },
-            telegram: { reachable: false, error: "timeout" },
-            slack: { reachable: false, error: "not configured" },
+            channels: [{ id: "telegram", label: "Telegram", reachable: false, error: "timeout" }],
             store: { pending: 2, totalProcessed: 0 },
+            parsing: { structured: 0, text: 0, defaulted: 0 },
             uptime: 60_000,
         });
         expect(text).toContain("🔴");
         expect(text).toContain("timeout");
     });
 
-    it("shows slack status when configured", () => {
+    it("lists every registered channel", () => {
         const text = formatHealthCheck({
             ok: true,
-            config: { telegramChatId: false, telegramToken: false, slackToken: true, slackChannel: true },
-            telegram: { reachable: false, error: "not configured" },
-            slack: { reachable: true, teamName: "My Team" },
+            channels: [
+                { id: "slack", label: "Slack", reachable: true, detail: "My Team" },
+                { id: "discord", label: "Discord", reachable: true, detail: "approval-bot" },
+                { id: "matrix", label: "Matrix", reachable: false, error: "401" },
+            ],
             store: { pending: 1, totalProcessed: 3 },
+            parsing: { structured: 0, text: 0, defaulted: 0 },
             uptime: 120_000,
         });
-        expect(text).toContain("🟢");
-        expect(text).toContain("My Team");
         expect(text).toContain("Slack:");
+        expect(text).toContain("My Team");
+        expect(text).toContain("Discord:");
+        expect(text).toContain("approval-bot");
+        expect(text).toContain("Matrix:");
+        expect(text).toContain("401");
+    });
+
+    it("reports how approvals were parsed", () => {
+        const health = {
+            ok: true,
+            channels: [],
+            store: { pending: 0, totalProcessed: 0 },
+            parsing: { structured: 3, text: 2, defaulted: 0 },
+            uptime: 0,
+        };
+        expect(formatHealthCheck(health)).toContain(
+            "Parsed: 3 structured · 2 from text · 0 fell back to defaults",
+        );
+        expect(formatHealthCheck({ ...health, parsing: { structured: 0, text: 2, defaulted: 1 } })).toContain(
+            "1 fell back to defaults ⚠️",
+        );
+    });
+
+    it("shows outbound request counters for channels that report them", () => {
+        const text = formatHealthCheck({
+            ok: true,
+            channels: [
+                {
+                    id: "telegram",
+                    label: "Telegram",
+                    reachable: true,
+                    detail: "@bot",
+                    requests: { queued: 2, retries: 5, rateLimited: 3, failed: 1 },
+                },
+                { id: "discord", label: "Discord", reachable: true, detail: "approval-bot" },
+            ],
+            store: { pending: 0, totalProcessed: 0 },
+            parsing: { structured: 0, text: 0, defaulted: 0 },
+            uptime: 0,
+        });
+        expect(text).toContain("↻ 2 queued · 5 retried · 3 rate-limited · 1 failed ⚠️");
+        expect(text.match(/↻/g)).toHaveLength(1);
+    });
+
+    it("shows the edits being retried and the last one given up on", () => {
+        const text = formatHealthCheck({
+            ok: true,
+            channels: [],
+            store: { pending: 0, totalProcessed: 0 },
+            parsing: { structured: 0, text: 0, defaulted: 0 },
+            outbox: {
+                retrying: 2,
+                redelivered: 4,
+                rejected: 1,
+                lastFailure: {
+                    kind: "expire",
+                    approvalId: "abc12345-def6-7890",
+                    channel: "telegram",
+                    error: "Bad Request: message to edit not found",
+                    at: 0,
+                },
+            },
+            uptime: 0,
+        });
+        expect(text).toContain("Edits: 2 retrying · 4 delivered on retry · 1 failed ⚠️");
+        expect(text).toContain("Last failure: expire of abc12345… on telegram — Bad Request: message to edit not found");
+    });
+
+    it("says so when no channel is registered", () => {
+        const text = formatHealthCheck({
+            ok: false,
+            channels: [],
+            store: { pending: 0, totalProcessed: 0 },
+            parsing: { structured: 0, text: 0, defaulted: 0 },
+            uptime: 0,
+        });
+        expect(text).toContain("No channels configured");
     });
 
     it("does not contain raw HTML tags", () => {
         const text = formatHealthCheck({
             ok: true,
-            config: { telegramChatId: true, telegramToken: true, slackToken: false, slackChannel: false },
-            telegram: { reachable: true, botUsername: "bot" },
-            slack: { reachable: false },
+            channels: [{ id: "telegram", label: "Telegram", reachable: true, detail: "@bot" }],
             store: { pending: 0, totalProcessed: 0 },
+            parsing: { structured: 0, text: 0, defaulted: 0 },
             uptime: 0,
         });
         expect(text).not.toContain("<b>");
         expect(text).not.toContain("</b>");
     });
 });
+
+// ─── formatAuditLog ─────────────────────────────────────────────────────────
+
+describe("formatAuditLog", () => {
+    const record: AuditRecord = {
+        ...sampleInfo,
+        channels: ["telegram", "slack"],
+        sentAt: 0,
+        resolvedAt: 12_000,
+        latencyMs: 12_000,
+        outcome: "deny",
+        decidedBy: "@alice",
+    };
+
+    it("shows outcome, decider, latency and command", () => {
+        const text = formatAuditLog([record]);
+        expect(text).toContain("last 1");
+        expect(text).toContain("❌ deny by @alice");
+        expect(text).toContain("12s");
+        expect(text).toContain("docker compose up -d");
+        expect(text).toContain("telegram, slack");
+    });
+
+    it("shows the deny reason", () => {
+        expect(formatAuditLog([{ ...record, reason: "wrong host" }])).toContain("  💬 wrong host");
+        expect(formatAuditLog([record])).not.toContain("💬");
+    });
+
+    it("shows the edited command", () => {
+        expect(formatAuditLog([{ ...record, editedCommand: "docker compose up" }])).toContain("  ✏️ $ docker compose up");
+    });
+
+    it("marks expired entries", () => {
+        const text = formatAuditLog([{ ...record, outcome: "expired", decidedBy: undefined }]);
+        expect(text).toContain("⏰ expired");
+    });
+
+    it("handles an empty log", () => {
+        expect(formatAuditLog([])).toContain("No decisions recorded yet");
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RequestScheduler, type AttemptOutcome, type RateLimit } from "../lib/request-scheduler.js";
+
+const LIMITS: Record<string, RateLimit> = {
+    global: { perSec: 10, burst: 10 },
+    "chat:1": { perSec: 1, burst: 2 },
+};
+
+function scheduler(random = () => 1) {
+    return new RequestScheduler("test-api", (bucket) => LIMITS[bucket] ?? LIMITS.global, undefined, random);
+}
+
+/** An attempt that returns the given outcomes in turn, then succeeds */
+function attempts(...outcomes: AttemptOutcome<string>[]) {
+    return vi.fn(async () => outcomes.shift() ?? { value: "ok" });
+}
+
+describe("RequestScheduler", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("runs calls within the burst right away", async () => {
+        const s = scheduler();
+        const call = attempts();
+        await Promise.all([s.run("a", ["chat:1"], true, call), s.run("b", ["chat:1"], true, call)]);
+        expect(call).toHaveBeenCalledTimes(2);
+        expect(s.stats.queued).toBe(0);
+    });
+
+    it("queues calls beyond the burst until the bucket refills", async () => {
+        const s = scheduler();
+        const call = attempts();
+        const done = Promise.all([1, 2, 3].map((n) => s.run(`m${n}`, ["global", "chat:1"], true, call)));
+        await vi.advanceTimersByTimeAsync(0);
+        expect(call).toHaveBeenCalledTimes(2);
+        expect(s.stats.queued).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(1_000);
+        await done;
+        expect(call).toHaveBeenCalledTimes(3);
+        expect(s.stats.queued).toBe(0);
+    });
+
+    it("waits out a 429's retry-after before trying again", async () => {
+        const s = scheduler();
+        const call = attempts({ value: "limited", retryAfterMs: 5_000 });
+        const done = s.run("send", ["chat:1"], false, call);
+        await vi.advanceTimersByTimeAsync(4_999);
+        expect(call).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(await done).toBe("ok");
+        expect(s.stats).toEqual({ queued: 0, retries: 1, rateLimited: 1, failed: 0 });
+    });
+
+    it("holds other calls on a rate-limited bucket too", async () => {
+        const s = scheduler();
+        const limited = attempts({ value: "limited", retryAfterMs: 3_000 });
+        const other = attempts();
+        const first = s.run("a", ["chat:1"], true, limited);
+        await vi.advanceTimersByTimeAsync(0);
+        const second = s.run("b", ["chat:1"], true, other);
+        await vi.advanceTimersByTimeAsync(2_000);
+        expect(other).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1_000);
+        await Promise.all([first, second]);
+        expect(other).toHaveBeenCalledTimes(1);
+    });
+
+    it("retries transient failures of idempotent calls with backoff", async () => {
+        const s = scheduler();
+        const call = attempts({ value: "down", transient: true }, { value: "down", transient: true });
+        const done = s.run("edit", ["global"], true, call);
+        await vi.advanceTimersByTimeAsync(500);
+        expect(call).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1_000);
+        expect(await done).toBe("ok");
+        expect(s.stats.retries).toBe(2);
+    });
+
+    it("jitters the backoff", async () => {
+        const s = scheduler(() => 0);
+        const call = attempts({ value: "down", transient: true });
+        const done = s.run("edit", ["global"], true, call);
+        await vi.advanceTimersByTimeAsync(250);
+        expect(await done).toBe("ok");
+    });
+
+    it("does not retry transient failures of calls that are not idempotent", async () => {
+        const s = scheduler();
+        const call = attempts({ value: "down", transient: true });
+        expect(await s.run("send", ["global"], false, call)).toBe("down");
+        expect(call).toHaveBeenCalledTimes(1);
+        expect(s.stats).toEqual({ queued: 0, retries: 0, rateLimited: 0, failed: 1 });
+    });
+
+    it("returns the last outcome once retries run out", async () => {
+        const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+        const s = new RequestScheduler("test-api", () => LIMITS.global, log, () => 1);
+        const call = vi.fn(async () => ({ value: "down", transient: true }));
+        const done = s.run("edit", ["global"], true, call);
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(await done).toBe("down");
+        expect(call).toHaveBeenCalledTimes(4);
+        expect(s.stats.failed).toBe(1);
+        expect(log.warn).toHaveBeenCalledWith(expect.stringContaining("[test-api] edit failed after 3 retries: still failing"));
+    });
+
+    it("gives up on a retry-after longer than it is willing to wait", async () => {
+        const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+        const s = new RequestScheduler("test-api", () => LIMITS.global, log, () => 1);
+        const call = attempts({ value: "limited", retryAfterMs: 300_000 });
+        expect(await s.run("send", ["global"], true, call)).toBe("limited");
+        expect(call).toHaveBeenCalledTimes(1);
+        expect(s.stats.rateLimited).toBe(1);
+        expect(log.warn).toHaveBeenCalledWith("[test-api] send failed after 0 retries: retry_after 300s exceeds cap");
+    });
+});
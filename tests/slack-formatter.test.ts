@@ -3,9 +3,16 @@ import {
     formatSlackApprovalRequest,
     formatSlackApprovalResolved,
     formatSlackApprovalExpired,
+    formatSlackDigest,
+    formatSlackEscalation,
+    formatSlackInputModal,
+    formatSlackScopeModal,
+    INPUT_MODALS,
+    SCOPE_MODAL,
+    slackCommandBlocks,
     slackFallbackText,
 } from "../lib/slack-formatter.js";
-import type { ApprovalInfo } from "../types.js";
+import type { ApprovalDigest, ApprovalInfo } from "../types.js";
 
 const sampleInfo: ApprovalInfo = {
     id: "abc12345-def6-7890-ghij-klmnopqrstuv",
@@ -58,6 +65,32 @@ describe("formatSlackApprovalRequest", () => {
         expect(actions.elements[2].value).toBe(`/approve ${sampleInfo.id} deny`);
     });
 
+    it("adds Edit and Deny with reason buttons when asked to", () => {
+        const blocks = formatSlackApprovalRequest(sampleInfo, [], true) as any[];
+        const actions = blocks.find((b) => b.type === "actions");
+        expect(actions.elements.map((b: any) => b.value)).toEqual([
+            `/approve ${sampleInfo.id} allow-once`,
+            `/approve ${sampleInfo.id} allow-always`,
+            `/approve ${sampleInfo.id} edit`,
+            `/approve ${sampleInfo.id} deny`,
+            `/approve ${sampleInfo.id} deny-reason`,
+        ]);
+        expect(actions.elements[2].action_id).toBe("approval_edit");
+    });
+
+    it("adds a row of timed allows with the prompts, for single-approver requests only", () => {
+        const blocks = formatSlackApprovalRequest(sampleInfo, [], true) as any[];
+        const timed = blocks.filter((b) => b.type === "actions")[1];
+        expect(timed.elements.map((b: any) => [b.action_id, b.value])).toEqual([
+            ["approval_allow_15m", `/approve ${sampleInfo.id} allow-15m`],
+            ["approval_allow_1h", `/approve ${sampleInfo.id} allow-1h`],
+        ]);
+
+        const quorum = formatSlackApprovalRequest({ ...sampleInfo, requiredApprovals: 2 }, [], true) as any[];
+        expect(quorum.filter((b) => b.type === "actions")).toHaveLength(1);
+        expect((formatSlackApprovalRequest(sampleInfo) as any[]).filter((b) => b.type === "actions")).toHaveLength(1);
+    });
+
     it("includes command in a section block", () => {
         const blocks = formatSlackApprovalRequest(sampleInfo) as any[];
         const commandBlock = blocks.find(
@@ -81,6 +114,48 @@ describe("formatSlackApprovalRequest", () => {
         expect(allText).not.toContain("Host");
         expect(allText).not.toContain("*Ask:*");
     });
+
+    it("adds a progress line for multi-approver requests", () => {
+        const blocks = formatSlackApprovalRequest({ ...sampleInfo, requiredApprovals: 2 }, [
+            { userId: "U1", name: "@alice" },
+        ]) as any[];
+        expect(JSON.stringify(blocks)).toContain("1/2 approvals — @alice");
+        expect(blocks.at(-1).type).toBe("actions");
+    });
+
+    it("escapes approver names in the progress line", () => {
+        const blocks = formatSlackApprovalRequest({ ...sampleInfo, requiredApprovals: 2 }, [
+            { userId: "111", name: "<@U123>" },
+        ]) as any[];
+        expect(JSON.stringify(blocks)).toContain("1/2 approvals — &lt;@U123&gt;");
+        expect(JSON.stringify(blocks)).not.toContain("<@U123>");
+    });
+
+    it("has no progress line for ordinary requests", () => {
+        expect(JSON.stringify(formatSlackApprovalRequest(sampleInfo))).not.toContain("approvals");
+    });
+
+    it("shows a risk badge with reasons", () => {
+        const blocks = formatSlackApprovalRequest({ ...sampleInfo, command: "sudo apt update" }) as any[];
+        const risk = blocks.find((b) => b.type === "section" && b.text.text.includes("risk"));
+        expect(risk.text.text).toBe("*🟡 Medium risk*\n• runs as root (sudo)");
+    });
+
+    it("adds a Full command button only for truncated commands", () => {
+        const ids = (info: ApprovalInfo) =>
+            (formatSlackApprovalRequest(info) as any[]).find((b) => b.type === "actions").elements.map((e: any) => e.action_id);
+        expect(ids(sampleInfo)).not.toContain("approval_full_command");
+        const huge = formatSlackApprovalRequest({ ...sampleInfo, command: "y".repeat(20_000) }) as any[];
+        const button = huge.find((b) => b.type === "actions").elements.at(-1);
+        expect(button.action_id).toBe("approval_full_command");
+        expect(button.value).toBe(`/approve ${sampleInfo.id} full-command`);
+    });
+
+    it("hides Always Allow for high-risk commands", () => {
+        const blocks = formatSlackApprovalRequest({ ...sampleInfo, command: "rm -rf /" }) as any[];
+        const ids = blocks.at(-1).elements.map((e: any) => e.action_id);
+        expect(ids).toEqual(["approval_allow_once", "approval_deny"]);
+    });
 });
 
 // ─── formatSlackApprovalResolved ────────────────────────────────────────────
@@ -104,6 +179,42 @@ describe("formatSlackApprovalResolved", () => {
         expect(header.text.text).toContain("Denied");
     });
 
+    it("shows who made the decision", () => {
+        const blocks = formatSlackApprovalResolved(sampleInfo, "deny", "@alice") as any[];
+        const ctx = blocks.find((b) => b.type === "context");
+        expect(ctx.elements[0].text).toContain("by @alice");
+    });
+
+    it("escapes the decider so a display name cannot mention anyone", () => {
+        const blocks = formatSlackApprovalResolved(sampleInfo, "deny", "<!channel>") as any[];
+        const ctx = blocks.find((b) => b.type === "context");
+        expect(ctx.elements[0].text).toContain("by &lt;!channel&gt;");
+    });
+
+    it("shows the deny reason, escaped", () => {
+        const blocks = formatSlackApprovalResolved(sampleInfo, "deny", "@alice", { reason: "not <now>" }) as any[];
+        const texts = blocks.map((b) => b.text?.text ?? "");
+        expect(texts).toContain(":speech_balloon: _not &lt;now&gt;_");
+    });
+
+    it("shows an edited command as a diff", () => {
+        const blocks = formatSlackApprovalResolved(sampleInfo, "deny", "@alice", {
+            editedCommand: "docker compose up",
+        }) as any[];
+        expect(blocks[0].text.text).toBe("Edited");
+        const texts = blocks.map((b) => b.text?.text ?? "").join("\n");
+        expect(texts).toContain(`- ${sampleInfo.command}`);
+        expect(texts).toContain("+ docker compose up");
+    });
+
+    it("lists the reminders and escalations in a context block", () => {
+        const blocks = formatSlackApprovalResolved(sampleInfo, "allow-once", "@lead", {
+            escalations: [{ kind: "reminder", afterMs: 120_000, channels: ["slack"] }],
+        }) as any[];
+        const contexts = blocks.filter((b) => b.type === "context").map((b) => b.elements[0].text);
+        expect(contexts).toContain("🔔 reminded after 2m");
+    });
+
     it("does not include an actions block", () => {
         const blocks = formatSlackApprovalResolved(sampleInfo, "allow-once") as any[];
         const actions = blocks.find((b) => b.type === "actions");
@@ -111,6 +222,114 @@ describe("formatSlackApprovalResolved", () => {
     });
 });
 
+// ─── formatSlackEscalation ──────────────────────────────────────────────────
+
+describe("formatSlackEscalation", () => {
+    it("puts the escalation line with an unescaped mention above the request", () => {
+        const blocks = formatSlackEscalation(sampleInfo, 300_000, "<!subteam^S0123>") as any[];
+        expect(blocks[0].text.text).toBe(":mega: *Escalated* — no decision after 5m · <!subteam^S0123>");
+        expect(blocks[1].type).toBe("header");
+        expect(blocks.some((b) => b.type === "actions")).toBe(true);
+    });
+
+    it("keeps the escalation line above a redraw with votes", () => {
+        const info = { ...sampleInfo, requiredApprovals: 2 };
+        const blocks = formatSlackEscalation(info, 300_000, undefined, false, [{ userId: "U1", name: "@alice" }]) as any[];
+        expect(blocks[0].text.text).toBe(":mega: *Escalated* — no decision after 5m");
+        expect(JSON.stringify(blocks)).toContain("1/2 approvals");
+    });
+});
+
+// ─── formatSlackInputModal ──────────────────────────────────────────────────
+
+describe("formatSlackDigest", () => {
+    const digest = (): ApprovalDigest => ({
+        id: "1a2b3c4d",
+        agent: "main",
+        host: "gateway",
+        messages: [],
+        items: [
+            { info: sampleInfo, status: "deny", selected: true, decidedBy: "@bob" },
+            { info: { ...sampleInfo, command: "echo `date`" }, status: "pending", selected: true },
+        ],
+    });
+
+    it("has a section per approval with a toggle while it is pending", () => {
+        const blocks = formatSlackDigest(digest()) as any[];
+        const [first, second] = blocks.filter((b) => b.type === "section");
+        expect(first.text.text).toContain(":x: Denied by @bob");
+        expect(first.accessory).toBeUndefined();
+        expect(second.text.text).toContain("`echo 'date'`");
+        expect(second.accessory).toMatchObject({
+            text: { text: "Selected" },
+            action_id: "approval_digest_toggle_2",
+            value: "/approve 1a2b3c4d toggle-2",
+        });
+        const actions = blocks.find((b) => b.type === "actions");
+        expect(actions.elements.map((e: any) => [e.text.text, e.value])).toEqual([
+            ["Allow all once", "/approve 1a2b3c4d allow-all"],
+            ["Deny all", "/approve 1a2b3c4d deny-all"],
+        ]);
+    });
+
+    it("has no buttons once every approval is decided", () => {
+        const d = digest();
+        d.items[1].status = "expired";
+        const blocks = formatSlackDigest(d) as any[];
+        expect(blocks.some((b) => b.type === "actions" || b.accessory)).toBe(false);
+        expect(JSON.stringify(blocks)).toContain("all decided");
+    });
+});
+
+describe("formatSlackInputModal", () => {
+    it("carries the approval and response_url in private_metadata", () => {
+        const view = formatSlackInputModal("reason", sampleInfo, "https://hooks.slack.test/r") as any;
+        expect(view.type).toBe("modal");
+        expect(view.callback_id).toBe(INPUT_MODALS.reason.callbackId);
+        expect(JSON.parse(view.private_metadata)).toEqual({
+            id: sampleInfo.id,
+            responseUrl: "https://hooks.slack.test/r",
+        });
+    });
+
+    it("has a reason input under the known block and action IDs", () => {
+        const view = formatSlackInputModal("reason", sampleInfo) as any;
+        const input = view.blocks.find((b: any) => b.type === "input");
+        expect(input.block_id).toBe(INPUT_MODALS.reason.blockId);
+        expect(input.element).toMatchObject({ type: "plain_text_input", action_id: INPUT_MODALS.reason.actionId });
+    });
+
+    it("prefills the edit input with the command", () => {
+        const view = formatSlackInputModal("edit", sampleInfo) as any;
+        expect(view.callback_id).toBe(INPUT_MODALS.edit.callbackId);
+        const input = view.blocks.find((b: any) => b.type === "input");
+        expect(input.block_id).toBe(INPUT_MODALS.edit.blockId);
+        expect(input.element).toMatchObject({ action_id: INPUT_MODALS.edit.actionId, initial_value: sampleInfo.command });
+    });
+
+    it("cannot edit commands longer than a Slack input holds", () => {
+        expect(formatSlackInputModal("edit", { ...sampleInfo, command: "x".repeat(3001) })).toBeNull();
+    });
+});
+
+// ─── formatSlackScopeModal ──────────────────────────────────────────────────
+
+describe("formatSlackScopeModal", () => {
+    it("offers each scope as a radio option", () => {
+        const view = formatSlackScopeModal(sampleInfo, [
+            { scope: "exact", preview: sampleInfo.command },
+            { scope: "binary", preview: "x".repeat(80) },
+        ]) as any;
+        expect(view.callback_id).toBe(SCOPE_MODAL.callbackId);
+        expect(JSON.parse(view.private_metadata).id).toBe(sampleInfo.id);
+        const input = view.blocks.find((b: any) => b.type === "input");
+        expect(input.block_id).toBe(SCOPE_MODAL.blockId);
+        expect(input.element.action_id).toBe(SCOPE_MODAL.actionId);
+        expect(input.element.options.map((o: any) => o.value)).toEqual(["exact", "binary"]);
+        expect(input.element.options[1].description.text).toHaveLength(75);
+    });
+});
+
 // ─── formatSlackApprovalExpired ─────────────────────────────────────────────
 
 describe("formatSlackApprovalExpired", () => {
@@ -127,6 +346,41 @@ describe("formatSlackApprovalExpired", () => {
     });
 });
 
+// ─── slackCommandBlocks ─────────────────────────────────────────────────────
+
+describe("slackCommandBlocks", () => {
+    it("escapes the command and breaks embedded fences", () => {
+        const [block] = slackCommandBlocks("cat <<EOF\n```\na && b\n```\nEOF") as any[];
+        expect(block.text.text).toBe("```cat &lt;&lt;EOF\n`\u200b``\na &amp;&amp; b\n`\u200b``\nEOF```");
+    });
+
+    it("splits long scripts across sections at line breaks", () => {
+        const script = Array.from({ length: 200 }, (_, i) => `echo line ${i} ${"x".repeat(20)}`).join("\n");
+        const blocks = slackCommandBlocks(script) as any[];
+        expect(blocks.length).toBeGreaterThan(1);
+        for (const b of blocks) {
+            expect(b.type).toBe("section");
+            expect(b.text.text.length).toBeLessThanOrEqual(3000);
+            expect(b.text.text).toMatch(/^```echo line \d+/);
+        }
+        const joined = blocks.map((b) => b.text.text.slice(3, -3)).join("\n");
+        expect(joined).toBe(script);
+    });
+
+    it("clips huge commands with a note", () => {
+        const blocks = slackCommandBlocks("y".repeat(20_000)) as any[];
+        const note = blocks.at(-1);
+        expect(note.type).toBe("context");
+        expect(note.elements[0].text).toMatch(/more characters not shown/);
+        expect(blocks.filter((b) => b.type === "section").every((b) => b.text.text.length <= 3000)).toBe(true);
+    });
+
+    it("never splits an escaped character", () => {
+        const blocks = slackCommandBlocks("&".repeat(1000)) as any[];
+        for (const b of blocks) expect(b.text.text.slice(3, -3)).toMatch(/^(&amp;)+$/);
+    });
+});
+
 // ─── slackFallbackText ──────────────────────────────────────────────────────
 
 describe("slackFallbackText", () => {
@@ -135,4 +389,10 @@ describe("slackFallbackText", () => {
         expect(text).toContain("docker compose up -d");
         expect(text).toContain("main");
     });
+
+    it("only includes the first line of a script", () => {
+        const text = slackFallbackText({ ...sampleInfo, command: "set -e\nmake deploy" });
+        expect(text).toContain("set -e…");
+        expect(text).not.toContain("make deploy");
+    });
 });
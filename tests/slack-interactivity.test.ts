@@ -0,0 +1,312 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHmac } from "node:crypto";
+import { Readable } from "node:stream";
+import {
+    SlackInteractivityHandler,
+    parseSlackButtonPress,
+    verifySlackSignature,
+} from "../lib/slack-interactivity.js";
+import { ApprovalCoordinator } from "../lib/approval-coordinator.js";
+import { ApprovalStore } from "../lib/approval-store.js";
+import { AdapterRegistry } from "../lib/channel-adapter.js";
+import type { ChannelAdapter, Logger } from "../types.js";
+
+const SECRET = "8f742231b10e8888abcd99yyyzzz85a5";
+const APPROVAL_ID = "0e9a9d4d-c7e6-4893-972f-2c80d70162c5";
+const NOW = 1_700_000_000_000;
+
+const silentLog: Logger = { info: () => {}, warn: () => {}, error: () => {} };
+
+function body(actionId: string, value: string, extra: Record<string, unknown> = {}): string {
+    const payload = {
+        type: "block_actions",
+        user: { id: "U1", username: "alice" },
+        response_url: "https://hooks.slack.test/actions/1",
+        actions: [{ action_id: actionId, value }],
+        ...extra,
+    };
+    return new URLSearchParams({ payload: JSON.stringify(payload) }).toString();
+}
+
+function submission(approvalId: string, reason: string, input: "reason" | "edit" = "reason"): string {
+    const value = { type: "plain_text_input", value: reason };
+    const payload = {
+        type: "view_submission",
+        user: { id: "U1", username: "alice" },
+        view: {
+            callback_id: input === "edit" ? "approval_edit_command" : "approval_deny_reason",
+            private_metadata: JSON.stringify({ id: approvalId, responseUrl: "https://hooks.slack.test/actions/1" }),
+            state: {
+                values: input === "edit" ? { command: { command_input: value } } : { reason: { reason_input: value } },
+            },
+        },
+    };
+    return new URLSearchParams({ payload: JSON.stringify(payload) }).toString();
+}
+
+function sign(raw: string, timestamp = String(NOW / 1000)): Record<string, string> {
+    const signature = "v0=" + createHmac("sha256", SECRET).update(`v0:${timestamp}:${raw}`).digest("hex");
+    return { "x-slack-request-timestamp": timestamp, "x-slack-signature": signature };
+}
+
+// ─── verifySlackSignature ───────────────────────────────────────────────────
+
+describe("verifySlackSignature", () => {
+    const raw = "payload=%7B%7D";
+
+    it("accepts a correctly signed request", () => {
+        const h = sign(raw);
+        expect(verifySlackSignature(SECRET, h["x-slack-request-timestamp"], raw, h["x-slack-signature"], NOW)).toEqual({
+            ok: true,
+        });
+    });
+
+    it("rejects a tampered body or the wrong secret", () => {
+        const h = sign(raw);
+        const ts = h["x-slack-request-timestamp"];
+        expect(verifySlackSignature(SECRET, ts, raw + "x", h["x-slack-signature"], NOW)).toEqual({
+            ok: false,
+            reason: "signature mismatch",
+        });
+        expect(verifySlackSignature("other", ts, raw, h["x-slack-signature"], NOW).ok).toBe(false);
+    });
+
+    it("rejects replays outside the five-minute window", () => {
+        const old = String(NOW / 1000 - 301);
+        const h = sign(raw, old);
+        expect(verifySlackSignature(SECRET, old, raw, h["x-slack-signature"], NOW)).toEqual({
+            ok: false,
+            reason: "timestamp outside window",
+        });
+    });
+
+    it("rejects requests without signature headers", () => {
+        expect(verifySlackSignature(SECRET, undefined, raw, undefined, NOW).ok).toBe(false);
+        expect(verifySlackSignature(SECRET, "soon", raw, "v0=00", NOW)).toEqual({ ok: false, reason: "bad timestamp" });
+    });
+});
+
+// ─── parseSlackButtonPress ──────────────────────────────────────────────────
+
+describe("parseSlackButtonPress", () => {
+    it("maps action_id to the approval action", () => {
+        expect(parseSlackButtonPress(body("approval_allow_always", `/approve ${APPROVAL_ID} allow-always`))).toEqual({
+            approvalId: APPROVAL_ID,
+            action: "allow-always",
+            user: { id: "U1", username: "alice" },
+            responseUrl: "https://hooks.slack.test/actions/1",
+        });
+        expect(parseSlackButtonPress(body("approval_full_command", `/approve ${APPROVAL_ID} full-command`))!.action).toBe(
+            "full-command",
+        );
+        expect(parseSlackButtonPress(body("approval_allow_1h", `/approve ${APPROVAL_ID} allow-1h`))!.action).toBe("allow-1h");
+    });
+
+    it("reads digest buttons from their value", () => {
+        expect(parseSlackButtonPress(body("approval_digest_toggle_3", "/approve 1a2b3c4d toggle-3"))).toMatchObject({
+            approvalId: "1a2b3c4d",
+            action: "toggle-3",
+        });
+        expect(parseSlackButtonPress(body("approval_digest_deny_all", "/approve 1a2b3c4d deny-all"))!.action).toBe("deny-all");
+        expect(parseSlackButtonPress(body("approval_digest_allow_all", `/approve ${APPROVAL_ID} allow-once`))).toBeNull();
+    });
+
+    it("ignores other apps' buttons and other interaction types", () => {
+        expect(parseSlackButtonPress(body("vote_yes", `/approve ${APPROVAL_ID} deny`))).toBeNull();
+        expect(parseSlackButtonPress(body("approval_deny", "something else"))).toBeNull();
+        expect(parseSlackButtonPress(body("approval_deny", `/approve ${APPROVAL_ID} deny`, { type: "view_submission" }))).toBeNull();
+    });
+
+    it("passes the trigger_id on for modals", () => {
+        const raw = body("approval_deny_reason", `/approve ${APPROVAL_ID} deny-reason`, { trigger_id: "t.1" });
+        expect(parseSlackButtonPress(raw)).toMatchObject({ action: "deny-reason", triggerId: "t.1" });
+    });
+
+    it("reads a submitted deny reason modal", () => {
+        const raw = submission(APPROVAL_ID, "touches prod");
+        expect(parseSlackButtonPress(raw)).toEqual({
+            approvalId: APPROVAL_ID,
+            action: "deny",
+            user: { id: "U1", username: "alice" },
+            responseUrl: "https://hooks.slack.test/actions/1",
+            detail: { reason: "touches prod" },
+        });
+    });
+
+    it("reads a submitted edit modal", () => {
+        expect(parseSlackButtonPress(submission(APPROVAL_ID, "ls -la", "edit"))).toMatchObject({
+            action: "deny",
+            detail: { editedCommand: "ls -la" },
+        });
+        expect(parseSlackButtonPress(body("approval_edit", `/approve ${APPROVAL_ID} edit`))!.action).toBe("edit");
+    });
+
+    it("reads a submitted Always scope picker", () => {
+        const payload = {
+            type: "view_submission",
+            user: { id: "U1", username: "alice" },
+            view: {
+                callback_id: "approval_always_scope",
+                private_metadata: JSON.stringify({ id: APPROVAL_ID }),
+                state: { values: { scope: { scope_input: { selected_option: { value: "prefix" } } } } },
+            },
+        };
+        const raw = (p: object) => new URLSearchParams({ payload: JSON.stringify(p) }).toString();
+
+        expect(parseSlackButtonPress(raw(payload))).toEqual({
+            approvalId: APPROVAL_ID,
+            action: "always-prefix",
+            user: { id: "U1", username: "alice" },
+            responseUrl: undefined,
+        });
+        payload.view.state.values.scope.scope_input.selected_option.value = "everything";
+        expect(parseSlackButtonPress(raw(payload))).toBeNull();
+    });
+
+    it("ignores other modals and tampered metadata", () => {
+        const other = JSON.parse(new URLSearchParams(submission(APPROVAL_ID, "x")).get("payload")!);
+        other.view.callback_id = "someone_else";
+        expect(parseSlackButtonPress(new URLSearchParams({ payload: JSON.stringify(other) }).toString())).toBeNull();
+        expect(parseSlackButtonPress(submission("../etc", "x"))).toBeNull();
+    });
+
+    it("returns null for malformed bodies", () => {
+        expect(parseSlackButtonPress("payload=%7Bnot-json")).toBeNull();
+        expect(parseSlackButtonPress("")).toBeNull();
+    });
+});
+
+// ─── SlackInteractivityHandler ──────────────────────────────────────────────
+
+describe("SlackInteractivityHandler", () => {
+    let store: ApprovalStore;
+    let slack: ChannelAdapter & Record<string, any>;
+    let dispatcher: { dispatch: ReturnType<typeof vi.fn> };
+    let handler: SlackInteractivityHandler;
+
+    beforeEach(async () => {
+        store = new ApprovalStore(600_000);
+        const registry = new AdapterRegistry();
+        slack = {
+            id: "slack",
+            label: "Slack",
+            sendRequest: vi.fn(async () => [{ channelId: "C1", ts: "1.0" }]),
+            markResolved: vi.fn(async () => true),
+            markExpired: vi.fn(async () => true),
+            acknowledge: vi.fn(async () => true),
+            probe: vi.fn(async () => ({ ok: true as const, detail: "team" })),
+        };
+        registry.register(slack);
+        dispatcher = { dispatch: vi.fn(async () => true) };
+        const coordinator = new ApprovalCoordinator(registry, store, silentLog, { dispatcher });
+        await coordinator.handleOutgoing(
+            `🔒 Exec approval required\nAgent: main\nCWD: /tmp\nCommand: \`ls\`\nExpires in: 120s\nID: ${APPROVAL_ID}`,
+            "slack",
+        );
+        handler = new SlackInteractivityHandler(SECRET, coordinator, silentLog);
+    });
+
+    afterEach(() => {
+        store.stop();
+    });
+
+    it("rejects unsigned requests with 401", () => {
+        const raw = body("approval_deny", `/approve ${APPROVAL_ID} deny`);
+        expect(handler.accept({}, raw, NOW)).toEqual({ status: 401 });
+    });
+
+    it("answers 200 without a press for unrelated interactions", () => {
+        const raw = body("vote_yes", "1");
+        expect(handler.accept(sign(raw), raw, NOW)).toEqual({ status: 200 });
+    });
+
+    it("submits a verified press and resolves the approval", async () => {
+        const raw = body("approval_deny", `/approve ${APPROVAL_ID} deny`);
+        const { status, press } = handler.accept(sign(raw), raw, NOW);
+
+        expect(status).toBe(200);
+        expect(await handler.process(press!)).toBe(true);
+        expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "deny", undefined);
+        expect(slack.markResolved).toHaveBeenCalledWith(
+            { channelId: "C1", ts: "1.0" },
+            expect.anything(),
+            "deny",
+            "@alice",
+            undefined,
+        );
+        expect(slack.acknowledge).toHaveBeenCalledWith(
+            expect.objectContaining({ responseUrl: "https://hooks.slack.test/actions/1" }),
+            "Denied ✓",
+            false,
+        );
+        expect(store.has(APPROVAL_ID)).toBe(false);
+    });
+
+    it("denies with the reason from a submitted modal", async () => {
+        const raw = submission(APPROVAL_ID, "wrong workspace");
+        const { press } = handler.accept(sign(raw), raw, NOW);
+
+        expect(await handler.process(press!)).toBe(true);
+        expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "deny", "wrong workspace");
+        expect(slack.markResolved).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.anything(),
+            "deny",
+            "@alice",
+            { reason: "wrong workspace" },
+        );
+    });
+
+    it("denies with an instruction to run the command from a submitted edit modal", async () => {
+        const raw = submission(APPROVAL_ID, "ls -la", "edit");
+        const { press } = handler.accept(sign(raw), raw, NOW);
+
+        expect(await handler.process(press!)).toBe(true);
+        expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "deny", expect.stringContaining("\nls -la"));
+        expect(slack.markResolved).toHaveBeenCalledWith(expect.anything(), expect.anything(), "deny", "@alice", {
+            editedCommand: "ls -la",
+        });
+    });
+
+    it("serves Node HTTP requests, answering before processing", async () => {
+        vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+        const raw = body("approval_allow_once", `/approve ${APPROVAL_ID} allow-once`);
+        const req = Object.assign(Readable.from([Buffer.from(raw)]), { method: "POST", headers: sign(raw) });
+        const res = { writeHead: vi.fn(() => res), end: vi.fn() };
+
+        await handler.handleHttp(req as any, res as any);
+        vi.useRealTimers();
+
+        expect(res.writeHead).toHaveBeenCalledWith(200);
+        expect(res.end.mock.invocationCallOrder[0]).toBeLessThan(dispatcher.dispatch.mock.invocationCallOrder[0]);
+        expect(store.has(APPROVAL_ID)).toBe(false);
+    });
+
+    it("refuses methods other than POST", async () => {
+        const res = { writeHead: vi.fn(() => res), end: vi.fn() };
+        await handler.handleHttp({ method: "GET", headers: {} } as any, res as any);
+        expect(res.writeHead).toHaveBeenCalledWith(405, { Allow: "POST" });
+    });
+
+    it("answers 413 to oversized bodies and 400 to aborted requests", async () => {
+        const big = { writeHead: vi.fn(() => big), end: vi.fn() };
+        const raw = "x".repeat(65 * 1024);
+        await handler.handleHttp(
+            Object.assign(Readable.from([Buffer.from(raw)]), { method: "POST", headers: {} }) as any,
+            big as any,
+        );
+        expect(big.writeHead).toHaveBeenCalledWith(413);
+
+        const aborted = Object.assign(
+            Readable.from(
+                (async function* () {
+                    throw new Error("aborted");
+                })(),
+            ),
+            { method: "POST", headers: {} },
+        );
+        const res = { writeHead: vi.fn(() => res), end: vi.fn() };
+        await handler.handleHttp(aborted as any, res as any);
+        expect(res.writeHead).toHaveBeenCalledWith(400);
+    });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Readable } from "node:stream";
+import { TelegramUpdateReceiver } from "../lib/telegram-updates.js";
+import { ApprovalCoordinator } from "../lib/approval-coordinator.js";
+import { ApprovalStore } from "../lib/approval-store.js";
+import { AdapterRegistry } from "../lib/channel-adapter.js";
+import type { TelegramApi, TelegramUpdate } from "../lib/telegram-api.js";
+import type { ChannelAdapter, Logger } from "../types.js";
+
+const APPROVAL_ID = "0e9a9d4d-c7e6-4893-972f-2c80d70162c5";
+const SECRET = "s3cret_token-1";
+
+const silentLog: Logger = { info: () => {}, warn: () => {}, error: () => {} };
+/** The request chat, plus an escalation target given by username */
+const CHATS = ["1", "@oncall"];
+
+function press(updateId: number, data: string): TelegramUpdate {
+    return {
+        update_id: updateId,
+        callback_query: {
+            id: `cbq-${updateId}`,
+            data,
+            from: { id: 42, username: "alice" },
+            message: { message_id: 10, chat: { id: 1 } },
+        },
+    };
+}
+
+function fakeApi(batches: (TelegramUpdate[] | null)[] = []) {
+    return {
+        getUpdates: vi.fn(async (): Promise<TelegramUpdate[] | null> => {
+            if (batches.length) return batches.shift()!;
+            // Stand-in for the long poll, so an idle loop yields to timers
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            return [];
+        }),
+        deleteWebhook: vi.fn(async () => true),
+        setWebhook: vi.fn(async () => true),
+    };
+}
+
+function request(body: string, headers: Record<string, string>, method = "POST") {
+    return Object.assign(Readable.from([Buffer.from(body)]), { method, headers });
+}
+
+function response() {
+    const res = { writeHead: vi.fn(() => res), end: vi.fn() };
+    return res;
+}
+
+describe("TelegramUpdateReceiver", () => {
+    let store: ApprovalStore;
+    let tg: ChannelAdapter & Record<string, any>;
+    let dispatcher: { dispatch: ReturnType<typeof vi.fn> };
+    let coordinator: ApprovalCoordinator;
+
+    beforeEach(async () => {
+        store = new ApprovalStore(600_000);
+        const registry = new AdapterRegistry();
+        tg = {
+            id: "telegram",
+            label: "Telegram",
+            sendRequest: vi.fn(async () => [{ chatId: "1", messageId: 10 }]),
+            markResolved: vi.fn(async () => true),
+            markExpired: vi.fn(async () => true),
+            acknowledge: vi.fn(async () => true),
+            promptInput: vi.fn(async () => "reply" as const),
+            probe: vi.fn(async () => ({ ok: true as const, detail: "@bot" })),
+        };
+        registry.register(tg);
+        dispatcher = { dispatch: vi.fn(async () => true) };
+        coordinator = new ApprovalCoordinator(registry, store, silentLog, { dispatcher });
+        await coordinator.handleOutgoing(
+            `🔒 Exec approval required\nAgent: main\nCWD: /tmp\nCommand: \`ls\`\nExpires in: 120s\nID: ${APPROVAL_ID}`,
+            "telegram",
+        );
+    });
+
+    afterEach(() => {
+        store.stop();
+    });
+
+    it("decides approvals from callback queries", async () => {
+        const receiver = new TelegramUpdateReceiver(fakeApi() as unknown as TelegramApi, coordinator, CHATS, silentLog);
+
+        expect(await receiver.handleUpdate(press(1, `/approve ${APPROVAL_ID} allow-once`))).toBe(true);
+        expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "allow-once", undefined);
+        expect(tg.acknowledge).toHaveBeenCalledWith(
+            expect.objectContaining({ callbackQueryId: "cbq-1" }),
+            "Allowed once ✓",
+            false,
+        );
+        expect(tg.markResolved).toHaveBeenCalledWith(expect.anything(), expect.anything(), "allow-once", "@alice", undefined);
+    });
+
+    it("ignores other callback data and other updates", async () => {
+        const receiver = new TelegramUpdateReceiver(fakeApi() as unknown as TelegramApi, coordinator, CHATS, silentLog);
+
+        expect(await receiver.handleUpdate(press(1, "menu:settings"))).toBe(false);
+        expect(await receiver.handleUpdate({ update_id: 2 })).toBe(false);
+        expect(dispatcher.dispatch).not.toHaveBeenCalled();
+    });
+
+    it("ignores presses and replies from chats the plugin does not post to", async () => {
+        const receiver = new TelegramUpdateReceiver(fakeApi() as unknown as TelegramApi, coordinator, CHATS, silentLog);
+        const elsewhere = press(1, `/approve ${APPROVAL_ID} allow-once`);
+        elsewhere.callback_query!.message!.chat = { id: 99 };
+
+        expect(await receiver.handleUpdate(elsewhere)).toBe(false);
+        expect(
+            await receiver.handleUpdate({
+                update_id: 2,
+                message: { message_id: 11, chat: { id: 99 }, from: { id: 42 }, text: "staging only" },
+            }),
+        ).toBe(false);
+        expect(dispatcher.dispatch).not.toHaveBeenCalled();
+        expect(tg.acknowledge).not.toHaveBeenCalled();
+
+        const escalated = press(3, `/approve ${APPROVAL_ID} deny`);
+        escalated.callback_query!.message!.chat = { id: -100123, username: "oncall" };
+        expect(await receiver.handleUpdate(escalated)).toBe(true);
+    });
+
+    it("takes a message after a deny reason prompt as the reason", async () => {
+        const receiver = new TelegramUpdateReceiver(fakeApi() as unknown as TelegramApi, coordinator, CHATS, silentLog);
+        const message = (text: string) => ({
+            update_id: 3,
+            message: { message_id: 11, chat: { id: 1 }, from: { id: 42, username: "alice" }, text },
+        });
+
+        expect(await receiver.handleUpdate(message("not now"))).toBe(false);
+        await receiver.handleUpdate(press(2, `/approve ${APPROVAL_ID} deny-reason`));
+        expect(tg.promptInput).toHaveBeenCalledWith(
+            "reason",
+            [{ chatId: "1", messageId: 10 }],
+            expect.anything(),
+            expect.objectContaining({ chatId: 1 }),
+        );
+
+        expect(await receiver.handleUpdate(message("staging only"))).toBe(true);
+        expect(dispatcher.dispatch).toHaveBeenCalledWith(APPROVAL_ID, "deny", "staging only");
+        expect(store.has(APPROVAL_ID)).toBe(false);
+    });
+
+    describe("webhook", () => {
+        it("rejects requests without the secret token", async () => {
+            const receiver = new TelegramUpdateReceiver(fakeApi() as unknown as TelegramApi, coordinator, CHATS, silentLog);
+            const handler = receiver.webhookHandler(SECRET);
+            const body = JSON.stringify(press(1, `/approve ${APPROVAL_ID} deny`));
+
+            const res = response();
+            await handler(request(body, { "x-telegram-bot-api-secret-token": "wrong" }) as any, res as any);
+            expect(res.writeHead).toHaveBeenCalledWith(401);
+
+            const res2 = response();
+            await handler(request(body, {}) as any, res2 as any);
+            expect(res2.writeHead).toHaveBeenCalledWith(401);
+            expect(store.has(APPROVAL_ID)).toBe(true);
+        });
+
+        it("processes updates carrying the secret token", async () => {
+            const receiver = new TelegramUpdateReceiver(fakeApi() as unknown as TelegramApi, coordinator, CHATS, silentLog);
+            const res = response();
+
+            await receiver.webhookHandler(SECRET)(
+                request(JSON.stringify(press(1, `/approve ${APPROVAL_ID} deny`)), {
+                    "x-telegram-bot-api-secret-token": SECRET,
+                }) as any,
+                res as any,
+            );
+
+            expect(res.writeHead).toHaveBeenCalledWith(200);
+            expect(store.has(APPROVAL_ID)).toBe(false);
+        });
+
+        it("answers 400 to malformed bodies", async () => {
+            const receiver = new TelegramUpdateReceiver(fakeApi() as unknown as TelegramApi, coordinator, CHATS, silentLog);
+            const res = response();
+            await receiver.webhookHandler(SECRET)(
+                request("{nope", { "x-telegram-bot-api-secret-token": SECRET }) as any,
+                res as any,
+            );
+            expect(res.writeHead).toHaveBeenCalledWith(400);
+        });
+
+        it("answers 413 to oversized bodies and 400 to aborted requests", async () => {
+            const receiver = new TelegramUpdateReceiver(fakeApi() as unknown as TelegramApi, coordinator, CHATS, silentLog);
+            const headers = { "x-telegram-bot-api-secret-token": SECRET };
+
+            const big = response();
+            await receiver.webhookHandler(SECRET)(request("x".repeat(65 * 1024), headers) as any, big as any);
+            expect(big.writeHead).toHaveBeenCalledWith(413);
+
+            const aborted = Object.assign(
+                Readable.from(
+                    (async function* () {
+                        throw new Error("aborted");
+                    })(),
+                ),
+                { method: "POST", headers },
+            );
+            const res = response();
+            await receiver.webhookHandler(SECRET)(aborted as any, res as any);
+            expect(res.writeHead).toHaveBeenCalledWith(400);
+        });
+
+        it("registers the webhook for callback queries and messages only", async () => {
+            const api = fakeApi();
+            const receiver = new TelegramUpdateReceiver(api as unknown as TelegramApi, coordinator, CHATS, silentLog);
+            expect(await receiver.registerWebhook("https://gw.example.com/hook", SECRET)).toBe(true);
+            expect(api.setWebhook).toHaveBeenCalledWith("https://gw.example.com/hook", SECRET, ["callback_query", "message"]);
+        });
+    });
+
+    describe("polling", () => {
+        it("advances the offset past every update it receives", async () => {
+            const api = fakeApi([[press(7, "menu"), press(8, `/approve ${APPROVAL_ID} deny`)], []]);
+            const receiver = new TelegramUpdateReceiver(api as unknown as TelegramApi, coordinator, CHATS, silentLog);
+
+            expect(await receiver.pollOnce()).toBe(true);
+            expect(await receiver.pollOnce()).toBe(true);
+
+            expect(api.getUpdates).toHaveBeenNthCalledWith(1, 0, 25, ["callback_query", "message"], expect.any(AbortSignal));
+            expect(api.getUpdates).toHaveBeenNthCalledWith(2, 9, 25, ["callback_query", "message"], expect.any(AbortSignal));
+            expect(store.has(APPROVAL_ID)).toBe(false);
+        });
+
+        it("reports failed polls", async () => {
+            const receiver = new TelegramUpdateReceiver(fakeApi([null]) as unknown as TelegramApi, coordinator, CHATS, silentLog);
+            expect(await receiver.pollOnce()).toBe(false);
+        });
+
+        it("removes the webhook, polls until stopped and backs off after failures", async () => {
+            const api = fakeApi([null, [press(1, `/approve ${APPROVAL_ID} deny`)]]);
+            const sleep = vi.fn(async () => {});
+            const receiver = new TelegramUpdateReceiver(api as unknown as TelegramApi, coordinator, CHATS, silentLog, sleep);
+
+            receiver.start();
+            await vi.waitFor(() => expect(store.has(APPROVAL_ID)).toBe(false));
+            await receiver.stop();
+
+            expect(api.deleteWebhook).toHaveBeenCalledTimes(1);
+            expect(sleep).toHaveBeenCalledWith(5_000);
+            const calls = api.getUpdates.mock.calls.length;
+            await new Promise((r) => setTimeout(r, 10));
+            expect(api.getUpdates.mock.calls.length).toBe(calls);
+        });
+
+        it("aborts the in-flight long poll on stop instead of waiting it out", async () => {
+            const api = fakeApi();
+            api.getUpdates.mockImplementation(
+                (_offset: number, _timeout: number, _allowed: string[], signal?: AbortSignal) =>
+                    new Promise<TelegramUpdate[] | null>((resolve) => signal?.addEventListener("abort", () => resolve(null))),
+            );
+            const sleep = vi.fn(async () => {});
+            const receiver = new TelegramUpdateReceiver(api as unknown as TelegramApi, coordinator, CHATS, silentLog, sleep);
+
+            receiver.start();
+            await vi.waitFor(() => expect(api.getUpdates).toHaveBeenCalledTimes(1));
+            await receiver.stop();
+
+            const [, , , signal] = api.getUpdates.mock.calls[0] as unknown as [number, number, string[], AbortSignal];
+            expect(signal.aborted).toBe(true);
+            expect(api.getUpdates).toHaveBeenCalledTimes(1);
+            expect(sleep).not.toHaveBeenCalled();
+        });
+    });
+});
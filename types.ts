@@ -23,33 +23,366 @@ export interface ApprovalInfo {
   ask: string;
   /** Time until approval expires (e.g., "120s") */
   expires: string;
+  /** Distinct approvers needed before the approval is forwarded (two-person rule; unset = 1) */
+  requiredApprovals?: number;
 }
 
 /**
- * Which channel the approval was sent on.
+ * Where an ApprovalInfo came from: structured hook metadata, or the
+ * human-readable approval text (regex fallback).
  */
-export type ApprovalChannel = "telegram" | "slack";
+export type ApprovalSource = "metadata" | "text";
+
+/**
+ * How much of an approval was actually read rather than defaulted.
+ * - high: structured data, or text with every core field present
+ * - partial: text where some core field fell back to a default
+ * - low: text where even the command could not be read
+ */
+export type ParseConfidence = "high" | "partial" | "low";
+
+/**
+ * A parsed approval request plus how it was obtained.
+ */
+export interface ParsedApproval {
+  info: ApprovalInfo;
+  source: ApprovalSource;
+  /** Text parser version (text source only) */
+  parserVersion?: number;
+  confidence: ParseConfidence;
+  /** Core fields that fell back to defaults (for metadata, only ever the expiry) */
+  defaulted: (keyof ApprovalInfo)[];
+}
+
+/**
+ * Counters of how approvals were parsed since startup.
+ */
+export interface ParseStats {
+  /** Read from structured event metadata */
+  structured: number;
+  /** Read from the approval text */
+  text: number;
+  /** Text parses where at least one core field fell back to a default */
+  defaulted: number;
+}
+
+/**
+ * Which channel the approval was sent on — the ID of a registered
+ * ChannelAdapter ("telegram", "slack", "discord", or a third-party ID).
+ */
+export type ApprovalChannel = string;
+
+/**
+ * One copy of an approval message, on one channel/chat.
+ */
+export interface SentMessage {
+  /** Which channel sent this copy */
+  channel: ApprovalChannel;
+  /** Adapter-specific reference to the sent message */
+  ref: MessageRef;
+  /** Set when the message shows a digest of several approvals (the digest ID) */
+  digest?: string;
+}
+
+/**
+ * One approver's vote towards a multi-approver (two-person rule) approval.
+ */
+export interface ApprovalVote {
+  /** Channel user ID — votes are counted per distinct ID */
+  userId: string;
+  /** Display name shown in the progress line (e.g. "@alice") */
+  name: string;
+}
 
 /**
  * A tracked approval that was sent with inline buttons.
+ * The same approval may be fanned out to several chats and channels;
+ * the first decision resolves every copy.
  */
 export interface SentApproval {
-  /** Which channel sent this approval */
-  channel: ApprovalChannel;
-  /** Telegram message_id (set when channel is "telegram") */
-  messageId: number;
-  /** Slack message timestamp (set when channel is "slack") */
-  slackTs: string;
+  /** Every copy of the approval message that was sent */
+  messages: SentMessage[];
   /** Parsed approval details */
   info: ApprovalInfo;
   /** Unix timestamp (ms) when the message was sent */
   sentAt: number;
+  /** Approvals collected so far when info.requiredApprovals > 1 */
+  votes?: ApprovalVote[];
+  /** Reminders and escalations sent while nobody answered, oldest first */
+  escalations?: EscalationStep[];
+  /** When the gateway expires the approval (epoch ms), read from info.expires */
+  deadline?: number;
+  /**
+   * Channels where a 🔏 Always scope picker was opened. It may have
+   * replaced the buttons on any of the channel's copies, so the countdown
+   * leaves those copies alone until the approval is decided.
+   */
+  scopePicker?: ApprovalChannel[];
+}
+
+/**
+ * A step taken for an approval nobody answered:
+ * - reminder: a reply to its messages, so the chat is notified again
+ * - escalation: the request re-sent, with buttons and a mention, to the
+ *   escalation targets
+ */
+export interface EscalationStep {
+  kind: "reminder" | "escalation";
+  /** How long after the request was sent the step was taken (ms) */
+  afterMs: number;
+  /** Channels the step reached (empty when every send failed) */
+  channels: ApprovalChannel[];
+}
+
+/**
+ * Reference to a message an adapter sent (e.g. chat ID + message ID).
+ *
+ * Refs are persisted with the pending approval, so they must be plain
+ * JSON: string/number values only.
+ */
+export type MessageRef = Record<string, string | number>;
+
+/**
+ * Result of an adapter connectivity probe.
+ * `detail` is a short human-readable identity (bot name, workspace…).
+ */
+export type ChannelProbe = { ok: true; detail: string } | { ok: false; error: string };
+
+/**
+ * Result of a message edit. A `permanent` failure (message deleted, bot
+ * removed from the chat) fails the same way however often it is retried.
+ */
+export type EditResult = { ok: true } | { ok: false; error: string; permanent: boolean };
+
+/**
+ * Contract every approval channel implements.
+ *
+ * The plugin drives the lifecycle generically: when OpenClaw sends an
+ * approval on channel `id`, the adapter posts the buttons and returns a
+ * ref; when the approval is resolved or goes stale, the adapter edits the
+ * referenced message. Adapters must not throw — return null/false instead.
+ */
+export interface ChannelAdapter<Ref extends MessageRef = MessageRef> {
+  /** Channel ID as reported by OpenClaw in hook ctx.channelId (e.g. "telegram") */
+  readonly id: string;
+  /** Human-readable name for logs and /approvalstatus */
+  readonly label: string;
+  /**
+   * Send the approval request with buttons to every target chat the
+   * adapter is configured for. Returns one ref per message actually sent
+   * (empty on total failure).
+   */
+  sendRequest(info: ApprovalInfo): Promise<Ref[]>;
+  /**
+   * Edit the message to show the decision (who made it, any reason or
+   * edit) and remove the buttons. Edits that fail are retried by the
+   * delivery outbox; return an EditResult rather than false to tell it
+   * why, and whether retrying can help.
+   */
+  markResolved(
+    ref: Ref,
+    info: ApprovalInfo,
+    action: ApprovalAction,
+    decidedBy?: string,
+    detail?: DecisionDetail,
+  ): Promise<boolean | EditResult>;
+  /** Edit the message to show that the approval expired (retried like markResolved). */
+  markExpired(ref: Ref, info: ApprovalInfo): Promise<boolean | EditResult>;
+  /** Check connectivity / credentials. */
+  probe(): Promise<ChannelProbe>;
+  /**
+   * Optional: re-render the pending request (buttons kept) with the votes
+   * collected so far. Used for approvals that need several approvers.
+   */
+  markProgress?(ref: Ref, info: ApprovalInfo, votes: ApprovalVote[]): Promise<boolean>;
+  /**
+   * Optional: post a short plain-text notice (no buttons) to every target,
+   * e.g. "auto-allowed by rule X". Adapters escape the text as needed.
+   */
+  sendNotice?(text: string): Promise<boolean>;
+  /**
+   * Optional: answer a button press right away with a toast (or a modal
+   * alert when `alert` is set). `metadata` is the inbound message metadata
+   * from OpenClaw; return false when it carries no interaction to answer.
+   */
+  acknowledge?(metadata: Record<string, unknown>, text: string, alert: boolean): Promise<boolean>;
+  /**
+   * Optional: attach the complete command as a file next to the message
+   * (📄 Full command button). Adapters that implement it show the button
+   * whenever the command had to be truncated to fit the message.
+   */
+  sendFullCommand?(ref: Ref, info: ApprovalInfo): Promise<boolean>;
+  /**
+   * Optional: ask the presser of ❌ Deny with reason or ✏️ Edit for their
+   * text (`refs` are the approval's copies on this channel, `metadata` the
+   * press). Returns how the text will arrive, or null when the prompt could
+   * not be shown. Adapters that implement it show both buttons when
+   * constructed with prompts enabled.
+   */
+  promptInput?(
+    input: ApprovalInput,
+    refs: Ref[],
+    info: ApprovalInfo,
+    metadata: Record<string, unknown>,
+  ): Promise<InputPrompt | null>;
+  /**
+   * Optional: show the presser of 🔏 Always what it could allow
+   * (`options`, narrowest last is fine — order is kept). The choice comes
+   * back as a `/approve <id> always-<scope>` press. Returns false when the
+   * picker could not be shown; the press then allows always as before.
+   */
+  promptScope?(
+    refs: Ref[],
+    info: ApprovalInfo,
+    options: ScopeOption[],
+    metadata: Record<string, unknown>,
+  ): Promise<boolean>;
+  /**
+   * Optional: show `digest` on a message — one line per approval, Allow
+   * all / Deny all and a toggle per item while any is pending, no buttons
+   * once all are settled. Adapters that implement it get approvals that
+   * arrive in a burst as one digest message instead of one message each.
+   */
+  renderDigest?(ref: Ref, digest: ApprovalDigest): Promise<boolean>;
+  /**
+   * Optional: reply to a pending request's message with a short
+   * plain-text reminder (no buttons), so the chat is notified again.
+   * Adapters escape the text as needed.
+   */
+  sendReminder?(ref: Ref, text: string): Promise<boolean>;
+  /**
+   * Optional: send the request, with buttons, to extra `targets` (chat or
+   * channel IDs on this channel) under a line saying nobody answered for
+   * `afterMs` and mentioning `mention`. Returns one ref per message sent;
+   * these copies are resolved and expired like the others.
+   */
+  escalate?(info: ApprovalInfo, targets: string[], afterMs: number, mention?: string): Promise<Ref[]>;
+  /**
+   * Optional: counters from the adapter's outbound request scheduler
+   * (rate limiting and retries), shown in the health check.
+   */
+  requestStats?(): RequestStats;
+}
+
+/**
+ * Text an approver can give instead of pressing a plain decision:
+ * - reason: why the command is denied (❌ Deny with reason)
+ * - edit: a modified command to run instead (✏️ Edit)
+ */
+export type ApprovalInput = "reason" | "edit";
+
+/**
+ * How the approver's text arrives after the prompt:
+ * - reply: as the presser's next message on the channel (Telegram force_reply)
+ * - form: as a form submission handed to handleInteraction (Slack modal)
+ */
+export type InputPrompt = "reply" | "form";
+
+/**
+ * What an approver added to a decision. An edit denies the command as
+ * written and asks the agent to run `editedCommand` instead; a scope
+ * narrows an allow-always.
+ */
+export interface DecisionDetail {
+  /** Why the command was denied */
+  reason?: string;
+  /** Command the approver wants run instead of the original */
+  editedCommand?: string;
+  /** What an allow-always covers (default: the binary, OpenClaw's own behaviour) */
+  scope?: AlwaysScope;
+  /** Reminders and escalations that preceded the decision (set by the coordinator, for display) */
+  escalations?: EscalationStep[];
+}
+
+/**
+ * What a 🔏 Always grant covers:
+ * - exact: this exact command
+ * - prefix: the program and its first argument (`git push …`)
+ * - binary: the program with any arguments (OpenClaw's exec allowlist)
+ * - cwd: this exact command, only in this working directory
+ */
+export type AlwaysScope = "exact" | "prefix" | "binary" | "cwd";
+
+/**
+ * One choice in the 🔏 Always scope picker.
+ */
+export interface ScopeOption {
+  scope: AlwaysScope;
+  /** What it allows, for display (e.g. "git push …") */
+  preview: string;
+}
+
+/**
+ * An allow-always grant made through the plugin (listed by /approvalrules).
+ * Binary grants live in OpenClaw's exec allowlist; narrower ones are
+ * enforced by the plugin, which auto-allows matching approvals.
+ */
+export interface AllowGrant {
+  /** Short random ID used by /approvalrules revoke */
+  id: string;
+  scope: AlwaysScope;
+  /** Agent the grant applies to (OpenClaw allowlists are per agent) */
+  agent: string;
+  /** exact / cwd: the whole command. prefix / binary: the leading words */
+  command: string;
+  /** prefix / binary: the words the command must start with */
+  words?: string[];
+  /** cwd: the working directory the command must run in */
+  cwd?: string;
+  /** Approval the grant was made on */
+  approvalId: string;
+  grantedBy?: string;
+  /** Unix timestamp (ms) */
+  grantedAt: number;
+  /** Timed grants (⏱ 15 min / 1 hour): Unix timestamp (ms) the grant lapses at */
+  expiresAt?: number;
+}
+
+/**
+ * Resolution of an approval (allow-once, allow for a while, allow-always,
+ * deny).
+ */
+export type ApprovalAction = "allow-once" | TimedAction | "allow-always" | "deny";
+
+/**
+ * Allow this request and, for a while, requests like it. The plugin
+ * submits these as allow-once and auto-allows matches until the grant
+ * lapses.
+ */
+export type TimedAction = "allow-15m" | "allow-1h";
+
+/**
+ * Several approvals from the same agent and host that arrived in a burst,
+ * shown as a single message (see lib/approval-digest.ts).
+ */
+export interface ApprovalDigest {
+  /** Short random ID carried by the digest's buttons */
+  id: string;
+  agent: string;
+  host: string;
+  /** In arrival order; buttons number them from 1 */
+  items: DigestItem[];
+  /** The messages showing the digest (SentMessage.digest is this ID) */
+  messages: SentMessage[];
 }
 
 /**
- * Resolution of an approval (allow-once, allow-always, deny).
+ * One approval in a digest.
  */
-export type ApprovalAction = "allow-once" | "allow-always" | "deny";
+export interface DigestItem {
+  info: ApprovalInfo;
+  /** "pending" until decided, then the decision, or "expired" */
+  status: "pending" | AuditOutcome;
+  /** Included in Allow all / Deny all (high-risk items start unselected) */
+  selected: boolean;
+  decidedBy?: string;
+}
+
+/**
+ * A digest button: decide every selected pending item, or toggle item
+ * `toggle-<n>` (1-based) in or out of the selection.
+ */
+export type DigestAction = "allow-all" | "deny-all" | `toggle-${number}`;
 
 /**
  * Result of detecting an approval resolution in a message.
@@ -59,6 +392,39 @@ export interface ApprovalResolution {
   id: string;
   /** Action that was taken */
   action: ApprovalAction;
+  /** "gateway" for a gateway-initiated denial (the presser is tracked by the coordinator) */
+  decidedBy?: string;
+}
+
+/**
+ * Final outcome recorded in the audit log.
+ */
+export type AuditOutcome = ApprovalAction | "expired";
+
+/**
+ * One append-only audit log record (one JSONL line per decision).
+ */
+export interface AuditRecord extends ApprovalInfo {
+  /** Channels the approval buttons were sent on */
+  channels: ApprovalChannel[];
+  /** Unix timestamp (ms) when the buttons were sent */
+  sentAt: number;
+  /** Unix timestamp (ms) when the decision (or expiry) was observed */
+  resolvedAt: number;
+  /** resolvedAt - sentAt, in milliseconds */
+  latencyMs: number;
+  /** Decision taken, or "expired" */
+  outcome: AuditOutcome;
+  /** Approving user, where the channel exposes one */
+  decidedBy?: string;
+  /** Why the command was denied, when the approver gave a reason */
+  reason?: string;
+  /** Command the approver asked the agent to run instead (✏️ Edit) */
+  editedCommand?: string;
+  /** What an allow-always covers, when the approver picked a scope */
+  scope?: AlwaysScope;
+  /** Reminders and escalations sent before the outcome */
+  escalations?: EscalationStep[];
 }
 
 /**
@@ -67,31 +433,111 @@ export interface ApprovalResolution {
 export interface PluginConfig {
   /** Telegram chat ID to send approval buttons to */
   chatId?: string;
+  /** Additional Telegram chat IDs — approvals are fanned out to every chat */
+  chatIds?: string[];
   /** Telegram bot token (optional — falls back to channels.telegram.token) */
   botToken?: string;
+  /** Receive Telegram button presses directly: "webhook", "polling" or "off" (default: off) */
+  telegramUpdates?: TelegramUpdatesMode;
+  /** Public HTTPS base URL of the gateway, for telegramUpdates: "webhook" */
+  telegramWebhookUrl?: string;
+  /** Gateway HTTP path of the Telegram webhook (default: /approval-buttons/telegram/webhook) */
+  telegramWebhookPath?: string;
+  /** Secret Telegram must send in X-Telegram-Bot-Api-Secret-Token (default: random per start) */
+  telegramWebhookSecret?: string;
   /** Slack bot OAuth token (optional — falls back to channels.slack.token) */
   slackBotToken?: string;
   /** Slack channel/DM ID to send approval buttons to (optional — falls back to channels.slack config) */
   slackChannelId?: string;
-  /** Stale approval timeout in minutes (default: 10) */
+  /** Additional Slack channel/DM IDs — approvals are fanned out to every channel */
+  slackChannelIds?: string[];
+  /** Slack app signing secret — enables the built-in interactivity endpoint (optional — falls back to channels.slack.signingSecret) */
+  slackSigningSecret?: string;
+  /** HTTP path of the Slack interactivity endpoint (default: /approval-buttons/slack/interactions) */
+  slackInteractivityPath?: string;
+  /** Discord bot token (optional — falls back to channels.discord.token) */
+  discordBotToken?: string;
+  /** Discord channel ID to send approval buttons to (optional — falls back to a DM with channels.discord allowFrom[0]) */
+  discordChannelId?: string;
+  /** Longest an approval stays pending, in minutes — a cap on its gateway deadline (default: 10) */
   staleMins?: number;
   /** Enable verbose diagnostic logging (default: false) */
   verbose?: boolean;
+  /** Persist pending approvals and edits still being retried across gateway restarts (default: true) */
+  persist?: boolean;
+  /** Directory for plugin state files (default: OpenClaw state dir) */
+  stateDir?: string;
+  /** Write an append-only JSONL audit log of every decision (default: true) */
+  audit?: boolean;
+  /** Rotate the audit log once it exceeds this size in KB (default: 5120) */
+  auditMaxKb?: number;
+  /** Number of rotated audit files to keep (default: 5) */
+  auditMaxFiles?: number;
+  /** Per channel: user IDs allowed to press approval buttons (unset = anyone in the chat) */
+  approvers?: Record<string, string[] | string>;
+  /** Per channel: stricter list of user IDs allowed to press "Always" (unset = approvers) */
+  alwaysApprovers?: Record<string, string[] | string>;
+  /** Regexes (case-insensitive) for commands that need several approvers */
+  quorumPatterns?: string[];
+  /** Distinct approvers required for commands matching quorumPatterns (default: 2) */
+  quorumSize?: number;
+  /** Auto-decision policy file (default: <stateDir>/plugins/approval-buttons/policy.json) */
+  policyFile?: string;
+  /** Approvals from the same agent and host this many seconds apart share one digest message (default: 0 = off, max 60) */
+  batchWindowSecs?: number;
+  /** Keep the time left on pending requests up to date by editing them (default: true) */
+  liveCountdown?: boolean;
+  /** Reply to unanswered approvals with a reminder after this many seconds (default: 0 = off) */
+  remindAfterSecs?: number;
+  /** Re-send unanswered approvals to escalationTargets after this many seconds (default: 0 = off) */
+  escalateAfterSecs?: number;
+  /** Per channel: chat / channel IDs unanswered approvals are escalated to */
+  escalationTargets?: Record<string, string[] | string>;
+  /** Per channel: who an escalation mentions (e.g. "@oncall" on Telegram, "<!subteam^S0123>" on Slack) */
+  escalationMentions?: Record<string, string>;
 }
 
 /**
  * Resolved Telegram configuration.
  */
 export interface ResolvedTelegramConfig {
-  chatId: string;
+  /** Every chat approvals are sent to (at least one) */
+  chatIds: string[];
   botToken: string;
+  /** How the plugin receives button presses itself, or null to rely on OpenClaw */
+  updates: TelegramUpdatesConfig | null;
 }
 
+export type TelegramUpdatesMode = "webhook" | "polling" | "off";
+
+/**
+ * Direct Telegram update delivery: a webhook on the gateway's HTTP server,
+ * or long polling with getUpdates.
+ */
+export type TelegramUpdatesConfig =
+  | { mode: "webhook"; url: string; path: string; secret: string }
+  | { mode: "polling" };
+
 /**
  * Resolved Slack configuration.
  */
 export interface ResolvedSlackConfig {
+  /** Every channel/DM approvals are sent to (at least one) */
+  channelIds: string[];
+  botToken: string;
+  /** Signing secret; the interactivity endpoint is only served when set */
+  signingSecret?: string;
+  /** HTTP path of the interactivity endpoint */
+  interactivityPath: string;
+}
+
+/**
+ * Resolved Discord configuration.
+ * Exactly one of channelId / dmUserId is set; a DM channel is opened lazily for dmUserId.
+ */
+export interface ResolvedDiscordConfig {
   channelId: string;
+  dmUserId: string;
   botToken: string;
 }
 
@@ -101,8 +547,78 @@ export interface ResolvedSlackConfig {
 export interface ResolvedConfig {
   telegram: ResolvedTelegramConfig | null;
   slack: ResolvedSlackConfig | null;
+  discord: ResolvedDiscordConfig | null;
   staleMins: number;
   verbose: boolean;
+  /** OpenClaw state directory used for plugin files */
+  stateDir: string;
+  /** Persist pending approvals across restarts */
+  persist: boolean;
+  /** Audit log settings, or null when disabled */
+  audit: { maxBytes: number; maxFiles: number } | null;
+  /** Per channel ID: who may press approval buttons (channels without an entry are open) */
+  approvers: Record<string, string[]>;
+  /** Per channel ID: who may press "Always" (falls back to approvers) */
+  alwaysApprovers: Record<string, string[]>;
+  /** Two-person rule, or null when no quorumPatterns are configured */
+  quorum: QuorumRule | null;
+  /** Path of the auto-decision policy file (may not exist) */
+  policyFile: string;
+  /** Digest window in milliseconds (0 = every approval gets its own message) */
+  batchWindowMs: number;
+  /** Whether pending requests are edited to show the time left */
+  liveCountdown: boolean;
+  /** Reminders / escalation of unanswered approvals, or null when both are off */
+  escalation: EscalationConfig | null;
+}
+
+/**
+ * When and where unanswered approvals are chased.
+ */
+export interface EscalationConfig {
+  /** Age at which copies get a reminder reply (0 = never) */
+  remindAfterMs: number;
+  /** Age at which the request is re-sent to `targets` (0 = never) */
+  escalateAfterMs: number;
+  /** Per channel ID: where escalations go */
+  targets: Record<string, string[]>;
+  /** Per channel ID: mention added to the escalation */
+  mentions: Record<string, string>;
+}
+
+/**
+ * Commands matching any pattern need `size` distinct approvers.
+ */
+export interface QuorumRule {
+  patterns: RegExp[];
+  size: number;
+}
+
+/**
+ * Connectivity of one registered channel adapter.
+ */
+export interface ChannelHealth {
+  id: string;
+  label: string;
+  reachable: boolean;
+  /** Identity reported by the probe (bot name, workspace…) */
+  detail?: string;
+  error?: string;
+  /** Outbound API calls, when the adapter reports them */
+  requests?: RequestStats;
+}
+
+/**
+ * Outbound API calls of one channel client: `queued` is the number
+ * waiting right now (for a rate-limit token or a retry), the rest are
+ * totals since startup. `failed` counts calls that came back with a
+ * transient error or 429 without another retry.
+ */
+export interface RequestStats {
+  queued: number;
+  retries: number;
+  rateLimited: number;
+  failed: number;
 }
 
 /**
@@ -110,13 +626,114 @@ export interface ResolvedConfig {
  */
 export interface HealthCheck {
   ok: boolean;
-  config: { telegramChatId: boolean; telegramToken: boolean; slackToken: boolean; slackChannel: boolean };
-  telegram: { reachable: boolean; botUsername?: string; error?: string };
-  slack: { reachable: boolean; teamName?: string; error?: string };
+  channels: ChannelHealth[];
   store: { pending: number; totalProcessed: number };
+  parsing: ParseStats;
+  /** Message edits still being retried (omit when there is no outbox) */
+  outbox?: OutboxStats;
   uptime: number;
 }
 
+/**
+ * The lifecycle step a message edit belongs to:
+ * - resolve: show the decision
+ * - expire: show that the approval expired
+ * - escalate: retire an escalation copy that was sent after the decision
+ */
+export type OutboxKind = "resolve" | "expire" | "escalate";
+
+/**
+ * A message edit that did not go through at first, kept (and persisted)
+ * by the delivery outbox until the platform takes or refuses it.
+ */
+export interface OutboxItem {
+  id: string;
+  kind: OutboxKind;
+  message: SentMessage;
+  info: ApprovalInfo;
+  /** The decision to show (resolve only) */
+  decision?: { action: ApprovalAction; decidedBy?: string; detail?: DecisionDetail };
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+/**
+ * A message edit the outbox gave up on: refused by the platform, or
+ * still failing when it grew too old.
+ */
+export interface OutboxFailure {
+  kind: OutboxKind;
+  approvalId: string;
+  channel: ApprovalChannel;
+  error: string;
+  at: number;
+}
+
+/**
+ * Delivery outbox counters: edits waiting for a retry, and totals since
+ * startup of edits that went through on a retry or were given up on.
+ */
+export interface OutboxStats {
+  retrying: number;
+  redelivered: number;
+  rejected: number;
+  lastFailure?: OutboxFailure;
+}
+
+/**
+ * How dangerous a shell command looks to the static analyzer.
+ */
+export type RiskLevel = "low" | "medium" | "high";
+
+/**
+ * Risk assessment of a command: overall level plus the findings behind it.
+ */
+export interface CommandRisk {
+  level: RiskLevel;
+  /** Human-readable findings, most severe first (e.g. "recursive delete of /var") */
+  reasons: string[];
+}
+
+/**
+ * What a policy rule decides for a matching approval request.
+ */
+export type PolicyDecision = "allow" | "deny" | "ask";
+
+/**
+ * A policy rule as written in the policy file.
+ *
+ * Matchers are globs (`*`, `?`) or `/regex/flags`; an array matches if
+ * any entry does. Every field that is set must match.
+ */
+export interface PolicyRuleConfig {
+  name?: string;
+  command?: string | string[];
+  cwd?: string | string[];
+  host?: string | string[];
+  agent?: string | string[];
+  security?: string | string[];
+  decision: PolicyDecision;
+}
+
+/**
+ * Result of evaluating the policy for one approval.
+ */
+export interface PolicyVerdict {
+  decision: PolicyDecision;
+  /** Name of the rule that matched (absent when no rule matched) */
+  rule?: string;
+}
+
+/**
+ * Submits a decision for an approval on the user's behalf (auto-decisions).
+ * Returns false when the decision could not be delivered.
+ */
+export interface DecisionDispatcher {
+  dispatch(approvalId: string, action: ApprovalAction, reason?: string): Promise<boolean>;
+}
+
 /**
  * Minimal logger interface matching OpenClaw's plugin logger.
  */